@@ -0,0 +1,14 @@
+import { useCompareStore } from '@/lib/stores/useCompareStore'
+
+describe('useCompareStore', () => {
+  beforeEach(() => useCompareStore.getState().clear())
+
+  it('toggles symbols up to the limit', () => {
+    const { toggle } = useCompareStore.getState()
+    ;['H', 'He', 'Li', 'Be', 'B', 'C', 'N'].forEach(toggle)
+    expect(useCompareStore.getState().symbols).toEqual(['H', 'He', 'Li', 'Be', 'B', 'C'])
+
+    toggle('He')
+    expect(useCompareStore.getState().symbols).not.toContain('He')
+  })
+})
@@ -736,4 +736,225 @@ describe('useCompoundCanvasStore', () => {
       expect(result.current.externalFactors.pressure).toBeDefined()
     })
   })
+
+  describe('undo/redo', () => {
+    beforeEach(() => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+      act(() => {
+        result.current.setHistoryLimit(100)
+      })
+    })
+
+    it('should undo and redo element removal including its bonds', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+        result.current.addElement(mockHydrogen, { x: 160, y: 100 })
+      })
+      const oxygenId = result.current.canvasElements[0].id
+
+      act(() => {
+        result.current.removeElement(oxygenId)
+      })
+      expect(result.current.canvasElements).toHaveLength(1)
+      expect(result.current.bonds).toHaveLength(0)
+
+      act(() => {
+        result.current.undo()
+      })
+      expect(result.current.canvasElements).toHaveLength(2)
+      expect(result.current.bonds).toHaveLength(1)
+
+      act(() => {
+        result.current.redo()
+      })
+      expect(result.current.canvasElements).toHaveLength(1)
+      expect(result.current.bonds).toHaveLength(0)
+    })
+
+    it('should undo bond type changes', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+        result.current.addElement(mockHydrogen, { x: 160, y: 100 })
+      })
+      const bondId = result.current.bonds[0].id
+
+      act(() => {
+        result.current.updateBondType(bondId, 'ionic')
+      })
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.bonds[0].bondType).toBe('single')
+    })
+
+    it('should clear redo stack after a new change', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+        result.current.undo()
+      })
+      expect(result.current.canRedo()).toBe(true)
+
+      act(() => {
+        result.current.addElement(mockCarbon, { x: 300, y: 300 })
+      })
+      expect(result.current.canRedo()).toBe(false)
+    })
+
+    it('should not record actions that change nothing', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addBond('missing-1', 'missing-2', 'single')
+        result.current.selectElement(null)
+      })
+
+      expect(result.current.canUndo()).toBe(false)
+    })
+
+    it('should coalesce repeated moves and name edits', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+      })
+      const id = result.current.canvasElements[0].id
+
+      act(() => {
+        result.current.updateElementPosition(id, { x: 110, y: 100 })
+        result.current.updateElementPosition(id, { x: 120, y: 100 })
+        result.current.updateElementPosition(id, { x: 130, y: 100 })
+        result.current.setCompoundName('W')
+        result.current.setCompoundName('Wa')
+        result.current.setCompoundName('Water')
+      })
+      expect(result.current.past).toHaveLength(3)
+
+      act(() => {
+        result.current.undo()
+      })
+      expect(result.current.compoundName).toBe('')
+
+      act(() => {
+        result.current.undo()
+      })
+      expect(result.current.canvasElements[0].position).toEqual({ x: 100, y: 100 })
+    })
+
+    it('should group a transaction into one entry', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.beginTransaction()
+        result.current.addElement(mockHydrogen, { x: 100, y: 100 })
+        result.current.addElement(mockOxygen, { x: 160, y: 100 })
+        result.current.addElement(mockHydrogen, { x: 220, y: 100 })
+        result.current.commitTransaction()
+      })
+      expect(result.current.past).toHaveLength(1)
+
+      act(() => {
+        result.current.undo()
+      })
+      expect(result.current.canvasElements).toHaveLength(0)
+      expect(result.current.bonds).toHaveLength(0)
+    })
+
+    it('should record a load over existing work as one entry', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+      })
+      const drawn = result.current.canvasElements
+      const loaded = [{ ...drawn[0], id: 'loaded-c', element: mockCarbon }]
+
+      act(() => {
+        result.current.loadElementsDirectly(loaded, [], -1)
+      })
+      expect(result.current.past).toHaveLength(2)
+
+      act(() => {
+        result.current.undo()
+      })
+      expect(result.current.canvasElements).toEqual(drawn)
+      expect(result.current.charge).toBe(0)
+    })
+
+    it('should not make loading onto an empty canvas undoable', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.loadElementsDirectly([], [])
+      })
+      expect(result.current.canUndo()).toBe(false)
+    })
+
+    it('should undo external factors and description', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.setExternalFactors({ temperature: { enabled: true, value: 100, unit: 'C' } })
+        result.current.setCompoundDescription('Boiling water')
+      })
+      act(() => {
+        result.current.undo()
+        result.current.undo()
+      })
+
+      expect(result.current.externalFactors).toEqual({})
+      expect(result.current.compoundDescription).toBe('')
+    })
+
+    it('should clear selection of elements that no longer exist', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockNitrogen, { x: 100, y: 100 })
+      })
+      act(() => {
+        result.current.selectElement(result.current.canvasElements[0].id)
+        result.current.undo()
+      })
+
+      expect(result.current.selectedElementId).toBeNull()
+    })
+
+    it('should respect the depth limit', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.setHistoryLimit(2)
+        result.current.addElement(mockCarbon, { x: 0, y: 0 })
+        result.current.addElement(mockCarbon, { x: 300, y: 0 })
+        result.current.addElement(mockCarbon, { x: 600, y: 0 })
+      })
+      expect(result.current.past).toHaveLength(2)
+
+      act(() => {
+        result.current.undo()
+        result.current.undo()
+        result.current.undo()
+      })
+      expect(result.current.canvasElements).toHaveLength(1)
+    })
+
+    it('should start a fresh history on reset', () => {
+      const { result } = renderHook(() => useCompoundCanvasStore())
+
+      act(() => {
+        result.current.addElement(mockOxygen, { x: 100, y: 100 })
+        result.current.reset()
+      })
+
+      expect(result.current.canUndo()).toBe(false)
+      expect(result.current.canRedo()).toBe(false)
+    })
+  })
 })
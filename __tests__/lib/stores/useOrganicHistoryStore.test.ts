@@ -0,0 +1,116 @@
+import { renderHook, act } from '@testing-library/react'
+import { useOrganicHistoryStore } from '@/lib/stores/useOrganicHistoryStore'
+import { createTemplate } from '@/lib/utils/organic-templates'
+import { extendChain } from '@/lib/utils/organic-mutations'
+
+describe('useOrganicHistoryStore', () => {
+  beforeEach(() => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    act(() => {
+      result.current.clear()
+    })
+  })
+
+  it('should start with a single entry', () => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    const blank = createTemplate('blank-canvas')
+
+    act(() => {
+      result.current.start(blank, 'Blank canvas')
+    })
+
+    expect(result.current.graph).toBe(blank)
+    expect(result.current.entries).toHaveLength(1)
+    expect(result.current.canUndo()).toBe(false)
+    expect(result.current.canRedo()).toBe(false)
+  })
+
+  it('should undo and redo recorded mutations', () => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    const blank = createTemplate('blank-canvas')
+    const extended = extendChain(blank, blank.nodes[0].id)
+
+    act(() => {
+      result.current.start(blank, 'Blank canvas')
+    })
+    act(() => {
+      expect(result.current.recordMutation(extended, 'Extend chain from C1')).toBe(true)
+    })
+
+    expect(result.current.graph).toBe(extended.graph)
+    expect(result.current.entries.map((e) => e.label)).toEqual(['Blank canvas', 'Extend chain from C1'])
+
+    act(() => {
+      result.current.undo()
+    })
+    expect(result.current.graph).toBe(blank)
+    expect(result.current.canRedo()).toBe(true)
+
+    act(() => {
+      result.current.redo()
+    })
+    expect(result.current.graph).toBe(extended.graph)
+  })
+
+  it('should not record failed mutations', () => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    const blank = createTemplate('blank-canvas')
+
+    act(() => {
+      result.current.start(blank, 'Blank canvas')
+    })
+    act(() => {
+      expect(result.current.recordMutation({ success: false, error: 'Nope' }, 'Broken')).toBe(false)
+    })
+
+    expect(result.current.entries).toHaveLength(1)
+    expect(result.current.graph).toBe(blank)
+  })
+
+  it('should drop redo entries when recording after a jump', () => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    const blank = createTemplate('blank-canvas')
+
+    act(() => {
+      result.current.start(blank, 'Blank canvas')
+      result.current.record(createTemplate('alkane-chain', { chainLength: 2 }), 'Load Alkane Chain')
+      result.current.record(createTemplate('alcohol'), 'Load Alcohol')
+    })
+    act(() => {
+      result.current.jumpTo(0)
+    })
+    act(() => {
+      result.current.record(createTemplate('aromatic-ring'), 'Load Benzene')
+    })
+
+    expect(result.current.entries.map((e) => e.label)).toEqual(['Blank canvas', 'Load Benzene'])
+    expect(result.current.canRedo()).toBe(false)
+  })
+
+  it('should turn a previewed drag into one entry', () => {
+    const { result } = renderHook(() => useOrganicHistoryStore())
+    const blank = createTemplate('blank-canvas')
+    const moved = {
+      ...blank,
+      nodes: blank.nodes.map((n) => ({ ...n, position: { x: n.position.x + 10, y: n.position.y } })),
+    }
+
+    act(() => {
+      result.current.start(blank, 'Blank canvas')
+      result.current.commitPreview('Move C1')
+    })
+    expect(result.current.entries).toHaveLength(1)
+
+    act(() => {
+      result.current.preview(moved)
+    })
+    expect(result.current.graph).toBe(moved)
+    expect(result.current.entries).toHaveLength(1)
+
+    act(() => {
+      result.current.commitPreview('Move C1')
+    })
+    expect(result.current.entries).toHaveLength(2)
+    expect(result.current.entries[1].label).toBe('Move C1')
+  })
+})
@@ -0,0 +1,64 @@
+import {
+  enclosingRadius,
+  getOccupiedOrbitals,
+  getOutermostSubshell,
+  orbitalWavefunction,
+  probabilityIsovalue,
+  radialWavefunction,
+} from '@/lib/utils/atomic-orbitals'
+import { parseElectronConfiguration } from '@/lib/utils/electron-configuration'
+
+describe('getOccupiedOrbitals', () => {
+  it('half-fills each orbital before pairing', () => {
+    const oxygen = getOccupiedOrbitals(parseElectronConfiguration('[He] 2s2 2p4'))
+    expect(oxygen.filter((o) => o.l === 1).map((o) => o.electrons)).toEqual([2, 1, 1])
+    expect(oxygen.find((o) => o.id === '2s')?.electrons).toBe(2)
+  })
+
+  it('picks the last subshell filled under the Madelung rule', () => {
+    expect(getOutermostSubshell(parseElectronConfiguration('[Ar] 3d6 4s2'))?.label).toBe('3d')
+    expect(getOutermostSubshell(parseElectronConfiguration('[Ne] 3s2 3p4'))?.label).toBe('3p')
+  })
+})
+
+describe('wavefunctions', () => {
+  it('normalises the radial part', () => {
+    let total = 0
+    for (let r = 0.005; r < 80; r += 0.01) total += radialWavefunction(3, 2, r) ** 2 * r * r * 0.01
+    expect(total).toBeCloseTo(1, 3)
+  })
+
+  it('has n - l - 1 radial nodes', () => {
+    let signChanges = 0
+    let previous = radialWavefunction(3, 0, 0.01)
+    for (let r = 0.02; r < 40; r += 0.01) {
+      const value = radialWavefunction(3, 0, r)
+      if (Math.sign(value) !== Math.sign(previous)) signChanges++
+      previous = value
+    }
+    expect(signChanges).toBe(2)
+  })
+
+  it('orients the real orbitals along their axes', () => {
+    const orbital = { n: 2, l: 1, shape: 'pz' }
+    expect(orbitalWavefunction(orbital, 0, 0, 2)).toBeGreaterThan(0)
+    expect(orbitalWavefunction(orbital, 0, 0, -2)).toBeLessThan(0)
+    expect(orbitalWavefunction(orbital, 2, 0, 0)).toBeCloseTo(0)
+    expect(orbitalWavefunction({ n: 3, l: 2, shape: 'dx²-y²' }, 0, 3, 0)).toBeLessThan(0)
+  })
+
+  it('grows with n', () => {
+    expect(enclosingRadius(1, 0, 0.9)).toBeCloseTo(2.66, 1)
+    expect(enclosingRadius(2, 0, 0.9)).toBeGreaterThan(enclosingRadius(1, 0, 0.9))
+  })
+})
+
+describe('probabilityIsovalue', () => {
+  it('returns the smallest |ψ| inside the requested share of density', () => {
+    const values = Float32Array.from([3, -2, 1, 0])
+    // ψ² = 9, 4, 1, 0 of 14: 90% needs the 9 and 4, 95% the 1 as well
+    expect(probabilityIsovalue(values, 0.9)).toBe(2)
+    expect(probabilityIsovalue(values, 0.95)).toBe(1)
+    expect(probabilityIsovalue(values, 0.5)).toBe(3)
+  })
+})
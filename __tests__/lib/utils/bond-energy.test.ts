@@ -0,0 +1,85 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond, CompoundElement } from '@/lib/types/compound'
+import {
+  assignBondStrengths,
+  bondLabel,
+  estimateReactionEnthalpy,
+  getBondEnergy,
+  tallyFormulaBonds,
+} from '@/lib/utils/bond-energy'
+
+const allElements = elementsData as unknown as Element[]
+const elementLookup = new Map(allElements.map((e) => [e.symbol, e]))
+
+const tally = (formula: string) => tallyFormulaBonds(formula, elementLookup)!
+
+describe('bond energy table', () => {
+  it('looks up pairs in either order', () => {
+    expect(bondLabel('O', 'H', 1)).toBe('H-O')
+    expect(getBondEnergy('O', 'H', 1)).toBe(463)
+    expect(getBondEnergy('H', 'O', 1)).toBe(463)
+    expect(getBondEnergy('N', 'N', 3)).toBe(945)
+    expect(getBondEnergy('Xe', 'Xe', 1)).toBeNull()
+  })
+
+  it('fills Bond.strength using Lewis orders for generic covalent bonds', () => {
+    const elements: CompoundElement[] = ['O', 'C', 'O'].map((symbol, i) => ({ elementId: `a${i}`, symbol, count: 1 }))
+    const bonds: Bond[] = [
+      { id: 'b0', fromElementId: 'a0', toElementId: 'a1', bondType: 'covalent' },
+      { id: 'b1', fromElementId: 'a1', toElementId: 'a2', bondType: 'covalent' },
+    ]
+    expect(assignBondStrengths(elements, bonds, elementLookup).map((b) => b.strength)).toEqual([745, 745])
+  })
+})
+
+describe('estimateReactionEnthalpy', () => {
+  it('finds methane combustion exothermic', () => {
+    const result = estimateReactionEnthalpy(
+      [{ coefficient: 1, bonds: tally('CH4') }, { coefficient: 2, bonds: tally('O2') }],
+      [{ coefficient: 1, bonds: tally('CO2') }, { coefficient: 2, bonds: tally('H2O') }]
+    )
+    expect(result.success).toBe(true)
+    // 4(413) + 2(498) − [2(745) + 4(463)]
+    expect(result.deltaH).toBe(-694)
+    expect(result.classification).toBe('exothermic')
+    expect(result.breakdown!.find((t) => t.label === 'C-H')).toMatchObject({ broken: 4, formed: 0 })
+  })
+
+  it('finds splitting water endothermic', () => {
+    const result = estimateReactionEnthalpy(
+      [{ coefficient: 2, bonds: tally('H2O') }],
+      [{ coefficient: 2, bonds: tally('H2') }, { coefficient: 1, bonds: tally('O2') }]
+    )
+    expect(result.deltaH).toBe(4 * 463 - 2 * 436 - 498)
+    expect(result.classification).toBe('endothermic')
+  })
+
+  it('finds oxidising sulfur dioxide exothermic', () => {
+    const result = estimateReactionEnthalpy(
+      [{ coefficient: 2, bonds: tally('SO2') }, { coefficient: 1, bonds: tally('O2') }],
+      [{ coefficient: 2, bonds: tally('SO3') }]
+    )
+    expect(tally('SO3').counts).toEqual({ 'O=S': 3 })
+    expect(result.success).toBe(true)
+    expect(result.classification).toBe('exothermic')
+  })
+
+  it('breaks the C≡O triple bond when carbon monoxide burns', () => {
+    const result = estimateReactionEnthalpy(
+      [{ coefficient: 2, bonds: tally('CO') }, { coefficient: 1, bonds: tally('O2') }],
+      [{ coefficient: 2, bonds: tally('CO2') }]
+    )
+    expect(result.breakdown!.find((t) => t.label === 'C≡O')).toMatchObject({ broken: 2, formed: 0 })
+    expect(result.classification).toBe('exothermic')
+  })
+
+  it('fails when a bond that changes has no tabulated energy', () => {
+    const result = estimateReactionEnthalpy(
+      [{ coefficient: 1, bonds: { counts: { 'F-Xe': 2 }, ionicBonds: 0 } }],
+      [{ coefficient: 1, bonds: { counts: { 'F-F': 1 }, ionicBonds: 0 } }]
+    )
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('F-Xe')
+  })
+})
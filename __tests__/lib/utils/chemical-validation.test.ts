@@ -0,0 +1,98 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond, BondType } from '@/lib/types/compound'
+import { assignOxidationStates, validateCompound } from '@/lib/utils/chemical-validation'
+
+const elements = new Map((elementsData as unknown as Element[]).map((e) => [e.symbol, e]))
+
+// Canvas atoms from symbols, bonds from [from, to, type] index triples
+function compound(symbols: string[], links: Array<[number, number, BondType?]>) {
+  const atoms = symbols.map((symbol, i) => ({ id: `a${i}`, symbol, element: elements.get(symbol)! }))
+  const bonds: Bond[] = links.map(([from, to, bondType = 'single'], i) => ({
+    id: `b${i}`,
+    fromElementId: `a${from}`,
+    toElementId: `a${to}`,
+    bondType,
+  }))
+  return { atoms, bonds }
+}
+
+function states(symbols: string[], links: Array<[number, number, BondType?]>): number[] {
+  const { atoms, bonds } = compound(symbols, links)
+  const result = assignOxidationStates(atoms, bonds)
+  return atoms.map((atom) => result.states[atom.id])
+}
+
+describe('assignOxidationStates', () => {
+  it('should give shared electrons to the more electronegative atom', () => {
+    expect(states(['O', 'H', 'H'], [[0, 1], [0, 2]])).toEqual([-2, 1, 1])
+    expect(states(['C', 'O', 'O'], [[0, 1], [0, 2]])).toEqual([4, -2, -2])
+  })
+
+  it('should split electrons evenly between like atoms', () => {
+    expect(states(['O', 'O', 'H', 'H'], [[0, 1], [0, 2], [1, 3]])).toEqual([-1, -1, 1, 1])
+  })
+
+  it('should pick the iron state from its ionic bonds', () => {
+    expect(states(['Fe', 'Cl', 'Cl'], [[0, 1, 'ionic'], [0, 2, 'ionic']])[0]).toBe(2)
+    expect(states(['Fe', 'Cl', 'Cl', 'Cl'], [[0, 1, 'ionic'], [0, 2, 'ionic'], [0, 3, 'ionic']])[0]).toBe(3)
+    expect(states(['Fe', 'O'], [[0, 1, 'ionic']])).toEqual([2, -2])
+  })
+
+  it('should charge polyatomic ions as a whole', () => {
+    const sulfate = states(
+      ['Na', 'Na', 'S', 'O', 'O', 'O', 'O'],
+      [[2, 3], [2, 4], [2, 5], [2, 6], [0, 3, 'ionic'], [1, 4, 'ionic']]
+    )
+    expect(sulfate).toEqual([1, 1, 6, -2, -2, -2, -2])
+  })
+
+  it('should allow mixed valence', () => {
+    const magnetite = states(
+      ['Fe', 'Fe', 'Fe', 'O', 'O', 'O', 'O'],
+      [[0, 3, 'ionic'], [1, 4, 'ionic'], [1, 5, 'ionic'], [2, 5, 'ionic'], [2, 6, 'ionic'], [2, 3, 'ionic']]
+    )
+    expect(magnetite.slice(0, 3).sort()).toEqual([2, 3, 3])
+  })
+
+  it('should keep transition metals positive against their covalent partners', () => {
+    expect(states(['Fe', 'Cl', 'Cl', 'Cl'], [[0, 1], [0, 2], [0, 3]])).toEqual([3, -1, -1, -1])
+    expect(states(['Cr', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3]])).toEqual([6, -2, -2, -2])
+    expect(states(['K', 'Mn', 'O', 'O', 'O', 'O'], [[1, 2], [1, 3], [1, 4], [1, 5], [0, 2, 'ionic']])).toEqual([
+      1, 7, -2, -2, -2, -2,
+    ])
+  })
+})
+
+describe('validateCompound', () => {
+  it('should name iron chlorides from the structure', () => {
+    const iron2 = compound(['Fe', 'Cl', 'Cl'], [[0, 1, 'ionic'], [0, 2, 'ionic']])
+    expect(validateCompound(iron2.atoms, iron2.bonds).compoundName).toBe('Iron (II) chloride')
+
+    const iron3 = compound(['Fe', 'Cl', 'Cl', 'Cl'], [[0, 1, 'ionic'], [0, 2, 'ionic'], [0, 3, 'ionic']])
+    expect(validateCompound(iron3.atoms, iron3.bonds).compoundName).toBe('Iron (III) chloride')
+  })
+
+  it('should name covalently drawn transition-metal compounds', () => {
+    const iron3 = compound(['Fe', 'Cl', 'Cl', 'Cl'], [[0, 1], [0, 2], [0, 3]])
+    expect(validateCompound(iron3.atoms, iron3.bonds)).toMatchObject({ formula: 'FeCl₃', compoundName: 'Iron (III) chloride' })
+
+    const permanganate = compound(['K', 'Mn', 'O', 'O', 'O', 'O'], [[1, 2], [1, 3], [1, 4], [1, 5], [0, 2, 'ionic']])
+    const result = validateCompound(permanganate.atoms, permanganate.bonds)
+    expect(result.compoundName).toBe('Potassium permanganate')
+    expect(result.details?.oxidationStates).toEqual({ K: 1, Mn: 7, O: -2 })
+
+    const chromium = compound(['Cr', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3]])
+    expect(validateCompound(chromium.atoms, chromium.bonds).details?.oxidationStates).toEqual({ Cr: 6, O: -2 })
+  })
+
+  it('should report oxidation states in the details', () => {
+    const water = compound(['O', 'H', 'H'], [[0, 1], [0, 2]])
+    expect(validateCompound(water.atoms, water.bonds).details?.oxidationStates).toEqual({ O: -2, H: 1 })
+  })
+
+  it('should report oxidation states for charged structures', () => {
+    const nitrate = compound(['N', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3]])
+    expect(validateCompound(nitrate.atoms, nitrate.bonds, -1).details?.oxidationStates).toEqual({ N: 5, O: -2 })
+  })
+})
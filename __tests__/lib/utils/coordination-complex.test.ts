@@ -0,0 +1,87 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond } from '@/lib/types/compound'
+import { validateCompound, ValidationResult } from '@/lib/utils/chemical-validation'
+import { canFormDativeBond, resolveBondType } from '@/lib/utils/chemistry-helpers'
+import { determineCoordinationGeometry } from '@/lib/utils/coordination-complex'
+import { buildStructureFromFormula } from '@/lib/utils/formula-builder'
+
+const elements = new Map((elementsData as unknown as Element[]).map((e) => [e.symbol, e]))
+
+// Builds a formula the way the canvas loads it, then validates it
+function validate(formula: string): ValidationResult {
+  const { structure } = buildStructureFromFormula(formula, elements)
+  const atoms = structure!.atoms.map((atom, i) => ({ id: `a${i}`, symbol: atom.symbol, element: elements.get(atom.symbol)! }))
+  const bonds: Bond[] = structure!.bonds.map((bond, i) => ({
+    id: `b${i}`,
+    fromElementId: `a${bond.from}`,
+    toElementId: `a${bond.to}`,
+    bondType: bond.bondType,
+  }))
+  return validateCompound(atoms, bonds, structure!.charge)
+}
+
+describe('complex ions', () => {
+  it('names and charges cationic complexes', () => {
+    const result = validate('[Cu(NH3)4]2+')
+    expect(result.bondType).toBe('coordination')
+    expect(result.compoundName).toBe('Tetraamminecopper(II) ion')
+    expect(result.formula).toBe('[Cu(NH₃)₄]²⁺')
+    expect(result.details?.complexIon).toMatchObject({ charge: 2, coordinationNumber: 4, geometry: 'square-planar' })
+  })
+
+  it('uses -ate names for anionic complexes and balances counter-ions', () => {
+    const ferricyanide = validate('K3[Fe(CN)6]')
+    expect(ferricyanide.isValid).toBe(true)
+    expect(ferricyanide.compoundName).toBe('Potassium hexacyanidoferrate(III)')
+    expect(ferricyanide.formula).toBe('K₃[Fe(CN)₆]')
+    expect(ferricyanide.details?.complexIon).toMatchObject({ charge: -3, geometry: 'octahedral' })
+
+    expect(validate('K4[Fe(CN)6]').compoundName).toBe('Potassium hexacyanidoferrate(II)')
+  })
+
+  it('orders ligands alphabetically and counts chelates once per ligand', () => {
+    expect(validate('[CoCl(NH3)5]Cl2').compoundName).toBe('Pentaamminechloridocobalt(III) chloride')
+
+    const chelate = validate('[Co(en)3]3+')
+    expect(chelate.compoundName).toBe('Tris(ethylenediamine)cobalt(III) ion')
+    expect(chelate.formula).toBe('[Co(en)₃]³⁺')
+    expect(chelate.details?.complexIon?.coordinationNumber).toBe(6)
+  })
+
+  it('gives neutral carbonyls a zero-valent metal', () => {
+    expect(validate('[Ni(CO)4]').compoundName).toBe('Tetracarbonylnickel(0)')
+  })
+})
+
+describe('determineCoordinationGeometry', () => {
+  it('picks tetrahedral or square planar for four ligands', () => {
+    expect(determineCoordinationGeometry(4, elements.get('Zn')!, 2)).toBe('tetrahedral')
+    expect(determineCoordinationGeometry(4, elements.get('Ni')!, 2)).toBe('tetrahedral')
+    expect(determineCoordinationGeometry(4, elements.get('Ni')!, 2, true)).toBe('square-planar')
+    expect(determineCoordinationGeometry(4, elements.get('Pt')!, 2)).toBe('square-planar')
+    expect(determineCoordinationGeometry(6, elements.get('Fe')!, 3)).toBe('octahedral')
+  })
+})
+
+describe('dative bonds on the canvas', () => {
+  const bonds: Bond[] = [
+    { id: 'b1', fromElementId: 'n', toElementId: 'h1', bondType: 'single' },
+    { id: 'b2', fromElementId: 'n', toElementId: 'h2', bondType: 'single' },
+    { id: 'b3', fromElementId: 'n', toElementId: 'h3', bondType: 'single' },
+  ]
+
+  it('lets a saturated donor bond to a transition metal', () => {
+    const copper = elements.get('Cu')!
+    const nitrogen = elements.get('N')!
+    expect(canFormDativeBond(copper, nitrogen, 'cu', 'n', bonds)).toBe(true)
+    expect(resolveBondType(copper, nitrogen, 'cu', 'n', bonds)).toBe('dative')
+    expect(canFormDativeBond(elements.get('C')!, nitrogen, 'c', 'n', bonds)).toBe(false)
+  })
+
+  it('stops at the coordination number', () => {
+    const silver = elements.get('Ag')!
+    const taken: Bond[] = ['o1', 'o2'].map((id) => ({ id, fromElementId: id, toElementId: 'ag', bondType: 'dative' }))
+    expect(canFormDativeBond(silver, elements.get('Cl')!, 'ag', 'cl', taken)).toBe(false)
+  })
+})
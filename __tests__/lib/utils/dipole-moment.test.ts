@@ -0,0 +1,76 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond, CompoundElement } from '@/lib/types/compound'
+import { generate3DCoordinates } from '@/lib/utils/molecular-geometry'
+import { calculateDipoleMoment } from '@/lib/utils/dipole-moment'
+
+const allElements = elementsData as unknown as Element[]
+const elementLookup = new Map(allElements.map((e) => [e.symbol, e]))
+
+// Dipole of a central atom bonded to each ligand, laid out by VSEPR
+function dipoleOf(center: string, ligands: string[]) {
+  const elements: CompoundElement[] = [center, ...ligands].map((symbol, i) => ({ elementId: `a${i}`, symbol, count: 1 }))
+  const bonds: Bond[] = ligands.map((_, i) => ({
+    id: `b${i}`,
+    fromElementId: 'a0',
+    toElementId: `a${i + 1}`,
+    bondType: 'single',
+  }))
+  const { elements: positioned } = generate3DCoordinates(elements, bonds, allElements)
+  return calculateDipoleMoment(positioned, bonds, elementLookup)
+}
+
+// Dipole of a carbon chain from [from, to, type] index triples
+function chainDipoleOf(symbols: string[], links: Array<[number, number, Bond['bondType']]>) {
+  const elements: CompoundElement[] = symbols.map((symbol, i) => ({ elementId: `a${i}`, symbol, count: 1 }))
+  const bonds: Bond[] = links.map(([from, to, bondType], i) => ({
+    id: `b${i}`,
+    fromElementId: `a${from}`,
+    toElementId: `a${to}`,
+    bondType,
+  }))
+  const { elements: positioned } = generate3DCoordinates(elements, bonds, allElements)
+  return calculateDipoleMoment(positioned, bonds, elementLookup)
+}
+
+describe('calculateDipoleMoment', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('should point bond dipoles at the more electronegative atom', () => {
+    const water = dipoleOf('O', ['H', 'H'])
+    expect(water.bondDipoles).toHaveLength(2)
+    expect(water.bondDipoles.every((d) => d.negativeElementId === 'a0')).toBe(true)
+    expect(water.bondDipoles[0].moment).toBeCloseTo(1.24)
+  })
+
+  it('should find bent and pyramidal molecules polar', () => {
+    expect(dipoleOf('O', ['H', 'H']).polarity).toBe('polar')
+    expect(dipoleOf('N', ['H', 'H', 'H']).polarity).toBe('polar')
+  })
+
+  it('should cancel symmetric bond dipoles', () => {
+    expect(dipoleOf('C', ['O', 'O']).polarity).toBe('nonpolar')
+    expect(dipoleOf('B', ['F', 'F', 'F']).polarity).toBe('nonpolar')
+    expect(dipoleOf('C', ['Cl', 'Cl', 'Cl', 'Cl']).magnitude).toBeCloseTo(0)
+    expect(dipoleOf('Xe', ['F', 'F', 'F', 'F']).polarity).toBe('nonpolar')
+  })
+
+  it('should keep sp carbons linear in chains', () => {
+    const acetylene = chainDipoleOf(['C', 'C', 'H', 'H'], [[0, 1, 'triple'], [0, 2, 'single'], [1, 3, 'single']])
+    expect(acetylene.magnitude).toBeCloseTo(0)
+    expect(acetylene.polarity).toBe('nonpolar')
+
+    const ethylene = chainDipoleOf(
+      ['C', 'C', 'H', 'H', 'H', 'H'],
+      [[0, 1, 'double'], [0, 2, 'single'], [0, 3, 'single'], [1, 4, 'single'], [1, 5, 'single']]
+    )
+    expect(ethylene.polarity).toBe('nonpolar')
+  })
+
+  it('should leave partially substituted molecules polar', () => {
+    expect(dipoleOf('C', ['H', 'Cl', 'Cl', 'Cl']).polarity).toBe('polar')
+    expect(dipoleOf('S', ['F', 'F', 'F', 'F']).polarity).toBe('polar')
+  })
+})
@@ -0,0 +1,71 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import {
+  buildElectronConfiguration,
+  checkStoredConfiguration,
+  formatConfiguration,
+  getOrbitalOccupancy,
+  parseElectronConfiguration,
+} from '@/lib/utils/electron-configuration'
+import { formatElectronConfiguration } from '@/lib/utils/element-helpers'
+
+const elements = elementsData as unknown as Element[]
+const config = (atomicNumber: number, charge = 0) => formatConfiguration(buildElectronConfiguration(atomicNumber, charge))
+
+describe('buildElectronConfiguration', () => {
+  it('fills by the Madelung rule', () => {
+    expect(config(8)).toBe('[He] 2s2 2p4')
+    expect(config(26)).toBe('[Ar] 3d6 4s2')
+    expect(config(82)).toBe('[Xe] 4f14 5d10 6s2 6p2')
+    expect(formatConfiguration(buildElectronConfiguration(11), false)).toBe('1s2 2s2 2p6 3s1')
+  })
+
+  it('uses the measured ground state for known exceptions', () => {
+    expect(config(24)).toBe('[Ar] 3d5 4s1')
+    expect(config(29)).toBe('[Ar] 3d10 4s1')
+    expect(config(46)).toBe('[Kr] 4d10')
+    expect(config(64)).toBe('[Xe] 4f7 5d1 6s2')
+  })
+
+  it('removes the highest-n electrons first from cations', () => {
+    expect(config(26, 2)).toBe('[Ar] 3d6')
+    expect(config(26, 3)).toBe('[Ar] 3d5')
+    expect(config(82, 2)).toBe('[Xe] 4f14 5d10 6s2')
+  })
+
+  it('adds electrons to anions', () => {
+    expect(config(17, -1)).toBe('[Ne] 3s2 3p6')
+    expect(config(8, -2)).toBe('[He] 2s2 2p6')
+  })
+})
+
+describe('checkStoredConfiguration', () => {
+  it('agrees with the stored data apart from predicted superheavy elements', () => {
+    const mismatches = elements.filter((e) => !checkStoredConfiguration(e).matches).map((e) => e.symbol)
+    expect(mismatches).toEqual(['Ds', 'Rg'])
+  })
+
+  it('flags a wrong configuration', () => {
+    const check = checkStoredConfiguration({ atomicNumber: 24, electronConfiguration: '[Ar] 3d4 4s2' })
+    expect(check.matches).toBe(false)
+    expect(check.generated).toBe('[Ar] 3d5 4s1')
+  })
+
+  it('reads stored strings written without spaces', () => {
+    expect(parseElectronConfiguration('[Xe] 5d16s2').map((s) => `${s.label}${s.electrons}`).slice(-2)).toEqual(['5d1', '6s2'])
+  })
+})
+
+describe('orbital boxes', () => {
+  it('half-fills every orbital before pairing', () => {
+    expect(getOrbitalOccupancy({ l: 1, electrons: 4 })).toEqual([2, 1, 1])
+    expect(getOrbitalOccupancy({ l: 2, electrons: 6 })).toEqual([2, 1, 1, 1, 1])
+  })
+})
+
+describe('formatElectronConfiguration', () => {
+  it('superscripts only the electron counts', () => {
+    expect(formatElectronConfiguration('[Ar] 3d10 4s2')).toBe('[Ar] 3d¹⁰ 4s²')
+    expect(formatElectronConfiguration('[Xe] 5d16s2')).toBe('[Xe] 5d¹6s²')
+  })
+})
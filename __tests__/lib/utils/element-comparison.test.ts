@@ -0,0 +1,24 @@
+import { compareRow, MAX_COMPARE, parseCompareSymbols } from '@/lib/utils/element-comparison'
+
+describe('parseCompareSymbols', () => {
+  it('normalises case, drops duplicates and junk, and caps the list', () => {
+    expect(parseCompareSymbols('fe, CU,Zn,fe,,1x')).toEqual(['Fe', 'Cu', 'Zn'])
+    expect(parseCompareSymbols('H,He,Li,Be,B,C,N,O')).toHaveLength(MAX_COMPARE)
+    expect(parseCompareSymbols(null)).toEqual([])
+  })
+})
+
+describe('compareRow', () => {
+  it('marks the highest and lowest numbers', () => {
+    expect(compareRow([1.5, 3.2, 0.9])).toEqual({ differs: true, highest: [1], lowest: [2] })
+  })
+
+  it('ignores missing values', () => {
+    expect(compareRow([2, null, 2])).toEqual({ differs: false, highest: [], lowest: [] })
+    expect(compareRow([null, 4, 1]).lowest).toEqual([2])
+  })
+
+  it('flags differing text without extremes', () => {
+    expect(compareRow(['solid', 'gas'])).toEqual({ differs: true, highest: [], lowest: [] })
+  })
+})
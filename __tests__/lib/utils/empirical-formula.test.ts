@@ -0,0 +1,63 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import {
+  combustionToPercentages,
+  formatHillFormula,
+  solveEmpiricalFormula,
+  solveMolecularFormula,
+} from '@/lib/utils/empirical-formula'
+
+const allElements = elementsData as unknown as Element[]
+const elementLookup = new Map(allElements.map((e) => [e.symbol, e]))
+
+describe('solveEmpiricalFormula', () => {
+  it('finds CH2O from glucose percentages', () => {
+    const result = solveEmpiricalFormula({ C: 40.0, H: 6.71, O: 53.29 }, elementLookup)
+    expect(result.success).toBe(true)
+    expect(result.formula).toBe('CH2O')
+    expect(result.mass).toBeCloseTo(30.03, 1)
+  })
+
+  it('clears fractional ratios such as 1.5', () => {
+    // Fe2O3: Fe 69.94%, O 30.06% gives Fe:O = 1:1.5
+    expect(solveEmpiricalFormula({ Fe: 69.94, O: 30.06 }, elementLookup).formula).toBe('Fe2O3')
+  })
+
+  it('rejects unknown elements and totals over 100%', () => {
+    expect(solveEmpiricalFormula({ Xx: 50, O: 50 }, elementLookup).success).toBe(false)
+    expect(solveEmpiricalFormula({ C: 80, H: 40 }, elementLookup).success).toBe(false)
+  })
+})
+
+describe('solveMolecularFormula', () => {
+  it('scales the empirical formula to the molar mass', () => {
+    const result = solveMolecularFormula({ C: 1, H: 2, O: 1 }, 180.16, elementLookup)
+    expect(result.success).toBe(true)
+    expect(result.multiplier).toBe(6)
+    expect(result.formula).toBe('C6H12O6')
+  })
+
+  it('rejects molar masses that are not a whole multiple', () => {
+    expect(solveMolecularFormula({ C: 1, H: 2, O: 1 }, 45, elementLookup).success).toBe(false)
+  })
+})
+
+describe('combustionToPercentages', () => {
+  it('recovers ethanol from its combustion products', () => {
+    // 1 g C2H6O burns to 1.911 g CO2 and 1.173 g H2O
+    const converted = combustionToPercentages({ sampleMass: 1, co2Mass: 1.911, h2oMass: 1.173 }, elementLookup)
+    expect(converted.success).toBe(true)
+    expect(solveEmpiricalFormula(converted.percentages!, elementLookup).formula).toBe('C2H6O')
+  })
+
+  it('rejects more C and H than the sample holds', () => {
+    expect(combustionToPercentages({ sampleMass: 1, co2Mass: 5, h2oMass: 2 }, elementLookup).success).toBe(false)
+  })
+})
+
+describe('formatHillFormula', () => {
+  it('puts C and H first only when carbon is present', () => {
+    expect(formatHillFormula({ O: 1, H: 2, C: 1 })).toBe('CH2O')
+    expect(formatHillFormula({ S: 1, O: 4, H: 2 })).toBe('H2O4S')
+  })
+})
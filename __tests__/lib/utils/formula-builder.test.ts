@@ -0,0 +1,122 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { buildStructureFromFormula, parseFormulaParts, FormulaStructure } from '@/lib/utils/formula-builder'
+
+const elements = new Map((elementsData as unknown as Element[]).map((e) => [e.symbol, e]))
+
+// "S-O", "S=O", "Na~O" (ionic) for every bond, sorted
+function describeBonds(structure: FormulaStructure): string[] {
+  const marks: Record<string, string> = { single: '-', double: '=', triple: '#', ionic: '~' }
+  return structure.bonds
+    .map((b) => {
+      const [a, c] = [structure.atoms[b.from].symbol, structure.atoms[b.to].symbol].sort()
+      return `${a}${marks[b.bondType]}${c}`
+    })
+    .sort()
+}
+
+function build(formula: string): FormulaStructure {
+  const result = buildStructureFromFormula(formula, elements)
+  expect(result.success).toBe(true)
+  return result.structure!
+}
+
+describe('parseFormulaParts', () => {
+  it('should read charges in several notations', () => {
+    expect(parseFormulaParts('NH4+')?.charge).toBe(1)
+    expect(parseFormulaParts('SO4^2-')?.charge).toBe(-2)
+    expect(parseFormulaParts('SO4 2-')?.charge).toBe(-2)
+    expect(parseFormulaParts('SO₄²⁻')?.charge).toBe(-2)
+    expect(parseFormulaParts('H2O')?.charge).toBe(0)
+  })
+
+  it('should split hydrates', () => {
+    expect(parseFormulaParts('CuSO4·5H2O')?.parts).toEqual([
+      { text: 'CuSO4', multiplier: 1 },
+      { text: 'H2O', multiplier: 5 },
+    ])
+  })
+
+  it('should reject unreadable formulas', () => {
+    expect(parseFormulaParts('h2o')).toBeNull()
+  })
+})
+
+describe('buildStructureFromFormula', () => {
+  it('should build simple molecules around the least electronegative atom', () => {
+    expect(describeBonds(build('H2O'))).toEqual(['H-O', 'H-O'])
+    expect(describeBonds(build('CO2'))).toEqual(['C=O', 'C=O'])
+    expect(describeBonds(build('HCN'))).toEqual(['C#N', 'C-H'])
+    expect(describeBonds(build('N2'))).toEqual(['N#N'])
+  })
+
+  it('should take bond orders from the Lewis structure', () => {
+    expect(describeBonds(build('CO'))).toEqual(['C#O'])
+    expect(describeBonds(build('O3'))).toEqual(['O-O', 'O=O'])
+    expect(describeBonds(build('SO3'))).toEqual(['O=S', 'O=S', 'O=S'])
+    expect(describeBonds(build('N2O4'))).toEqual(['N-N', 'N-O', 'N-O', 'N=O', 'N=O'])
+  })
+
+  it('should put acidic hydrogens on oxygen', () => {
+    expect(describeBonds(build('H2SO4'))).toEqual(['H-O', 'H-O', 'O-S', 'O-S', 'O=S', 'O=S'])
+  })
+
+  it('should keep hydrogens on carbon in organic molecules', () => {
+    expect(describeBonds(build('C2H5OH'))).toEqual(['C-C', 'C-H', 'C-H', 'C-H', 'C-H', 'C-H', 'C-O', 'H-O'])
+  })
+
+  it('should give carbonyl and carboxyl oxygens a double bond', () => {
+    expect(describeBonds(build('CH3COOH'))).toEqual(['C-C', 'C-H', 'C-H', 'C-H', 'C-O', 'C=O', 'H-O'])
+    expect(describeBonds(build('CH3CHO'))).toEqual(['C-C', 'C-H', 'C-H', 'C-H', 'C-H', 'C=O'])
+    expect(describeBonds(build('HCOOH'))).toEqual(['C-H', 'C-O', 'C=O', 'H-O'])
+    // Without a written order the C=O is still reserved before the carbons take every H
+    expect(describeBonds(build('C2H4O'))).toEqual(['C-C', 'C-H', 'C-H', 'C-H', 'C-H', 'C=O'])
+  })
+
+  it('should bond carbons written after an ether or ester oxygen through it', () => {
+    expect(describeBonds(build('CH3OCH3'))).toEqual(['C-H', 'C-H', 'C-H', 'C-H', 'C-H', 'C-H', 'C-O', 'C-O'])
+    expect(describeBonds(build('CH3COOCH3'))).toContain('C=O')
+    expect(describeBonds(build('CH3COCH3')).filter((b) => b === 'C-C')).toHaveLength(2)
+  })
+
+  it('should expand polyatomic ions and bond counter-ions ionically', () => {
+    expect(describeBonds(build('Ca(OH)2'))).toEqual(['Ca~O', 'Ca~O', 'H-O', 'H-O'])
+    expect(describeBonds(build('KMnO4'))).toEqual(['K~O', 'Mn-O', 'Mn=O', 'Mn=O', 'Mn=O'])
+    expect(describeBonds(build('NH4Cl'))).toEqual(['Cl~N', 'H-N', 'H-N', 'H-N', 'H-N'])
+  })
+
+  it('should read a grouped ammonium as separate cations', () => {
+    const bonds = describeBonds(build('(NH4)2SO4'))
+    expect(bonds.filter((b) => b === 'N~O')).toHaveLength(2)
+    expect(bonds.filter((b) => b === 'H-N')).toHaveLength(8)
+    expect(bonds).not.toContain('N-S')
+    expect(bonds).not.toContain('H-O')
+  })
+
+  it('should leave the charge of a bare ion open', () => {
+    const sulfate = build('SO4^2-')
+    expect(sulfate.charge).toBe(-2)
+    expect(describeBonds(sulfate)).toEqual(['O-S', 'O-S', 'O=S', 'O=S'])
+  })
+
+  it('should lay out hydrate waters as separate fragments', () => {
+    const structure = build('CuSO4·5H2O')
+    expect(structure.atoms).toHaveLength(21)
+    expect(new Set(structure.atoms.map((a) => a.fragment)).size).toBe(6)
+  })
+
+  it('should place bonded atoms one bond length apart', () => {
+    const { atoms, bonds } = build('CH4')
+    bonds.forEach((b) => {
+      const dx = atoms[b.from].position.x - atoms[b.to].position.x
+      const dy = atoms[b.from].position.y - atoms[b.to].position.y
+      expect(Math.round(Math.sqrt(dx * dx + dy * dy))).toBe(100)
+    })
+  })
+
+  it('should report unknown elements', () => {
+    const result = buildStructureFromFormula('Xx2', elements)
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Xx')
+  })
+})
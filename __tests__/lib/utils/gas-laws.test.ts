@@ -0,0 +1,64 @@
+import {
+  calculateGasBehavior,
+  getVanDerWaalsConstants,
+  PA_PER_ATM,
+  resolveGasConditions,
+  toAtm,
+  toKelvin,
+} from '@/lib/utils/gas-laws'
+
+describe('unit conversion', () => {
+  it('converts Celsius and pascals', () => {
+    expect(toKelvin(25, 'C')).toBeCloseTo(298.15, 6)
+    expect(toKelvin(300)).toBe(300)
+    expect(toAtm(PA_PER_ATM, 'Pa')).toBeCloseTo(1, 10)
+  })
+
+  it('reads enabled ExternalFactors and defaults the rest to 0 °C and 1 atm', () => {
+    const conditions = resolveGasConditions({
+      temperature: { enabled: true, value: 25, unit: 'C' },
+      pressure: { enabled: false, value: 5, unit: 'atm' },
+    })
+    expect(conditions.temperature).toBeCloseTo(298.15, 6)
+    expect(conditions.pressure).toBe(1)
+    expect(conditions.fromExternalFactors).toEqual({ temperature: true, pressure: false })
+  })
+
+  it('treats cleared inputs as not set', () => {
+    const conditions = resolveGasConditions({
+      temperature: { enabled: true, value: null, unit: 'C' },
+      pressure: { enabled: true, value: NaN, unit: 'atm' },
+    })
+    expect(conditions.temperature).toBe(273.15)
+    expect(conditions.pressure).toBe(1)
+    expect(conditions.fromExternalFactors).toEqual({ temperature: false, pressure: false })
+  })
+})
+
+describe('calculateGasBehavior', () => {
+  it('gives 22.4 L/mol for an ideal gas at STP', () => {
+    const result = calculateGasBehavior('Xy', 10, 1, { temperature: 273.15, pressure: 1 })
+    expect(result.success).toBe(true)
+    expect(result.ideal!.molarVolume).toBeCloseTo(22.414, 2)
+    expect(result.ideal!.density).toBeCloseTo(10 / 22.414, 3)
+    expect(result.real).toBeUndefined()
+  })
+
+  it('applies van der Waals corrections for CO2', () => {
+    const result = calculateGasBehavior('CO2', 44.01, 1, { temperature: 273.15, pressure: 1 })
+    // Attractions make real CO2 slightly smaller than ideal at STP (Z ≈ 0.993)
+    expect(result.real!.compressibility).toBeGreaterThan(0.98)
+    expect(result.real!.compressibility).toBeLessThan(1)
+    expect(result.real!.volume).toBeLessThan(result.ideal!.volume)
+  })
+
+  it('matches table entries regardless of element order', () => {
+    expect(getVanDerWaalsConstants('OH2')).toEqual(getVanDerWaalsConstants('H2O'))
+    expect(getVanDerWaalsConstants('CH4O')).not.toBeNull()
+  })
+
+  it('rejects non-physical inputs', () => {
+    expect(calculateGasBehavior('N2', 28, 0, { temperature: 273, pressure: 1 }).success).toBe(false)
+    expect(calculateGasBehavior('N2', 28, 1, { temperature: -5, pressure: 1 }).success).toBe(false)
+  })
+})
@@ -0,0 +1,109 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond, BondType, CompoundElement } from '@/lib/types/compound'
+import { generateLewisStructure, LewisStructure } from '@/lib/utils/lewis-structure'
+
+const elements = new Map((elementsData as unknown as Element[]).map((e) => [e.symbol, e]))
+
+// Builds a compound from symbols and [from, to, type] index triples
+function lewis(symbols: string[], links: Array<[number, number, BondType?]>, charge = 0): LewisStructure {
+  const compoundElements: CompoundElement[] = symbols.map((symbol, i) => ({ elementId: `a${i}`, symbol, count: 1 }))
+  const bonds: Bond[] = links.map(([from, to, bondType = 'single'], i) => ({
+    id: `b${i}`,
+    fromElementId: `a${from}`,
+    toElementId: `a${to}`,
+    bondType,
+  }))
+  const result = generateLewisStructure(compoundElements, bonds, elements, charge)
+  expect(result.success).toBe(true)
+  return result.structure!
+}
+
+describe('generateLewisStructure', () => {
+  it('should give water two lone pairs on oxygen', () => {
+    const water = lewis(['O', 'H', 'H'], [[0, 1], [0, 2]])
+    expect(water.totalValenceElectrons).toBe(8)
+    expect(water.atoms.map((a) => a.lonePairs)).toEqual([2, 0, 0])
+    expect(water.atoms.every((a) => a.formalCharge === 0)).toBe(true)
+  })
+
+  it('should find the double bonds in carbon dioxide', () => {
+    const co2 = lewis(['C', 'O', 'O'], [[0, 1], [0, 2]])
+    expect(co2.bonds.map((b) => b.order)).toEqual([2, 2])
+    expect(co2.atoms.map((a) => a.lonePairs)).toEqual([0, 2, 2])
+    expect(co2.resonanceCount).toBe(1)
+  })
+
+  it('should prefer complete octets over zero formal charge in carbon monoxide', () => {
+    const co = lewis(['C', 'O'], [[0, 1]])
+    expect(co.bonds[0].order).toBe(3)
+    expect(co.atoms.map((a) => a.formalCharge)).toEqual([-1, 1])
+  })
+
+  it('should put the charge of ammonium on nitrogen', () => {
+    const ammonium = lewis(['N', 'H', 'H', 'H', 'H'], [[0, 1], [0, 2], [0, 3], [0, 4]], 1)
+    expect(ammonium.atoms[0].formalCharge).toBe(1)
+    expect(ammonium.atoms[0].lonePairs).toBe(0)
+  })
+
+  it('should count the resonance structures of ozone', () => {
+    const ozone = lewis(['O', 'O', 'O'], [[0, 1], [0, 2]])
+    expect(ozone.resonanceCount).toBe(2)
+    expect(ozone.atoms[0].formalCharge).toBe(1)
+    expect(ozone.atoms[0].lonePairs).toBe(1)
+  })
+
+  it('should expand the octet of sulfur in sulfate to minimise formal charge', () => {
+    const sulfate = lewis(['S', 'O', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3], [0, 4]], -2)
+    expect(sulfate.atoms[0].formalCharge).toBe(0)
+    expect(sulfate.bonds.filter((b) => b.order === 2)).toHaveLength(2)
+    expect(sulfate.resonanceCount).toBe(6)
+  })
+
+  it('should leave boron trifluoride with an incomplete octet', () => {
+    const bf3 = lewis(['B', 'F', 'F', 'F'], [[0, 1], [0, 2], [0, 3]])
+    expect(bf3.bonds.every((b) => b.order === 1)).toBe(true)
+    expect(bf3.atoms[0].electronCount).toBe(6)
+  })
+
+  it('should place an unpaired electron on nitrogen monoxide', () => {
+    const no = lewis(['N', 'O'], [[0, 1]])
+    expect(no.bonds[0].order).toBe(2)
+    expect(no.atoms[0].unpairedElectrons).toBe(1)
+  })
+
+  it('should transfer electrons across ionic bonds', () => {
+    const salt = lewis(['Na', 'Cl'], [[0, 1, 'ionic']])
+    expect(salt.atoms.map((a) => a.formalCharge)).toEqual([1, -1])
+    expect(salt.atoms.map((a) => a.lonePairs)).toEqual([0, 4])
+    expect(salt.bonds[0]).toMatchObject({ order: 0, ionic: true })
+  })
+
+  it('should count d electrons in transition-metal salts', () => {
+    const ferricChloride = lewis(['Fe', 'Cl', 'Cl', 'Cl'], [[0, 1, 'ionic'], [0, 2, 'ionic'], [0, 3, 'ionic']])
+    expect(ferricChloride.atoms[0]).toMatchObject({ valenceElectrons: 8, formalCharge: 3 })
+
+    const copperSulfate = lewis(
+      ['Cu', 'S', 'O', 'O', 'O', 'O'],
+      [[1, 2], [1, 3], [1, 4], [1, 5], [0, 2, 'ionic'], [0, 3, 'ionic']]
+    )
+    expect(copperSulfate.atoms[0].formalCharge).toBe(2)
+    expect(copperSulfate.atoms[1].formalCharge).toBe(0)
+  })
+
+  it('should give transition-metal oxyanions metal–oxygen double bonds', () => {
+    const permanganate = lewis(['Mn', 'O', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3], [0, 4]], -1)
+    expect(permanganate.atoms[0].formalCharge).toBe(0)
+    expect(permanganate.atoms.slice(1).map((a) => a.formalCharge).sort()).toEqual([-1, 0, 0, 0])
+    expect(permanganate.bonds.map((b) => b.order).sort()).toEqual([1, 2, 2, 2])
+
+    const chromate = lewis(['Cr', 'O', 'O', 'O', 'O'], [[0, 1], [0, 2], [0, 3], [0, 4]], -2)
+    expect(chromate.atoms[0].formalCharge).toBe(0)
+    expect(chromate.atoms.every((a) => a.formalCharge <= 0)).toBe(true)
+  })
+
+  it('should reject aggregated element counts', () => {
+    const result = generateLewisStructure([{ elementId: 'a0', symbol: 'H', count: 2 }], [], elements)
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,69 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import { Bond, CompoundElement } from '@/lib/types/compound'
+import { determineVSEPRGeometry, generate3DCoordinates } from '@/lib/utils/molecular-geometry'
+
+const allElements = elementsData as unknown as Element[]
+
+// A central atom bonded to each of the given ligands
+function star(center: string, ligands: string[], charge = 0) {
+  const elements: CompoundElement[] = [center, ...ligands].map((symbol, i) => ({ elementId: `a${i}`, symbol, count: 1 }))
+  const bonds: Bond[] = ligands.map((_, i) => ({
+    id: `b${i}`,
+    fromElementId: 'a0',
+    toElementId: `a${i + 1}`,
+    bondType: 'single',
+  }))
+  return generate3DCoordinates(elements, bonds, allElements, charge)
+}
+
+describe('determineVSEPRGeometry', () => {
+  it('should classify AXnEm shapes', () => {
+    expect(determineVSEPRGeometry(2, 0)).toBe('linear')
+    expect(determineVSEPRGeometry(2, 2)).toBe('bent')
+    expect(determineVSEPRGeometry(3, 1)).toBe('trigonal-pyramidal')
+    expect(determineVSEPRGeometry(4, 1)).toBe('seesaw')
+    expect(determineVSEPRGeometry(3, 2)).toBe('t-shaped')
+    expect(determineVSEPRGeometry(2, 3)).toBe('linear')
+    expect(determineVSEPRGeometry(5, 1)).toBe('square-pyramidal')
+    expect(determineVSEPRGeometry(4, 2)).toBe('square-planar')
+    expect(determineVSEPRGeometry(7, 0)).toBe('pentagonal-bipyramidal')
+  })
+})
+
+describe('generate3DCoordinates', () => {
+  it('should reserve two lone pairs on water', () => {
+    const { geometry } = star('O', ['H', 'H'])
+    expect(geometry.type).toBe('bent')
+    expect(geometry.lonePairPositions).toHaveLength(2)
+  })
+
+  it('should give sulfur tetrafluoride a seesaw shape', () => {
+    expect(star('S', ['F', 'F', 'F', 'F']).geometry.type).toBe('seesaw')
+  })
+
+  it('should give chlorine trifluoride a T shape', () => {
+    expect(star('Cl', ['F', 'F', 'F']).geometry.type).toBe('t-shaped')
+  })
+
+  it('should keep xenon tetrafluoride square planar with trans lone pairs', () => {
+    const { elements, geometry } = star('Xe', ['F', 'F', 'F', 'F'])
+    expect(geometry.type).toBe('square-planar')
+
+    // The fluorines share a plane and the lone pairs point opposite ways
+    const [first, second] = geometry.lonePairPositions!
+    expect(first.z + second.z).toBeCloseTo(0)
+    elements.slice(1).forEach((el) => expect(el.position3D!.z).toBeCloseTo(0))
+  })
+
+  it('should keep methane tetrahedral without lone pairs', () => {
+    const { geometry } = star('C', ['H', 'H', 'H', 'H'])
+    expect(geometry.type).toBe('tetrahedral')
+    expect(geometry.lonePairPositions).toEqual([])
+  })
+
+  it('should shape ions from their charged Lewis structure', () => {
+    expect(star('N', ['H', 'H', 'H', 'H'], 1).geometry.type).toBe('tetrahedral')
+    expect(star('O', ['H', 'H', 'H'], 1).geometry.type).toBe('trigonal-pyramidal')
+  })
+})
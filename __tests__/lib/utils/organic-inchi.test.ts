@@ -0,0 +1,64 @@
+import { generateInChI, generateInChIKey, generateStructureIdentifiers } from '@/lib/utils/organic-inchi'
+import { parseSMILES } from '@/lib/utils/organic-smiles'
+import { graphToMolfileRecord } from '@/lib/utils/organic-molfile'
+
+const inchiOf = (smiles: string) => generateInChI(parseSMILES(smiles).graph!)
+
+describe('organic-inchi', () => {
+  describe('generateInChI', () => {
+    it('writes formula, connectivity and hydrogen layers', () => {
+      expect(inchiOf('CCO')).toBe('InChI=1S/C2H6O/c1-2-3/h3H,2H2,1H3')
+      expect(inchiOf('CC(C)(C)C')).toBe('InChI=1S/C5H12/c1-5(2,3)4/h1-4H3')
+      expect(inchiOf('C')).toBe('InChI=1S/CH4/h1H4')
+    })
+
+    it('closes rings by repeating the atom number', () => {
+      expect(inchiOf('c1ccccc1')).toBe('InChI=1S/C6H6/c1-2-4-6-5-3-1/h1-6H')
+    })
+
+    it('does not depend on atom order or bond orders', () => {
+      expect(inchiOf('OCC')).toBe(inchiOf('CCO'))
+      expect(inchiOf('OC(C)=O')).toBe(inchiOf('CC(=O)O'))
+      expect(inchiOf('CC1=CC=CC=C1')).toBe(inchiOf('Cc1ccccc1'))
+    })
+
+    it('distinguishes isomers', () => {
+      expect(inchiOf('CCCC')).not.toBe(inchiOf('CC(C)C'))
+      expect(inchiOf('CCO')).not.toBe(inchiOf('COC'))
+    })
+
+    it('adds a charge layer per component', () => {
+      expect(inchiOf('CC(=O)[O-]')).toBe('InChI=1S/C2H3O2/c1-2(3)4/h1H3/q-1')
+      expect(inchiOf('[Cl-].CC[N+](C)(C)C')).toMatch(/\/q\+1;-1$/)
+    })
+  })
+
+  describe('generateInChIKey', () => {
+    it('produces a fixed-length key in InChIKey layout', () => {
+      expect(generateInChIKey(inchiOf('CCO'))).toMatch(/^[A-Z]{14}-[A-Z]{8}SA-N$/)
+      expect(generateInChIKey(inchiOf('c1ccccc1C(=O)O'))).toHaveLength(27)
+    })
+
+    it('shares the first block between charge variants', () => {
+      const acid = generateInChIKey('InChI=1S/C2H4O/c1-2-3/h2H,1H3')
+      const cation = generateInChIKey('InChI=1S/C2H4O/c1-2-3/h2H,1H3/q+1')
+
+      expect(cation.slice(0, 14)).toBe(acid.slice(0, 14))
+      expect(cation).not.toBe(acid)
+    })
+  })
+
+  describe('generateStructureIdentifiers', () => {
+    it('works from stored atoms and bonds', () => {
+      const { atoms, bonds } = graphToMolfileRecord(parseSMILES('OCC').graph!)
+      const identifiers = generateStructureIdentifiers(atoms, bonds)
+
+      expect(identifiers!.inchi).toBe(inchiOf('CCO'))
+      expect(identifiers!.inchiKey).toBe(generateInChIKey(inchiOf('CCO')))
+    })
+
+    it('returns null for structures the editor cannot represent', () => {
+      expect(generateStructureIdentifiers([{ id: 'x', element: 'Na', position: { x: 0, y: 0 } }], [])).toBeNull()
+    })
+  })
+})
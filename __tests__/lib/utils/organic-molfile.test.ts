@@ -0,0 +1,161 @@
+import {
+  writeMolfile,
+  tryWriteMolfile,
+  readMolfile,
+  writeSDF,
+  readSDF,
+  graphToMolfileRecord,
+  molfileRecordToGraph,
+} from '@/lib/utils/organic-molfile'
+import { parseSMILES, generateCanonicalSMILES } from '@/lib/utils/organic-smiles'
+import { Atom, Bond } from '@/lib/types/organic'
+
+const acetate: { atoms: Atom[]; bonds: Bond[] } = {
+  atoms: [
+    { id: 'c1', element: 'C', position: { x: 100, y: 100 } },
+    { id: 'c2', element: 'C', position: { x: 150, y: 100 } },
+    { id: 'o1', element: 'O', position: { x: 175, y: 57 } },
+    { id: 'o2', element: 'O', charge: -1, position: { x: 175, y: 143 } },
+  ],
+  bonds: [
+    { id: 'b1', from: 'c1', to: 'c2', type: 'single', stereo: 'wedge' },
+    { id: 'b2', from: 'c2', to: 'o1', type: 'double' },
+    { id: 'b3', from: 'c2', to: 'o2', type: 'single' },
+  ],
+}
+
+// Ethanol as drawn by another editor: explicit hydrogens, no 2D layout
+const ETHANOL_WITH_HYDROGENS = `ethanol
+  OtherEd
+
+  9  8  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+    0.0000    0.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0  0  0  0
+  2  3  1  0  0  0  0
+  1  4  1  0  0  0  0
+  1  5  1  0  0  0  0
+  1  6  1  0  0  0  0
+  2  7  1  0  0  0  0
+  2  8  1  0  0  0  0
+  3  9  1  0  0  0  0
+M  END
+`
+
+describe('organic-molfile', () => {
+  describe('writeMolfile', () => {
+    it('writes a V2000 counts line and fixed-width blocks', () => {
+      const molfile = writeMolfile(acetate.atoms, acetate.bonds, { name: 'acetate' })
+      const lines = molfile.split('\n')
+
+      expect(lines[0]).toBe('acetate')
+      expect(lines[3]).toBe('  4  3  0  0  0  0  0  0  0  0999 V2000')
+      expect(lines[4].slice(31, 34).trim()).toBe('C')
+      expect(lines[8]).toBe('  1  2  1  1  0  0  0')
+      expect(lines).toContain('M  CHG  1   4  -1')
+      expect(lines).toContain('M  END')
+    })
+
+    it('gives no Molfile past the V2000 atom limit', () => {
+      const atoms: Atom[] = Array.from({ length: 1000 }, (_, i) => ({
+        id: `C${i}`,
+        element: 'C',
+        position: { x: i, y: 0, z: 0 },
+      }))
+
+      expect(() => writeMolfile(atoms, [])).toThrow('999')
+      expect(tryWriteMolfile(atoms, [])).toBeNull()
+      expect(tryWriteMolfile(acetate.atoms, acetate.bonds)).toContain('M  END')
+    })
+  })
+
+  describe('readMolfile', () => {
+    it('round-trips atoms, charges, bond types and stereo', () => {
+      const result = readMolfile(writeMolfile(acetate.atoms, acetate.bonds, { name: 'acetate' }))
+
+      expect(result.success).toBe(true)
+      const { atoms, bonds, name } = result.record!
+      expect(name).toBe('acetate')
+      expect(atoms.map((a) => a.element)).toEqual(['C', 'C', 'O', 'O'])
+      expect(atoms.map((a) => a.charge)).toEqual([0, 0, 0, -1])
+      expect(bonds.map((b) => b.type)).toEqual(['single', 'double', 'single'])
+      expect(bonds[0].stereo).toBe('wedge')
+    })
+
+    it('preserves relative geometry in canvas pixels', () => {
+      const { atoms } = readMolfile(writeMolfile(acetate.atoms, acetate.bonds)).record!
+      const dx = atoms[1].position.x - atoms[0].position.x
+      const dy = atoms[2].position.y - atoms[1].position.y
+
+      expect(dx).toBeCloseTo(50, 1)
+      expect(dy).toBeCloseTo(-43, 1)
+    })
+
+    it('reads radicals from M  RAD', () => {
+      const atoms: Atom[] = [{ id: 'c', element: 'C', radical: true, position: { x: 0, y: 0 } }]
+      const { record } = readMolfile(writeMolfile(atoms, []))
+      expect(record!.atoms[0].radical).toBe(true)
+    })
+
+    it('rejects V3000 and truncated files', () => {
+      expect(readMolfile('x\n\n\n  0  0  0     0  0            999 V3000\n').error).toContain('V3000')
+      expect(readMolfile('x\n\n\n  2  1  0  0  0  0  0  0  0  0999 V2000\n').success).toBe(false)
+    })
+  })
+
+  describe('SDF', () => {
+    it('round-trips multiple records with data items', () => {
+      const sdf = writeSDF([
+        { name: 'acetate', ...acetate, properties: { SMILES: 'CC(=O)[O-]' } },
+        { ...graphToMolfileRecord(parseSMILES('CCO').graph!, 'ethanol'), properties: { SMILES: 'CCO' } },
+      ])
+      const result = readSDF(sdf)
+
+      expect(result.success).toBe(true)
+      expect(result.errors).toEqual([])
+      expect(result.records.map((r) => r.name)).toEqual(['acetate', 'ethanol'])
+      expect(result.records[1].properties.SMILES).toBe('CCO')
+    })
+
+    it('reports broken records without dropping the good ones', () => {
+      const good = writeSDF([{ name: 'acetate', ...acetate }])
+      const result = readSDF(`${good}broken\n\n\nnot a counts line\n$$$$\n`)
+
+      expect(result.records).toHaveLength(1)
+      expect(result.errors).toHaveLength(1)
+    })
+  })
+
+  describe('molfileRecordToGraph', () => {
+    it('folds explicit hydrogens and lays out stacked atoms', () => {
+      const result = molfileRecordToGraph(readMolfile(ETHANOL_WITH_HYDROGENS).record!)
+
+      expect(result.success).toBe(true)
+      const graph = result.graph!
+      expect(graph.nodes.map((n) => n.implicitHydrogens)).toEqual([3, 2, 1])
+      expect(new Set(graph.nodes.map((n) => `${n.position.x},${n.position.y}`)).size).toBe(3)
+      expect(generateCanonicalSMILES(graph)).toBe(generateCanonicalSMILES(parseSMILES('CCO').graph!))
+    })
+
+    it('survives a graph → Molfile → graph round trip', () => {
+      const original = parseSMILES('c1ccccc1C(=O)[O-]').graph!
+      const { atoms, bonds } = graphToMolfileRecord(original, 'benzoate')
+      const record = readMolfile(writeMolfile(atoms, bonds)).record!
+      const restored = molfileRecordToGraph(record).graph!
+
+      expect(generateCanonicalSMILES(restored)).toBe(generateCanonicalSMILES(original))
+    })
+
+    it('rejects elements the editor cannot represent', () => {
+      const atoms: Atom[] = [{ id: 'na', element: 'Na', position: { x: 0, y: 0 } }]
+      expect(molfileRecordToGraph({ name: '', atoms, bonds: [], properties: {} }).error).toContain('Na')
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { findSubstructureMatches, hasSubstructure } from '@/lib/utils/organic-substructure'
+import {
+  computeFingerprint,
+  isFingerprintSubset,
+  tanimotoSimilarity,
+  FINGERPRINT_BITS,
+} from '@/lib/utils/organic-fingerprint'
+import { calculateSimilarity } from '@/lib/utils/organic-derived'
+import { parseSMILES } from '@/lib/utils/organic-smiles'
+
+const mol = (smiles: string) => parseSMILES(smiles).graph!
+
+describe('organic-substructure', () => {
+  describe('hasSubstructure', () => {
+    it('finds fragments regardless of hydrogen count', () => {
+      expect(hasSubstructure(mol('C(=O)O'), mol('CC(=O)O'))).toBe(true)
+      expect(hasSubstructure(mol('CCO'), mol('CCOCC'))).toBe(true)
+      expect(hasSubstructure(mol('c1ccccc1'), mol('Cc1ccccc1C(=O)O'))).toBe(true)
+    })
+
+    it('requires matching elements and bond orders', () => {
+      expect(hasSubstructure(mol('C=O'), mol('CCO'))).toBe(false)
+      expect(hasSubstructure(mol('CN'), mol('CCO'))).toBe(false)
+      expect(hasSubstructure(mol('C#C'), mol('C=CC'))).toBe(false)
+    })
+
+    it('keeps aromatic and Kekulé bonds apart', () => {
+      expect(hasSubstructure(mol('c1ccccc1'), mol('C1=CC=CC=C1'))).toBe(false)
+    })
+
+    it('respects query charges', () => {
+      expect(hasSubstructure(mol('C(=O)[O-]'), mol('CC(=O)[O-]'))).toBe(true)
+      expect(hasSubstructure(mol('C(=O)[O-]'), mol('CC(=O)O'))).toBe(false)
+    })
+
+    it('matches ring closures', () => {
+      expect(hasSubstructure(mol('C1CC1'), mol('CC1CC1C'))).toBe(true)
+      expect(hasSubstructure(mol('C1CC1'), mol('CCCC'))).toBe(false)
+    })
+  })
+
+  describe('findSubstructureMatches', () => {
+    it('returns a mapping onto target atoms', () => {
+      const query = mol('C=O')
+      const target = mol('CCC=O')
+      const [mapping] = findSubstructureMatches(query, target)
+
+      const oxygen = target.nodes.find((n) => n.element === 'O')!
+      expect(Array.from(mapping.values())).toContain(oxygen.id)
+    })
+
+    it('enumerates symmetric mappings up to maxMatches', () => {
+      expect(findSubstructureMatches(mol('CC'), mol('C1CCCCC1'), { maxMatches: 100 })).toHaveLength(12)
+      expect(findSubstructureMatches(mol('CC'), mol('C1CCCCC1'), { maxMatches: 3 })).toHaveLength(3)
+    })
+  })
+
+  describe('computeFingerprint', () => {
+    it('sets a subset of bits for every substructure', () => {
+      const pairs = [
+        ['C(=O)O', 'CC(=O)Oc1ccccc1C(=O)O'],
+        ['c1ccncc1', 'Cc1ccncc1'],
+        ['CCl', 'ClCC(Cl)Cl'],
+      ]
+      for (const [query, target] of pairs) {
+        expect(isFingerprintSubset(computeFingerprint(mol(query)), computeFingerprint(mol(target)))).toBe(true)
+      }
+    })
+
+    it('rejects clearly unrelated structures', () => {
+      expect(isFingerprintSubset(computeFingerprint(mol('C#N')), computeFingerprint(mol('CCO')))).toBe(false)
+    })
+
+    it('returns sorted bit indices within range', () => {
+      const bits = computeFingerprint(mol('CC(=O)Oc1ccccc1C(=O)O'))
+      expect(bits).toEqual([...bits].sort((a, b) => a - b))
+      expect(bits.every((bit) => bit >= 0 && bit < FINGERPRINT_BITS)).toBe(true)
+    })
+  })
+
+  describe('tanimotoSimilarity', () => {
+    it('is 1 for identical molecules and symmetric', () => {
+      const a = computeFingerprint(mol('CCO'))
+      const b = computeFingerprint(mol('CCCO'))
+
+      expect(tanimotoSimilarity(a, a)).toBe(1)
+      expect(tanimotoSimilarity(a, b)).toBeCloseTo(tanimotoSimilarity(b, a))
+    })
+
+    it('ranks close analogues above distant ones', () => {
+      const toluene = mol('Cc1ccccc1')
+      expect(calculateSimilarity(toluene, mol('CCc1ccccc1'))).toBeGreaterThan(calculateSimilarity(toluene, mol('CCCCO')))
+      expect(calculateSimilarity(mol('CCO'), mol('ClCl'))).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,55 @@
+import { ElementCard } from '@/lib/types/element'
+import { buildHeatmapScale, HEATMAP_MISSING_COLOR, heatmapColor } from '@/lib/utils/periodic-heatmap'
+
+const card = (symbol: string, density: number | null): ElementCard => ({
+  atomicNumber: 1,
+  symbol,
+  name: symbol,
+  atomicMass: 1,
+  category: 'unknown',
+  color: '#ffffff',
+  gridRow: 1,
+  gridColumn: 1,
+  density,
+})
+
+const elements = [card('A', 0.1), card('B', 1), card('C', 10), card('D', null)]
+
+describe('buildHeatmapScale', () => {
+  it('maps values linearly and keeps missing values apart', () => {
+    const scale = buildHeatmapScale(elements, 'density', 'linear')!
+    expect(scale.min).toBe(0.1)
+    expect(scale.max).toBe(10)
+    expect(scale.position(10)).toBe(1)
+    expect(scale.position(5.05)).toBeCloseTo(0.5)
+    expect(scale.position(null)).toBeNull()
+    expect(scale.missing).toBe(1)
+  })
+
+  it('spaces decades evenly on a log scale', () => {
+    const scale = buildHeatmapScale(elements, 'density', 'log')!
+    expect(scale.position(1)).toBeCloseTo(0.5)
+    expect(scale.ticks[0]).toBeCloseTo(0.1)
+    expect(scale.ticks[2]).toBeCloseTo(1)
+    expect(scale.ticks[4]).toBeCloseTo(10)
+  })
+
+  it('treats non-positive values as missing on a log scale', () => {
+    const scale = buildHeatmapScale([...elements, card('E', 0)], 'density', 'log')!
+    expect(scale.position(0)).toBeNull()
+    expect(scale.missing).toBe(2)
+  })
+
+  it('needs a range of values', () => {
+    expect(buildHeatmapScale([card('A', 2), card('B', null)], 'density', 'linear')).toBeNull()
+    expect(buildHeatmapScale(elements, 'atomicRadius', 'linear')).toBeNull()
+  })
+})
+
+describe('heatmapColor', () => {
+  it('runs from the first to the last stop and grays out missing values', () => {
+    expect(heatmapColor(0)).toBe('#74b9ff')
+    expect(heatmapColor(1)).toBe('#ff7675')
+    expect(heatmapColor(null)).toBe(HEATMAP_MISSING_COLOR)
+  })
+})
@@ -0,0 +1,51 @@
+import { lookupPhaseData, phaseAtStandardPressure, predictPhase } from '@/lib/utils/phase-prediction'
+
+const water = { meltingPoint: 273.15, boilingPoint: 373.15 }
+
+describe('predictPhase', () => {
+  it('follows the melting and boiling points at 1 atm', () => {
+    expect(predictPhase(250, 1, water).phase).toBe('solid')
+    expect(predictPhase(298, 1, water).phase).toBe('liquid')
+    expect(predictPhase(400, 1, water).phase).toBe('gas')
+  })
+
+  it('shifts the boiling point with pressure', () => {
+    // Water still boils below 373 K at low pressure and stays liquid above it at high pressure
+    expect(predictPhase(350, 0.2, water).phase).toBe('gas')
+    expect(predictPhase(400, 5, water).phase).toBe('liquid')
+  })
+
+  it('sublimes CO2 at 1 atm but melts it under pressure', () => {
+    const co2 = lookupPhaseData('CO2')!
+    expect(predictPhase(180, 1, co2).phase).toBe('solid')
+    expect(predictPhase(220, 1, co2).phase).toBe('gas')
+    expect(predictPhase(230, 20, co2).phase).toBe('liquid')
+  })
+
+  it('goes supercritical past the critical point', () => {
+    const { model } = predictPhase(298, 1, water)
+    const { temperature, pressure } = model!.criticalPoint
+    expect(predictPhase(temperature + 10, pressure * 2, water).phase).toBe('supercritical')
+  })
+
+  it('needs both transition temperatures', () => {
+    expect(predictPhase(298, 1, { meltingPoint: 273 }).success).toBe(false)
+  })
+})
+
+describe('reference data', () => {
+  it('matches formulas regardless of how they are written', () => {
+    expect(lookupPhaseData('H₂O')).toEqual(water)
+    expect(lookupPhaseData('C2H6O')).toEqual(lookupPhaseData('C2H5OH'))
+    expect(lookupPhaseData('XeF4')).toBeNull()
+  })
+})
+
+describe('phaseAtStandardPressure', () => {
+  it('classifies elements by temperature', () => {
+    expect(phaseAtStandardPressure(298, 234.3, 629.9)).toBe('liquid')
+    expect(phaseAtStandardPressure(298, 1337, 3243)).toBe('solid')
+    expect(phaseAtStandardPressure(298, 14, 20.3)).toBe('gas')
+    expect(phaseAtStandardPressure(298, null, null)).toBeNull()
+  })
+})
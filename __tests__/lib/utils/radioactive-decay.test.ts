@@ -0,0 +1,90 @@
+import {
+  buildDecayChain,
+  getDecayParents,
+  getStableEnds,
+  parseHalfLife,
+  simulateDecay,
+} from '@/lib/utils/radioactive-decay'
+
+const YEAR = 365.25 * 24 * 3600
+
+describe('parseHalfLife', () => {
+  it('reads plain, scientific and superscript notations', () => {
+    expect(parseHalfLife('5730 years')).toBeCloseTo(5730 * YEAR)
+    expect(parseHalfLife('4.468 × 10⁹ years')).toBeCloseTo(4.468e9 * YEAR, -10)
+    expect(parseHalfLife('4.468e9 y')).toBeCloseTo(4.468e9 * YEAR, -10)
+    expect(parseHalfLife('24,110 years')).toBeCloseTo(24110 * YEAR)
+    expect(parseHalfLife('3.8235 days')).toBeCloseTo(3.8235 * 86400)
+    expect(parseHalfLife('164.3 µs')).toBeCloseTo(164.3e-6)
+  })
+
+  it('returns Infinity for stable and null for unreadable strings', () => {
+    expect(parseHalfLife('Stable')).toBe(Infinity)
+    expect(parseHalfLife('unknown')).toBeNull()
+    expect(parseHalfLife(null)).toBeNull()
+  })
+})
+
+describe('buildDecayChain', () => {
+  it('follows the uranium series to Pb-206 with parents before daughters', () => {
+    const chain = buildDecayChain('U-238')
+    const ids = chain.nuclides.map(n => n.id)
+
+    expect(ids[0]).toBe('U-238')
+    expect(getStableEnds(chain).map(n => n.id)).toEqual(['Pb-206'])
+    chain.nuclides.forEach((nuclide, i) => {
+      nuclide.branches.forEach(branch => expect(ids.indexOf(branch.daughter)).toBeGreaterThan(i))
+    })
+  })
+
+  it('keeps both branches of Bi-212', () => {
+    const bi212 = buildDecayChain('Th-232').nuclides.find(n => n.id === 'Bi-212')!
+    expect(bi212.branches.map(b => b.daughter)).toEqual(['Po-212', 'Tl-208'])
+  })
+
+  it('models β+ and electron capture', () => {
+    const k40 = buildDecayChain('K-40')
+    expect(k40.nuclides[0].branches.map(b => [b.mode, b.daughter])).toEqual([
+      ['beta-minus', 'Ca-40'],
+      ['electron-capture', 'Ar-40'],
+    ])
+    expect(buildDecayChain('Na-22').nuclides[0].branches[0]).toMatchObject({ mode: 'beta-plus', daughter: 'Ne-22' })
+  })
+
+  it('prefers isotope half-lives over the built-in table', () => {
+    expect(buildDecayChain('C-14', { 'C-14': '5700 years' }).nuclides[0].halfLife).toBeCloseTo(5700 * YEAR)
+  })
+})
+
+describe('getDecayParents', () => {
+  it('falls back to the built-in table without isotope data', () => {
+    expect(getDecayParents('U')).toEqual(['U-238', 'U-234', 'U-235', 'U-233', 'U-236'])
+    expect(getDecayParents('Fe')).toEqual([])
+  })
+})
+
+describe('simulateDecay', () => {
+  it('halves the parent after one half-life', () => {
+    const chain = buildDecayChain('C-14')
+    const [sample] = simulateDecay(chain, [chain.nuclides[0].halfLife])
+    expect(sample.amounts['C-14']).toBeCloseTo(0.5)
+    expect(sample.amounts['N-14']).toBeCloseTo(0.5)
+  })
+
+  it('conserves atoms and reaches secular equilibrium in the uranium series', () => {
+    const chain = buildDecayChain('U-238')
+    const [sample] = simulateDecay(chain, [1e7 * YEAR])
+    const total = Object.values(sample.amounts).reduce((sum, n) => sum + n, 0)
+    const activity = (id: string) => sample.amounts[id] * chain.nuclides.find(n => n.id === id)!.decayConstant
+
+    expect(total).toBeCloseTo(1, 6)
+    expect(activity('Ra-226') / activity('U-238')).toBeCloseTo(1, 3)
+  })
+
+  it('splits branched decay by its ratios', () => {
+    const chain = buildDecayChain('Bi-212')
+    const [sample] = simulateDecay(chain, [1e6])
+    expect(sample.amounts['Pb-208']).toBeCloseTo(1)
+    expect(sample.amounts['Tl-208']).toBeCloseTo(0)
+  })
+})
@@ -0,0 +1,84 @@
+import { parseFormula } from '@/lib/utils/chemical-validation'
+import { balanceFormulas, formatEquation, formatFormula } from '@/lib/utils/reaction-balancer'
+
+describe('parseFormula', () => {
+  it('should count atoms in simple and subscript formulas', () => {
+    expect(parseFormula('H2O')).toEqual({ H: 2, O: 1 })
+    expect(parseFormula('H₂O')).toEqual({ H: 2, O: 1 })
+    expect(parseFormula('NaCl')).toEqual({ Na: 1, Cl: 1 })
+  })
+
+  it('should expand groups and hydrates', () => {
+    expect(parseFormula('Ca(OH)2')).toEqual({ Ca: 1, O: 2, H: 2 })
+    expect(parseFormula('K4[Fe(CN)6]')).toEqual({ K: 4, Fe: 1, C: 6, N: 6 })
+    expect(parseFormula('CuSO4·5H2O')).toEqual({ Cu: 1, S: 1, O: 9, H: 10 })
+  })
+
+  it('should reject unreadable formulas', () => {
+    expect(parseFormula('')).toBeNull()
+    expect(parseFormula('h2o')).toBeNull()
+    expect(parseFormula('Ca(OH2')).toBeNull()
+    expect(parseFormula('NaCl)')).toBeNull()
+  })
+})
+
+describe('balanceFormulas', () => {
+  it('should balance simple reactions', () => {
+    expect(balanceFormulas(['H2', 'O2'], ['H2O'])).toEqual({
+      success: true,
+      reactantCoefficients: [2, 1],
+      productCoefficients: [2],
+    })
+    expect(balanceFormulas(['C3H8', 'O2'], ['CO2', 'H2O'])).toEqual({
+      success: true,
+      reactantCoefficients: [1, 5],
+      productCoefficients: [3, 4],
+    })
+  })
+
+  it('should balance reactions with groups', () => {
+    const result = balanceFormulas(['Ca(OH)2', 'H3PO4'], ['Ca3(PO4)2', 'H2O'])
+    expect(result.reactantCoefficients).toEqual([3, 2])
+    expect(result.productCoefficients).toEqual([1, 6])
+  })
+
+  it('should balance redox reactions', () => {
+    const result = balanceFormulas(['KMnO4', 'HCl'], ['KCl', 'MnCl2', 'H2O', 'Cl2'])
+    expect(result.reactantCoefficients).toEqual([2, 16])
+    expect(result.productCoefficients).toEqual([2, 2, 8, 5])
+  })
+
+  it('should report elements missing from one side', () => {
+    const result = balanceFormulas(['H2O'], ['H2'])
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('O appears in the reactants')
+  })
+
+  it('should reject equations without a unique balance', () => {
+    expect(balanceFormulas(['H2', 'O2'], ['H2O', 'H2O2']).success).toBe(false)
+  })
+
+  it('should reject equations that need negative coefficients', () => {
+    expect(balanceFormulas(['H2O', 'O2'], ['H2']).success).toBe(false)
+  })
+
+  it('should report unreadable formulas', () => {
+    expect(balanceFormulas(['H2', 'o2'], ['H2O']).error).toContain('"o2"')
+  })
+})
+
+describe('formatEquation', () => {
+  it('should write coefficients and subscripts', () => {
+    expect(formatFormula('Ca3(PO4)2')).toBe('Ca₃(PO₄)₂')
+    expect(formatFormula('CuSO4·5H2O')).toBe('CuSO₄·5H₂O')
+    expect(
+      formatEquation(
+        [
+          { formula: 'H2', coefficient: 2 },
+          { formula: 'O2', coefficient: 1 },
+        ],
+        [{ formula: 'H2O', coefficient: 2 }]
+      )
+    ).toBe('2H₂ + O₂ → 2H₂O')
+  })
+})
@@ -0,0 +1,60 @@
+import elementsData from '@/lib/data/elements.json'
+import { Element } from '@/lib/types/element'
+import {
+  AVOGADRO_CONSTANT,
+  calculateLimitingReagent,
+  calculatePercentComposition,
+  convertAmount,
+} from '@/lib/utils/stoichiometry'
+
+const allElements = elementsData as unknown as Element[]
+const elementLookup = new Map(allElements.map((e) => [e.symbol, e]))
+
+const H2 = { formula: 'H2', molarMass: 2.016 }
+const O2 = { formula: 'O2', molarMass: 31.998 }
+const H2O = { formula: 'H2O', molarMass: 18.015 }
+
+describe('convertAmount', () => {
+  it('converts grams to moles and particles', () => {
+    const result = convertAmount(36.03, 'g', H2O.molarMass)
+    expect(result.moles).toBeCloseTo(2, 6)
+    expect(result.particles).toBeCloseTo(2 * AVOGADRO_CONSTANT, -18)
+  })
+
+  it('converts particles back to grams', () => {
+    const result = convertAmount(AVOGADRO_CONSTANT, 'particles', H2O.molarMass)
+    expect(result.moles).toBeCloseTo(1, 10)
+    expect(result.grams).toBeCloseTo(18.015, 6)
+  })
+})
+
+describe('calculatePercentComposition', () => {
+  it('splits water by mass, largest share first', () => {
+    const rows = calculatePercentComposition({ H: 2, O: 1 }, elementLookup)
+    expect(rows.map((r) => r.symbol)).toEqual(['O', 'H'])
+    expect(rows[0].percent).toBeCloseTo(88.8, 1)
+    expect(rows[0].percent + rows[1].percent).toBeCloseTo(100, 6)
+  })
+})
+
+describe('calculateLimitingReagent', () => {
+  it('finds the limiting reagent and theoretical yield', () => {
+    // 4 g H2 is 1.98 mol and needs 0.99 mol O2, but only 0.5 mol is present
+    const result = calculateLimitingReagent(
+      [{ ...H2, grams: 4 }, { ...O2, grams: 16 }],
+      [H2O]
+    )
+    expect(result.success).toBe(true)
+    expect(result.limitingIndex).toBe(1)
+    expect(result.reactants!.map((r) => r.coefficient)).toEqual([2, 1])
+    expect(result.products![0].moles).toBeCloseTo(1, 3)
+    expect(result.products![0].grams).toBeCloseTo(18.015, 2)
+    expect(result.reactants![0].excessGrams).toBeCloseTo(4 - 2.016, 3)
+    expect(result.reactants![1].excessGrams).toBe(0)
+  })
+
+  it('rejects missing masses and unbalanceable reactions', () => {
+    expect(calculateLimitingReagent([{ ...H2, grams: 0 }], [H2O]).success).toBe(false)
+    expect(calculateLimitingReagent([{ ...H2, grams: 1 }], [H2O]).success).toBe(false)
+  })
+})
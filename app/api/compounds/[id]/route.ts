@@ -76,6 +76,8 @@ export async function PUT(
       description,
       elements,
       molarMass,
+      physicalProperties,
+      charge,
       bonds,
       externalFactors,
       canvasData,
@@ -114,6 +116,8 @@ export async function PUT(
         formula,
         description: description || null,
         molarMass: molarMass || 0,
+        physicalProperties: physicalProperties || null,
+        charge: charge || 0,
         elements: elements.map((el: any) => ({
           elementId: el.elementId,
           symbol: el.symbol,
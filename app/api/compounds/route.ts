@@ -65,6 +65,8 @@ export async function POST(request: NextRequest) {
       description,
       elements,
       molarMass,
+      physicalProperties,
+      charge,
       bonds,
       externalFactors,
       canvasData,
@@ -88,6 +90,8 @@ export async function POST(request: NextRequest) {
       formula,
       description: description || null,
       molarMass: molarMass || 0,
+      physicalProperties: physicalProperties || null,
+      charge: charge || 0,
       createdBy: session.user.id,
       createdByName: session.user.name || "Unknown",
       elements: elements.map((el: any) => ({
@@ -9,7 +9,10 @@ export async function GET() {
 
     const elements = await ElementModel.find({})
       .select(
-        "atomicNumber symbol name atomicMass category categories color gridRow gridColumn"
+        "atomicNumber symbol name atomicMass category categories color gridRow gridColumn " +
+          // Chemistry and phase fields used by the compound, reaction and periodic table tools
+          "group period block electronConfiguration electronsPerShell electronegativity atomicRadius " +
+          "oxidationStates phase meltingPoint boilingPoint cpkColor ionizationEnergy density yearDiscovered"
       )
       .sort({ atomicNumber: 1 })
       .lean();
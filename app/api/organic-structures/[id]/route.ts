@@ -4,6 +4,9 @@ import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectDB from "@/lib/db/mongodb";
 import OrganicStructureModel from "@/lib/db/models/OrganicStructure";
 import mongoose from "mongoose";
+import { tryWriteMolfile } from "@/lib/utils/organic-molfile";
+import { generateStructureIdentifiers } from "@/lib/utils/organic-inchi";
+import { computeStructureFingerprint } from "@/lib/utils/organic-fingerprint";
 
 // GET single organic structure by ID
 export async function GET(
@@ -142,6 +145,9 @@ export async function PUT(
       );
     }
 
+    const identifiers = generateStructureIdentifiers(atoms, bonds);
+    const fingerprint = computeStructureFingerprint(atoms, bonds);
+
     // Update the structure
     const updatedStructure = await OrganicStructureModel.findByIdAndUpdate(
       id,
@@ -151,6 +157,11 @@ export async function PUT(
         commonName: commonName || null,
         category,
         smiles,
+        // Keep the stored Molfile in sync with the edited structure; none past the V2000 limits
+        molFile: tryWriteMolfile(atoms, bonds, { name }),
+        inchi: identifiers?.inchi || null,
+        inchiKey: identifiers?.inchiKey || null,
+        fingerprint: fingerprint || undefined,
         atoms,
         bonds,
         functionalGroups: functionalGroups || [],
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectDB from "@/lib/db/mongodb";
+import OrganicStructureModel from "@/lib/db/models/OrganicStructure";
+import mongoose from "mongoose";
+import { computeStructureFingerprint, tanimotoSimilarity } from "@/lib/utils/organic-fingerprint";
+
+// Upper bound on structures scored per request
+const MAX_CANDIDATES = 500;
+
+// GET structures similar to this one, ranked by Tanimoto similarity
+// Query params: limit (default 10), threshold (minimum similarity, default 0.3)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid structure ID",
+        },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const requestedLimit = parseInt(searchParams.get("limit") || "10");
+    const limit = Math.min(Number.isFinite(requestedLimit) && requestedLimit > 0 ? requestedLimit : 10, 50);
+    const requestedThreshold = parseFloat(searchParams.get("threshold") || "0.3");
+    const threshold = Number.isFinite(requestedThreshold) ? Math.min(Math.max(requestedThreshold, 0), 1) : 0.3;
+
+    await connectDB();
+
+    const structure = await OrganicStructureModel.findById(id).lean();
+
+    if (!structure) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Structure not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const fingerprint = structure.fingerprint?.length
+      ? structure.fingerprint
+      : computeStructureFingerprint(structure.atoms, structure.bonds);
+
+    if (!fingerprint || fingerprint.length === 0) {
+      return NextResponse.json({ success: true, count: 0, structures: [] });
+    }
+
+    // Only public structures and the viewer's own are suggested
+    const session = await getServerSession(authOptions);
+    const visibility = session?.user?.id
+      ? [{ isPublic: true }, { createdBy: session.user.id }]
+      : [{ isPublic: true }];
+
+    // Candidates must share at least one bit. Only fingerprints are loaded for
+    // scoring, and at most MAX_CANDIDATES of them, newest first.
+    const candidates = await OrganicStructureModel.find({
+      _id: { $ne: structure._id },
+      $and: [
+        { $or: visibility },
+        { $or: [{ fingerprint: { $in: fingerprint } }, { fingerprint: { $exists: false } }] },
+      ],
+    })
+      .sort({ createdAt: -1 })
+      .limit(MAX_CANDIDATES)
+      .select("name fingerprint")
+      .lean();
+
+    // Structures saved before fingerprints existed are fingerprinted on the fly
+    const legacyIds = candidates.filter((candidate) => !candidate.fingerprint?.length).map((candidate) => candidate._id);
+    const legacyFingerprints = new Map<string, number[]>();
+    if (legacyIds.length > 0) {
+      const legacy = await OrganicStructureModel.find({ _id: { $in: legacyIds } }).select("atoms bonds").lean();
+      legacy.forEach((candidate) => {
+        legacyFingerprints.set(candidate._id.toString(), computeStructureFingerprint(candidate.atoms, candidate.bonds) || []);
+      });
+    }
+
+    const ranked = candidates
+      .map((candidate) => {
+        const candidateFingerprint = candidate.fingerprint?.length
+          ? candidate.fingerprint
+          : legacyFingerprints.get(candidate._id.toString()) || [];
+        return { id: candidate._id.toString(), similarity: tanimotoSimilarity(fingerprint, candidateFingerprint) };
+      })
+      .filter((candidate) => candidate.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    // Details only for the hits that are returned
+    const hits = await OrganicStructureModel.find({ _id: { $in: ranked.map((hit) => hit.id) } })
+      .select("name iupacName category smiles molecularFormula molecularWeight")
+      .lean();
+    const details = new Map(hits.map((hit) => [hit._id.toString(), hit]));
+
+    const similar = ranked
+      .filter((hit) => details.has(hit.id))
+      .map((hit) => {
+        const detail = details.get(hit.id)!;
+        return {
+          id: hit.id,
+          name: detail.name,
+          iupacName: detail.iupacName,
+          category: detail.category,
+          smiles: detail.smiles,
+          molecularFormula: detail.molecularFormula,
+          molecularWeight: detail.molecularWeight,
+          similarity: hit.similarity,
+        };
+      });
+
+    return NextResponse.json({
+      success: true,
+      count: similar.length,
+      structures: similar,
+    });
+  } catch (error) {
+    console.error("Error finding similar structures:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to find similar structures",
+      },
+      { status: 500 }
+    );
+  }
+}
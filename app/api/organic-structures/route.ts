@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectDB from "@/lib/db/mongodb";
 import OrganicStructureModel from "@/lib/db/models/OrganicStructure";
+import { tryWriteMolfile } from "@/lib/utils/organic-molfile";
+import { generateStructureIdentifiers } from "@/lib/utils/organic-inchi";
+import { computeStructureFingerprint } from "@/lib/utils/organic-fingerprint";
 
 // GET all organic structures with optional filtering
 export async function GET(request: NextRequest) {
@@ -59,6 +62,11 @@ export async function GET(request: NextRequest) {
       filter.templateCategory = templateCategory;
     }
 
+    const inchiKey = searchParams.get("inchiKey");
+    if (inchiKey) {
+      filter.inchiKey = inchiKey;
+    }
+
     const tag = searchParams.get("tag");
     if (tag) {
       filter.tags = tag;
@@ -165,6 +173,9 @@ export async function POST(request: NextRequest) {
 
     await connectDB();
 
+    const identifiers = generateStructureIdentifiers(atoms, bonds || []);
+    const fingerprint = computeStructureFingerprint(atoms, bonds || []);
+
     // Create organic structure
     const structure = await OrganicStructureModel.create({
       name,
@@ -172,8 +183,10 @@ export async function POST(request: NextRequest) {
       commonName: commonName || null,
       category,
       smiles,
-      molFile: molFile || null,
-      inchi: inchi || null,
+      molFile: molFile || tryWriteMolfile(atoms, bonds || [], { name }),
+      inchi: identifiers?.inchi || inchi || null,
+      inchiKey: identifiers?.inchiKey,
+      fingerprint: fingerprint || undefined,
       atoms: atoms || [],
       bonds: bonds || [],
       functionalGroups: functionalGroups || [],
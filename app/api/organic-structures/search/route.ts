@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectDB from "@/lib/db/mongodb";
+import OrganicStructureModel from "@/lib/db/models/OrganicStructure";
+import { parseSMILES } from "@/lib/utils/organic-smiles";
+import { molfileRecordToGraph } from "@/lib/utils/organic-molfile";
+import { computeFingerprint } from "@/lib/utils/organic-fingerprint";
+import { findSubstructureMatches } from "@/lib/utils/organic-substructure";
+
+// GET organic structures containing a substructure
+// Query params: smiles (required, the fragment), category, createdBy, isPublic, limit
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const smiles = searchParams.get("smiles");
+    if (!smiles) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required query parameter: smiles",
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSMILES(smiles);
+    if (!parsed.success || !parsed.graph) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error || "Invalid SMILES query",
+        },
+        { status: 400 }
+      );
+    }
+    const query = parsed.graph;
+    const queryBits = computeFingerprint(query);
+
+    await connectDB();
+
+    // Only public structures and the viewer's own are searched
+    const session = await getServerSession(authOptions);
+    const visibility = session?.user?.id
+      ? [{ isPublic: true }, { createdBy: session.user.id }]
+      : [{ isPublic: true }];
+
+    // Fingerprint prefilter: only structures with every query bit set can match.
+    // Structures saved before fingerprints existed have none and are checked directly.
+    const filter: Record<string, unknown> = {
+      $and: [
+        { $or: visibility },
+        { $or: [{ fingerprint: { $all: queryBits } }, { fingerprint: { $exists: false } }] },
+      ],
+    };
+
+    const category = searchParams.get("category");
+    if (category) {
+      filter.category = category;
+    }
+
+    const createdBy = searchParams.get("createdBy");
+    if (createdBy) {
+      filter.createdBy = createdBy;
+    }
+
+    const isPublic = searchParams.get("isPublic");
+    if (isPublic !== null) {
+      filter.isPublic = isPublic === "true";
+    }
+
+    const requestedLimit = parseInt(searchParams.get("limit") || "50");
+    const limit = Math.min(Number.isFinite(requestedLimit) && requestedLimit > 0 ? requestedLimit : 50, 200);
+
+    // Candidates are streamed with only what matching needs; full documents
+    // are loaded for the matches alone
+    const cursor = OrganicStructureModel.find(filter).sort({ createdAt: -1 }).select("name atoms bonds").lean().cursor();
+
+    const matchedAtomIds = new Map<string, string[]>();
+    let scanned = 0;
+    for await (const candidate of cursor) {
+      scanned++;
+      const converted = molfileRecordToGraph({
+        name: candidate.name,
+        atoms: candidate.atoms,
+        bonds: candidate.bonds,
+        properties: {},
+      });
+      if (!converted.success || !converted.graph) continue;
+
+      const [mapping] = findSubstructureMatches(query, converted.graph);
+      if (!mapping) continue;
+
+      matchedAtomIds.set(candidate._id.toString(), Array.from(mapping.values()));
+      if (matchedAtomIds.size >= limit) break;
+    }
+    await cursor.close();
+
+    const structures = await OrganicStructureModel.find({ _id: { $in: Array.from(matchedAtomIds.keys()) } })
+      .sort({ createdAt: -1 })
+      .lean();
+    const matches = structures.map((structure) => ({
+      ...structure,
+      id: structure._id.toString(),
+      matchedAtomIds: matchedAtomIds.get(structure._id.toString()) || [],
+    }));
+
+    return NextResponse.json({
+      success: true,
+      query: smiles,
+      scanned,
+      count: matches.length,
+      structures: matches,
+    });
+  } catch (error) {
+    console.error("Error searching organic structures:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to search organic structures",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextResponse, NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectDB from "@/lib/db/mongodb";
+import ReactionModel from "@/lib/db/models/Reaction";
+import mongoose from "mongoose";
+
+// GET reaction by ID
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reaction ID",
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const reaction = await ReactionModel.findById(id).lean();
+
+    if (!reaction) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Reaction with ID "${id}" not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        reaction: {
+          ...reaction,
+          id: reaction._id.toString(),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching reaction:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch reaction",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE reaction
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reaction ID",
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Find existing reaction
+    const existingReaction = await ReactionModel.findById(id);
+
+    if (!existingReaction) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Reaction not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    // Check if user owns the reaction
+    if (existingReaction.createdBy !== session.user.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden - You can only delete your own reactions",
+        },
+        { status: 403 }
+      );
+    }
+
+    await ReactionModel.findByIdAndDelete(id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Reaction deleted successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error deleting reaction:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete reaction",
+      },
+      { status: 500 }
+    );
+  }
+}
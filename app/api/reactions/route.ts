@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectDB from "@/lib/db/mongodb";
+import ReactionModel from "@/lib/db/models/Reaction";
+import CompoundModel from "@/lib/db/models/Compound";
+import mongoose from "mongoose";
+import { ReactionSpecies } from "@/lib/types/reaction";
+import { balanceFormulas, formatEquation } from "@/lib/utils/reaction-balancer";
+
+// GET all reactions (optionally filter by userId or by a compound taking part)
+export async function GET(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const searchParams = request.nextUrl.searchParams;
+    const userId = searchParams.get("userId");
+    const compoundId = searchParams.get("compoundId");
+
+    // Build query filter
+    const filter: Record<string, unknown> = {};
+    if (userId) {
+      filter.createdBy = userId;
+    }
+    if (compoundId) {
+      filter.$or = [{ "reactants.compoundId": compoundId }, { "products.compoundId": compoundId }];
+    }
+
+    const reactions = await ReactionModel.find(filter).sort({ createdAt: -1 }).lean();
+
+    // Transform _id to id for easier client-side usage
+    const transformedReactions = reactions.map((reaction) => ({
+      ...reaction,
+      id: reaction._id.toString(),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      count: transformedReactions.length,
+      reactions: transformedReactions,
+    });
+  } catch (error) {
+    console.error("Error fetching reactions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch reactions",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST create reaction; coefficients are always solved on the server
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, description, reactants, products, externalFactors } = body;
+
+    if (!name || !Array.isArray(reactants) || !Array.isArray(products) || reactants.length === 0 || products.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required fields",
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Species that reference a saved compound take its formula and name
+    const compoundIds = [...reactants, ...products]
+      .map((species: Partial<ReactionSpecies>) => species.compoundId)
+      .filter((id): id is string => !!id && mongoose.Types.ObjectId.isValid(id));
+    const compounds = await CompoundModel.find({ _id: { $in: compoundIds } }).lean();
+    const compoundMap = new Map(compounds.map((compound) => [compound._id.toString(), compound]));
+
+    const resolveSpecies = (species: Partial<ReactionSpecies>): Omit<ReactionSpecies, "coefficient"> | string => {
+      if (species.compoundId) {
+        const compound = compoundMap.get(species.compoundId);
+        if (!compound) return `Compound with ID "${species.compoundId}" not found`;
+        return {
+          compoundId: species.compoundId,
+          formula: compound.formula,
+          name: compound.name,
+          state: species.state,
+        };
+      }
+      if (!species.formula?.trim()) return "Every species needs a compound or a formula";
+      return {
+        formula: species.formula.trim(),
+        name: species.name || undefined,
+        state: species.state,
+      };
+    };
+
+    const resolvedReactants = reactants.map(resolveSpecies);
+    const resolvedProducts = products.map(resolveSpecies);
+    const resolveError = [...resolvedReactants, ...resolvedProducts].find((s) => typeof s === "string");
+    if (resolveError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: resolveError,
+        },
+        { status: 400 }
+      );
+    }
+
+    const reactantSpecies = resolvedReactants as Omit<ReactionSpecies, "coefficient">[];
+    const productSpecies = resolvedProducts as Omit<ReactionSpecies, "coefficient">[];
+
+    const balance = balanceFormulas(
+      reactantSpecies.map((s) => s.formula),
+      productSpecies.map((s) => s.formula)
+    );
+    if (!balance.success || !balance.reactantCoefficients || !balance.productCoefficients) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: balance.error || "Failed to balance reaction",
+        },
+        { status: 400 }
+      );
+    }
+
+    const balancedReactants = reactantSpecies.map((s, i) => ({
+      ...s,
+      coefficient: balance.reactantCoefficients![i],
+    }));
+    const balancedProducts = productSpecies.map((s, i) => ({
+      ...s,
+      coefficient: balance.productCoefficients![i],
+    }));
+
+    const reaction = await ReactionModel.create({
+      name,
+      description: description || null,
+      reactants: balancedReactants,
+      products: balancedProducts,
+      equation: formatEquation(balancedReactants, balancedProducts),
+      externalFactors: externalFactors || {},
+      createdBy: session.user.id,
+      createdByName: session.user.name || "Unknown",
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        reaction,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating reaction:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create reaction",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import ComparisonTable from "@/components/compare/ComparisonTable";
+import ShellOverlay from "@/components/compare/ShellOverlay";
+import PropertyChart from "@/components/compare/PropertyChart";
+import { useCompareStore } from "@/lib/stores/useCompareStore";
+import { Element } from "@/lib/types/element";
+import { COMPARE_COLORS, MAX_COMPARE, MIN_COMPARE, parseCompareSymbols } from "@/lib/utils/element-comparison";
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const setCompareSymbols = useCompareStore((state) => state.setSymbols);
+
+  // The URL is the source of truth so a comparison can be shared
+  const symbols = useMemo(() => parseCompareSymbols(searchParams.get("symbols")), [searchParams]);
+
+  const [loaded, setLoaded] = useState<Record<string, Element | null>>({}); // null: not a known element
+  const [newSymbol, setNewSymbol] = useState("");
+
+  // Symbols already fetched or in flight, so each one is fetched once
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    const fetchElement = async (symbol: string) => {
+      try {
+        const res = await fetch(`/api/elements/${symbol}`);
+        const data = res.ok ? await res.json() : null;
+        setLoaded((current) => ({ ...current, [symbol]: data?.element ?? null }));
+      } catch (error) {
+        console.error("Error fetching element:", error);
+        setLoaded((current) => ({ ...current, [symbol]: null }));
+      }
+    };
+
+    setCompareSymbols(symbols);
+    symbols
+      .filter((symbol) => !requested.current.has(symbol))
+      .forEach((symbol) => {
+        requested.current.add(symbol);
+        fetchElement(symbol);
+      });
+  }, [symbols, setCompareSymbols]);
+
+  const updateSymbols = (next: string[]) => {
+    router.replace(next.length > 0 ? `/compare?symbols=${next.join(",")}` : "/compare", { scroll: false });
+  };
+
+  const handleAdd = () => {
+    const [symbol] = parseCompareSymbols(newSymbol);
+    if (symbol && !symbols.includes(symbol) && symbols.length < MAX_COMPARE) {
+      updateSymbols([...symbols, symbol]);
+    }
+    setNewSymbol("");
+  };
+
+  const elements = symbols.map((symbol) => loaded[symbol]).filter((element): element is Element => !!element);
+  const unknown = symbols.filter((symbol) => loaded[symbol] === null);
+  const loading = symbols.some((symbol) => !(symbol in loaded));
+
+  return (
+    <main className="container mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-6 max-w-7xl space-y-6">
+      {/* Selection */}
+      <div className="flex flex-wrap items-center gap-2">
+        {symbols.map((symbol) => {
+          const index = elements.findIndex((e) => e.symbol === symbol);
+          return (
+            <button
+              key={symbol}
+              onClick={() => updateSymbols(symbols.filter((s) => s !== symbol))}
+              title={`Remove ${symbol}`}
+              className="px-3 py-1 rounded-md border border-gray-700 bg-gray-800/50 text-sm font-semibold hover:border-red-400 cursor-pointer"
+              style={{ color: index >= 0 ? COMPARE_COLORS[index] : "#9CA3AF" }}
+            >
+              {symbol} ×
+            </button>
+          );
+        })}
+        {symbols.length < MAX_COMPARE && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAdd();
+            }}
+            className="flex gap-1"
+          >
+            <input
+              value={newSymbol}
+              onChange={(e) => setNewSymbol(e.target.value)}
+              placeholder="Symbol"
+              maxLength={3}
+              className="w-20 px-2 py-1 rounded-md bg-gray-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]"
+            />
+            <button type="submit" className="px-3 py-1 rounded-md bg-[#6C5CE7] hover:bg-[#5B4BD6] text-white text-sm cursor-pointer">
+              Add
+            </button>
+          </form>
+        )}
+        <span className="text-xs text-gray-500">
+          {MIN_COMPARE}–{MAX_COMPARE} elements
+        </span>
+      </div>
+
+      {unknown.length > 0 && <p className="text-sm text-yellow-300">Unknown element: {unknown.join(", ")}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#6C5CE7]"></div>
+        </div>
+      ) : elements.length < MIN_COMPARE ? (
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-bold text-white mb-2">Pick at least {MIN_COMPARE} elements</h2>
+          <p className="text-white/60 mb-6">
+            Add symbols above, or use the compare toggle on the periodic table&apos;s element cards.
+          </p>
+          <Link href="/periodic-table" className="px-4 py-2 rounded-lg bg-[#6C5CE7] hover:bg-[#5B4BD6] text-white">
+            Open Periodic Table
+          </Link>
+        </div>
+      ) : (
+        <>
+          <ComparisonTable elements={elements} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ShellOverlay elements={elements} />
+            <PropertyChart elements={elements} />
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <div className="min-h-[calc(100vh-3.5rem)] bg-linear-to-br from-[#0F0F1E] via-[#1A1A2E] to-[#0F0F1E]">
+      <Suspense
+        fallback={
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#6C5CE7]"></div>
+          </div>
+        }
+      >
+        <CompareContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -3,12 +3,15 @@
 import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import { useEffect, useState, useMemo } from "react";
+import { Suspense, useEffect, useState, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Element } from "@/lib/types/element";
 import { validateCompound } from "@/lib/utils/chemical-validation";
 import ValidationPanel from "@/components/compounds/create/ValidationPanel";
 import CompoundVisualizationWrapper from "@/components/compounds/CompoundVisualizationWrapper";
+import StoichiometryCalculator from "@/components/compounds/StoichiometryCalculator";
+import GasBehaviorPanel from "@/components/compounds/GasBehaviorPanel";
+import PhasePanel from "@/components/compounds/PhasePanel";
 
 interface CompoundElement {
   elementId: string;
@@ -21,12 +24,12 @@ interface Bond {
   id: string;
   fromElementId: string;
   toElementId: string;
-  bondType: "single" | "double" | "triple" | "ionic" | "covalent" | "metallic";
+  bondType: "single" | "double" | "triple" | "ionic" | "covalent" | "metallic" | "dative";
 }
 
 interface ExternalFactors {
-  temperature?: { enabled: boolean; value?: number; unit?: string };
-  pressure?: { enabled: boolean; value?: number; unit?: string };
+  temperature?: { enabled: boolean; value?: number; unit?: "K" | "C" };
+  pressure?: { enabled: boolean; value?: number; unit?: "atm" | "Pa" };
   catalyst?: { enabled: boolean; name?: string; details?: string };
   heat?: { enabled: boolean; details?: string };
   light?: { enabled: boolean; wavelength?: number; details?: string };
@@ -39,6 +42,8 @@ interface Compound {
   formula: string;
   molarMass: number;
   description?: string;
+  physicalProperties?: { meltingPoint?: number | null; boilingPoint?: number | null };
+  charge?: number;
   elements: CompoundElement[];
   bonds?: Bond[];
   externalFactors?: ExternalFactors;
@@ -111,7 +116,7 @@ export default function CompoundDetailPage() {
       }))
       .filter((el) => el.element !== undefined);
 
-    return validateCompound(enrichedElements, compound.bonds || []);
+    return validateCompound(enrichedElements, compound.bonds || [], compound.charge ?? 0);
   }, [compound, allElements]);
 
   const isOwner = session?.user && compound && session.user.id === compound.createdBy;
@@ -301,6 +306,34 @@ export default function CompoundDetailPage() {
                 </div>
               </motion.div>
             )}
+
+            {/* Gas Behavior */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.4 }}
+              className="bg-white/5 border border-white/10 rounded-xl p-6"
+            >
+              <GasBehaviorPanel
+                formula={compound.formula}
+                molarMass={compound.molarMass}
+                externalFactors={compound.externalFactors}
+              />
+            </motion.div>
+
+            {/* Phase */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.5 }}
+              className="bg-white/5 border border-white/10 rounded-xl p-6"
+            >
+              <PhasePanel
+                formula={compound.formula}
+                physicalProperties={compound.physicalProperties}
+                externalFactors={compound.externalFactors}
+              />
+            </motion.div>
           </div>
 
           {/* Right Column - Visual Representation */}
@@ -311,7 +344,12 @@ export default function CompoundDetailPage() {
               className="bg-gradient-to-br from-white/10 to-white/5 border-2 border-white/20 rounded-2xl p-6 shadow-xl"
             >
               {allElements.length > 0 ? (
-                <CompoundVisualizationWrapper elements={compound.elements} bonds={compound.bonds} allElements={allElements} />
+                <CompoundVisualizationWrapper
+                  elements={compound.elements}
+                  bonds={compound.bonds}
+                  allElements={allElements}
+                  charge={compound.charge ?? 0}
+                />
               ) : (
                 <div>
                   <h2 className="text-xl font-bold text-white mb-4">Structure Visualization</h2>
@@ -321,6 +359,20 @@ export default function CompoundDetailPage() {
                 </div>
               )}
             </motion.div>
+
+            {/* Stoichiometry Calculator */}
+            {allElements.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 }}
+                className="mt-6 bg-white/5 border border-white/10 rounded-xl p-6"
+              >
+                <Suspense fallback={null}>
+                  <StoichiometryCalculator compound={compound} allElements={allElements} />
+                </Suspense>
+              </motion.div>
+            )}
           </div>
         </div>
       </div>
@@ -6,6 +6,9 @@ import PropertyGrid from "@/components/element-detail/PropertyGrid";
 import IsotopesSection from "@/components/element-detail/IsotopesSection";
 import DiscoverySection from "@/components/element-detail/DiscoverySection";
 import BohrModel3D from "@/components/element-detail/BohrModel3D";
+import OrbitalViewer from "@/components/element-detail/OrbitalViewer";
+import ElectronConfigurationSection from "@/components/element-detail/ElectronConfigurationSection";
+import DecayChainSection from "@/components/element-detail/DecayChainSection";
 
 async function getElement(symbol: string): Promise<Element | null> {
   try {
@@ -115,15 +118,24 @@ export default async function ElementDetailPage({ params }: { params: Promise<{
           <BohrModel3D element={element} />
         </div>
 
+        {/* Orbitals */}
+        <OrbitalViewer key={element.symbol} element={element} />
+
         {/* Properties Grid */}
         <PropertyGrid element={element} />
 
+        {/* Electron Configuration */}
+        <ElectronConfigurationSection key={element.symbol} element={element} />
+
         {/* Discovery Info */}
         {(element.discoveredBy || element.yearDiscovered) && <DiscoverySection element={element} />}
 
         {/* Isotopes */}
         {element.isotopes && element.isotopes.length > 0 && <IsotopesSection isotopes={element.isotopes} />}
 
+        {/* Decay Chain */}
+        {element.isRadioactive && <DecayChainSection key={element.symbol} element={element} />}
+
         {/* Summary */}
         <div className="mt-6 md:mt-8 bg-gray-800/50 border border-gray-700 rounded-lg p-4 md:p-6">
           <h2 className="text-xl md:text-2xl font-bold text-white mb-3 md:mb-4">About {element.name}</h2>
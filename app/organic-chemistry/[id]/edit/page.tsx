@@ -6,6 +6,7 @@ import { useRouter, useParams } from "next/navigation";
 import { useModal } from "@/lib/contexts/ModalContext";
 import {
   MoleculeGraph,
+  getAtomLabel,
   updateImplicitHydrogens,
   updateHybridization,
   validateValence,
@@ -30,6 +31,8 @@ import {
   removeSubstituent,
   MutationResult,
 } from "@/lib/utils/organic-mutations";
+import { useOrganicHistoryStore } from "@/lib/stores/useOrganicHistoryStore";
+import OrganicHistoryPanel from "@/components/organic/OrganicHistoryPanel";
 
 // Define OrganicStructure interface (minimal version for display)
 interface OrganicStructure {
@@ -54,7 +57,15 @@ export default function EditOrganicStructurePage() {
   const params = useParams();
   const { showAlert, showError, showWarning } = useModal();
   const [selectedTemplate, setSelectedTemplate] = useState<string>("blank-canvas");
-  const [graph, setGraph] = useState<MoleculeGraph | null>(null);
+  const {
+    graph,
+    start: startHistory,
+    record: recordHistory,
+    recordMutation,
+    preview,
+    commitPreview,
+    clear: clearHistory,
+  } = useOrganicHistoryStore();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedBondId, setSelectedBondId] = useState<string | null>(null);
   const [cyclizeMode, setCyclizeMode] = useState(false);
@@ -112,6 +123,7 @@ export default function EditOrganicStructurePage() {
             position: { x: atom.position.x, y: atom.position.y },
             hybridization: atom.hybridization || "sp3",
             implicitHydrogens: 0,
+            ...(atom.charge ? { charge: atom.charge } : {}),
           })),
           edges: structure.bonds.map((bond: any) => ({
             id: bond.id,
@@ -123,11 +135,10 @@ export default function EditOrganicStructurePage() {
         };
 
         // Recalculate implicit hydrogens
-        updateImplicitHydrogens(reconstructedGraph);
-        updateHybridization(reconstructedGraph);
+        const loadedGraph = updateHybridization(updateImplicitHydrogens(reconstructedGraph));
 
-        setGraph(reconstructedGraph);
-        setOriginalGraph(JSON.parse(JSON.stringify(reconstructedGraph))); // Deep copy for reset
+        startHistory(loadedGraph, "Load saved structure");
+        setOriginalGraph(JSON.parse(JSON.stringify(loadedGraph))); // Deep copy for reset
         setIsLoading(false);
       } else {
         showError("Structure not found");
@@ -140,6 +151,9 @@ export default function EditOrganicStructurePage() {
     }
   };
 
+  // History lives in a shared store; leave it empty for the next editor
+  useEffect(() => clearHistory, [clearHistory]);
+
   const loadTemplate = useCallback(
     (templateId: string, length?: number, skipWarning = false) => {
       // Check if canvas has meaningful content
@@ -166,7 +180,7 @@ export default function EditOrganicStructurePage() {
       const params = { chainLength: length || chainLength };
       let initialGraph = createTemplate(template.type, params);
 
-      setGraph(initialGraph);
+      recordHistory(initialGraph, `Load ${template.name}`);
       setSelectedTemplate(templateId);
       setSelectedNodeId(null);
       setSelectedBondId(null);
@@ -175,7 +189,7 @@ export default function EditOrganicStructurePage() {
       setDragStart(null);
       setHasUnsavedChanges(true);
     },
-    [chainLength, graph, showWarning]
+    [chainLength, graph, showWarning, recordHistory]
   );
 
   const getStructure = useCallback((): OrganicStructure | null => {
@@ -202,36 +216,33 @@ export default function EditOrganicStructurePage() {
   const handleExtend = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = extendChain(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Extend chain from ${getAtomLabel(graph, selectedNodeId)}`)) {
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to extend chain");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleShorten = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = shortenChain(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Shorten chain at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setSelectedNodeId(null);
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to shorten chain");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleBranch = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = branchCarbon(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Add branch at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to add branch");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const isBondInCycle = useCallback(
     (bondFrom: string, bondTo: string): boolean => {
@@ -287,6 +298,9 @@ export default function EditOrganicStructurePage() {
         return;
       }
 
+      const bondName = `${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)}`;
+      const orderName = ["", "single", "double", "triple"][targetOrder];
+
       if (targetOrder > bond.bondOrder) {
         let currentGraph = graph;
         for (let i = bond.bondOrder; i < targetOrder; i++) {
@@ -297,7 +311,7 @@ export default function EditOrganicStructurePage() {
           }
           currentGraph = result.graph;
         }
-        setGraph(currentGraph);
+        recordHistory(currentGraph, `Make ${bondName} bond ${orderName}`);
         setHasUnsavedChanges(true);
       } else {
         let currentGraph = graph;
@@ -309,11 +323,11 @@ export default function EditOrganicStructurePage() {
           }
           currentGraph = result.graph;
         }
-        setGraph(currentGraph);
+        recordHistory(currentGraph, `Make ${bondName} bond ${orderName}`);
         setHasUnsavedChanges(true);
       }
     },
-    [graph, selectedBondId, showAlert, showError]
+    [graph, selectedBondId, showAlert, showError, recordHistory]
   );
 
   const handleRemoveBond = useCallback(() => {
@@ -344,7 +358,7 @@ export default function EditOrganicStructurePage() {
         }
         currentGraph = result.graph;
       }
-      setGraph(currentGraph);
+      recordHistory(currentGraph, `Make ${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)} bond single`);
       setHasUnsavedChanges(true);
       return;
     }
@@ -354,38 +368,38 @@ export default function EditOrganicStructurePage() {
       edges: graph.edges.filter((e) => e.id !== selectedBondId),
     };
 
-    updateImplicitHydrogens(updatedGraph);
-
-    setGraph(updatedGraph);
+    recordHistory(
+      updateImplicitHydrogens(updatedGraph),
+      `Remove ${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)} bond`
+    );
     setSelectedBondId(null);
     setHasUnsavedChanges(true);
-  }, [graph, selectedBondId, isBondInCycle, showAlert, showError]);
+  }, [graph, selectedBondId, isBondInCycle, showAlert, showError, recordHistory]);
 
   const handleAttachGroup = useCallback(
     (groupType: "hydroxyl" | "amino" | "nitro" | "carbonyl" | "halogen", halogen?: "F" | "Cl" | "Br" | "I") => {
       if (!graph || !selectedNodeId) return;
       const result = attachSubstituent(graph, selectedNodeId, { type: groupType, halogen });
-      if (result.success && result.graph) {
-        setGraph(result.graph);
+      const groupName = groupType === "halogen" ? halogen || "halogen" : groupType;
+      if (recordMutation(result, `Attach ${groupName} to ${getAtomLabel(graph, selectedNodeId)}`)) {
         setHasUnsavedChanges(true);
       } else {
         showError(result.error || "Failed to attach group");
       }
     },
-    [graph, selectedNodeId, showError]
+    [graph, selectedNodeId, showError, recordMutation]
   );
 
   const handleRemoveGroup = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = removeSubstituent(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Remove group at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setSelectedNodeId(null);
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to remove group");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleCyclize = useCallback(() => {
     if (!cyclizeMode) {
@@ -396,8 +410,8 @@ export default function EditOrganicStructurePage() {
 
     if (graph && cyclizeFirstNode && selectedNodeId && cyclizeFirstNode !== selectedNodeId) {
       const result = cyclize(graph, cyclizeFirstNode, selectedNodeId);
-      if (result.success && result.graph) {
-        setGraph(result.graph);
+      const label = `Cyclize ${getAtomLabel(graph, cyclizeFirstNode)}–${getAtomLabel(graph, selectedNodeId)}`;
+      if (recordMutation(result, label)) {
         setCyclizeMode(false);
         setCyclizeFirstNode(null);
         setSelectedNodeId(null);
@@ -406,7 +420,7 @@ export default function EditOrganicStructurePage() {
         showError(result.error || "Failed to cyclize");
       }
     }
-  }, [graph, cyclizeMode, cyclizeFirstNode, selectedNodeId, showError]);
+  }, [graph, cyclizeMode, cyclizeFirstNode, selectedNodeId, showError, recordMutation]);
 
   const handleNodeClick = useCallback(
     (nodeId: string) => {
@@ -416,8 +430,8 @@ export default function EditOrganicStructurePage() {
         } else if (cyclizeFirstNode !== nodeId) {
           if (graph) {
             const result = cyclize(graph, cyclizeFirstNode, nodeId);
-            if (result.success && result.graph) {
-              setGraph(result.graph);
+            const label = `Cyclize ${getAtomLabel(graph, cyclizeFirstNode)}–${getAtomLabel(graph, nodeId)}`;
+            if (recordMutation(result, label)) {
               setHasUnsavedChanges(true);
             } else {
               showError(result.error || "Failed to cyclize");
@@ -431,7 +445,7 @@ export default function EditOrganicStructurePage() {
         setSelectedBondId(null);
       }
     },
-    [cyclizeMode, cyclizeFirstNode, graph, showError]
+    [cyclizeMode, cyclizeFirstNode, graph, showError, recordMutation]
   );
 
   const handleBondClick = useCallback(
@@ -541,20 +555,33 @@ export default function EditOrganicStructurePage() {
         }),
       };
 
-      setGraph(updatedGraph);
+      preview(updatedGraph);
       setDragStart({ x: svgP.x, y: svgP.y });
     },
-    [draggingNodeId, dragStart, graph, getAromaticRingNodes]
+    [draggingNodeId, dragStart, graph, getAromaticRingNodes, preview]
   );
 
   const handleSvgMouseUp = useCallback(() => {
+    // The whole drag becomes a single history entry
+    if (draggingNodeId && graph) {
+      commitPreview(`Move ${getAtomLabel(graph, draggingNodeId)}`);
+    }
     if (draggingNodeId && dragStart) {
       // Node was dragged, mark as unsaved change
       setHasUnsavedChanges(true);
     }
     setDraggingNodeId(null);
     setDragStart(null);
-  }, [draggingNodeId, dragStart]);
+  }, [draggingNodeId, dragStart, graph, commitPreview]);
+
+  // Clear selections that may point at atoms missing after undo/redo
+  const handleHistoryNavigate = useCallback(() => {
+    setSelectedNodeId(null);
+    setSelectedBondId(null);
+    setCyclizeMode(false);
+    setCyclizeFirstNode(null);
+    setHasUnsavedChanges(true);
+  }, []);
 
   const handleCanvasClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
     if (e.target === e.currentTarget) {
@@ -588,7 +615,7 @@ export default function EditOrganicStructurePage() {
           z: 0,
         },
         hybridization: node.hybridization,
-        charge: 0,
+        charge: node.charge || 0,
       }));
 
       const mapBondType = (bondOrder: number, bondType: string): string => {
@@ -628,12 +655,12 @@ export default function EditOrganicStructurePage() {
       else if (hasTripleBond) category = "alkyne";
       else if (hasDoubleBond) category = "alkene";
 
-      // Generate SMILES notation
-      const { generateSMILES, getSMILESByFormula } = await import("@/lib/utils/organic-smiles");
+      // Generate canonical SMILES so identical molecules share one string
+      const { generateCanonicalSMILES, getSMILESByFormula } = await import("@/lib/utils/organic-smiles");
       let smilesString = "";
 
       try {
-        smilesString = generateSMILES(graph);
+        smilesString = generateCanonicalSMILES(graph);
         // Fallback to formula-based SMILES if generation fails
         if (!smilesString) {
           smilesString = getSMILESByFormula(structure.derived.molecularFormula);
@@ -900,6 +927,8 @@ export default function EditOrganicStructurePage() {
                       </div>
                     </div>
 
+                    <OrganicHistoryPanel onNavigate={handleHistoryNavigate} />
+
                     <button
                       onClick={() => {
                         showWarning(
@@ -908,7 +937,7 @@ export default function EditOrganicStructurePage() {
                             if (originalGraph) {
                               // Deep copy the original graph to restore it
                               const restoredGraph = JSON.parse(JSON.stringify(originalGraph));
-                              setGraph(restoredGraph);
+                              recordHistory(restoredGraph, "Reset to original");
                               setSelectedNodeId(null);
                               setSelectedBondId(null);
                               setCyclizeMode(false);
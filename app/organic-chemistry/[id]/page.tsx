@@ -8,6 +8,14 @@ import { useParams, useRouter } from "next/navigation";
 import { OrganicStructure } from "@/lib/types/organic";
 import MoleculeViewer from "@/components/organic/MoleculeViewer";
 
+interface SimilarStructure {
+  id: string;
+  name: string;
+  iupacName?: string;
+  molecularFormula: string;
+  similarity: number;
+}
+
 export default function OrganicStructureDetailPage() {
   const { data: session } = useSession();
   const params = useParams();
@@ -15,10 +23,13 @@ export default function OrganicStructureDetailPage() {
   const [structure, setStructure] = useState<OrganicStructure | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<SimilarStructure[]>([]);
+  const [loadingSimilar, setLoadingSimilar] = useState(true);
 
   useEffect(() => {
     if (params.id) {
       fetchStructure(params.id as string);
+      fetchSimilar(params.id as string);
     }
   }, [params.id]);
 
@@ -39,6 +50,20 @@ export default function OrganicStructureDetailPage() {
     }
   };
 
+  const fetchSimilar = async (id: string) => {
+    try {
+      const res = await fetch(`/api/organic-structures/${id}/similar?limit=8`);
+      if (res.ok) {
+        const data = await res.json();
+        setSimilar(data.structures || []);
+      }
+    } catch (error) {
+      console.error("Error fetching similar structures:", error);
+    } finally {
+      setLoadingSimilar(false);
+    }
+  };
+
   const handleEdit = () => {
     if (!structure) return;
     router.push(`/organic-chemistry/${structure.id || structure._id}/edit`);
@@ -121,6 +146,45 @@ export default function OrganicStructureDetailPage() {
                 scale={1.2}
               />
             </div>
+
+            {/* Similar molecules */}
+            <div className="bg-white/5 border border-white/10 rounded-xl p-6 mt-8">
+              <h2 className="text-xl font-bold text-white mb-4">Similar Molecules</h2>
+              {loadingSimilar ? (
+                <div className="space-y-2">
+                  {[...Array(3)].map((_, i) => (
+                    <div key={i} className="h-12 bg-white/10 rounded-lg animate-pulse"></div>
+                  ))}
+                </div>
+              ) : similar.length === 0 ? (
+                <p className="text-white/40 text-sm">No similar structures found</p>
+              ) : (
+                <div className="space-y-2">
+                  {similar.map((item) => (
+                    <Link
+                      key={item.id}
+                      href={`/organic-chemistry/${item.id}`}
+                      className="flex items-center justify-between gap-4 px-4 py-3 bg-white/5 rounded-lg hover:bg-white/10 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-white font-medium truncate">{item.name}</p>
+                        <p className="text-white/40 text-sm font-mono">{item.molecularFormula}</p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className="text-[#00D9FF] font-semibold">{Math.round(item.similarity * 100)}%</p>
+                        <div className="w-20 h-1.5 bg-white/10 rounded-full mt-1">
+                          <div
+                            className="h-full bg-[#00D9FF] rounded-full"
+                            style={{ width: `${item.similarity * 100}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+              <p className="text-white/30 text-xs mt-4">Ranked by Tanimoto similarity of structural fingerprints</p>
+            </div>
           </div>
 
           {/* Right column - Properties */}
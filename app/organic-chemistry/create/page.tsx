@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import { useModal } from "@/lib/contexts/ModalContext";
 import {
   MoleculeGraph,
+  getAtomLabel,
   updateImplicitHydrogens,
   updateHybridization,
   validateValence,
@@ -30,6 +31,10 @@ import {
   removeSubstituent,
   MutationResult,
 } from "@/lib/utils/organic-mutations";
+import { useOrganicHistoryStore } from "@/lib/stores/useOrganicHistoryStore";
+import OrganicHistoryPanel from "@/components/organic/OrganicHistoryPanel";
+import { parseSMILES } from "@/lib/utils/organic-smiles";
+import { readSDF, molfileRecordToGraph, MolfileRecord } from "@/lib/utils/organic-molfile";
 
 // Define OrganicStructure interface (minimal version for display)
 interface OrganicStructure {
@@ -53,7 +58,15 @@ export default function OrganicStructurePage() {
   const router = useRouter();
   const { showAlert, showError, showSuccess, showWarning } = useModal();
   const [selectedTemplate, setSelectedTemplate] = useState<string>("blank-canvas");
-  const [graph, setGraph] = useState<MoleculeGraph | null>(null);
+  const {
+    graph,
+    start: startHistory,
+    record: recordHistory,
+    recordMutation,
+    preview,
+    commitPreview,
+    clear: clearHistory,
+  } = useOrganicHistoryStore();
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedBondId, setSelectedBondId] = useState<string | null>(null);
   const [cyclizeMode, setCyclizeMode] = useState(false);
@@ -66,6 +79,9 @@ export default function OrganicStructurePage() {
   const [structureDescription, setStructureDescription] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [smilesInput, setSmilesInput] = useState("");
+  const [sdfRecords, setSdfRecords] = useState<MolfileRecord[]>([]);
+  const molfileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -101,7 +117,7 @@ export default function OrganicStructurePage() {
       const params = { chainLength: length || chainLength };
       let initialGraph = createTemplate(template.type, params);
 
-      setGraph(initialGraph);
+      recordHistory(initialGraph, `Load ${template.name}`);
       setSelectedTemplate(templateId);
       setSelectedNodeId(null);
       setSelectedBondId(null);
@@ -110,19 +126,114 @@ export default function OrganicStructurePage() {
       setDragStart(null);
       setHasUnsavedChanges(false);
     },
-    [chainLength, graph, showWarning]
+    [chainLength, graph, showWarning, recordHistory]
+  );
+
+  const handleImportSMILES = useCallback(
+    (skipWarning = false) => {
+      const result = parseSMILES(smilesInput);
+      if (!result.success || !result.graph) {
+        showError(result.error || "Invalid SMILES string");
+        return;
+      }
+
+      const hasContent = graph && graph.nodes.length > 1;
+      if (!skipWarning && hasContent) {
+        showWarning(
+          "Importing this SMILES will clear all current work on the canvas. Do you want to continue?",
+          () => {
+            handleImportSMILES(true);
+          },
+          "Clear Canvas",
+          "Import"
+        );
+        return;
+      }
+
+      recordHistory(result.graph, `Import SMILES ${smilesInput.trim()}`);
+      setSelectedTemplate("");
+      setSelectedNodeId(null);
+      setSelectedBondId(null);
+      setCyclizeMode(false);
+      setDraggingNodeId(null);
+      setDragStart(null);
+      setHasUnsavedChanges(true);
+    },
+    [smilesInput, graph, showError, showWarning, recordHistory]
+  );
+
+  const handleImportMolfileRecord = useCallback(
+    (record: MolfileRecord, skipWarning = false) => {
+      const result = molfileRecordToGraph(record);
+      if (!result.success || !result.graph) {
+        showError(result.error || "Could not read structure from file");
+        return;
+      }
+
+      const hasContent = graph && graph.nodes.length > 1;
+      if (!skipWarning && hasContent) {
+        showWarning(
+          "Importing this structure will clear all current work on the canvas. Do you want to continue?",
+          () => {
+            handleImportMolfileRecord(record, true);
+          },
+          "Clear Canvas",
+          "Import"
+        );
+        return;
+      }
+
+      recordHistory(result.graph, `Import ${record.name || "structure from file"}`);
+      setSelectedTemplate("");
+      setSelectedNodeId(null);
+      setSelectedBondId(null);
+      setCyclizeMode(false);
+      setDraggingNodeId(null);
+      setDragStart(null);
+      setSdfRecords([]);
+      if (record.name && !structureName) {
+        setStructureName(record.name);
+      }
+      setHasUnsavedChanges(true);
+    },
+    [graph, structureName, showError, showWarning, recordHistory]
+  );
+
+  const handleMolfileUpload = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      const result = readSDF(await file.text());
+      if (!result.success) {
+        showError(result.errors[0] || "No structures found in file");
+        return;
+      }
+
+      // A multi-record SDF lets the user pick which structure to load
+      if (result.records.length > 1) {
+        setSdfRecords(result.records);
+        return;
+      }
+      handleImportMolfileRecord(result.records[0]);
+    },
+    [handleImportMolfileRecord, showError]
   );
 
   // Load blank canvas by default on mount
   useEffect(() => {
     if (status === "authenticated" && !graph) {
       const initialGraph = createTemplate("blank-canvas");
-      setGraph(initialGraph);
+      startHistory(initialGraph, "Blank canvas");
       setSelectedTemplate("blank-canvas");
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [status]);
 
+  // History lives in a shared store; leave it empty for the next editor
+  useEffect(() => clearHistory, [clearHistory]);
+
   const getStructure = useCallback((): OrganicStructure | null => {
     if (!graph) return null;
 
@@ -147,36 +258,33 @@ export default function OrganicStructurePage() {
   const handleExtend = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = extendChain(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Extend chain from ${getAtomLabel(graph, selectedNodeId)}`)) {
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to extend chain");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleShorten = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = shortenChain(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Shorten chain at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setSelectedNodeId(null);
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to shorten chain");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleBranch = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = branchCarbon(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Add branch at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to add branch");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   // Helper function to check if a bond is part of a cycle
   const isBondInCycle = useCallback(
@@ -236,6 +344,9 @@ export default function OrganicStructurePage() {
         return;
       }
 
+      const bondName = `${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)}`;
+      const orderName = ["", "single", "double", "triple"][targetOrder];
+
       if (targetOrder > bond.bondOrder) {
         // Increasing bond order (unsaturate)
         let currentGraph = graph;
@@ -247,7 +358,7 @@ export default function OrganicStructurePage() {
           }
           currentGraph = result.graph;
         }
-        setGraph(currentGraph);
+        recordHistory(currentGraph, `Make ${bondName} bond ${orderName}`);
         setHasUnsavedChanges(true);
       } else {
         // Decreasing bond order (saturate)
@@ -260,11 +371,11 @@ export default function OrganicStructurePage() {
           }
           currentGraph = result.graph;
         }
-        setGraph(currentGraph);
+        recordHistory(currentGraph, `Make ${bondName} bond ${orderName}`);
         setHasUnsavedChanges(true);
       }
     },
-    [graph, selectedBondId, showAlert, showError]
+    [graph, selectedBondId, showAlert, showError, recordHistory]
   );
 
   const handleRemoveBond = useCallback(() => {
@@ -298,7 +409,7 @@ export default function OrganicStructurePage() {
         }
         currentGraph = result.graph;
       }
-      setGraph(currentGraph);
+      recordHistory(currentGraph, `Make ${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)} bond single`);
       setHasUnsavedChanges(true);
       // Don't remove yet, let user confirm by clicking again
       return;
@@ -311,38 +422,38 @@ export default function OrganicStructurePage() {
     };
 
     // Recalculate implicit hydrogens
-    updateImplicitHydrogens(updatedGraph);
-
-    setGraph(updatedGraph);
+    recordHistory(
+      updateImplicitHydrogens(updatedGraph),
+      `Remove ${getAtomLabel(graph, bond.from)}–${getAtomLabel(graph, bond.to)} bond`
+    );
     setSelectedBondId(null);
     setHasUnsavedChanges(true);
-  }, [graph, selectedBondId, isBondInCycle, showAlert, showError]);
+  }, [graph, selectedBondId, isBondInCycle, showAlert, showError, recordHistory]);
 
   const handleAttachGroup = useCallback(
     (groupType: "hydroxyl" | "amino" | "nitro" | "carbonyl" | "halogen", halogen?: "F" | "Cl" | "Br" | "I") => {
       if (!graph || !selectedNodeId) return;
       const result = attachSubstituent(graph, selectedNodeId, { type: groupType, halogen });
-      if (result.success && result.graph) {
-        setGraph(result.graph);
+      const groupName = groupType === "halogen" ? halogen || "halogen" : groupType;
+      if (recordMutation(result, `Attach ${groupName} to ${getAtomLabel(graph, selectedNodeId)}`)) {
         setHasUnsavedChanges(true);
       } else {
         showError(result.error || "Failed to attach group");
       }
     },
-    [graph, selectedNodeId, showError]
+    [graph, selectedNodeId, showError, recordMutation]
   );
 
   const handleRemoveGroup = useCallback(() => {
     if (!graph || !selectedNodeId) return;
     const result = removeSubstituent(graph, selectedNodeId);
-    if (result.success && result.graph) {
-      setGraph(result.graph);
+    if (recordMutation(result, `Remove group at ${getAtomLabel(graph, selectedNodeId)}`)) {
       setSelectedNodeId(null);
       setHasUnsavedChanges(true);
     } else {
       showError(result.error || "Failed to remove group");
     }
-  }, [graph, selectedNodeId, showError]);
+  }, [graph, selectedNodeId, showError, recordMutation]);
 
   const handleCyclize = useCallback(() => {
     if (!cyclizeMode) {
@@ -353,8 +464,8 @@ export default function OrganicStructurePage() {
 
     if (graph && cyclizeFirstNode && selectedNodeId && cyclizeFirstNode !== selectedNodeId) {
       const result = cyclize(graph, cyclizeFirstNode, selectedNodeId);
-      if (result.success && result.graph) {
-        setGraph(result.graph);
+      const label = `Cyclize ${getAtomLabel(graph, cyclizeFirstNode)}–${getAtomLabel(graph, selectedNodeId)}`;
+      if (recordMutation(result, label)) {
         setCyclizeMode(false);
         setCyclizeFirstNode(null);
         setSelectedNodeId(null);
@@ -363,7 +474,7 @@ export default function OrganicStructurePage() {
         showError(result.error || "Failed to cyclize");
       }
     }
-  }, [graph, cyclizeMode, cyclizeFirstNode, selectedNodeId, showError]);
+  }, [graph, cyclizeMode, cyclizeFirstNode, selectedNodeId, showError, recordMutation]);
 
   const handleNodeClick = useCallback(
     (nodeId: string) => {
@@ -373,8 +484,8 @@ export default function OrganicStructurePage() {
         } else if (cyclizeFirstNode !== nodeId) {
           if (graph) {
             const result = cyclize(graph, cyclizeFirstNode, nodeId);
-            if (result.success && result.graph) {
-              setGraph(result.graph);
+            const label = `Cyclize ${getAtomLabel(graph, cyclizeFirstNode)}–${getAtomLabel(graph, nodeId)}`;
+            if (recordMutation(result, label)) {
               setHasUnsavedChanges(true);
             } else {
               showError(result.error || "Failed to cyclize");
@@ -388,7 +499,7 @@ export default function OrganicStructurePage() {
         setSelectedBondId(null);
       }
     },
-    [cyclizeMode, cyclizeFirstNode, graph, showError]
+    [cyclizeMode, cyclizeFirstNode, graph, showError, recordMutation]
   );
 
   const handleBondClick = useCallback(
@@ -507,15 +618,28 @@ export default function OrganicStructurePage() {
         }),
       };
 
-      setGraph(updatedGraph);
+      preview(updatedGraph);
       setDragStart({ x: svgP.x, y: svgP.y });
     },
-    [draggingNodeId, dragStart, graph, getAromaticRingNodes]
+    [draggingNodeId, dragStart, graph, getAromaticRingNodes, preview]
   );
 
   const handleSvgMouseUp = useCallback(() => {
+    // The whole drag becomes a single history entry
+    if (draggingNodeId && graph) {
+      commitPreview(`Move ${getAtomLabel(graph, draggingNodeId)}`);
+    }
     setDraggingNodeId(null);
     setDragStart(null);
+  }, [draggingNodeId, graph, commitPreview]);
+
+  // Clear selections that may point at atoms missing after undo/redo
+  const handleHistoryNavigate = useCallback(() => {
+    setSelectedNodeId(null);
+    setSelectedBondId(null);
+    setCyclizeMode(false);
+    setCyclizeFirstNode(null);
+    setHasUnsavedChanges(true);
   }, []);
 
   const handleCanvasClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
@@ -552,7 +676,7 @@ export default function OrganicStructurePage() {
           z: 0,
         },
         hybridization: node.hybridization,
-        charge: 0,
+        charge: node.charge || 0,
       }));
 
       // Map internal bond types to API-valid enum values
@@ -594,12 +718,12 @@ export default function OrganicStructurePage() {
       else if (hasTripleBond) category = "alkyne";
       else if (hasDoubleBond) category = "alkene";
 
-      // Generate SMILES notation
-      const { generateSMILES, getSMILESByFormula } = await import("@/lib/utils/organic-smiles");
+      // Generate canonical SMILES so identical molecules share one string
+      const { generateCanonicalSMILES, getSMILESByFormula } = await import("@/lib/utils/organic-smiles");
       let smilesString = "";
 
       try {
-        smilesString = generateSMILES(graph);
+        smilesString = generateCanonicalSMILES(graph);
         // Fallback to formula-based SMILES if generation fails
         if (!smilesString) {
           smilesString = getSMILESByFormula(structure.derived.molecularFormula);
@@ -845,6 +969,8 @@ export default function OrganicStructurePage() {
                       </div>
                     </div>
 
+                    <OrganicHistoryPanel onNavigate={handleHistoryNavigate} />
+
                     <button
                       onClick={() => {
                         // Check if canvas has meaningful content
@@ -908,6 +1034,72 @@ export default function OrganicStructurePage() {
                       </button>
                     ))}
                   </div>
+
+                  <form
+                    className="flex justify-center items-center gap-2 mt-3 max-w-xl mx-auto"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleImportSMILES();
+                    }}
+                  >
+                    <input
+                      type="text"
+                      value={smilesInput}
+                      onChange={(e) => setSmilesInput(e.target.value)}
+                      placeholder="Paste SMILES, e.g. CC(=O)Oc1ccccc1C(=O)O"
+                      className="flex-1 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-[#00D9FF]"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!smilesInput.trim()}
+                      className="cursor-pointer px-3 py-1.5 bg-[#00D9FF] text-gray-900 font-medium rounded disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed hover:bg-[#00C4E6] transition-colors text-sm"
+                    >
+                      Import SMILES
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => molfileInputRef.current?.click()}
+                      className="cursor-pointer px-3 py-1.5 bg-gray-700 text-gray-300 border border-gray-600 font-medium rounded hover:border-[#00D9FF] hover:bg-gray-600 transition-colors text-sm"
+                      title="Import an MDL Molfile (.mol) or SD file (.sdf)"
+                    >
+                      Open .mol/.sdf
+                    </button>
+                    <input
+                      ref={molfileInputRef}
+                      type="file"
+                      accept=".mol,.sdf,.sd"
+                      onChange={handleMolfileUpload}
+                      className="hidden"
+                    />
+                  </form>
+
+                  {sdfRecords.length > 0 && (
+                    <div className="mt-3 max-w-xl mx-auto bg-gray-700 border border-gray-600 rounded-md p-2">
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs text-gray-300">
+                          {sdfRecords.length} structures found — choose one to import
+                        </p>
+                        <button
+                          onClick={() => setSdfRecords([])}
+                          className="cursor-pointer text-xs text-gray-400 hover:text-white"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      <div className="max-h-40 overflow-y-auto space-y-1">
+                        {sdfRecords.map((record, index) => (
+                          <button
+                            key={index}
+                            onClick={() => handleImportMolfileRecord(record)}
+                            className="cursor-pointer w-full text-left px-2 py-1 rounded text-sm text-gray-200 hover:bg-gray-600"
+                          >
+                            {record.name || `Record ${index + 1}`}
+                            <span className="ml-2 text-xs text-gray-400">{record.atoms.length} atoms</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 {cyclizeMode && (
                   <div className="bg-yellow-500 text-gray-900 px-4 py-3 border-b border-yellow-600">
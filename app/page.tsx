@@ -74,6 +74,24 @@ export default function Home() {
               </div>
             </Link>
           </motion.div>
+
+          {/* Reactions Card */}
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3, delay: 0.4 }}>
+            <Link href="/reactions" prefetch={true}>
+              <div className="group bg-linear-to-br from-[#FDCB6E]/20 to-[#E17055]/20 border border-white/10 rounded-2xl p-8 h-full cursor-pointer hover:border-[#FDCB6E]/50 transition-all hover:-translate-y-2 hover:shadow-2xl hover:shadow-[#FDCB6E]/20">
+                <div className="text-6xl mb-6">🔥</div>
+                <h2 className="text-3xl font-bold text-white mb-4">Reactions</h2>
+                <p className="text-white/70 mb-4 text-lg">Build reactions and balance chemical equations</p>
+                <p className="text-white/50 text-sm mb-6 italic">Login required to save reactions</p>
+                <div className="inline-flex items-center text-[#FDCB6E] font-semibold group-hover:translate-x-1 transition-transform">
+                  View Reactions
+                  <svg className="w-5 h-5 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </div>
+            </Link>
+          </motion.div>
         </div>
       </div>
 
@@ -1,14 +1,28 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import PeriodicTableGrid from "@/components/periodic-table/PeriodicTableGrid";
 import TableLegend from "@/components/periodic-table/TableLegend";
+import PhaseTemperatureControl from "@/components/periodic-table/PhaseTemperatureControl";
+import PropertyHeatmapControl from "@/components/periodic-table/PropertyHeatmapControl";
+import CompareBar from "@/components/periodic-table/CompareBar";
+import { useCompareStore } from "@/lib/stores/useCompareStore";
 import { ElementCard, ElementCategory } from "@/lib/types/element";
+import { buildHeatmapScale, HeatmapProperty, HeatmapScaleType } from "@/lib/utils/periodic-heatmap";
 
 export default function PeriodicTablePage() {
   const [elements, setElements] = useState<ElementCard[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<ElementCategory | null>(null);
+  const [phaseTemperature, setPhaseTemperature] = useState<number | null>(null);
+  const [heatmapProperty, setHeatmapProperty] = useState<HeatmapProperty | null>(null);
+  const [heatmapScaleType, setHeatmapScaleType] = useState<HeatmapScaleType>("linear");
+  const { symbols: comparedSymbols, toggle: toggleCompare, remove: removeCompare, clear: clearCompare } = useCompareStore();
+
+  const heatmapScale = useMemo(
+    () => (heatmapProperty ? buildHeatmapScale(elements, heatmapProperty, heatmapScaleType) : null),
+    [elements, heatmapProperty, heatmapScaleType]
+  );
 
   useEffect(() => {
     fetchElements();
@@ -33,6 +47,17 @@ export default function PeriodicTablePage() {
     setSelectedCategory(selectedCategory === category ? null : category);
   };
 
+  // The phase view and the heatmap both recolor the cards, so only one is on at a time
+  const handlePhaseTemperatureChange = (temperature: number | null) => {
+    setPhaseTemperature(temperature);
+    if (temperature !== null) setHeatmapProperty(null);
+  };
+
+  const handleHeatmapPropertyChange = (property: HeatmapProperty | null) => {
+    setHeatmapProperty(property);
+    if (property !== null) setPhaseTemperature(null);
+  };
+
   if (loading) {
     return (
       <div className="min-h-[calc(100vh-3.5rem)] bg-linear-to-br from-[#0F0F1E] via-[#1A1A2E] to-[#0F0F1E] flex items-center justify-center">
@@ -55,8 +80,26 @@ export default function PeriodicTablePage() {
           <>
             {/* Legend */}
             <TableLegend selectedCategory={selectedCategory} onCategoryClick={handleCategoryClick} />
+            {/* Phase by temperature */}
+            <PhaseTemperatureControl temperature={phaseTemperature} onChange={handlePhaseTemperatureChange} />
+            {/* Property heatmap */}
+            <PropertyHeatmapControl
+              property={heatmapProperty}
+              scaleType={heatmapScaleType}
+              scale={heatmapScale}
+              onPropertyChange={handleHeatmapPropertyChange}
+              onScaleTypeChange={setHeatmapScaleType}
+            />
             {/* Periodic Table */}
-            <PeriodicTableGrid elements={elements} selectedCategory={selectedCategory} />
+            <PeriodicTableGrid
+              elements={elements}
+              selectedCategory={selectedCategory}
+              phaseTemperature={phaseTemperature}
+              heatmap={heatmapScale}
+              comparedSymbols={comparedSymbols}
+              onCompareToggle={toggleCompare}
+            />
+            <CompareBar symbols={comparedSymbols} onRemove={removeCompare} onClear={clearCompare} />
           </>
         )}
       </main>
@@ -6,6 +6,8 @@ import Link from "next/link";
 import { motion } from "framer-motion";
 import { useEffect, useState } from "react";
 import { useModal } from "@/lib/contexts/ModalContext";
+import { writeSDF } from "@/lib/utils/organic-molfile";
+import { Atom, Bond } from "@/lib/types/organic";
 
 interface Compound {
   _id: string;
@@ -41,6 +43,7 @@ export default function ProfilePage() {
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>("compounds");
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -76,6 +79,50 @@ export default function ProfilePage() {
     }
   };
 
+  const handleDownloadSDF = async () => {
+    if (!session?.user?.id) return;
+
+    setExporting(true);
+    try {
+      // The profile list only keeps summaries, so fetch full structures for export
+      const res = await fetch(`/api/organic-structures?createdBy=${session.user.id}&limit=1000`);
+      if (!res.ok) {
+        showError("Failed to fetch structures for export");
+        return;
+      }
+
+      const data = await res.json();
+      const structures: (OrganicStructure & { smiles: string; atoms: Atom[]; bonds: Bond[] })[] =
+        data.structures || [];
+      const sdf = writeSDF(
+        structures.map((structure) => ({
+          name: structure.name,
+          atoms: structure.atoms,
+          bonds: structure.bonds,
+          properties: {
+            SMILES: structure.smiles,
+            FORMULA: structure.molecularFormula,
+            MW: structure.molecularWeight.toFixed(2),
+            ...(structure.iupacName ? { IUPAC_NAME: structure.iupacName } : {}),
+            CATEGORY: structure.category,
+          },
+        }))
+      );
+
+      const url = URL.createObjectURL(new Blob([sdf], { type: "chemical/x-mdl-sdfile" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "organic-structures.sdf";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting structures:", error);
+      showError("Failed to export structures");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleDeleteCompound = async (compoundId: string) => {
     showConfirm(
       "Are you sure you want to delete this compound? This action cannot be undone.",
@@ -200,6 +247,21 @@ export default function ProfilePage() {
                 Organic
               </Link>
             </motion.div>
+            {organicStructures.length > 0 && (
+              <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                <button
+                  onClick={handleDownloadSDF}
+                  disabled={exporting}
+                  className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 bg-white/10 text-white rounded-xl font-semibold hover:bg-white/20 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Download all your organic structures as an SD file"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v12m0 0l-4-4m4 4l4-4M4 20h16" />
+                  </svg>
+                  {exporting ? "Exporting..." : "Download SDF"}
+                </button>
+              </motion.div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,508 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useModal } from "@/lib/contexts/ModalContext";
+import ExternalFactors from "@/components/compounds/create/ExternalFactors";
+import ReactionEnthalpy from "@/components/reactions/ReactionEnthalpy";
+import { Bond, CompoundElement, ExternalFactors as ExternalFactorsType } from "@/lib/types/compound";
+import { Element } from "@/lib/types/element";
+import { PhysicalState, Reaction } from "@/lib/types/reaction";
+import { balanceFormulas, formatEquation, formatFormula } from "@/lib/utils/reaction-balancer";
+import { BondTally, EnthalpyResult, estimateReactionEnthalpy, tallyBonds, tallyFormulaBonds } from "@/lib/utils/bond-energy";
+
+interface CompoundOption {
+  id: string;
+  name: string;
+  formula: string;
+  elements?: CompoundElement[];
+  bonds?: Bond[];
+}
+
+interface SavedReaction extends Reaction {
+  id: string;
+}
+
+// A reactant or product row in the builder
+interface SpeciesInput {
+  key: number;
+  compoundId: string; // "" when typing a formula
+  formula: string;
+  state: PhysicalState | "";
+}
+
+let nextSpeciesKey = 1;
+
+function emptySpecies(): SpeciesInput {
+  return { key: nextSpeciesKey++, compoundId: "", formula: "", state: "" };
+}
+
+// Short condition labels written over the reaction arrow, e.g. "Δ, Pt, 500 K"
+function describeConditions(factors?: ExternalFactorsType): string[] {
+  if (!factors) return [];
+
+  const conditions: string[] = [];
+  if (factors.heat?.enabled) conditions.push(factors.heat.details || "Δ");
+  if (factors.catalyst?.enabled) conditions.push(factors.catalyst.name || "catalyst");
+  if (factors.temperature?.enabled && Number.isFinite(factors.temperature.value)) {
+    conditions.push(`${factors.temperature.value} ${factors.temperature.unit === "C" ? "°C" : "K"}`);
+  }
+  if (factors.pressure?.enabled && Number.isFinite(factors.pressure.value)) {
+    conditions.push(`${factors.pressure.value} ${factors.pressure.unit || "atm"}`);
+  }
+  if (factors.light?.enabled) {
+    conditions.push(factors.light.wavelength ? `hν (${factors.light.wavelength} nm)` : "hν");
+  }
+  return conditions;
+}
+
+export default function ReactionsPage() {
+  const { data: session } = useSession();
+  const { showError, showSuccess, showConfirm } = useModal();
+  const [reactions, setReactions] = useState<SavedReaction[]>([]);
+  const [compounds, setCompounds] = useState<CompoundOption[]>([]);
+  const [allElements, setAllElements] = useState<Element[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Builder state
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [reactants, setReactants] = useState<SpeciesInput[]>(() => [emptySpecies(), emptySpecies()]);
+  const [products, setProducts] = useState<SpeciesInput[]>(() => [emptySpecies()]);
+  const [externalFactors, setExternalFactors] = useState<ExternalFactorsType>({});
+
+  useEffect(() => {
+    fetchReactions();
+    fetchCompounds();
+    fetchAllElements();
+  }, []);
+
+  const fetchReactions = async () => {
+    try {
+      const res = await fetch("/api/reactions");
+      if (res.ok) {
+        const data = await res.json();
+        setReactions(data.reactions || []);
+      }
+    } catch (error) {
+      console.error("Error fetching reactions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCompounds = async () => {
+    try {
+      const res = await fetch("/api/compounds");
+      if (res.ok) {
+        const data = await res.json();
+        setCompounds(data.compounds || []);
+      }
+    } catch (error) {
+      console.error("Error fetching compounds:", error);
+    }
+  };
+
+  const fetchAllElements = async () => {
+    try {
+      const res = await fetch("/api/elements");
+      if (res.ok) {
+        const data = await res.json();
+        setAllElements(data.elements || []);
+      }
+    } catch (error) {
+      console.error("Error fetching elements:", error);
+    }
+  };
+
+  const elementLookup = useMemo(() => new Map(allElements.map((el) => [el.symbol, el])), [allElements]);
+
+  // Bonds of a saved compound as drawn, otherwise of the structure proposed for its formula
+  const speciesBonds = useCallback(
+    (formula: string, compoundId?: string): BondTally | null => {
+      const compound = compoundId ? compounds.find((c) => c.id === compoundId) : undefined;
+      if (compound?.elements && compound.bonds && compound.bonds.length > 0) {
+        return tallyBonds(compound.elements, compound.bonds, elementLookup);
+      }
+      return tallyFormulaBonds(formula, elementLookup);
+    },
+    [compounds, elementLookup]
+  );
+
+  const estimateEnthalpy = useCallback(
+    (
+      reactantSpecies: Array<{ formula: string; compoundId?: string; coefficient: number }>,
+      productSpecies: Array<{ formula: string; compoundId?: string; coefficient: number }>
+    ): EnthalpyResult | null => {
+      if (elementLookup.size === 0) return null;
+
+      const withBonds = (list: typeof reactantSpecies) =>
+        list.map((species) => ({ ...species, bonds: speciesBonds(species.formula, species.compoundId) }));
+      const reactantBonds = withBonds(reactantSpecies);
+      const productBonds = withBonds(productSpecies);
+
+      const unknown = [...reactantBonds, ...productBonds].find((species) => !species.bonds);
+      if (unknown) {
+        return { success: false, error: `could not work out the bonds in ${formatFormula(unknown.formula)}` };
+      }
+      return estimateReactionEnthalpy(
+        reactantBonds.map((species) => ({ coefficient: species.coefficient, bonds: species.bonds! })),
+        productBonds.map((species) => ({ coefficient: species.coefficient, bonds: species.bonds! }))
+      );
+    },
+    [elementLookup, speciesBonds]
+  );
+
+  const speciesFormula = useCallback(
+    (species: SpeciesInput) =>
+      species.compoundId ? compounds.find((c) => c.id === species.compoundId)?.formula || "" : species.formula.trim(),
+    [compounds]
+  );
+
+  // Live balance preview of the rows filled in so far
+  const preview = useMemo(() => {
+    const filledReactants = reactants.filter((s) => speciesFormula(s));
+    const filledProducts = products.filter((s) => speciesFormula(s));
+    if (filledReactants.length === 0 || filledProducts.length === 0) return null;
+
+    const reactantFormulas = filledReactants.map(speciesFormula);
+    const productFormulas = filledProducts.map(speciesFormula);
+    const result = balanceFormulas(reactantFormulas, productFormulas);
+    if (!result.success || !result.reactantCoefficients || !result.productCoefficients) {
+      return { error: result.error || "Cannot balance this reaction" };
+    }
+
+    const toSpecies = (list: SpeciesInput[], coefficients: number[]) =>
+      list.map((s, i) => ({ formula: speciesFormula(s), compoundId: s.compoundId || undefined, coefficient: coefficients[i] }));
+    const reactantSpecies = toSpecies(filledReactants, result.reactantCoefficients);
+    const productSpecies = toSpecies(filledProducts, result.productCoefficients);
+
+    return {
+      equation: formatEquation(reactantSpecies, productSpecies),
+      enthalpy: estimateEnthalpy(reactantSpecies, productSpecies),
+    };
+  }, [reactants, products, speciesFormula, estimateEnthalpy]);
+
+  // ΔH for each saved reaction, by reaction id
+  const savedEnthalpies = useMemo(() => {
+    const estimates = new Map<string, EnthalpyResult | null>();
+    reactions.forEach((reaction) => {
+      estimates.set(reaction.id, estimateEnthalpy(reaction.reactants, reaction.products));
+    });
+    return estimates;
+  }, [reactions, estimateEnthalpy]);
+
+  const updateSpecies = (
+    setList: React.Dispatch<React.SetStateAction<SpeciesInput[]>>,
+    key: number,
+    changes: Partial<SpeciesInput>
+  ) => {
+    setList((list) => list.map((s) => (s.key === key ? { ...s, ...changes } : s)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showError("Please enter a reaction name");
+      return;
+    }
+    if (!preview || preview.error) {
+      showError(preview?.error || "Add at least one reactant and one product");
+      return;
+    }
+
+    const toPayload = (list: SpeciesInput[]) =>
+      list
+        .filter((s) => speciesFormula(s))
+        .map((s) => ({
+          compoundId: s.compoundId || undefined,
+          formula: s.compoundId ? undefined : s.formula.trim(),
+          state: s.state || undefined,
+        }));
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/reactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || null,
+          reactants: toPayload(reactants),
+          products: toPayload(products),
+          externalFactors,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        showError(data.error || "Failed to save reaction");
+        return;
+      }
+
+      setReactions((list) => [{ ...data.reaction, id: data.reaction._id }, ...list]);
+      setName("");
+      setDescription("");
+      setReactants([emptySpecies(), emptySpecies()]);
+      setProducts([emptySpecies()]);
+      setExternalFactors({});
+      showSuccess("Reaction saved", "Saved");
+    } catch (error) {
+      console.error("Error saving reaction:", error);
+      showError("Failed to save reaction");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (reaction: SavedReaction) => {
+    showConfirm(
+      `Delete "${reaction.name}"? This cannot be undone.`,
+      async () => {
+        try {
+          const res = await fetch(`/api/reactions/${reaction.id}`, { method: "DELETE" });
+          const data = await res.json();
+          if (!res.ok || !data.success) {
+            showError(data.error || "Failed to delete reaction");
+            return;
+          }
+          setReactions((list) => list.filter((r) => r.id !== reaction.id));
+        } catch (error) {
+          console.error("Error deleting reaction:", error);
+          showError("Failed to delete reaction");
+        }
+      },
+      "Delete Reaction",
+      "Delete"
+    );
+  };
+
+  const renderSpeciesList = (
+    title: string,
+    list: SpeciesInput[],
+    setList: React.Dispatch<React.SetStateAction<SpeciesInput[]>>
+  ) => (
+    <div>
+      <h3 className="text-sm font-semibold text-white/60 mb-2">{title}</h3>
+      <div className="space-y-2">
+        {list.map((species) => (
+          <div key={species.key} className="flex gap-2">
+            <select
+              value={species.compoundId}
+              onChange={(e) => updateSpecies(setList, species.key, { compoundId: e.target.value })}
+              className="w-40 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+            >
+              <option value="">Formula…</option>
+              {compounds.map((compound) => (
+                <option key={compound.id} value={compound.id}>
+                  {compound.name} ({compound.formula})
+                </option>
+              ))}
+            </select>
+            {species.compoundId ? (
+              <div className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white/80 text-sm font-mono">
+                {speciesFormula(species)}
+              </div>
+            ) : (
+              <input
+                type="text"
+                value={species.formula}
+                onChange={(e) => updateSpecies(setList, species.key, { formula: e.target.value })}
+                placeholder="e.g. H2O, Ca(OH)2"
+                className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm font-mono placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+              />
+            )}
+            <select
+              value={species.state}
+              onChange={(e) => updateSpecies(setList, species.key, { state: e.target.value as PhysicalState | "" })}
+              className="w-20 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+              title="Physical state"
+            >
+              <option value="">—</option>
+              <option value="s">(s)</option>
+              <option value="l">(l)</option>
+              <option value="g">(g)</option>
+              <option value="aq">(aq)</option>
+            </select>
+            <button
+              onClick={() => setList((l) => l.filter((s) => s.key !== species.key))}
+              disabled={list.length <= 1}
+              className="cursor-pointer px-3 text-white/40 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              aria-label={`Remove ${title.toLowerCase().slice(0, -1)}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setList((l) => [...l, emptySpecies()])}
+        className="cursor-pointer mt-2 text-sm text-[#6C5CE7] hover:text-[#A29BFE] transition-colors"
+      >
+        + Add {title.toLowerCase().slice(0, -1)}
+      </button>
+    </div>
+  );
+
+  const formatSpecies = (reaction: SavedReaction) => {
+    const side = (list: Reaction["reactants"]) =>
+      list.map((s, i) => (
+        <span key={i}>
+          {i > 0 && <span className="text-white/40"> + </span>}
+          {s.coefficient !== 1 && <span className="text-[#FDCB6E]">{s.coefficient}</span>}
+          {formatFormula(s.formula)}
+          {s.state && <span className="text-white/40 text-base">({s.state})</span>}
+        </span>
+      ));
+    const conditions = describeConditions(reaction.externalFactors);
+
+    return (
+      <>
+        {side(reaction.reactants)}
+        <span className="inline-flex flex-col items-center mx-3 align-middle">
+          {conditions.length > 0 && <span className="text-xs text-white/50 font-sans">{conditions.join(", ")}</span>}
+          <span className="text-white/60">⟶</span>
+        </span>
+        {side(reaction.products)}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-3.5rem)] bg-linear-to-br from-[#0F0F1E] via-[#1A1A2E] to-[#0F0F1E]">
+      <div className="container mx-auto px-4 py-6 space-y-8">
+        {/* Reaction Builder */}
+        {session ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white/5 border border-white/10 rounded-xl p-6"
+          >
+            <h2 className="text-xl font-bold text-white mb-4">Build a Reaction</h2>
+
+            <div className="grid md:grid-cols-2 gap-4 mb-6">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Reaction name, e.g. Combustion of propane"
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+              />
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+              />
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              {renderSpeciesList("Reactants", reactants, setReactants)}
+              {renderSpeciesList("Products", products, setProducts)}
+              <div>
+                <h3 className="text-sm font-semibold text-white/60 mb-2">Conditions</h3>
+                <ExternalFactors
+                  value={externalFactors}
+                  onChange={(factors) => setExternalFactors((current) => ({ ...current, ...factors }))}
+                />
+              </div>
+            </div>
+
+            {/* Balanced preview */}
+            <div className="mt-6 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 bg-[#6C5CE7]/10 border border-[#6C5CE7]/30 rounded-lg px-4 py-3 min-h-[3.25rem] flex items-center">
+                {!preview ? (
+                  <p className="text-white/40 text-sm">Add reactants and products to balance the equation</p>
+                ) : preview.error ? (
+                  <p className="text-red-400 text-sm">{preview.error}</p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-xl font-mono font-bold text-[#A29BFE] tracking-wide">{preview.equation}</p>
+                    {preview.enthalpy && <ReactionEnthalpy result={preview.enthalpy} />}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={saving || !preview || !!preview.error}
+                className="cursor-pointer px-6 py-3 bg-[#6C5CE7] text-white rounded-xl font-semibold hover:bg-[#5B4CD6] disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+              >
+                {saving ? "Saving..." : "Save Reaction"}
+              </button>
+            </div>
+          </motion.div>
+        ) : (
+          <div className="bg-white/5 border border-white/10 rounded-xl p-6 text-center">
+            <p className="text-white/60 mb-4">Sign in to build and save balanced reactions</p>
+            <Link
+              href="/login?callbackUrl=/reactions"
+              className="inline-block px-6 py-3 bg-[#6C5CE7] text-white rounded-xl font-semibold hover:bg-[#5B4CD6] transition-colors"
+            >
+              Sign in
+            </Link>
+          </div>
+        )}
+
+        {/* Saved Reactions */}
+        <div>
+          <h2 className="text-xl font-bold text-white mb-4">Reactions</h2>
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="bg-white/5 border border-white/10 rounded-xl p-6 animate-pulse">
+                  <div className="h-5 bg-white/10 rounded mb-4 w-1/3"></div>
+                  <div className="h-8 bg-white/10 rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : reactions.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-6">🔥</div>
+              <h3 className="text-2xl font-bold text-white mb-2">No reactions yet</h3>
+              <p className="text-white/60">Balanced equations you save will appear here.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {reactions.map((reaction, index) => (
+                <motion.div
+                  key={reaction.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: Math.min(index * 0.05, 0.3) }}
+                  className="bg-white/5 border border-white/10 rounded-xl p-6"
+                >
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <h3 className="text-lg font-bold text-white">{reaction.name}</h3>
+                      {reaction.description && <p className="text-white/60 text-sm">{reaction.description}</p>}
+                    </div>
+                    {session?.user?.id === reaction.createdBy && (
+                      <button
+                        onClick={() => handleDelete(reaction)}
+                        className="cursor-pointer text-sm text-white/40 hover:text-red-400 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-2xl font-mono font-bold text-white tracking-wide overflow-x-auto">
+                    {formatSpecies(reaction)}
+                  </p>
+                  {savedEnthalpies.get(reaction.id) && (
+                    <div className="mt-3">
+                      <ReactionEnthalpy result={savedEnthalpies.get(reaction.id)!} />
+                    </div>
+                  )}
+                  <p className="text-xs text-white/40 mt-3">by {reaction.createdByName}</p>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { Element } from "@/lib/types/element";
+import { COMPARE_COLORS, compareRow, ELEMENT_PROPERTIES } from "@/lib/utils/element-comparison";
+
+interface ComparisonTableProps {
+  elements: Element[];
+}
+
+export default function ComparisonTable({ elements }: ComparisonTableProps) {
+  const rows = [
+    { key: "atomicNumber", label: "Atomic Number", unit: "", values: elements.map((e) => e.atomicNumber) },
+    { key: "atomicMass", label: "Atomic Mass", unit: "u", values: elements.map((e) => e.atomicMass) },
+    ...ELEMENT_PROPERTIES.map((property) => ({
+      key: property.key,
+      label: property.label,
+      unit: property.unit,
+      values: elements.map((e) => property.value(e)),
+    })),
+  ];
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-700">
+            <th className="text-left text-gray-400 font-medium p-3">Property</th>
+            {elements.map((element, i) => (
+              <th key={element.symbol} className="p-3 text-center">
+                <div className="text-2xl font-bold" style={{ color: COMPARE_COLORS[i] }}>
+                  {element.symbol}
+                </div>
+                <div className="text-xs text-gray-400 font-normal">{element.name}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const comparison = compareRow(row.values);
+            return (
+              <tr key={row.key} className={`border-b border-gray-700/50 ${comparison.differs ? "" : "opacity-50"}`}>
+                <td className="p-3 text-gray-400 whitespace-nowrap">
+                  {row.label}
+                  {row.unit && <span className="text-gray-500"> ({row.unit})</span>}
+                </td>
+                {row.values.map((value, i) => {
+                  const highest = comparison.highest.includes(i);
+                  const lowest = comparison.lowest.includes(i);
+                  return (
+                    <td
+                      key={i}
+                      className={`p-3 text-center ${
+                        highest
+                          ? "text-green-300 font-semibold bg-green-500/10"
+                          : lowest
+                            ? "text-blue-300 font-semibold bg-blue-500/10"
+                            : comparison.differs
+                              ? "text-white"
+                              : "text-gray-300"
+                      }`}
+                    >
+                      {value === null || value === undefined || value === "" ? <span className="text-gray-600">—</span> : value}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex gap-4 px-3 py-2 text-xs text-gray-400">
+        <span>
+          <span className="text-green-300">■</span> Highest
+        </span>
+        <span>
+          <span className="text-blue-300">■</span> Lowest
+        </span>
+        <span className="opacity-50">Faded rows are the same for every element</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Element } from "@/lib/types/element";
+import { CHART_PROPERTIES, COMPARE_COLORS, ELEMENT_PROPERTIES } from "@/lib/utils/element-comparison";
+
+interface PropertyChartProps {
+  elements: Element[];
+}
+
+const chartProperties = ELEMENT_PROPERTIES.filter((property) => CHART_PROPERTIES.includes(property.key));
+
+export default function PropertyChart({ elements }: PropertyChartProps) {
+  const [key, setKey] = useState(chartProperties[0].key);
+  const property = chartProperties.find((p) => p.key === key)!;
+
+  const values = elements.map((element) => {
+    const value = property.value(element);
+    return typeof value === "number" ? value : null;
+  });
+  const max = Math.max(0, ...values.filter((v): v is number => v !== null));
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-white">Property Chart</h2>
+        <div className="flex flex-wrap gap-1">
+          {chartProperties.map((p) => (
+            <button
+              key={p.key}
+              onClick={() => setKey(p.key)}
+              className={`px-2 py-1 rounded-md border text-xs transition-all cursor-pointer ${
+                p.key === key
+                  ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                  : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {elements.map((element, i) => {
+          const value = values[i];
+          return (
+            <div key={element.symbol} className="flex items-center gap-3">
+              <span className="w-8 text-right font-bold text-sm" style={{ color: COMPARE_COLORS[i] }}>
+                {element.symbol}
+              </span>
+              <div className="flex-1 h-6 bg-gray-900/50 rounded overflow-hidden">
+                {value !== null && max > 0 && (
+                  <div
+                    className="h-full rounded transition-all duration-500"
+                    style={{ width: `${(value / max) * 100}%`, backgroundColor: COMPARE_COLORS[i] }}
+                  />
+                )}
+              </div>
+              <span className="w-28 text-xs text-gray-300 font-mono">
+                {value !== null ? `${value} ${property.unit}`.trim() : <span className="text-gray-500">No data</span>}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
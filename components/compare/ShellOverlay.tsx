@@ -0,0 +1,78 @@
+"use client";
+
+import { Element } from "@/lib/types/element";
+import { SHELL_RADII } from "@/components/element-detail/BohrModel3D";
+import { COMPARE_COLORS } from "@/lib/utils/element-comparison";
+
+interface ShellOverlayProps {
+  elements: Element[];
+}
+
+const SIZE = 320;
+const SCALE = (SIZE / 2 - 12) / SHELL_RADII[SHELL_RADII.length - 1];
+
+// The Bohr model's shells drawn flat, one color per element, so shell counts line up
+export default function ShellOverlay({ elements }: ShellOverlayProps) {
+  const center = SIZE / 2;
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <h2 className="text-xl font-bold text-white mb-3">Electron Shells</h2>
+      <div className="flex flex-col md:flex-row gap-4 items-center">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[320px] h-auto" role="img" aria-label="Overlaid electron shells">
+          <circle cx={center} cy={center} r={SHELL_RADII[0] * SCALE * 0.4} fill="#F8717140" stroke="#F87171" />
+          {elements.map((element, e) =>
+            element.electronsPerShell.map((electrons, shell) => {
+              const radius = SHELL_RADII[shell] * SCALE;
+              const color = COMPARE_COLORS[e];
+              // Each element's electrons start at a different angle so the dots don't hide each other
+              const offset = (e / elements.length) * ((2 * Math.PI) / Math.max(electrons, 1));
+              return (
+                <g key={`${element.symbol}-${shell}`}>
+                  <circle cx={center} cy={center} r={radius} fill="none" stroke={color} strokeOpacity={0.45} strokeWidth={1.5} />
+                  {Array.from({ length: electrons }, (_, i) => {
+                    const angle = offset + (i / electrons) * 2 * Math.PI;
+                    return (
+                      <circle
+                        key={i}
+                        cx={center + Math.cos(angle) * radius}
+                        cy={center + Math.sin(angle) * radius}
+                        r={2.5}
+                        fill={color}
+                      />
+                    );
+                  })}
+                </g>
+              );
+            })
+          )}
+        </svg>
+
+        <table className="text-xs md:text-sm">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left pr-3 pb-1">Shell</th>
+              {elements.map((element, e) => (
+                <th key={element.symbol} className="px-2 pb-1" style={{ color: COMPARE_COLORS[e] }}>
+                  {element.symbol}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SHELL_RADII.slice(0, Math.max(...elements.map((e) => e.electronsPerShell.length))).map((_, shell) => (
+              <tr key={shell}>
+                <td className="text-gray-400 pr-3">{shell + 1}</td>
+                {elements.map((element) => (
+                  <td key={element.symbol} className="px-2 text-center text-white">
+                    {element.electronsPerShell[shell] ?? <span className="text-gray-600">—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,58 @@
 import React, { useMemo } from "react";
 import { Element } from "@/lib/types/element";
 import { Bond, BondType, CompoundElement } from "@/lib/types/compound";
+import { generateLewisStructure } from "@/lib/utils/lewis-structure";
 
 interface CompoundVisualizationProps {
   elements: CompoundElement[];
   bonds?: Bond[];
   allElements: Element[]; // Full element data
+  mode?: "structure" | "lewis";
 }
 
-export default function CompoundVisualization({ elements, bonds = [], allElements }: CompoundVisualizationProps) {
+const LEWIS_ATOM_RADIUS = 18;
+
+// Lone pairs sit on the free side of an atom: cardinal positions first, then diagonals
+const LONE_PAIR_SLOTS = [0, 90, 180, 270, 45, 135, 225, 315].map((deg) => (deg * Math.PI) / 180);
+
+function angularDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b) % (2 * Math.PI);
+  return diff > Math.PI ? 2 * Math.PI - diff : diff;
+}
+
+function getLonePairAngles(bondAngles: number[], count: number): number[] {
+  const taken = [...bondAngles];
+  const chosen: number[] = [];
+
+  for (let n = 0; n < count; n++) {
+    let bestSlot = LONE_PAIR_SLOTS[n % LONE_PAIR_SLOTS.length];
+    let bestGap = -1;
+    for (const slot of LONE_PAIR_SLOTS) {
+      if (chosen.includes(slot)) continue;
+      const gap = taken.length === 0 ? Math.PI : Math.min(...taken.map((angle) => angularDistance(slot, angle)));
+      if (gap > bestGap + 1e-6) {
+        bestGap = gap;
+        bestSlot = slot;
+      }
+    }
+    chosen.push(bestSlot);
+    taken.push(bestSlot);
+  }
+
+  return chosen;
+}
+
+function formatCharge(charge: number): string {
+  const magnitude = Math.abs(charge) === 1 ? "" : Math.abs(charge);
+  return `${magnitude}${charge > 0 ? "+" : "−"}`;
+}
+
+export default function CompoundVisualization({
+  elements,
+  bonds = [],
+  allElements,
+  mode = "structure",
+}: CompoundVisualizationProps) {
   // Create element lookup map
   const elementLookup = useMemo(() => {
     const map = new Map<string, Element>();
@@ -30,6 +74,11 @@ export default function CompoundVisualization({ elements, bonds = [], allElement
       .filter((el) => el.element !== undefined);
   }, [elements, elementLookup]);
 
+  const lewis = useMemo(
+    () => (mode === "lewis" ? generateLewisStructure(elements, bonds, elementLookup) : null),
+    [mode, elements, bonds, elementLookup]
+  );
+
   // Calculate canvas dimensions and center positions if not provided
   const { canvasWidth, canvasHeight, positionedElements } = useMemo(() => {
     const width = 800;
@@ -124,6 +173,7 @@ export default function CompoundVisualization({ elements, bonds = [], allElement
       ionic: "#F87171",
       covalent: "#60A5FA",
       metallic: "#A78BFA",
+      dative: "#F472B6",
     };
     return colors[bondType] || "#60A5FA";
   };
@@ -137,10 +187,195 @@ export default function CompoundVisualization({ elements, bonds = [], allElement
       ionic: 2,
       covalent: 2,
       metallic: 3,
+      dative: 2,
     };
     return widths[bondType] || 2;
   };
 
+  if (lewis) {
+    if (!lewis.success || !lewis.structure) {
+      return (
+        <div className="bg-gray-900 rounded-lg p-4 flex items-center justify-center" style={{ minHeight: "400px" }}>
+          <p className="text-gray-400 text-sm">{lewis.error}</p>
+        </div>
+      );
+    }
+
+    const structure = lewis.structure;
+    const positions = new Map(positionedElements.map((el) => [el.elementId, el.position]));
+
+    const bondAngles = (elementId: string) =>
+      structure.bonds.flatMap((bond) => {
+        const partnerId =
+          bond.fromElementId === elementId ? bond.toElementId : bond.toElementId === elementId ? bond.fromElementId : null;
+        const from = positions.get(elementId);
+        const to = partnerId ? positions.get(partnerId) : undefined;
+        return from && to ? [Math.atan2(to.y - from.y, to.x - from.x)] : [];
+      });
+
+    return (
+      <div className="bg-gray-900 rounded-lg p-4">
+        <svg
+          width="100%"
+          height="100%"
+          viewBox={`0 0 ${canvasWidth} ${canvasHeight}`}
+          className="w-full h-full"
+          style={{ minHeight: "400px" }}
+        >
+          <defs>
+            <pattern id="grid-pattern" width="40" height="40" patternUnits="userSpaceOnUse">
+              <path d="M 40 0 L 0 0 0 40" fill="none" stroke="rgba(255,255,255,0.05)" strokeWidth="1" />
+            </pattern>
+          </defs>
+          <rect width="100%" height="100%" fill="url(#grid-pattern)" />
+
+          {/* Bonds: one line per shared pair */}
+          <g>
+            {structure.bonds.map((bond, idx) => {
+              const from = positions.get(bond.fromElementId);
+              const to = positions.get(bond.toElementId);
+              if (!from || !to) return null;
+
+              const dx = to.x - from.x;
+              const dy = to.y - from.y;
+              const distance = Math.sqrt(dx * dx + dy * dy);
+              if (distance === 0) return null;
+
+              const ux = dx / distance;
+              const uy = dy / distance;
+              const fromX = from.x + ux * LEWIS_ATOM_RADIUS;
+              const fromY = from.y + uy * LEWIS_ATOM_RADIUS;
+              const toX = to.x - ux * LEWIS_ATOM_RADIUS;
+              const toY = to.y - uy * LEWIS_ATOM_RADIUS;
+
+              if (bond.order === 0) {
+                // Ionic and metallic bonds share no electrons
+                return (
+                  <line
+                    key={idx}
+                    x1={fromX}
+                    y1={fromY}
+                    x2={toX}
+                    y2={toY}
+                    stroke="#4B5563"
+                    strokeWidth={1.5}
+                    strokeDasharray={bond.ionic ? "5,5" : "2,4"}
+                  />
+                );
+              }
+
+              return (
+                <g key={idx}>
+                  {Array.from({ length: bond.order }, (_, k) => {
+                    const offset = (k - (bond.order - 1) / 2) * 6;
+                    return (
+                      <line
+                        key={k}
+                        x1={fromX - uy * offset}
+                        y1={fromY + ux * offset}
+                        x2={toX - uy * offset}
+                        y2={toY + ux * offset}
+                        stroke="#E5E7EB"
+                        strokeWidth={2}
+                        strokeLinecap="round"
+                      />
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </g>
+
+          {/* Atoms with lone pairs and formal charges */}
+          <g>
+            {structure.atoms.map((atom, idx) => {
+              const position = positions.get(atom.elementId);
+              const element = elementLookup.get(atom.symbol);
+              if (!position || !element) return null;
+
+              const angles = getLonePairAngles(
+                bondAngles(atom.elementId),
+                atom.lonePairs + atom.unpairedElectrons
+              );
+              const dotDistance = LEWIS_ATOM_RADIUS + 4;
+
+              return (
+                <g key={`${atom.elementId}-${idx}`}>
+                  <circle cx={position.x} cy={position.y} r={LEWIS_ATOM_RADIUS} fill="#111827" />
+                  <text
+                    x={position.x}
+                    y={position.y}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fill={getElementColor(element.category)}
+                    fontSize="22"
+                    fontWeight="bold"
+                    style={{ userSelect: "none" }}
+                  >
+                    {atom.symbol}
+                  </text>
+
+                  {angles.map((angle, k) => {
+                    const cx = position.x + Math.cos(angle) * dotDistance;
+                    const cy = position.y + Math.sin(angle) * dotDistance;
+                    const px = -Math.sin(angle) * 4;
+                    const py = Math.cos(angle) * 4;
+
+                    // The last slot holds the odd electron on radicals
+                    if (k >= atom.lonePairs) {
+                      return <circle key={k} cx={cx} cy={cy} r={2.5} fill="#FBBF24" />;
+                    }
+                    return (
+                      <g key={k}>
+                        <circle cx={cx + px} cy={cy + py} r={2.5} fill="#FBBF24" />
+                        <circle cx={cx - px} cy={cy - py} r={2.5} fill="#FBBF24" />
+                      </g>
+                    );
+                  })}
+
+                  {atom.formalCharge !== 0 && (
+                    <text
+                      x={position.x + LEWIS_ATOM_RADIUS + 8}
+                      y={position.y - LEWIS_ATOM_RADIUS - 4}
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      fill={atom.formalCharge > 0 ? "#F87171" : "#60A5FA"}
+                      fontSize="14"
+                      fontWeight="bold"
+                      style={{ userSelect: "none" }}
+                    >
+                      {formatCharge(atom.formalCharge)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {/* Legend */}
+        <div className="mt-4 flex flex-wrap gap-4 text-xs">
+          <div className="flex items-center gap-2">
+            <div className="flex gap-0.5">
+              <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div>
+              <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div>
+            </div>
+            <span className="text-gray-400">Lone pair</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-red-400 font-bold">+</span>
+            <span className="text-blue-400 font-bold">−</span>
+            <span className="text-gray-400">Formal charge</span>
+          </div>
+          <span className="text-gray-400">{structure.totalValenceElectrons} valence electrons</span>
+          {structure.resonanceCount > 1 && (
+            <span className="text-gray-400">One of {structure.resonanceCount} resonance structures</span>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-gray-900 rounded-lg p-4">
       <svg
@@ -271,6 +506,31 @@ export default function CompoundVisualization({ elements, bonds = [], allElement
                   strokeLinecap="round"
                 />
               );
+            } else if (bond.bondType === "dative") {
+              // Dative bonds shown as an arrow from the donor atom to the metal
+              const toMetal = toEl.element.category === "transition-metal";
+              const [tipX, tipY] = toMetal ? [toX, toY] : [fromX, fromY];
+              const ux = ((toMetal ? 1 : -1) * dx) / distance;
+              const uy = ((toMetal ? 1 : -1) * dy) / distance;
+              const head = 8;
+
+              return (
+                <g key={bond.id || idx}>
+                  <line
+                    x1={fromX}
+                    y1={fromY}
+                    x2={toX}
+                    y2={toY}
+                    stroke={bondColor}
+                    strokeWidth={strokeWidth}
+                    strokeLinecap="round"
+                  />
+                  <polygon
+                    points={`${tipX},${tipY} ${tipX - ux * head - uy * head * 0.5},${tipY - uy * head + ux * head * 0.5} ${tipX - ux * head + uy * head * 0.5},${tipY - uy * head - ux * head * 0.5}`}
+                    fill={bondColor}
+                  />
+                </g>
+              );
             } else {
               // Single, covalent, or metallic bonds
               return (
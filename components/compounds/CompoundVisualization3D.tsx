@@ -2,26 +2,65 @@
 
 import React, { Suspense, useMemo, useState } from "react";
 import { Canvas } from "@react-three/fiber";
+import { Vector3 } from "three";
 import { OrbitControls, Environment } from "@react-three/drei";
 import { Element } from "@/lib/types/element";
-import { Bond, CompoundElement } from "@/lib/types/compound";
+import { Bond, CompoundElement, MolecularGeometry } from "@/lib/types/compound";
 import { calculateBoundingBox } from "@/lib/utils/molecular-geometry";
 import { getAtomColor, get3DAtomRadius } from "@/lib/utils/organic-helpers";
 import AtomSphere from "./visualization3d/AtomSphere";
 import BondCylinder from "./visualization3d/BondCylinder";
+import LonePairLobe from "./visualization3d/LonePairLobe";
+import DipoleArrow from "./visualization3d/DipoleArrow";
+import { calculateDipoleMoment, DipoleAnalysis } from "@/lib/utils/dipole-moment";
 
 interface CompoundVisualization3DProps {
   elements: CompoundElement[];
   bonds?: Bond[];
   allElements: Element[];
+  geometry?: MolecularGeometry; // Central atom and its lone pairs
+}
+
+// Scene units per Debye for dipole arrows
+const DIPOLE_ARROW_SCALE = 0.8;
+
+function OverlayToggle({ label, checked, onToggle }: { label: string; checked: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className="flex items-center gap-2 bg-gray-900/90 backdrop-blur-sm px-3 py-2 rounded-lg border border-gray-700 hover:border-gray-600 transition-all shadow-xl cursor-pointer"
+    >
+      <div
+        className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-all ${
+          checked ? "bg-[#6C5CE7] border-[#6C5CE7]" : "bg-transparent border-gray-500"
+        }`}
+      >
+        {checked && (
+          <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+      </div>
+      <span className="text-sm font-medium text-gray-300">{label}</span>
+    </button>
+  );
 }
 
 function MoleculeScene({
   elements,
   bonds = [],
   allElements,
+  geometry,
+  dipole,
   showBonds,
-}: CompoundVisualization3DProps & { showBonds: boolean }) {
+  showLonePairs,
+  showDipoles,
+}: CompoundVisualization3DProps & {
+  dipole: DipoleAnalysis;
+  showBonds: boolean;
+  showLonePairs: boolean;
+  showDipoles: boolean;
+}) {
   // Create element lookup map
   const elementLookup = useMemo(() => {
     const map = new Map<string, Element>();
@@ -170,6 +209,75 @@ function MoleculeScene({
           );
         })}
 
+      {/* Lone pairs on the central atom (ball-and-stick only) */}
+      {showBonds &&
+        showLonePairs &&
+        (() => {
+          const central = enrichedElements.find((el) => el.elementId === geometry?.centralAtomId);
+          if (!central?.position3D) return null;
+
+          return geometry?.lonePairPositions?.map((offset, idx) => (
+            <LonePairLobe key={`lone-pair-${idx}`} origin={central.position3D!} offset={offset} />
+          ));
+        })()}
+
+      {/* Bond dipoles beside each bond (δ+ → δ−) and the net dipole from the centre */}
+      {showBonds &&
+        showDipoles &&
+        (() => {
+          const positionOf = (id: string) => enrichedElements.find((el) => el.elementId === id)?.position3D;
+          const center = calculateBoundingBox(enrichedElements).center;
+          const net = dipole.netDipole;
+
+          return (
+            <>
+              {dipole.bondDipoles.map((bondDipole) => {
+                const positive = positionOf(bondDipole.positiveElementId);
+                const negative = positionOf(bondDipole.negativeElementId);
+                if (!positive || !negative) return null;
+
+                const axis = new Vector3(negative.x - positive.x, negative.y - positive.y, negative.z - positive.z);
+                const bondLength = axis.length();
+                axis.normalize();
+
+                // Shift the arrow off the bond so both stay visible
+                let side = new Vector3(0, 0, 1).cross(axis);
+                if (side.length() < 0.1) side = new Vector3(0, 1, 0).cross(axis);
+                side.normalize().multiplyScalar(0.3);
+
+                const half = Math.min(bondDipole.moment * DIPOLE_ARROW_SCALE, bondLength * 0.9) / 2;
+                const mid = new Vector3(
+                  (positive.x + negative.x) / 2 + side.x,
+                  (positive.y + negative.y) / 2 + side.y,
+                  (positive.z + negative.z) / 2 + side.z
+                );
+
+                return (
+                  <DipoleArrow
+                    key={`dipole-${bondDipole.bondId}`}
+                    from={mid.clone().addScaledVector(axis, -half)}
+                    to={mid.clone().addScaledVector(axis, half)}
+                    color="#F472B6"
+                  />
+                );
+              })}
+
+              {dipole.polarity === "polar" && (
+                <DipoleArrow
+                  from={center}
+                  to={{
+                    x: center.x + net.x * DIPOLE_ARROW_SCALE * 1.5,
+                    y: center.y + net.y * DIPOLE_ARROW_SCALE * 1.5,
+                    z: center.z + net.z * DIPOLE_ARROW_SCALE * 1.5,
+                  }}
+                  color="#22D3EE"
+                  radius={0.07}
+                />
+              )}
+            </>
+          );
+        })()}
+
       {/* Atoms */}
       {enrichedElements.map((el, idx) => {
         if (!el.element || !el.position3D) return null;
@@ -205,8 +313,16 @@ function MoleculeScene({
   );
 }
 
-export default function CompoundVisualization3D({ elements, bonds = [], allElements }: CompoundVisualization3DProps) {
+export default function CompoundVisualization3D({
+  elements,
+  bonds = [],
+  allElements,
+  geometry,
+}: CompoundVisualization3DProps) {
   const [showBonds, setShowBonds] = useState(true);
+  const [showLonePairs, setShowLonePairs] = useState(false);
+  const [showDipoles, setShowDipoles] = useState(false);
+  const lonePairCount = geometry?.lonePairPositions?.length ?? 0;
 
   // Create element lookup for info badge
   const elementLookup = useMemo(() => {
@@ -215,6 +331,12 @@ export default function CompoundVisualization3D({ elements, bonds = [], allEleme
     return map;
   }, [allElements]);
 
+  // Dipoles use the generated VSEPR coordinates, not the space-filling layout
+  const dipole = useMemo(
+    () => calculateDipoleMoment(elements, bonds, elementLookup),
+    [elements, bonds, elementLookup]
+  );
+
   // Group elements by unique type for info badge
   const uniqueElements = useMemo(() => {
     const elementMap = new Map<string, { element: Element; count: number; color: string }>();
@@ -268,25 +390,19 @@ export default function CompoundVisualization3D({ elements, bonds = [], allEleme
 
   return (
     <div className="bg-black border border-gray-700 rounded-2xl p-4 h-[400px] md:h-[500px] lg:h-[600px] relative overflow-hidden">
-      {/* Bond Toggle Button - Top Right */}
-      <div className="absolute top-4 right-4 z-10">
-        <button
-          onClick={() => setShowBonds(!showBonds)}
-          className="flex items-center gap-2 bg-gray-900/90 backdrop-blur-sm px-3 py-2 rounded-lg border border-gray-700 hover:border-gray-600 transition-all shadow-xl cursor-pointer"
-        >
-          <div
-            className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-all ${
-              showBonds ? "bg-[#6C5CE7] border-[#6C5CE7]" : "bg-transparent border-gray-500"
-            }`}
-          >
-            {showBonds && (
-              <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-              </svg>
-            )}
-          </div>
-          <span className="text-sm font-medium text-gray-300">Show Bonds</span>
-        </button>
+      {/* Toggle Buttons - Top Right */}
+      <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+        <OverlayToggle label="Show Bonds" checked={showBonds} onToggle={() => setShowBonds(!showBonds)} />
+        {lonePairCount > 0 && showBonds && (
+          <OverlayToggle
+            label="Show Lone Pairs"
+            checked={showLonePairs}
+            onToggle={() => setShowLonePairs(!showLonePairs)}
+          />
+        )}
+        {dipole.bondDipoles.length > 0 && showBonds && (
+          <OverlayToggle label="Show Dipoles" checked={showDipoles} onToggle={() => setShowDipoles(!showDipoles)} />
+        )}
       </div>
 
       {/* Info Badge - Elements & Bonds */}
@@ -328,9 +444,23 @@ export default function CompoundVisualization3D({ elements, bonds = [], allEleme
           </>
         )}
 
+        {/* Polarity Section */}
+        {dipole.bondDipoles.length > 0 && (
+          <div className="flex items-center gap-2 text-xs mt-3 pt-2 border-t border-gray-700">
+            <span className="text-gray-400">Net dipole</span>
+            <span className="text-white font-medium">≈ {dipole.magnitude.toFixed(2)} D</span>
+            <span
+              className={`ml-auto font-semibold ${dipole.polarity === "polar" ? "text-cyan-400" : "text-gray-400"}`}
+            >
+              {dipole.polarity === "polar" ? "Polar" : "Nonpolar"}
+            </span>
+          </div>
+        )}
+
         {/* Summary */}
         <div className="text-gray-500 text-[10px] mt-2 pt-2 border-t border-gray-700">
           {elements.length} atoms • {bonds.length} bonds
+          {geometry && geometry.type !== "custom" && <> • {geometry.type.replace(/-/g, " ")}</>}
         </div>
       </div>
 
@@ -349,7 +479,16 @@ export default function CompoundVisualization3D({ elements, bonds = [], allEleme
         }}
       >
         <Suspense fallback={null}>
-          <MoleculeScene elements={elements} bonds={bonds} allElements={allElements} showBonds={showBonds} />
+          <MoleculeScene
+            elements={elements}
+            bonds={bonds}
+            allElements={allElements}
+            geometry={geometry}
+            dipole={dipole}
+            showBonds={showBonds}
+            showLonePairs={showLonePairs}
+            showDipoles={showDipoles}
+          />
         </Suspense>
       </Canvas>
 
@@ -11,20 +11,22 @@ interface CompoundVisualizationWrapperProps {
   elements: CompoundElement[];
   bonds?: Bond[];
   allElements: Element[];
+  charge?: number; // Overall ionic charge, for the Lewis structure behind the 3D shape
 }
 
 export default function CompoundVisualizationWrapper({
   elements,
   bonds = [],
   allElements,
+  charge = 0,
 }: CompoundVisualizationWrapperProps) {
-  const [viewMode, setViewMode] = useState<"2d" | "3d">("2d");
+  const [viewMode, setViewMode] = useState<"2d" | "lewis" | "3d">("2d");
 
   // Generate 3D coordinates (memoized)
-  const elements3D = useMemo(() => {
-    const { elements: generated } = generate3DCoordinates(elements, bonds, allElements);
-    return generated;
-  }, [elements, bonds, allElements]);
+  const { elements: elements3D, geometry } = useMemo(
+    () => generate3DCoordinates(elements, bonds, allElements, charge),
+    [elements, bonds, allElements, charge]
+  );
 
   return (
     <div>
@@ -42,6 +44,16 @@ export default function CompoundVisualizationWrapper({
           >
             2D View
           </button>
+          <button
+            onClick={() => setViewMode("lewis")}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+              viewMode === "lewis"
+                ? "bg-[#6C5CE7] text-white shadow-lg"
+                : "text-gray-400 hover:text-white hover:bg-white/5"
+            }`}
+          >
+            Lewis
+          </button>
           <button
             onClick={() => setViewMode("3d")}
             className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
@@ -57,17 +69,19 @@ export default function CompoundVisualizationWrapper({
 
       {/* Visualization */}
       <div>
-        {viewMode === "2d" ? (
+        {viewMode !== "3d" ? (
           <CompoundVisualization
             elements={elements}
             bonds={bonds}
             allElements={allElements}
+            mode={viewMode === "lewis" ? "lewis" : "structure"}
           />
         ) : (
           <CompoundVisualization3D
             elements={elements3D}
             bonds={bonds}
             allElements={allElements}
+            geometry={geometry}
           />
         )}
       </div>
@@ -0,0 +1,130 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ExternalFactors } from "@/lib/types/compound";
+import {
+  calculateGasBehavior,
+  fromAtm,
+  fromKelvin,
+  GasState,
+  resolveGasConditions,
+} from "@/lib/utils/gas-laws";
+
+interface GasBehaviorPanelProps {
+  formula: string;
+  molarMass: number;
+  externalFactors?: ExternalFactors;
+}
+
+type AmountUnit = "mol" | "g";
+
+function formatNumber(value: number, digits = 4): string {
+  if (value !== 0 && (Math.abs(value) >= 1e6 || Math.abs(value) < 1e-3)) return value.toExponential(digits - 1);
+  return value.toPrecision(digits).replace(/\.?0+$/, "");
+}
+
+const ROWS: Array<{ label: string; unit: string; value: (state: GasState) => number }> = [
+  { label: "Volume", unit: "L", value: (s) => s.volume },
+  { label: "Density", unit: "g/L", value: (s) => s.density },
+  { label: "Molar volume", unit: "L/mol", value: (s) => s.molarVolume },
+  { label: "Z = PV/nRT", unit: "", value: (s) => s.compressibility },
+];
+
+export default function GasBehaviorPanel({ formula, molarMass, externalFactors }: GasBehaviorPanelProps) {
+  const [amount, setAmount] = useState("1");
+  const [unit, setUnit] = useState<AmountUnit>("mol");
+
+  const conditions = useMemo(() => resolveGasConditions(externalFactors), [externalFactors]);
+
+  const result = useMemo(() => {
+    const value = parseFloat(amount);
+    const moles = unit === "g" ? value / molarMass : value;
+    return calculateGasBehavior(formula, molarMass, moles, conditions);
+  }, [amount, unit, formula, molarMass, conditions]);
+
+  const usingDefaults = !conditions.fromExternalFactors.temperature || !conditions.fromExternalFactors.pressure;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-white">Gas Behavior</h2>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-white/40 text-xs">Temperature</p>
+          <p className="text-white">
+            {formatNumber(conditions.temperature, 5)} K{" "}
+            <span className="text-white/50">({formatNumber(fromKelvin(conditions.temperature, "C"), 5)} °C)</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-white/40 text-xs">Pressure</p>
+          <p className="text-white">
+            {formatNumber(conditions.pressure, 5)} atm{" "}
+            <span className="text-white/50">({formatNumber(fromAtm(conditions.pressure, "Pa"), 6)} Pa)</span>
+          </p>
+        </div>
+      </div>
+      {usingDefaults && (
+        <p className="text-xs text-white/40">
+          Conditions not saved on this compound default to 0 °C and 1 atm.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+          aria-label="Amount of gas"
+        />
+        <select
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as AmountUnit)}
+          className="w-24 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+          aria-label="Amount unit"
+        >
+          <option value="mol">mol</option>
+          <option value="g">g</option>
+        </select>
+      </div>
+
+      {!result.success ? (
+        <p className="text-sm text-yellow-300">{result.error}</p>
+      ) : (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-white/40 text-xs text-left">
+                <th className="font-normal pb-1"></th>
+                <th className="font-normal pb-1">Ideal (PV = nRT)</th>
+                <th className="font-normal pb-1">van der Waals</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => (
+                <tr key={row.label} className="border-t border-white/5">
+                  <td className="py-1 text-white/60">{row.label}</td>
+                  <td className="py-1 text-white font-mono">
+                    {formatNumber(row.value(result.ideal!))} {row.unit}
+                  </td>
+                  <td className="py-1 text-white font-mono">
+                    {result.real ? `${formatNumber(row.value(result.real))} ${row.unit}` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-white/40">
+            {result.constants
+              ? `a = ${formatNumber(result.constants.a)} L²·atm/mol², b = ${formatNumber(result.constants.b)} L/mol` +
+                (result.real ? "" : " (no gas-phase volume at these conditions)")
+              : "No van der Waals constants are tabulated for this compound."}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
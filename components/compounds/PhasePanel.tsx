@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo } from "react";
+import { ExternalFactors, PhysicalProperties } from "@/lib/types/compound";
+import { PHASE_COLORS as ELEMENT_PHASE_COLORS } from "@/lib/types/element";
+import { resolveGasConditions } from "@/lib/utils/gas-laws";
+import { lookupPhaseData, Phase, PhaseModel, predictPhase } from "@/lib/utils/phase-prediction";
+
+interface PhasePanelProps {
+  formula: string;
+  physicalProperties?: PhysicalProperties;
+  externalFactors?: ExternalFactors;
+}
+
+const PHASE_COLORS: Record<Phase, string> = {
+  solid: ELEMENT_PHASE_COLORS.solid,
+  liquid: ELEMENT_PHASE_COLORS.liquid,
+  gas: ELEMENT_PHASE_COLORS.gas,
+  supercritical: "#E17055",
+};
+
+// SVG layout
+const WIDTH = 320;
+const HEIGHT = 220;
+const PAD = { left: 36, right: 12, top: 12, bottom: 28 };
+
+function PhaseDiagram({ model, temperature, pressure }: { model: PhaseModel; temperature: number; pressure: number }) {
+  const { triplePoint, criticalPoint } = model;
+
+  // Temperature on a linear axis, pressure on a log axis
+  const tMin = 0.6 * Math.min(triplePoint.temperature, model.boilingPoint, temperature);
+  const tMax = Math.max(1.2 * criticalPoint.temperature, 1.1 * temperature);
+  const logMin = Math.min(Math.log10(model.sublimationPressure(tMin)), Math.log10(pressure)) - 0.5;
+  const logMax = Math.max(Math.log10(criticalPoint.pressure), Math.log10(pressure)) + 1;
+
+  const x = (t: number) => PAD.left + ((t - tMin) / (tMax - tMin)) * (WIDTH - PAD.left - PAD.right);
+  const y = (p: number) =>
+    HEIGHT - PAD.bottom - ((Math.log10(p) - logMin) / (logMax - logMin)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const curve = (from: number, to: number, pressureAt: (t: number) => number) =>
+    Array.from({ length: 40 }, (_, i) => {
+      const t = from + ((to - from) * i) / 39;
+      return `${i === 0 ? "M" : "L"}${x(t).toFixed(1)},${Math.max(PAD.top, y(pressureAt(t))).toFixed(1)}`;
+    }).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Phase diagram sketch">
+      {/* Axes */}
+      <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="#ffffff40" />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} stroke="#ffffff40" />
+      <text x={(WIDTH + PAD.left) / 2} y={HEIGHT - 6} fill="#ffffff80" fontSize="10" textAnchor="middle">
+        Temperature (K)
+      </text>
+      <text
+        x={10}
+        y={(HEIGHT - PAD.bottom + PAD.top) / 2}
+        fill="#ffffff80"
+        fontSize="10"
+        textAnchor="middle"
+        transform={`rotate(-90 10 ${(HEIGHT - PAD.bottom + PAD.top) / 2})`}
+      >
+        Pressure (log atm)
+      </text>
+
+      {/* 1 atm reference */}
+      {logMin < 0 && logMax > 0 && (
+        <line x1={PAD.left} y1={y(1)} x2={WIDTH - PAD.right} y2={y(1)} stroke="#ffffff20" strokeDasharray="3 3" />
+      )}
+
+      {/* Phase boundaries */}
+      <path d={curve(tMin, triplePoint.temperature, model.sublimationPressure)} stroke="#ffffffb0" fill="none" />
+      <path d={curve(triplePoint.temperature, criticalPoint.temperature, model.vaporPressure)} stroke="#ffffffb0" fill="none" />
+      <line
+        x1={x(triplePoint.temperature)}
+        y1={y(triplePoint.pressure)}
+        x2={x(triplePoint.temperature)}
+        y2={PAD.top}
+        stroke="#ffffffb0"
+      />
+      <circle cx={x(triplePoint.temperature)} cy={y(triplePoint.pressure)} r={3} fill="#ffffff" />
+      <circle cx={x(criticalPoint.temperature)} cy={y(criticalPoint.pressure)} r={3} fill="#ffffff" />
+
+      {/* Region labels */}
+      <text x={(PAD.left + x(triplePoint.temperature)) / 2} y={PAD.top + 20} fill={PHASE_COLORS.solid} fontSize="11" textAnchor="middle">
+        Solid
+      </text>
+      <text
+        x={(x(triplePoint.temperature) + x(criticalPoint.temperature)) / 2}
+        y={PAD.top + 20}
+        fill={PHASE_COLORS.liquid}
+        fontSize="11"
+        textAnchor="middle"
+      >
+        Liquid
+      </text>
+      <text x={WIDTH - PAD.right - 20} y={HEIGHT - PAD.bottom - 10} fill={PHASE_COLORS.gas} fontSize="11" textAnchor="middle">
+        Gas
+      </text>
+
+      {/* Saved conditions */}
+      <circle cx={x(temperature)} cy={y(pressure)} r={5} fill="#6C5CE7" stroke="#ffffff" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+export default function PhasePanel({ formula, physicalProperties, externalFactors }: PhasePanelProps) {
+  const conditions = useMemo(() => resolveGasConditions(externalFactors), [externalFactors]);
+
+  // User-entered values win over the reference dataset
+  const hasUserData = physicalProperties?.meltingPoint != null && physicalProperties?.boilingPoint != null;
+  const data = hasUserData ? physicalProperties! : lookupPhaseData(formula);
+
+  const prediction = useMemo(
+    () => (data ? predictPhase(conditions.temperature, conditions.pressure, data) : null),
+    [data, conditions]
+  );
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-white">Phase</h2>
+
+      {!data ? (
+        <p className="text-sm text-white/60">
+          No melting or boiling point data for this compound. Add them when editing the compound to predict its phase.
+        </p>
+      ) : !prediction?.success ? (
+        <p className="text-sm text-yellow-300">{prediction?.error}</p>
+      ) : (
+        <>
+          <p className="text-white">
+            Predicted{" "}
+            <span className="font-bold capitalize" style={{ color: PHASE_COLORS[prediction.phase!] }}>
+              {prediction.phase}
+            </span>{" "}
+            at {conditions.temperature.toFixed(1)} K and {conditions.pressure.toPrecision(3)} atm
+          </p>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <p className="text-white/40 text-xs">Melting point</p>
+              <p className="text-white">{data.meltingPoint!.toFixed(1)} K</p>
+            </div>
+            <div>
+              <p className="text-white/40 text-xs">Boiling point</p>
+              <p className="text-white">{data.boilingPoint!.toFixed(1)} K</p>
+            </div>
+          </div>
+          <PhaseDiagram model={prediction.model!} temperature={conditions.temperature} pressure={conditions.pressure} />
+          <p className="text-xs text-white/40">
+            {hasUserData ? "Entered with the compound" : "Reference data"}; the diagram is a sketch from Trouton&apos;s
+            and Richards&apos; rules, not measured curves.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Element } from "@/lib/types/element";
+import { countElements } from "@/lib/utils/chemical-validation";
+import { formatFormula } from "@/lib/utils/reaction-balancer";
+import {
+  AmountUnit,
+  calculateLimitingReagent,
+  calculatePercentComposition,
+  convertAmount,
+} from "@/lib/utils/stoichiometry";
+
+interface CompoundOption {
+  id: string;
+  name: string;
+  formula: string;
+  molarMass: number;
+}
+
+interface StoichiometryCalculatorProps {
+  compound: CompoundOption & { elements: Array<{ symbol: string; count: number }> };
+  allElements: Element[];
+}
+
+// A reactant or product row; grams is ignored for products
+interface SpeciesAmount {
+  compoundId: string;
+  grams: string;
+}
+
+const UNIT_LABELS: Record<AmountUnit, string> = {
+  g: "grams",
+  mol: "moles",
+  particles: "particles",
+};
+
+// Query state: ?amount=10&unit=g&reactants=<id>:10,<id>:5&products=<id>
+function parseSpeciesParam(value: string | null): SpeciesAmount[] {
+  if (!value) return [];
+  return value.split(",").map((entry) => {
+    const [compoundId, grams = ""] = entry.split(":");
+    return { compoundId, grams };
+  });
+}
+
+function formatSpeciesParam(list: SpeciesAmount[], withGrams: boolean): string {
+  return list
+    .filter((s) => s.compoundId)
+    .map((s) => (withGrams && s.grams ? `${s.compoundId}:${s.grams}` : s.compoundId))
+    .join(",");
+}
+
+function formatNumber(value: number): string {
+  if (!isFinite(value)) return "—";
+  if (value !== 0 && (Math.abs(value) >= 1e6 || Math.abs(value) < 1e-3)) return value.toExponential(4);
+  return value.toPrecision(5).replace(/\.?0+$/, "");
+}
+
+export default function StoichiometryCalculator({ compound, allElements }: StoichiometryCalculatorProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [compounds, setCompounds] = useState<CompoundOption[]>([]);
+  const [amount, setAmount] = useState(() => searchParams.get("amount") || "1");
+  const [unit, setUnit] = useState<AmountUnit>(() => {
+    const value = searchParams.get("unit");
+    return value === "g" || value === "particles" ? value : "mol";
+  });
+  const [reactants, setReactants] = useState<SpeciesAmount[]>(() => {
+    const list = parseSpeciesParam(searchParams.get("reactants"));
+    return list.length > 0 ? list : [{ compoundId: compound.id, grams: "" }];
+  });
+  const [products, setProducts] = useState<SpeciesAmount[]>(() => {
+    const list = parseSpeciesParam(searchParams.get("products"));
+    return list.length > 0 ? list : [{ compoundId: "", grams: "" }];
+  });
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchCompounds = async () => {
+      try {
+        const res = await fetch("/api/compounds");
+        if (res.ok) {
+          const data = await res.json();
+          setCompounds(data.compounds);
+        }
+      } catch (error) {
+        console.error("Error fetching compounds:", error);
+      }
+    };
+    fetchCompounds();
+  }, []);
+
+  // The URL effect compares against the current query without re-running on
+  // every replace it makes
+  const searchParamsRef = useRef(searchParams);
+  useEffect(() => {
+    searchParamsRef.current = searchParams;
+  }, [searchParams]);
+
+  // Mirror the calculator state into the URL so a result can be shared
+  useEffect(() => {
+    const current = searchParamsRef.current.toString();
+    const params = new URLSearchParams(current);
+    const entries: Record<string, string> = {
+      amount,
+      unit,
+      reactants: formatSpeciesParam(reactants, true),
+      products: formatSpeciesParam(products, false),
+    };
+    Object.entries(entries).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+
+    const query = params.toString();
+    if (query !== current) {
+      router.replace(`${pathname}?${query}`, { scroll: false });
+    }
+  }, [amount, unit, reactants, products, pathname, router]);
+
+  const compoundById = useMemo(() => {
+    const map = new Map(compounds.map((c) => [c.id, c]));
+    map.set(compound.id, compound);
+    return map;
+  }, [compounds, compound]);
+
+  const conversion = useMemo(() => {
+    const value = parseFloat(amount);
+    if (!isFinite(value) || value < 0 || !(compound.molarMass > 0)) return null;
+    return convertAmount(value, unit, compound.molarMass);
+  }, [amount, unit, compound.molarMass]);
+
+  const composition = useMemo(() => {
+    const elementLookup = new Map(allElements.map((el) => [el.symbol, el]));
+    return calculatePercentComposition(countElements(compound.elements), elementLookup);
+  }, [compound.elements, allElements]);
+
+  const reaction = useMemo(() => {
+    const reactantCompounds = reactants.map((r) => compoundById.get(r.compoundId));
+    const productCompounds = products.map((p) => compoundById.get(p.compoundId));
+    if (reactantCompounds.length === 0 || productCompounds.length === 0) return null;
+    if (!reactantCompounds.every(Boolean) || !productCompounds.every(Boolean)) return null;
+
+    return calculateLimitingReagent(
+      reactantCompounds.map((c, i) => ({
+        formula: c!.formula,
+        molarMass: c!.molarMass,
+        grams: parseFloat(reactants[i].grams),
+      })),
+      productCompounds.map((c) => ({ formula: c!.formula, molarMass: c!.molarMass }))
+    );
+  }, [reactants, products, compoundById]);
+
+  const updateSpecies = (
+    setList: React.Dispatch<React.SetStateAction<SpeciesAmount[]>>,
+    index: number,
+    changes: Partial<SpeciesAmount>
+  ) => {
+    setList((list) => list.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const renderSpeciesList = (
+    title: string,
+    list: SpeciesAmount[],
+    setList: React.Dispatch<React.SetStateAction<SpeciesAmount[]>>,
+    withGrams: boolean
+  ) => (
+    <div>
+      <h3 className="text-sm font-semibold text-white/60 mb-2">{title}</h3>
+      <div className="space-y-2">
+        {list.map((species, index) => (
+          <div key={index} className="flex gap-2">
+            <select
+              value={species.compoundId}
+              onChange={(e) => updateSpecies(setList, index, { compoundId: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+            >
+              <option value="">Compound…</option>
+              {Array.from(compoundById.values()).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name} ({c.formula})
+                </option>
+              ))}
+            </select>
+            {withGrams && (
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={species.grams}
+                onChange={(e) => updateSpecies(setList, index, { grams: e.target.value })}
+                placeholder="g"
+                className="w-24 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+                aria-label="Mass in grams"
+              />
+            )}
+            <button
+              onClick={() => setList((l) => l.filter((_, i) => i !== index))}
+              disabled={list.length <= 1}
+              className="cursor-pointer px-2 text-white/40 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              aria-label={`Remove ${title.toLowerCase().slice(0, -1)}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setList((l) => [...l, { compoundId: "", grams: "" }])}
+        className="cursor-pointer mt-2 text-sm text-[#6C5CE7] hover:text-[#A29BFE] transition-colors"
+      >
+        + Add {title.toLowerCase().slice(0, -1)}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Stoichiometry</h2>
+        <button
+          onClick={handleCopyLink}
+          className="cursor-pointer px-3 py-1.5 text-xs font-medium bg-white/10 text-white/80 rounded-lg hover:bg-white/20 transition-colors"
+        >
+          {copied ? "Link copied" : "Copy link"}
+        </button>
+      </div>
+
+      {/* Grams ↔ moles ↔ particles */}
+      <div>
+        <h3 className="text-sm font-semibold text-white/60 mb-2">Amount of {formatFormula(compound.formula)}</h3>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+            aria-label="Amount"
+          />
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as AmountUnit)}
+            className="w-32 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#6C5CE7]/50"
+            aria-label="Unit"
+          >
+            {(Object.keys(UNIT_LABELS) as AmountUnit[]).map((u) => (
+              <option key={u} value={u}>
+                {UNIT_LABELS[u]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {conversion && (
+          <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+            <div className="bg-white/5 rounded-lg p-2">
+              <p className="text-white/40 text-xs">Mass</p>
+              <p className="text-white font-mono text-sm">{formatNumber(conversion.grams)} g</p>
+            </div>
+            <div className="bg-white/5 rounded-lg p-2">
+              <p className="text-white/40 text-xs">Amount</p>
+              <p className="text-white font-mono text-sm">{formatNumber(conversion.moles)} mol</p>
+            </div>
+            <div className="bg-white/5 rounded-lg p-2">
+              <p className="text-white/40 text-xs">Particles</p>
+              <p className="text-white font-mono text-sm">{formatNumber(conversion.particles)}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Percent composition */}
+      {composition.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-white/60 mb-2">Percent Composition</h3>
+          <div className="space-y-2">
+            {composition.map((row) => (
+              <div key={row.symbol}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-white font-mono">
+                    {row.symbol}
+                    {row.count > 1 && <span className="text-white/50"> ×{row.count}</span>}
+                  </span>
+                  <span className="text-white/80">{row.percent.toFixed(2)}%</span>
+                </div>
+                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-[#6C5CE7]" style={{ width: `${row.percent}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Limiting reagent and theoretical yield */}
+      <div className="space-y-4">
+        {renderSpeciesList("Reactants", reactants, setReactants, true)}
+        {renderSpeciesList("Products", products, setProducts, false)}
+
+        {reaction && !reaction.success && <p className="text-sm text-yellow-300">{reaction.error}</p>}
+
+        {reaction?.success && (
+          <div className="bg-white/5 border border-white/10 rounded-lg p-4 space-y-3 text-sm">
+            <div>
+              <p className="text-white/40 text-xs mb-1">Reactants</p>
+              {reaction.reactants!.map((r, i) => (
+                <div key={i} className="flex justify-between gap-2">
+                  <span className="text-white font-mono">
+                    {r.coefficient === 1 ? "" : r.coefficient}
+                    {formatFormula(compoundById.get(reactants[i].compoundId)!.formula)}
+                    {i === reaction.limitingIndex && (
+                      <span className="ml-2 font-sans text-xs text-yellow-300">limiting</span>
+                    )}
+                  </span>
+                  <span className="text-white/70">
+                    {formatNumber(r.moles)} mol · {formatNumber(r.excessGrams)} g left
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-white/40 text-xs mb-1">Theoretical Yield</p>
+              {reaction.products!.map((p, i) => (
+                <div key={i} className="flex justify-between gap-2">
+                  <span className="text-white font-mono">
+                    {p.coefficient === 1 ? "" : p.coefficient}
+                    {formatFormula(compoundById.get(products[i].compoundId)!.formula)}
+                  </span>
+                  <span className="text-green-300">
+                    {formatNumber(p.grams)} g ({formatNumber(p.moles)} mol)
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -44,6 +44,8 @@ export default function BondConnector({
         return { strokeWidth: 4, strokeDasharray: "none" };
       case "metallic":
         return { strokeWidth: 4, strokeDasharray: "5,5" };
+      case "dative":
+        return { strokeWidth: 3, strokeDasharray: "2,4" };
       default:
         return { strokeWidth: 3, strokeDasharray: "none" };
     }
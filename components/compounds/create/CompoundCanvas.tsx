@@ -10,11 +10,16 @@ import {
   determineBondType,
   getBondDisplayName,
 } from "@/lib/utils/chemistry-helpers";
+import { assignOxidationStates } from "@/lib/utils/chemical-validation";
 import ElementBubble from "./ElementBubble";
 import BondConnector from "./BondConnector";
 import { BondType } from "@/lib/types/compound";
 
-export default function CompoundCanvas() {
+interface CompoundCanvasProps {
+  historyLimit?: number; // maximum number of undo steps kept
+}
+
+export default function CompoundCanvas({ historyLimit }: CompoundCanvasProps = {}) {
   const {
     canvasElements,
     bonds,
@@ -27,16 +32,67 @@ export default function CompoundCanvas() {
     selectBond,
     removeBond,
     updateBondType,
+    past,
+    future,
+    undo,
+    redo,
+    beginTransaction,
+    commitTransaction,
+    setHistoryLimit,
+    charge,
   } = useCompoundCanvasStore();
 
+  const oxidationStates = React.useMemo(
+    () => assignOxidationStates(canvasElements, bonds, charge).states,
+    [canvasElements, bonds, charge]
+  );
+
   const dragStartTimeRef = React.useRef<number>(0);
   const dragDistanceRef = React.useRef<number>(0);
 
+  React.useEffect(() => {
+    if (historyLimit !== undefined) {
+      setHistoryLimit(historyLimit);
+    }
+  }, [historyLimit, setHistoryLimit]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   const handleDragStart = () => {
     dragStartTimeRef.current = Date.now();
+    // The move and any bonds it creates become one undo entry
+    beginTransaction();
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
+    try {
+      applyDrag(event);
+    } finally {
+      commitTransaction();
+    }
+  };
+
+  const applyDrag = (event: DragEndEvent) => {
     const { active, delta } = event;
     const elementId = active.id as string;
 
@@ -141,7 +197,7 @@ export default function CompoundCanvas() {
   };
 
   return (
-    <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+    <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={commitTransaction}>
       <div className="flex flex-col h-full">
         {/* Info bar */}
         <div className="bg-gray-800 px-4 py-2 flex items-center gap-3 border-b border-gray-700">
@@ -163,6 +219,29 @@ export default function CompoundCanvas() {
               ? `${canvasElements.length} elements • ${bonds.length} bonds`
               : "Click elements to start"}
           </div>
+
+          <div className="flex items-center gap-1">
+            <button
+              onClick={undo}
+              disabled={past.length === 0}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={future.length === 0}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Canvas area */}
@@ -304,6 +383,7 @@ export default function CompoundCanvas() {
                 isSelected={isSelected}
                 isBonded={isBonded}
                 availableValence={availableValence}
+                oxidationState={isBonded ? oxidationStates[canvasElement.id] : undefined}
                 onSelect={() => handleElementSelect(canvasElement.id)}
                 onRemove={() => removeElement(canvasElement.id)}
               />
@@ -401,6 +481,16 @@ export default function CompoundCanvas() {
                   >
                     Metallic Bond
                   </button>
+                  <button
+                    onClick={() => updateBondType(selectedBond.id, "dative")}
+                    className={`w-full px-3 py-1.5 text-xs font-medium rounded transition-colors text-left ${
+                      selectedBond.bondType === "dative"
+                        ? "bg-blue-500 text-white"
+                        : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                    }`}
+                  >
+                    Dative Bond
+                  </button>
                 </div>
               </div>
             );
@@ -5,6 +5,8 @@ import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { useCompoundCanvasStore } from "@/lib/stores/useCompoundCanvasStore";
 import { validateCompound } from "@/lib/utils/chemical-validation";
+import { assignBondStrengths } from "@/lib/utils/bond-energy";
+import { lookupPhaseData } from "@/lib/utils/phase-prediction";
 import ValidationPanel from "./ValidationPanel";
 import ExternalFactors from "./ExternalFactors";
 
@@ -22,6 +24,10 @@ export default function CompoundDetails({ compoundId }: CompoundDetailsProps) {
     canvasElements,
     bonds,
     externalFactors,
+    physicalProperties,
+    setPhysicalProperties,
+    charge,
+    setCharge,
     compoundName,
     compoundDescription,
     setCompoundName,
@@ -44,11 +50,12 @@ export default function CompoundDetails({ compoundId }: CompoundDetailsProps) {
 
   const formula = getFormula();
   const molarMass = getMolarMass();
+  const referencePhaseData = formula ? lookupPhaseData(formula) : null;
 
   // Real-time validation
   const validation = useMemo(() => {
-    return validateCompound(canvasElements, bonds);
-  }, [canvasElements, bonds]);
+    return validateCompound(canvasElements, bonds, charge);
+  }, [canvasElements, bonds, charge]);
 
   const handleSave = async () => {
     if (!session?.user) {
@@ -91,12 +98,17 @@ export default function CompoundDetails({ compoundId }: CompoundDetailsProps) {
         };
       });
 
-      // Map bond IDs to match the saved element IDs
-      const mappedBonds = bonds.map(bond => ({
-        ...bond,
-        fromElementId: idMapping.get(bond.fromElementId) || bond.fromElementId,
-        toElementId: idMapping.get(bond.toElementId) || bond.toElementId,
-      }));
+      // Map bond IDs to match the saved element IDs, filling in average bond energies
+      const elementLookup = new Map(canvasElements.map(el => [el.symbol, el.element]));
+      const mappedBonds = assignBondStrengths(
+        mappedElements,
+        bonds.map(bond => ({
+          ...bond,
+          fromElementId: idMapping.get(bond.fromElementId) || bond.fromElementId,
+          toElementId: idMapping.get(bond.toElementId) || bond.toElementId,
+        })),
+        elementLookup
+      );
 
       // Prepare compound data
       const compoundData = {
@@ -104,6 +116,8 @@ export default function CompoundDetails({ compoundId }: CompoundDetailsProps) {
         formula,
         molarMass,
         description: compoundDescription || null,
+        physicalProperties,
+        charge,
         elements: mappedElements,
         bonds: mappedBonds,
         externalFactors,
@@ -200,6 +214,50 @@ export default function CompoundDetails({ compoundId }: CompoundDetailsProps) {
             />
           </div>
 
+          <div>
+            <label className="block text-white font-medium mb-2">Melting / Boiling Point (optional)</label>
+            <div className="grid grid-cols-2 gap-3">
+              {(["meltingPoint", "boilingPoint"] as const).map((key) => (
+                <div key={key} className="relative">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder={key === "meltingPoint" ? "Melting point" : "Boiling point"}
+                    value={physicalProperties[key] ?? ""}
+                    onChange={(e) =>
+                      setPhysicalProperties({ [key]: e.target.value === "" ? null : parseFloat(e.target.value) })
+                    }
+                    className="w-full px-4 py-2 pr-8 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">K</span>
+                </div>
+              ))}
+            </div>
+            {referencePhaseData &&
+              (physicalProperties.meltingPoint !== referencePhaseData.meltingPoint ||
+                physicalProperties.boilingPoint !== referencePhaseData.boilingPoint) && (
+                <button
+                  onClick={() => setPhysicalProperties(referencePhaseData)}
+                  className="text-xs text-blue-400 hover:text-blue-300 mt-1"
+                >
+                  Use reference data for {formula} ({referencePhaseData.meltingPoint} K / {referencePhaseData.boilingPoint} K)
+                </button>
+              )}
+          </div>
+
+          <div>
+            <label className="block text-white font-medium mb-2">Overall Charge</label>
+            <input
+              type="number"
+              step="1"
+              value={charge}
+              onChange={(e) => setCharge(e.target.value === "" ? 0 : parseInt(e.target.value))}
+              className="w-full px-4 py-2 rounded-lg bg-gray-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-400 mt-1">Leave at 0 for neutral compounds; +2 for [Cu(NH₃)₄]²⁺</p>
+          </div>
+
           <div className="text-sm text-gray-400 bg-gray-700 p-3 rounded-lg space-y-1">
             <p className="flex justify-between">
               <span>Total elements:</span>
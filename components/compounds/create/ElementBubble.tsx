@@ -12,6 +12,7 @@ interface ElementBubbleProps {
   isSelected: boolean;
   isBonded?: boolean;
   availableValence: number;
+  oxidationState?: number;
   onSelect: () => void;
   onRemove: () => void;
 }
@@ -23,6 +24,7 @@ export default function ElementBubble({
   isSelected,
   isBonded = false,
   availableValence,
+  oxidationState,
   onSelect,
   onRemove,
 }: ElementBubbleProps) {
@@ -124,6 +126,17 @@ export default function ElementBubble({
         ×
       </button>
 
+      {/* Oxidation number */}
+      {oxidationState !== undefined && (
+        <div
+          className="absolute -top-0.5 -left-0.5 bg-gray-900 text-white rounded-full min-w-5 h-5 px-1 flex items-center justify-center shadow-md z-30 text-[10px] font-bold border border-white"
+          title={`Oxidation number ${oxidationState > 0 ? "+" : ""}${oxidationState}`}
+          style={{ pointerEvents: "none" }}
+        >
+          {oxidationState > 0 ? `+${oxidationState}` : oxidationState < 0 ? `−${-oxidationState}` : "0"}
+        </div>
+      )}
+
       {/* Unbonded indicator */}
       {!isBonded && (
         <div
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Element } from "@/lib/types/element";
+import { formatFormula } from "@/lib/utils/reaction-balancer";
+import {
+  combustionToPercentages,
+  FormulaResult,
+  solveEmpiricalFormula,
+  solveMolecularFormula,
+} from "@/lib/utils/empirical-formula";
+import { buildFormulaOnCanvas } from "./FormulaBuilder";
+
+type InputMode = "percent" | "combustion";
+
+interface PercentRow {
+  symbol: string;
+  percent: string;
+}
+
+interface SolverResult {
+  empirical: FormulaResult;
+  molecular?: FormulaResult;
+}
+
+const inputClass =
+  "px-2 py-1.5 rounded-lg bg-gray-700 text-white text-xs placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function EmpiricalFormulaSolver() {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<InputMode>("percent");
+  const [allElements, setAllElements] = useState<Element[]>([]);
+  const [rows, setRows] = useState<PercentRow[]>([
+    { symbol: "", percent: "" },
+    { symbol: "", percent: "" },
+  ]);
+  const [combustion, setCombustion] = useState({ sampleMass: "", co2Mass: "", h2oMass: "" });
+  const [molarMass, setMolarMass] = useState("");
+  const [result, setResult] = useState<SolverResult | null>(null);
+  const [building, setBuilding] = useState(false);
+
+  const fetchAllElements = async () => {
+    try {
+      const res = await fetch("/api/elements");
+      if (res.ok) {
+        const data = await res.json();
+        setAllElements(data.elements);
+      }
+    } catch (error) {
+      console.error("Error fetching elements:", error);
+    }
+  };
+
+  // Atomic masses are only needed once the panel is opened
+  const handleToggle = () => {
+    if (!open && allElements.length === 0) {
+      fetchAllElements();
+    }
+    setOpen((o) => !o);
+  };
+
+  const elementLookup = useMemo(() => new Map(allElements.map((el) => [el.symbol, el])), [allElements]);
+
+  const handleSolve = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let percentages: Record<string, number> = {};
+    if (mode === "percent") {
+      rows.forEach((row) => {
+        const symbol = row.symbol.trim();
+        const percent = parseFloat(row.percent);
+        if (symbol && percent > 0) {
+          percentages[symbol] = (percentages[symbol] || 0) + percent;
+        }
+      });
+    } else {
+      const converted = combustionToPercentages(
+        {
+          sampleMass: parseFloat(combustion.sampleMass),
+          co2Mass: parseFloat(combustion.co2Mass),
+          h2oMass: parseFloat(combustion.h2oMass),
+        },
+        elementLookup
+      );
+      if (!converted.success) {
+        setResult({ empirical: { success: false, error: converted.error } });
+        return;
+      }
+      percentages = converted.percentages!;
+    }
+
+    const empirical = solveEmpiricalFormula(percentages, elementLookup);
+    const mass = parseFloat(molarMass);
+    const molecular =
+      empirical.success && mass > 0 ? solveMolecularFormula(empirical.counts!, mass, elementLookup) : undefined;
+    setResult({ empirical, molecular });
+  };
+
+  // Prefer the molecular formula when one was found
+  const answer = result?.molecular?.success ? result.molecular : result?.empirical.success ? result.empirical : null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="px-3 py-1.5 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-xs font-medium"
+        aria-expanded={open}
+      >
+        From % / combustion
+      </button>
+
+      {open && (
+        <form
+          onSubmit={handleSolve}
+          className="absolute right-0 top-full mt-2 z-50 w-80 bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-4 space-y-3"
+        >
+          <div className="flex gap-1 bg-gray-900 rounded-lg p-1">
+            {(["percent", "combustion"] as InputMode[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                  mode === m ? "bg-blue-600 text-white" : "text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {m === "percent" ? "Mass %" : "Combustion"}
+              </button>
+            ))}
+          </div>
+
+          {mode === "percent" ? (
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={row.symbol}
+                    onChange={(e) =>
+                      setRows((r) => r.map((x, i) => (i === index ? { ...x, symbol: e.target.value } : x)))
+                    }
+                    placeholder="C"
+                    className={`${inputClass} w-16 font-mono`}
+                    aria-label="Element symbol"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={row.percent}
+                    onChange={(e) =>
+                      setRows((r) => r.map((x, i) => (i === index ? { ...x, percent: e.target.value } : x)))
+                    }
+                    placeholder="% by mass"
+                    className={`${inputClass} flex-1 min-w-0`}
+                    aria-label="Mass percent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRows((r) => r.filter((_, i) => i !== index))}
+                    disabled={rows.length <= 1}
+                    className="px-2 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Remove element"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setRows((r) => [...r, { symbol: "", percent: "" }])}
+                className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                + Add element
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {(
+                [
+                  ["sampleMass", "Sample mass (g)"],
+                  ["co2Mass", "CO₂ collected (g)"],
+                  ["h2oMass", "H₂O collected (g)"],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                  {label}
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={combustion[key]}
+                    onChange={(e) => setCombustion((c) => ({ ...c, [key]: e.target.value }))}
+                    className={`${inputClass} w-28`}
+                  />
+                </label>
+              ))}
+              <p className="text-[11px] text-gray-400">Any mass not in CO₂ or H₂O is counted as oxygen.</p>
+            </div>
+          )}
+
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            Molar mass (optional)
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={molarMass}
+              onChange={(e) => setMolarMass(e.target.value)}
+              placeholder="g/mol"
+              className={`${inputClass} w-28`}
+            />
+          </label>
+
+          <button
+            type="submit"
+            disabled={allElements.length === 0}
+            className="w-full px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+          >
+            {allElements.length === 0 ? "Loading elements..." : "Solve"}
+          </button>
+
+          {result && (
+            <div className="border-t border-gray-700 pt-3 space-y-1 text-xs">
+              {result.empirical.success ? (
+                <p className="text-gray-300">
+                  Empirical: <span className="font-mono text-white">{formatFormula(result.empirical.formula!)}</span>{" "}
+                  <span className="text-gray-400">({result.empirical.mass!.toFixed(2)} g/mol)</span>
+                </p>
+              ) : (
+                <p className="text-yellow-300">{result.empirical.error}</p>
+              )}
+              {result.molecular &&
+                (result.molecular.success ? (
+                  <p className="text-gray-300">
+                    Molecular: <span className="font-mono text-white">{formatFormula(result.molecular.formula!)}</span>{" "}
+                    <span className="text-gray-400">(×{result.molecular.multiplier})</span>
+                  </p>
+                ) : (
+                  <p className="text-yellow-300">{result.molecular.error}</p>
+                ))}
+              {answer && (
+                <button
+                  type="button"
+                  onClick={() => buildFormulaOnCanvas(answer.formula!, setBuilding)}
+                  disabled={building}
+                  className="mt-2 w-full px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-600 disabled:text-gray-400 transition-colors text-xs font-medium"
+                >
+                  {building ? "Building..." : `Open ${formatFormula(answer.formula!)} in canvas`}
+                </button>
+              )}
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
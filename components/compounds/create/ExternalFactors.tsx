@@ -2,9 +2,18 @@
 
 import React from "react";
 import { useCompoundCanvasStore } from "@/lib/stores/useCompoundCanvasStore";
+import { ExternalFactors as ExternalFactorsType } from "@/lib/types/compound";
 
-export default function ExternalFactors() {
-  const { externalFactors, setExternalFactors } = useCompoundCanvasStore();
+interface ExternalFactorsProps {
+  // Controlled mode (e.g. reaction conditions); defaults to the compound canvas store
+  value?: ExternalFactorsType;
+  onChange?: (factors: Partial<ExternalFactorsType>) => void;
+}
+
+export default function ExternalFactors({ value, onChange }: ExternalFactorsProps = {}) {
+  const store = useCompoundCanvasStore();
+  const externalFactors = value ?? store.externalFactors;
+  const setExternalFactors = onChange ?? store.setExternalFactors;
 
   const toggleFactor = (factor: keyof typeof externalFactors) => {
     const current = externalFactors[factor];
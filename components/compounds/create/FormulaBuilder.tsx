@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useState } from "react";
+import { useCompoundCanvasStore, CanvasElement } from "@/lib/stores/useCompoundCanvasStore";
+import { modalService } from "@/lib/utils/modal-service";
+import { parseFormula } from "@/lib/utils/chemical-validation";
+import { buildStructureFromFormula, parseFormulaParts } from "@/lib/utils/formula-builder";
+import { Element } from "@/lib/types/element";
+import { Bond } from "@/lib/types/compound";
+
+/**
+ * Builds a structure for the formula and loads it onto the canvas, asking
+ * first when that would clear elements already placed
+ */
+export function buildFormulaOnCanvas(text: string, setBuilding: (building: boolean) => void) {
+  const buildInternal = async () => {
+    const parsed = parseFormulaParts(text);
+    if (!parsed) {
+      modalService.showError(`Could not read formula "${text}".`, "Invalid Formula");
+      return;
+    }
+
+    setBuilding(true);
+    try {
+      // Fetch every element the formula needs
+      const symbols = Array.from(new Set(parsed.parts.flatMap((part) => Object.keys(parseFormula(part.text) || {}))));
+      const fetched = await Promise.all(
+        symbols.map(async (symbol) => {
+          const response = await fetch(`/api/elements/${symbol}`);
+          if (!response.ok) return null;
+          const data = await response.json();
+          return data.element as Element;
+        })
+      );
+
+      const missing = symbols.filter((_, i) => !fetched[i]);
+      if (missing.length > 0) {
+        modalService.showError(`Unknown element: ${missing.join(", ")}`, "Invalid Formula");
+        return;
+      }
+
+      const elements = new Map(fetched.map((element) => [element!.symbol, element!]));
+      const result = buildStructureFromFormula(text, elements);
+      if (!result.success || !result.structure) {
+        modalService.showError(result.error || "Could not build a structure for this formula.", "Invalid Formula");
+        return;
+      }
+
+      const { atoms, bonds } = result.structure;
+      const stamp = Date.now();
+
+      const newElements: CanvasElement[] = atoms.map((atom, i) => {
+        const element = elements.get(atom.symbol)!;
+        return {
+          id: `${atom.symbol}-${stamp}-${i}`,
+          elementId: element._id || element.symbol,
+          symbol: atom.symbol,
+          count: 1,
+          position: atom.position,
+          element,
+          groupId: `formula-${stamp}-${atom.fragment}`,
+        };
+      });
+
+      const newBonds: Bond[] = bonds.map((bond, i) => ({
+        id: `bond-${stamp}-${i}`,
+        fromElementId: newElements[bond.from].id,
+        toElementId: newElements[bond.to].id,
+        bondType: bond.bondType,
+      }));
+
+      // Bypass auto-bonding so the proposed connectivity is kept as is
+      useCompoundCanvasStore.getState().loadElementsDirectly(newElements, newBonds, result.structure.charge);
+    } catch (error) {
+      console.error("Error building formula:", error);
+      modalService.showError("Failed to build structure. Please try again.", "Build Error");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  if (useCompoundCanvasStore.getState().canvasElements.length > 0) {
+    modalService.showWarning(
+      `Building "${text}" will clear all elements currently on the canvas. Do you want to continue?`,
+      () => {
+        buildInternal();
+      },
+      "Clear Canvas",
+      "Build"
+    );
+  } else {
+    buildInternal();
+  }
+}
+
+export default function FormulaBuilder() {
+  const [formula, setFormula] = useState("");
+  const [building, setBuilding] = useState(false);
+
+  const handleBuild = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = formula.trim();
+    if (!text) return;
+    buildFormulaOnCanvas(text, setBuilding);
+  };
+
+  return (
+    <form onSubmit={handleBuild} className="flex items-center gap-2">
+      <input
+        type="text"
+        value={formula}
+        onChange={(e) => setFormula(e.target.value)}
+        placeholder="Formula, e.g. H2SO4"
+        className="w-40 px-3 py-1.5 rounded-lg bg-gray-700 text-white text-xs font-mono placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Formula to build"
+      />
+      <button
+        type="submit"
+        disabled={building || !formula.trim()}
+        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+      >
+        {building ? "Building..." : "Build"}
+      </button>
+    </form>
+  );
+}
@@ -3,6 +3,8 @@
 import React from "react";
 import { useCompoundCanvasStore } from "@/lib/stores/useCompoundCanvasStore";
 import { modalService } from "@/lib/utils/modal-service";
+import FormulaBuilder from "./FormulaBuilder";
+import EmpiricalFormulaSolver from "./EmpiricalFormulaSolver";
 
 interface ExampleCompound {
   name: string;
@@ -56,13 +58,15 @@ export default function QuickExamples() {
         })
       );
 
-      // Add elements to canvas in sequence
-      const { addElement } = useCompoundCanvasStore.getState();
+      // Add elements to canvas in sequence, as a single undo step
+      const { addElement, beginTransaction, commitTransaction } = useCompoundCanvasStore.getState();
+      beginTransaction();
       elementsData.forEach((data) => {
         if (data) {
           addElement(data.element, data.position);
         }
       });
+      commitTransaction();
     } catch (error) {
       console.error("Error loading example:", error);
       modalService.showError("Failed to load example compound. Please try again.", "Load Error");
@@ -100,8 +104,10 @@ export default function QuickExamples() {
             </button>
           ))}
         </div>
-        <div className="ml-auto text-xs text-gray-400">
-          Click to auto-build
+        <div className="ml-auto flex items-center gap-3">
+          <span className="text-xs text-gray-400">or build from a formula:</span>
+          <FormulaBuilder />
+          <EmpiricalFormulaSolver />
         </div>
       </div>
     </div>
@@ -124,6 +124,17 @@ export default function ValidationPanel({ validation }: ValidationPanelProps) {
                 <span className="text-white">{validation.details.bondingPattern}</span>
               </div>
             )}
+
+            {validation.details.complexIon && (
+              <div>
+                <span className="text-gray-400">Ligands: </span>
+                <span className="text-white">
+                  {validation.details.complexIon.ligands
+                    .map(({ ligand, count }) => `${count} × ${ligand.name} (${ligand.denticity === 1 ? "monodentate" : "bidentate"})`)
+                    .join(", ")}
+                </span>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -195,6 +206,13 @@ export default function ValidationPanel({ validation }: ValidationPanelProps) {
               the metallic lattice.
             </p>
           )}
+          {validation.bondType === "coordination" && (
+            <p>
+              <strong className="text-pink-400">Coordination Bond:</strong> Formed when a ligand donates
+              a lone pair into an empty orbital of a transition metal. The number of donor atoms sets the
+              geometry: 4 gives tetrahedral or square planar, 6 gives octahedral.
+            </p>
+          )}
           {validation.bondType === "mixed" && (
             <p>
               <strong className="text-purple-400">Mixed Bonding:</strong> Contains multiple types
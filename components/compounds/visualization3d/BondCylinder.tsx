@@ -57,6 +57,10 @@ export default function BondCylinder({ from, to, bondType }: BondCylinderProps)
         bondRadius = 0.10;
         bondColor = "#A78BFA"; // Purple
         break;
+      case "dative":
+        bondRadius = 0.06;
+        bondColor = "#F472B6"; // Pink
+        break;
     }
 
     return {
@@ -85,7 +89,7 @@ export default function BondCylinder({ from, to, bondType }: BondCylinderProps)
   }, [from, to]);
 
   // Render single bond
-  if (bondType === "single" || bondType === "covalent" || bondType === "ionic" || bondType === "metallic") {
+  if (bondType === "single" || bondType === "covalent" || bondType === "ionic" || bondType === "metallic" || bondType === "dative") {
     return (
       <mesh position={[midpoint.x, midpoint.y, midpoint.z]} quaternion={rotation}>
         <cylinderGeometry args={[radius, radius, length, 16]} />
@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Vector3, Quaternion } from "three";
+
+interface DipoleArrowProps {
+  from: { x: number; y: number; z: number };
+  to: { x: number; y: number; z: number };
+  color: string;
+  radius?: number;
+}
+
+export default function DipoleArrow({ from, to, color, radius = 0.04 }: DipoleArrowProps) {
+  // Shaft and head share the arrow's direction; the head takes the last quarter
+  const { shaftCenter, shaftLength, headCenter, headLength, rotation } = useMemo(() => {
+    const start = new Vector3(from.x, from.y, from.z);
+    const end = new Vector3(to.x, to.y, to.z);
+    const direction = new Vector3().subVectors(end, start);
+    const length = direction.length();
+    direction.normalize();
+
+    const head = Math.min(length * 0.25, radius * 8);
+    const shaft = length - head;
+
+    return {
+      shaftCenter: start.clone().addScaledVector(direction, shaft / 2),
+      shaftLength: shaft,
+      headCenter: start.clone().addScaledVector(direction, shaft + head / 2),
+      headLength: head,
+      rotation: new Quaternion().setFromUnitVectors(new Vector3(0, 1, 0), direction),
+    };
+  }, [from, to, radius]);
+
+  return (
+    <group>
+      <mesh position={[shaftCenter.x, shaftCenter.y, shaftCenter.z]} quaternion={rotation}>
+        <cylinderGeometry args={[radius, radius, shaftLength, 12]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.3} />
+      </mesh>
+      <mesh position={[headCenter.x, headCenter.y, headCenter.z]} quaternion={rotation}>
+        <coneGeometry args={[radius * 2.5, headLength, 16]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.3} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Vector3, Quaternion } from "three";
+
+interface LonePairLobeProps {
+  origin: { x: number; y: number; z: number };
+  offset: { x: number; y: number; z: number };
+}
+
+export default function LonePairLobe({ origin, offset }: LonePairLobeProps) {
+  // Stretch a sphere along the direction of the lone pair
+  const rotation = useMemo(() => {
+    const direction = new Vector3(offset.x, offset.y, offset.z).normalize();
+    return new Quaternion().setFromUnitVectors(new Vector3(0, 1, 0), direction);
+  }, [offset]);
+
+  return (
+    <mesh
+      position={[origin.x + offset.x, origin.y + offset.y, origin.z + offset.z]}
+      quaternion={rotation}
+      scale={[0.35, 0.6, 0.35]}
+    >
+      <sphereGeometry args={[1, 32, 32]} />
+
+      {/* Ghostly translucent lobe so the atoms stay visible */}
+      <meshStandardMaterial color="#FBBF24" transparent opacity={0.25} depthWrite={false} />
+    </mesh>
+  );
+}
@@ -6,6 +6,9 @@ import { OrbitControls, Environment } from "@react-three/drei";
 import { Element } from "@/lib/types/element";
 import * as THREE from "three";
 
+// Orbit radius of each shell, innermost first
+export const SHELL_RADII = [3, 4.5, 6, 7.5, 9, 10.5, 12];
+
 interface BohrModel3DProps {
   element: Element;
 }
@@ -158,8 +161,6 @@ function Nucleus({ protons, neutrons, color }: { protons: number; neutrons: numb
 }
 
 function AtomModel({ element }: { element: Element }) {
-  const shellRadii = [3, 4.5, 6, 7.5, 9, 10.5, 12];
-
   // Calculate neutrons (approximation using atomic mass)
   const neutrons = Math.round(element.atomicMass - element.atomicNumber);
 
@@ -209,7 +210,7 @@ function AtomModel({ element }: { element: Element }) {
       {element.electronsPerShell.map((electronCount, index) => (
         <ElectronShell
           key={index}
-          radius={shellRadii[index]}
+          radius={SHELL_RADII[index]}
           electrons={electronCount}
           shellIndex={index}
           color={element.color}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Element } from "@/lib/types/element";
+import {
+  buildDecayChain,
+  DECAY_MODE_SYMBOLS,
+  decayTimeRange,
+  formatDuration,
+  getDecayParents,
+  simulateDecay,
+} from "@/lib/utils/radioactive-decay";
+
+interface DecayChainSectionProps {
+  element: Element;
+}
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const PAD = { left: 44, right: 12, top: 12, bottom: 32 };
+const LOG_FLOOR = -8; // Lowest decade on the log amount axis
+
+const formatShare = (amount: number) => (amount >= 1e-4 ? `${Number((amount * 100).toPrecision(3))}%` : `${(amount * 100).toExponential(1)}%`);
+
+const nuclideColor = (index: number, count: number) => `hsl(${Math.round((index * 300) / Math.max(count - 1, 1))}, 75%, 62%)`;
+
+export default function DecayChainSection({ element }: DecayChainSectionProps) {
+  const parents = getDecayParents(element.symbol, element.isotopes);
+  const [parent, setParent] = useState(parents[0]);
+  const [logScale, setLogScale] = useState(false);
+  const [hidden, setHidden] = useState<string[]>([]);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const simulation = useMemo(() => {
+    if (!parent) return null;
+    // The element's own isotope records win over the built-in half-lives
+    const halfLives = Object.fromEntries((element.isotopes || []).map((isotope) => [isotope.symbol, isotope.halfLife]));
+    const chain = buildDecayChain(parent, halfLives);
+    return { chain, samples: simulateDecay(chain, decayTimeRange(chain)) };
+  }, [parent, element.isotopes]);
+
+  if (!simulation) return null;
+
+  const { chain, samples } = simulation;
+  const times = samples.map((sample) => sample.time);
+  const logStart = Math.log10(times[0]);
+  const logEnd = Math.log10(times[times.length - 1]);
+  const x = (time: number) => PAD.left + ((Math.log10(time) - logStart) / (logEnd - logStart)) * (WIDTH - PAD.left - PAD.right);
+  const y = (amount: number) => {
+    const share = logScale ? (Math.max(Math.log10(Math.max(amount, 1e-30)), LOG_FLOOR) - LOG_FLOOR) / -LOG_FLOOR : amount;
+    return HEIGHT - PAD.bottom - share * (HEIGHT - PAD.top - PAD.bottom);
+  };
+
+  const visible = chain.nuclides.filter((nuclide) => !hidden.includes(nuclide.id));
+  const colors = Object.fromEntries(chain.nuclides.map((nuclide, i) => [nuclide.id, nuclideColor(i, chain.nuclides.length)]));
+  const decadeTicks = Array.from({ length: Math.floor(logEnd) - Math.ceil(logStart) + 1 }, (_, i) => Math.ceil(logStart) + i).filter(
+    (decade, _, all) => all.length <= 8 || decade % Math.ceil(all.length / 8) === 0
+  );
+  const hover = hoverIndex !== null ? samples[hoverIndex] : null;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const share = (px - PAD.left) / (WIDTH - PAD.left - PAD.right);
+    setHoverIndex(share < 0 || share > 1 ? null : Math.round(share * (samples.length - 1)));
+  };
+
+  const toggleNuclide = (id: string) => {
+    setHidden((current) => (current.includes(id) ? current.filter((h) => h !== id) : [...current, id]));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="mb-8 md:mb-12 bg-gray-800/50 border border-gray-700 rounded-lg p-4 md:p-6"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+        <h2 className="text-xl md:text-2xl font-bold text-white">Decay Chain</h2>
+        <div className="flex flex-wrap gap-1">
+          {parents.map((id) => (
+            <button
+              key={id}
+              onClick={() => {
+                setParent(id);
+                setHidden([]);
+                setHoverIndex(null);
+              }}
+              className={`px-2 py-1 rounded-md border text-xs transition-all cursor-pointer ${
+                id === parent
+                  ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                  : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+          <button
+            onClick={() => setLogScale(!logScale)}
+            className={`px-2 py-1 rounded-md border text-xs transition-all cursor-pointer ${
+              logScale
+                ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+            }`}
+          >
+            Log amounts
+          </button>
+        </div>
+      </div>
+
+      {/* Chain steps */}
+      <div className="flex flex-wrap gap-2 mb-4 text-xs md:text-sm">
+        {chain.nuclides.map((nuclide) => (
+          <div key={nuclide.id} className="bg-gray-700/50 border border-gray-600 rounded-lg px-2 py-1">
+            <span className="font-semibold" style={{ color: colors[nuclide.id] }}>
+              {nuclide.id}
+            </span>
+            <span className="text-gray-400 ml-1">{formatDuration(nuclide.halfLife)}</span>
+            {nuclide.branches.map((branch) => (
+              <span key={branch.daughter} className="text-gray-300 ml-2 whitespace-nowrap">
+                {DECAY_MODE_SYMBOLS[branch.mode]}
+                {branch.fraction < 1 && ` ${Number((branch.fraction * 100).toPrecision(3))}%`} → {branch.daughter}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Amounts over time */}
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Amounts of each nuclide as ${parent} decays`}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {(logScale ? [0, -2, -4, -6, -8].map((d) => Math.pow(10, d)) : [0, 0.25, 0.5, 0.75, 1]).map((amount) => (
+          <g key={amount}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(amount)} y2={y(amount)} stroke="#374151" strokeWidth={1} />
+            <text x={PAD.left - 6} y={y(amount) + 4} textAnchor="end" fontSize={10} fill="#9CA3AF">
+              {logScale ? `1e${Math.round(Math.log10(amount))}` : amount}
+            </text>
+          </g>
+        ))}
+        {decadeTicks.map((decade) => (
+          <text key={decade} x={x(Math.pow(10, decade))} y={HEIGHT - PAD.bottom + 16} textAnchor="middle" fontSize={10} fill="#9CA3AF">
+            {formatDuration(Math.pow(10, decade))}
+          </text>
+        ))}
+        <text x={(WIDTH + PAD.left) / 2} y={HEIGHT - 2} textAnchor="middle" fontSize={10} fill="#6B7280">
+          time (log scale)
+        </text>
+
+        {visible.map((nuclide) => (
+          <polyline
+            key={nuclide.id}
+            points={samples.map((sample) => `${x(sample.time).toFixed(1)},${y(sample.amounts[nuclide.id]).toFixed(1)}`).join(" ")}
+            fill="none"
+            stroke={colors[nuclide.id]}
+            strokeWidth={nuclide.id === parent || nuclide.branches.length === 0 ? 2.5 : 1.5}
+          />
+        ))}
+
+        {hover && <line x1={x(hover.time)} x2={x(hover.time)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#E5E7EB" strokeDasharray="3 3" />}
+      </svg>
+
+      {/* Legend doubles as the hover readout */}
+      <div className="mt-2 text-xs text-gray-400">{hover ? `t = ${formatDuration(hover.time)}` : "Hover the chart for amounts; click a nuclide to hide it"}</div>
+      <div className="flex flex-wrap gap-1 mt-2">
+        {chain.nuclides.map((nuclide) => (
+          <button
+            key={nuclide.id}
+            onClick={() => toggleNuclide(nuclide.id)}
+            className={`px-2 py-1 rounded-md border border-gray-700 text-xs font-mono cursor-pointer transition-opacity ${
+              hidden.includes(nuclide.id) ? "opacity-40" : ""
+            }`}
+            style={{ color: colors[nuclide.id] }}
+          >
+            {nuclide.id}
+            {hover && ` ${formatShare(hover.amounts[nuclide.id])}`}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
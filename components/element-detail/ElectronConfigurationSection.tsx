@@ -0,0 +1,126 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Element } from "@/lib/types/element";
+import {
+  buildElectronConfiguration,
+  checkStoredConfiguration,
+  findNobleGasCore,
+  formatConfiguration,
+  getOrbitalOccupancy,
+} from "@/lib/utils/electron-configuration";
+import { formatElectronConfiguration } from "@/lib/utils/element-helpers";
+
+interface ElectronConfigurationSectionProps {
+  element: Element;
+}
+
+function formatIon(symbol: string, charge: number): string {
+  if (charge === 0) return symbol;
+  const digits = Math.abs(charge) === 1 ? "" : String(Math.abs(charge)).split("").map((d) => "⁰¹²³⁴⁵⁶⁷⁸⁹"[parseInt(d)]).join("");
+  return `${symbol}${digits}${charge > 0 ? "⁺" : "⁻"}`;
+}
+
+// One box per orbital, arrows placed by Hund's rule
+function OrbitalBoxes({ label, l, electrons }: { label: string; l: number; electrons: number }) {
+  const occupancy = getOrbitalOccupancy({ l, electrons });
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex">
+        {occupancy.map((count, i) => (
+          <div
+            key={i}
+            className="w-7 h-8 md:w-8 md:h-9 border border-gray-500 -ml-px first:ml-0 flex items-center justify-center text-sm md:text-base text-white"
+          >
+            {count >= 1 && <span>↑</span>}
+            {count === 2 && <span>↓</span>}
+          </div>
+        ))}
+      </div>
+      <span className="text-xs text-gray-400 font-mono">{label}</span>
+    </div>
+  );
+}
+
+export default function ElectronConfigurationSection({ element }: ElectronConfigurationSectionProps) {
+  const [charge, setCharge] = useState(0);
+  const [shorthand, setShorthand] = useState(true);
+
+  // Neutral atom plus the monatomic ions of its oxidation states
+  const charges = useMemo(
+    () => [0, ...Array.from(new Set(element.oxidationStates)).filter((s) => s !== 0 && s <= element.atomicNumber).sort((a, b) => a - b)],
+    [element.oxidationStates, element.atomicNumber]
+  );
+
+  const subshells = useMemo(() => buildElectronConfiguration(element.atomicNumber, charge), [element.atomicNumber, charge]);
+  const core = shorthand ? findNobleGasCore(subshells) : null;
+  const coreLabels = new Set(core?.subshells.map((s) => s.label));
+  const check = useMemo(() => checkStoredConfiguration(element), [element]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="mb-8 md:mb-12 bg-gray-800/50 border border-gray-700 rounded-lg p-4 md:p-6"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <h2 className="text-xl md:text-2xl font-bold text-white">Electron Configuration</h2>
+        <div className="flex flex-wrap gap-2">
+          {charges.map((value) => (
+            <button
+              key={value}
+              onClick={() => setCharge(value)}
+              className={`px-3 py-1 rounded-md border text-xs font-medium transition-all cursor-pointer ${
+                charge === value
+                  ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                  : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+              }`}
+            >
+              {formatIon(element.symbol, value)}
+            </button>
+          ))}
+          <button
+            onClick={() => setShorthand(!shorthand)}
+            className="px-3 py-1 rounded-md border border-gray-700 bg-gray-800/50 text-xs text-gray-300 hover:border-gray-600 cursor-pointer"
+          >
+            {shorthand ? "Show full" : "Noble-gas shorthand"}
+          </button>
+        </div>
+      </div>
+
+      <div className="text-lg md:text-2xl text-white font-mono mb-1 break-words">
+        {formatElectronConfiguration(formatConfiguration(subshells, shorthand)) || "—"}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {formatIon(element.symbol, charge)}: {subshells.reduce((sum, s) => sum + s.electrons, 0)} electrons, built by
+        the Madelung rule with known exceptions
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 md:gap-6">
+        {core && (
+          <div className="flex flex-col items-center gap-1">
+            <div className="h-8 md:h-9 px-3 border border-gray-600 rounded flex items-center text-sm text-gray-300 font-mono">
+              [{core.symbol}]
+            </div>
+            <span className="text-xs text-gray-500">core</span>
+          </div>
+        )}
+        {subshells
+          .filter((s) => !coreLabels.has(s.label))
+          .map((s) => (
+            <OrbitalBoxes key={s.label} label={s.label} l={s.l} electrons={s.electrons} />
+          ))}
+      </div>
+
+      {!check.matches && (
+        <div className="mt-4 text-xs md:text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 rounded-lg px-3 py-2">
+          The stored configuration {formatElectronConfiguration(check.stored)} differs from the generated{" "}
+          {formatElectronConfiguration(check.generated)}.
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { motion } from "framer-motion";
 import { Element } from "@/lib/types/element";
+import { formatElectronConfiguration } from "@/lib/utils/element-helpers";
 
 interface ElementHeroProps {
   element: Element;
@@ -54,7 +55,7 @@ export default function ElementHero({ element }: ElementHeroProps) {
       {/* Electron Configuration */}
       <div className="mt-6 text-gray-400 text-sm md:text-lg">
         <span className="font-semibold">Electron Configuration:</span>
-        <div className="text-white mt-1 break-all">{element.electronConfiguration}</div>
+        <div className="text-white mt-1 break-all">{formatElectronConfiguration(element.electronConfiguration)}</div>
       </div>
     </motion.div>
   );
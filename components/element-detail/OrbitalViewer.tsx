@@ -0,0 +1,216 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import * as THREE from "three";
+import { MarchingCubes } from "three/examples/jsm/objects/MarchingCubes.js";
+import { Element } from "@/lib/types/element";
+import {
+  AtomicOrbital,
+  getOccupiedOrbitals,
+  getOutermostSubshell,
+  orbitalExtent,
+  PROBABILITY_CONTAINED,
+  sampleOrbital,
+} from "@/lib/utils/atomic-orbitals";
+import { parseElectronConfiguration } from "@/lib/utils/electron-configuration";
+
+interface OrbitalViewerProps {
+  element: Element;
+}
+
+const GRID_RESOLUTION = 48;
+const MAX_POLYGONS = 40000;
+const SCENE_RADIUS = 8; // Largest visible orbital fits inside this radius
+
+const PHASE_COLORS = {
+  positive: "#60A5FA",
+  negative: "#F97316",
+};
+
+function OrbitalLobes({ orbital, scale }: { orbital: AtomicOrbital; scale: number }) {
+  // One marching-cubes mesh per phase of ψ
+  const { meshes, extent } = useMemo(() => {
+    const grid = sampleOrbital(orbital, GRID_RESOLUTION);
+    const meshes = [1, -1].map((sign) => {
+      const material = new THREE.MeshPhysicalMaterial({
+        color: sign > 0 ? PHASE_COLORS.positive : PHASE_COLORS.negative,
+        transparent: true,
+        opacity: 0.7,
+        roughness: 0.35,
+        clearcoat: 0.4,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      });
+      const mesh = new MarchingCubes(GRID_RESOLUTION, material, false, false, MAX_POLYGONS);
+      mesh.isolation = grid.isovalue;
+      mesh.field.set(sign > 0 ? grid.values : grid.values.map((value) => -value));
+      mesh.update();
+      return mesh;
+    });
+    return { meshes, extent: grid.extent };
+  }, [orbital]);
+
+  useEffect(
+    () => () =>
+      meshes.forEach((mesh) => {
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+      }),
+    [meshes]
+  );
+
+  return (
+    <>
+      {meshes.map((mesh, index) => (
+        <primitive key={index} object={mesh} scale={extent * scale} />
+      ))}
+    </>
+  );
+}
+
+function OrbitalScene({ orbitals }: { orbitals: AtomicOrbital[] }) {
+  // Orbitals share one length scale so their relative sizes stay true
+  const scale = useMemo(() => {
+    const largest = Math.max(1, ...orbitals.map((orbital) => orbitalExtent(orbital.n, orbital.l)));
+    return SCENE_RADIUS / largest;
+  }, [orbitals]);
+
+  return (
+    <>
+      <ambientLight intensity={0.5} />
+      <directionalLight position={[10, 10, 10]} intensity={1.2} />
+      <pointLight position={[-8, 5, -8]} intensity={0.6} />
+
+      {/* Chemistry convention: z points up */}
+      <group rotation={[-Math.PI / 2, 0, 0]}>
+        <axesHelper args={[SCENE_RADIUS * 1.15]} />
+        <mesh>
+          <sphereGeometry args={[0.12, 16, 16]} />
+          <meshStandardMaterial color="#F87171" emissive="#F87171" emissiveIntensity={0.4} />
+        </mesh>
+        {orbitals.map((orbital) => (
+          <OrbitalLobes key={orbital.id} orbital={orbital} scale={scale} />
+        ))}
+      </group>
+
+      <OrbitControls enablePan={false} minDistance={8} maxDistance={40} enableDamping dampingFactor={0.05} makeDefault />
+    </>
+  );
+}
+
+function ElectronMarks({ electrons }: { electrons: number }) {
+  return <span className="text-[10px] text-gray-400">{electrons === 2 ? "↑↓" : electrons === 1 ? "↑" : ""}</span>;
+}
+
+export default function OrbitalViewer({ element }: OrbitalViewerProps) {
+  const subshells = useMemo(() => parseElectronConfiguration(element.electronConfiguration), [element.electronConfiguration]);
+  const orbitals = useMemo(() => getOccupiedOrbitals(subshells), [subshells]);
+
+  // Start on the orbitals holding the last electrons added
+  const [visibleIds, setVisibleIds] = useState<Set<string>>(() => {
+    const outermost = getOutermostSubshell(subshells);
+    return new Set(
+      orbitals.filter((o) => outermost && o.n === outermost.n && o.l === outermost.l && o.electrons > 0).map((o) => o.id)
+    );
+  });
+
+  const visibleOrbitals = useMemo(() => orbitals.filter((o) => visibleIds.has(o.id)), [orbitals, visibleIds]);
+
+  const toggle = (ids: string[], show: boolean) => {
+    setVisibleIds((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (show ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  if (subshells.length === 0) return null;
+
+  return (
+    <div className="mb-6 md:mb-8 bg-gray-800/50 border border-gray-700 rounded-2xl p-3 md:p-4">
+      <div className="flex flex-col md:flex-row md:items-baseline md:justify-between gap-1 mb-3">
+        <h2 className="text-xl md:text-2xl font-bold text-white">Atomic Orbitals</h2>
+        <span className="text-xs text-gray-400">
+          Hydrogen-like wavefunctions; each surface encloses {Math.round(PROBABILITY_CONTAINED * 100)}% of the
+          probability density
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 h-[350px] md:h-[450px] relative rounded-lg overflow-hidden bg-gray-900/60">
+          <Canvas camera={{ position: [14, 10, 14], fov: 45 }} className="w-full h-full" dpr={[1, 2]}>
+            <Suspense fallback={null}>
+              <OrbitalScene orbitals={visibleOrbitals} />
+            </Suspense>
+          </Canvas>
+
+          <div className="absolute top-3 left-3 bg-gray-900/90 px-3 py-2 rounded-lg border border-gray-700 space-y-1 text-xs">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: PHASE_COLORS.positive }} />
+              <span className="text-gray-300">ψ &gt; 0</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: PHASE_COLORS.negative }} />
+              <span className="text-gray-300">ψ &lt; 0</span>
+            </div>
+            <div className="text-gray-500">x red · y green · z blue</div>
+          </div>
+
+          {visibleOrbitals.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-sm pointer-events-none">
+              Select an orbital to display
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 max-h-[450px] overflow-y-auto pr-1">
+          {subshells.map((subshell) => {
+            const members = orbitals.filter((o) => o.n === subshell.n && o.l === subshell.l);
+            const ids = members.map((o) => o.id);
+            const allShown = ids.every((id) => visibleIds.has(id));
+
+            return (
+              <div key={subshell.label} className="flex items-start gap-2">
+                <button
+                  onClick={() => toggle(ids, !allShown)}
+                  className={`w-14 shrink-0 px-2 py-1 rounded-md border text-xs font-mono transition-all cursor-pointer ${
+                    allShown
+                      ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                      : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+                  }`}
+                  title={`${subshell.electrons} electron${subshell.electrons === 1 ? "" : "s"}`}
+                >
+                  {subshell.label}
+                  <sup>{subshell.electrons}</sup>
+                </button>
+                <div className="flex flex-wrap gap-1">
+                  {members.map((orbital) => {
+                    const shown = visibleIds.has(orbital.id);
+                    return (
+                      <button
+                        key={orbital.id}
+                        onClick={() => toggle([orbital.id], !shown)}
+                        className={`px-2 py-1 rounded-md border text-xs font-mono transition-all cursor-pointer flex items-center gap-1 ${
+                          shown
+                            ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white"
+                            : orbital.electrons > 0
+                              ? "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+                              : "bg-gray-800/30 border-gray-800 text-gray-500 hover:border-gray-700"
+                        }`}
+                      >
+                        {orbital.id}
+                        <ElectronMarks electrons={orbital.electrons} />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
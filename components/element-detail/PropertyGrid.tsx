@@ -2,6 +2,7 @@
 
 import { motion } from "framer-motion";
 import { Element } from "@/lib/types/element";
+import { ELEMENT_PROPERTIES } from "@/lib/utils/element-comparison";
 
 interface PropertyGridProps {
   element: Element;
@@ -33,32 +34,11 @@ function PropertyCard({ label, value, unit, index }: PropertyCardProps) {
 }
 
 export default function PropertyGrid({ element }: PropertyGridProps) {
-  const properties = [
-    { label: "Phase", value: element.phase, unit: "" },
-    { label: "Group", value: element.group, unit: "" },
-    { label: "Period", value: element.period, unit: "" },
-    { label: "Block", value: element.block, unit: "" },
-    { label: "Melting Point", value: element.meltingPoint, unit: "K" },
-    { label: "Boiling Point", value: element.boilingPoint, unit: "K" },
-    { label: "Density", value: element.density, unit: "g/cm³" },
-    { label: "Electronegativity", value: element.electronegativity, unit: "" },
-    { label: "Atomic Radius", value: element.atomicRadius, unit: "pm" },
-    {
-      label: "Ionization Energy",
-      value: element.ionizationEnergy,
-      unit: "kJ/mol",
-    },
-    {
-      label: "Oxidation States",
-      value: element.oxidationStates.join(", "),
-      unit: "",
-    },
-    {
-      label: "Radioactive",
-      value: element.isRadioactive ? "Yes" : "No",
-      unit: "",
-    },
-  ];
+  const properties = ELEMENT_PROPERTIES.map((property) => ({
+    label: property.label,
+    value: property.value(element),
+    unit: property.unit,
+  }));
 
   return (
     <div className="mb-12">
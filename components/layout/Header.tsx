@@ -52,6 +52,12 @@ export default function Header() {
     if (pathname === "/organic-chemistry") {
       return { showBack: true, backUrl: "/", title: "Organic Compounds", backLabel: "Back" };
     }
+    if (pathname === "/compare") {
+      return { showBack: true, backUrl: "/periodic-table", title: "Compare Elements", backLabel: "Back" };
+    }
+    if (pathname === "/reactions") {
+      return { showBack: true, backUrl: "/", title: "Reactions", backLabel: "Back" };
+    }
     return { showBack: false, backUrl: "/", title: "", backLabel: "Back" };
   };
 
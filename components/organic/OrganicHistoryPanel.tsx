@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { useOrganicHistoryStore } from "@/lib/stores/useOrganicHistoryStore";
+
+interface OrganicHistoryPanelProps {
+  onNavigate?: () => void; // called after undo, redo or a jump so the page can clear stale selections
+}
+
+export default function OrganicHistoryPanel({ onNavigate }: OrganicHistoryPanelProps) {
+  const { entries, currentIndex, undo, redo, jumpTo } = useOrganicHistoryStore();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const canUndo = currentIndex > 0;
+  const canRedo = currentIndex < entries.length - 1;
+
+  const navigate = (action: () => void) => {
+    action();
+    onNavigate?.();
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+
+      e.preventDefault();
+      const { undo, redo, canUndo, canRedo } = useOrganicHistoryStore.getState();
+      if (e.shiftKey ? !canRedo() : !canUndo()) return;
+      (e.shiftKey ? redo : undo)();
+      onNavigate?.();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onNavigate]);
+
+  // Keep the current entry in view
+  useEffect(() => {
+    const current = listRef.current?.querySelector<HTMLElement>("[data-current='true']");
+    current?.scrollIntoView({ block: "nearest" });
+  }, [currentIndex, entries.length]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold text-gray-400">History</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={() => navigate(undo)}
+            disabled={!canUndo}
+            className="cursor-pointer px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed disabled:hover:bg-gray-700 transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => navigate(redo)}
+            disabled={!canRedo}
+            className="cursor-pointer px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed disabled:hover:bg-gray-700 transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="max-h-48 overflow-y-auto bg-gray-900 rounded border border-gray-700">
+        {entries.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-gray-500">No actions yet</p>
+        ) : (
+          entries.map((entry, index) => (
+            <button
+              key={entry.id}
+              data-current={index === currentIndex}
+              onClick={() => navigate(() => jumpTo(index))}
+              className={`cursor-pointer w-full flex items-center gap-2 px-3 py-1 text-left text-xs transition-colors ${
+                index === currentIndex
+                  ? "bg-[#00D9FF]/20 text-[#00D9FF]"
+                  : index > currentIndex
+                  ? "text-gray-500 hover:bg-gray-800"
+                  : "text-gray-300 hover:bg-gray-800"
+              }`}
+              title={index > currentIndex ? "Redo up to this step" : "Go back to this step"}
+            >
+              <span className="w-5 shrink-0 text-right text-gray-500">{index + 1}</span>
+              <span className="truncate">{entry.label}</span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import Link from "next/link";
+import { AnimatePresence, motion } from "framer-motion";
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/utils/element-comparison";
+
+interface CompareBarProps {
+  symbols: string[];
+  onRemove: (symbol: string) => void;
+  onClear: () => void;
+}
+
+export default function CompareBar({ symbols, onRemove, onClear }: CompareBarProps) {
+  const ready = symbols.length >= MIN_COMPARE;
+
+  return (
+    <AnimatePresence>
+      {symbols.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-gray-900/95 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl px-3 py-2 flex items-center gap-2 md:gap-3"
+        >
+          <span className="text-xs text-gray-400 whitespace-nowrap">
+            Compare {symbols.length}/{MAX_COMPARE}
+          </span>
+          <div className="flex gap-1">
+            {symbols.map((symbol) => (
+              <button
+                key={symbol}
+                onClick={() => onRemove(symbol)}
+                title={`Remove ${symbol}`}
+                className="px-2 py-0.5 rounded-md bg-[#6C5CE7]/20 border border-[#6C5CE7] text-white text-xs font-semibold hover:bg-red-500/20 hover:border-red-400 cursor-pointer"
+              >
+                {symbol} ×
+              </button>
+            ))}
+          </div>
+          <button onClick={onClear} className="text-xs text-gray-400 hover:text-white cursor-pointer">
+            Clear
+          </button>
+          {ready ? (
+            <Link
+              href={`/compare?symbols=${symbols.join(",")}`}
+              className="px-3 py-1 rounded-md bg-[#6C5CE7] hover:bg-[#5B4BD6] text-white text-xs font-semibold whitespace-nowrap"
+            >
+              Compare →
+            </Link>
+          ) : (
+            <span className="text-xs text-gray-500 whitespace-nowrap">Pick {MIN_COMPARE - symbols.length} more</span>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
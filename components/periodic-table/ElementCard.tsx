@@ -9,10 +9,23 @@ interface ElementCardProps {
   element: IElementCard;
   index: number;
   selectedCategory: ElementCategory | null;
+  displayColor?: string; // Overrides the category color (phase and heatmap views)
+  displayValue?: string; // Shown on hover instead of the atomic mass (heatmap view)
+  isCompared?: boolean; // Picked for /compare
+  onCompareToggle?: (symbol: string) => void; // Shows the compare toggle when set
 }
 
-function ElementCard({ element, index, selectedCategory }: ElementCardProps) {
+function ElementCard({
+  element,
+  index,
+  selectedCategory,
+  displayColor,
+  displayValue,
+  isCompared = false,
+  onCompareToggle,
+}: ElementCardProps) {
   const [isHovered, setIsHovered] = useState(false);
+  const color = displayColor ?? element.color;
 
   // Determine if this element should be dimmed
   // Check both primary category and categories array for highlighting
@@ -46,22 +59,22 @@ function ElementCard({ element, index, selectedCategory }: ElementCardProps) {
         gridColumn: element.gridColumn,
       }}
       className="element-card-container aspect-square relative"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
     >
       <Link href={`/elements/${element.symbol}`} className="block h-full w-full" prefetch={false}>
         <div
-          onMouseEnter={() => setIsHovered(true)}
-          onMouseLeave={() => setIsHovered(false)}
           className="h-full w-full rounded-lg border-2 flex flex-col justify-center items-center cursor-pointer shadow-lg relative overflow-hidden transition-all duration-200"
           style={{
-            backgroundColor: element.color,
-            backgroundImage: `linear-gradient(135deg, ${element.color} 0%, ${element.color}dd 100%)`,
-            borderColor: isHighlighted ? "#6C5CE7" : isHovered ? element.color : "rgb(55, 65, 81)",
+            backgroundColor: color,
+            backgroundImage: `linear-gradient(135deg, ${color} 0%, ${color}dd 100%)`,
+            borderColor: isHighlighted ? "#6C5CE7" : isHovered ? color : "rgb(55, 65, 81)",
             transform: isHovered ? "scale(1.05)" : "scale(1)",
             zIndex: isHovered ? 100 : isHighlighted ? 10 : 1,
             boxShadow: isHighlighted
-              ? `0 0 20px ${element.color}90, 0 0 40px ${element.color}50`
+              ? `0 0 20px ${color}90, 0 0 40px ${color}50`
               : isHovered
-              ? `0 8px 16px -4px ${element.color}70`
+              ? `0 8px 16px -4px ${color}70`
               : "0 2px 4px rgba(0, 0, 0, 0.3)",
           }}
         >
@@ -102,12 +115,27 @@ function ElementCard({ element, index, selectedCategory }: ElementCardProps) {
                 {element.name}
               </div>
               <div className="text-[7.5px] text-gray-800 leading-none font-semibold">
-                {element.atomicMass.toFixed(3)}
+                {displayValue ?? element.atomicMass.toFixed(3)}
               </div>
             </div>
           </div>
         </div>
       </Link>
+
+      {/* Compare toggle, outside the link so it doesn't navigate */}
+      {onCompareToggle && (isHovered || isCompared) && (
+        <button
+          onClick={() => onCompareToggle(element.symbol)}
+          title={isCompared ? "Remove from comparison" : "Add to comparison"}
+          aria-pressed={isCompared}
+          className={`absolute top-0.5 right-0.5 w-3.5 h-3.5 md:w-4 md:h-4 rounded-full text-[8px] md:text-[10px] leading-none font-bold flex items-center justify-center cursor-pointer border ${
+            isCompared ? "bg-[#6C5CE7] border-white text-white" : "bg-gray-900/80 border-gray-600 text-white hover:bg-[#6C5CE7]"
+          }`}
+          style={{ zIndex: 101 }}
+        >
+          {isCompared ? "✓" : "+"}
+        </button>
+      )}
     </motion.div>
   );
 }
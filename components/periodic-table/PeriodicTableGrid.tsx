@@ -1,17 +1,42 @@
 "use client";
 
-import { ElementCard as IElementCard, ElementCategory } from "@/lib/types/element";
+import { ElementCard as IElementCard, ElementCategory, PHASE_COLORS } from "@/lib/types/element";
+import { phaseAtStandardPressure } from "@/lib/utils/phase-prediction";
+import { formatHeatmapValue, HEATMAP_PROPERTIES, heatmapColor, HeatmapScale } from "@/lib/utils/periodic-heatmap";
 import ElementCard from "./ElementCard";
 
 interface PeriodicTableGridProps {
   elements: IElementCard[];
   selectedCategory: ElementCategory | null;
+  phaseTemperature?: number | null; // K; colors elements by phase when set
+  heatmap?: HeatmapScale | null; // Colors elements by a property when set
+  comparedSymbols?: string[];
+  onCompareToggle?: (symbol: string) => void;
 }
 
 export default function PeriodicTableGrid({
   elements,
   selectedCategory,
+  phaseTemperature = null,
+  heatmap = null,
+  comparedSymbols = [],
+  onCompareToggle,
 }: PeriodicTableGridProps) {
+  const displayColor = (element: IElementCard) => {
+    if (phaseTemperature !== null) {
+      return PHASE_COLORS[phaseAtStandardPressure(phaseTemperature, element.meltingPoint, element.boilingPoint) ?? "unknown"];
+    }
+    if (heatmap) return heatmapColor(heatmap.position(element[heatmap.property]));
+    return undefined;
+  };
+
+  const displayValue = (element: IElementCard) => {
+    if (!heatmap) return undefined;
+    const value = element[heatmap.property];
+    if (value === null || value === undefined) return "No data";
+    return `${formatHeatmapValue(value, heatmap.property)} ${HEATMAP_PROPERTIES[heatmap.property].unit}`.trim();
+  };
+
   return (
     <div className="w-full flex justify-center py-8 px-4 md:px-6 lg:px-8 xl:px-12 2xl:px-16">
       <div
@@ -30,6 +55,10 @@ export default function PeriodicTableGrid({
             element={element}
             index={index}
             selectedCategory={selectedCategory}
+            displayColor={displayColor(element)}
+            displayValue={displayValue(element)}
+            isCompared={comparedSymbols.includes(element.symbol)}
+            onCompareToggle={onCompareToggle}
           />
         ))}
       </div>
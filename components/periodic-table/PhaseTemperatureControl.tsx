@@ -0,0 +1,65 @@
+"use client";
+
+import { PHASE_COLORS } from "@/lib/types/element";
+
+interface PhaseTemperatureControlProps {
+  temperature: number | null; // K, null when the phase view is off
+  onChange: (temperature: number | null) => void;
+}
+
+const ROOM_TEMPERATURE = 298;
+const MAX_TEMPERATURE = 6000;
+
+const phaseLabels: Record<keyof typeof PHASE_COLORS, string> = {
+  solid: "Solid",
+  liquid: "Liquid",
+  gas: "Gas",
+  unknown: "No data",
+};
+
+export default function PhaseTemperatureControl({ temperature, onChange }: PhaseTemperatureControlProps) {
+  const enabled = temperature !== null;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto mt-4 px-2 md:px-4 flex flex-col md:flex-row items-center justify-center gap-3 md:gap-4">
+      <button
+        onClick={() => onChange(enabled ? null : ROOM_TEMPERATURE)}
+        className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-all cursor-pointer ${
+          enabled
+            ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white ring-2 ring-[#6C5CE7]/50"
+            : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+        }`}
+      >
+        Phase at temperature
+      </button>
+
+      {enabled && (
+        <>
+          <div className="flex items-center gap-3 w-full md:w-auto">
+            <input
+              type="range"
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={1}
+              value={temperature}
+              onChange={(e) => onChange(parseInt(e.target.value))}
+              className="w-full md:w-72 accent-[#6C5CE7]"
+              aria-label="Temperature in kelvin"
+            />
+            <span className="text-xs text-white whitespace-nowrap font-mono w-32">
+              {temperature} K ({Math.round(temperature - 273.15)} °C)
+            </span>
+          </div>
+          <div className="flex gap-2 md:gap-3">
+            {(Object.keys(phaseLabels) as Array<keyof typeof PHASE_COLORS>).map((phase) => (
+              <div key={phase} className="flex items-center gap-1.5">
+                <div className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: PHASE_COLORS[phase] }} />
+                <span className="text-[10px] md:text-xs text-gray-300">{phaseLabels[phase]}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  formatHeatmapValue,
+  HEATMAP_MISSING_COLOR,
+  HEATMAP_PROPERTIES,
+  HeatmapProperty,
+  HeatmapScale,
+  HeatmapScaleType,
+  heatmapGradient,
+} from "@/lib/utils/periodic-heatmap";
+
+interface PropertyHeatmapControlProps {
+  property: HeatmapProperty | null; // null when the heatmap is off
+  scaleType: HeatmapScaleType;
+  scale: HeatmapScale | null;
+  onPropertyChange: (property: HeatmapProperty | null) => void;
+  onScaleTypeChange: (scaleType: HeatmapScaleType) => void;
+}
+
+export default function PropertyHeatmapControl({
+  property,
+  scaleType,
+  scale,
+  onPropertyChange,
+  onScaleTypeChange,
+}: PropertyHeatmapControlProps) {
+  const unit = property ? HEATMAP_PROPERTIES[property].unit : "";
+
+  return (
+    <div className="w-full max-w-6xl mx-auto mt-4 px-2 md:px-4 flex flex-col items-center gap-3">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(HEATMAP_PROPERTIES) as HeatmapProperty[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => onPropertyChange(property === key ? null : key)}
+            className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-all cursor-pointer ${
+              property === key
+                ? "bg-[#6C5CE7]/20 border-[#6C5CE7] text-white ring-2 ring-[#6C5CE7]/50"
+                : "bg-gray-800/50 border-gray-700 text-gray-300 hover:border-gray-600"
+            }`}
+          >
+            {HEATMAP_PROPERTIES[key].label}
+          </button>
+        ))}
+      </div>
+
+      {property && (
+        <div className="flex flex-col md:flex-row items-center gap-3 md:gap-4">
+          <div className="flex rounded-md border border-gray-700 overflow-hidden">
+            {(["linear", "log"] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => onScaleTypeChange(type)}
+                className={`px-3 py-1 text-xs capitalize cursor-pointer transition-colors ${
+                  scaleType === type ? "bg-[#6C5CE7]/30 text-white" : "bg-gray-800/50 text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+
+          {scale ? (
+            <div className="w-64 md:w-80">
+              <div className="h-3 rounded-sm border border-gray-600" style={{ backgroundImage: heatmapGradient() }} />
+              <div className="flex justify-between mt-1 text-[10px] md:text-xs text-gray-300 font-mono">
+                {scale.ticks.map((tick, i) => (
+                  <span key={i}>{formatHeatmapValue(tick, property)}</span>
+                ))}
+              </div>
+              {unit && <div className="text-center text-[10px] text-gray-500">{unit}{scale.type === "log" && ", log scale"}</div>}
+            </div>
+          ) : (
+            <span className="text-xs text-yellow-300">
+              Not enough {scaleType === "log" ? "positive " : ""}values for a scale
+            </span>
+          )}
+
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: HEATMAP_MISSING_COLOR }} />
+            <span className="text-[10px] md:text-xs text-gray-300">
+              No data{scale ? ` (${scale.missing})` : ""}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { EnthalpyResult } from "@/lib/utils/bond-energy";
+
+interface ReactionEnthalpyProps {
+  result: EnthalpyResult;
+}
+
+const CLASSIFICATION_STYLES = {
+  exothermic: "bg-orange-500/20 text-orange-300 border-orange-500/40",
+  endothermic: "bg-sky-500/20 text-sky-300 border-sky-500/40",
+  thermoneutral: "bg-white/10 text-white/70 border-white/20",
+};
+
+function formatEnergy(value: number): string {
+  return `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(Math.round(value))}`;
+}
+
+export default function ReactionEnthalpy({ result }: ReactionEnthalpyProps) {
+  if (!result.success) {
+    return <p className="text-xs text-white/40">ΔH not estimated: {result.error}</p>;
+  }
+
+  const classification = result.classification!;
+  const terms = result.breakdown!.filter((term) => term.broken > 0 || term.formed > 0);
+
+  return (
+    <details className="group">
+      <summary className="cursor-pointer list-none flex items-center gap-3 text-sm">
+        <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold capitalize ${CLASSIFICATION_STYLES[classification]}`}>
+          {classification}
+        </span>
+        <span className="text-white font-mono">ΔH ≈ {formatEnergy(result.deltaH!)} kJ</span>
+        <span className="text-white/40 text-xs group-open:hidden">Show bond breakdown</span>
+        <span className="text-white/40 text-xs hidden group-open:inline">Hide bond breakdown</span>
+      </summary>
+
+      <table className="mt-3 w-full max-w-xl text-sm">
+        <thead>
+          <tr className="text-white/40 text-xs text-left">
+            <th className="font-normal pb-1">Bond</th>
+            <th className="font-normal pb-1 text-right">kJ/mol</th>
+            <th className="font-normal pb-1 text-right">Broken</th>
+            <th className="font-normal pb-1 text-right">Formed</th>
+            <th className="font-normal pb-1 text-right">Contribution (kJ)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {terms.map((term) => (
+            <tr key={term.label} className="border-t border-white/5">
+              <td className="py-1 text-white font-mono">{term.label}</td>
+              <td className="py-1 text-white/70 text-right">{term.energy ?? "—"}</td>
+              <td className="py-1 text-white/70 text-right">{term.broken}</td>
+              <td className="py-1 text-white/70 text-right">{term.formed}</td>
+              <td className="py-1 text-white font-mono text-right">
+                {term.energy !== null ? formatEnergy(term.energy * (term.broken - term.formed)) : "0"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-white/40">
+        Estimated from average bond energies: bonds broken minus bonds formed.
+        {result.ionicBondsIgnored && " Ionic and metallic bonds are not included."}
+      </p>
+    </details>
+  );
+}
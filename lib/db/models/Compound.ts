@@ -5,7 +5,8 @@ import {
   Bond,
   ExternalFactors,
   CanvasData,
-  MolecularGeometry
+  MolecularGeometry,
+  PhysicalProperties
 } from "@/lib/types/compound";
 
 const CompoundElementSchema = new Schema<CompoundElement>({
@@ -36,14 +37,14 @@ const BondSchema = new Schema<Bond>({
   toElementId: { type: String, required: true },
   bondType: {
     type: String,
-    enum: ["single", "double", "triple", "ionic", "covalent", "metallic"],
+    enum: ["single", "double", "triple", "ionic", "covalent", "metallic", "dative"],
     required: true
   },
   strength: { type: Number, required: false },
 });
 
 // Phase 3: External Factors Schema
-const ExternalFactorsSchema = new Schema<ExternalFactors>({
+export const ExternalFactorsSchema = new Schema<ExternalFactors>({
   temperature: {
     type: {
       enabled: { type: Boolean, default: false },
@@ -85,6 +86,12 @@ const ExternalFactorsSchema = new Schema<ExternalFactors>({
   },
 });
 
+// Melting/boiling points (Kelvin)
+const PhysicalPropertiesSchema = new Schema<PhysicalProperties>({
+  meltingPoint: { type: Number, required: false, default: null },
+  boilingPoint: { type: Number, required: false, default: null },
+});
+
 // Phase 3: Canvas Data Schema
 const CanvasDataSchema = new Schema<CanvasData>({
   width: { type: Number, required: true },
@@ -110,13 +117,22 @@ const MolecularGeometrySchema = new Schema<MolecularGeometry>({
       "tetrahedral",
       "trigonal-pyramidal",
       "trigonal-bipyramidal",
+      "seesaw",
+      "t-shaped",
       "octahedral",
+      "square-pyramidal",
+      "square-planar",
+      "pentagonal-bipyramidal",
       "custom"
     ],
     required: true,
   },
   centralAtomId: { type: String, required: false },
   bondAngles: { type: [Number], required: false },
+  lonePairPositions: {
+    type: [{ x: Number, y: Number, z: Number }],
+    required: false,
+  },
   generatedAt: { type: Date, required: false, default: Date.now },
 });
 
@@ -131,6 +147,8 @@ const CompoundSchema = new Schema<ICompound>(
     // Properties
     molarMass: { type: Number, required: true },
     description: { type: String, default: null },
+    physicalProperties: { type: PhysicalPropertiesSchema, required: false },
+    charge: { type: Number, required: false, default: 0 },
 
     // Phase 3: Interactive Creation Data
     bonds: { type: [BondSchema], required: false },
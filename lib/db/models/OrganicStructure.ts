@@ -88,9 +88,11 @@ const OrganicStructureSchema = new Schema<OrganicStructure>(
     },
 
     // Structure representation
-    smiles: { type: String, required: false }, // Optional - auto-generated from graph
+    smiles: { type: String, required: false }, // Optional - canonical SMILES auto-generated from graph
     molFile: { type: String },
-    inchi: { type: String },
+    inchi: { type: String }, // InChI-style layered identifier, computed on save
+    inchiKey: { type: String }, // Hashed form of inchi for exact-structure lookups
+    fingerprint: { type: [Number], default: undefined }, // Set bits of the path fingerprint (substructure prefilter)
 
     // Atoms and bonds
     atoms: [AtomSchema],
@@ -132,6 +134,10 @@ OrganicStructureSchema.index({ createdBy: 1 });
 OrganicStructureSchema.index({ isPublic: 1 });
 OrganicStructureSchema.index({ tags: 1 });
 OrganicStructureSchema.index({ molecularFormula: 1 });
+OrganicStructureSchema.index({ smiles: 1 }); // canonical SMILES, used for duplicate checks
+OrganicStructureSchema.index({ inchi: 1 });
+OrganicStructureSchema.index({ inchiKey: 1 });
+OrganicStructureSchema.index({ fingerprint: 1 });
 OrganicStructureSchema.index({ name: "text", commonName: "text", iupacName: "text" });
 
 // Virtual for id
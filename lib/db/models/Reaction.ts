@@ -0,0 +1,48 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { Reaction as IReaction, ReactionSpecies } from "@/lib/types/reaction";
+import { ExternalFactorsSchema } from "./Compound";
+
+const ReactionSpeciesSchema = new Schema<ReactionSpecies>(
+  {
+    compoundId: { type: String, required: false },
+    formula: { type: String, required: true },
+    name: { type: String, required: false },
+    state: { type: String, enum: ["s", "l", "g", "aq"], required: false },
+    coefficient: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const ReactionSchema = new Schema<IReaction>(
+  {
+    name: { type: String, required: true },
+    description: { type: String, default: null },
+
+    // Equation
+    reactants: { type: [ReactionSpeciesSchema], required: true },
+    products: { type: [ReactionSpeciesSchema], required: true },
+    equation: { type: String, required: true },
+
+    // Conditions
+    externalFactors: { type: ExternalFactorsSchema, required: false },
+
+    // User info
+    createdBy: { type: String, required: true },
+    createdByName: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Create indexes for faster queries
+ReactionSchema.index({ createdBy: 1 });
+ReactionSchema.index({ createdAt: -1 });
+ReactionSchema.index({ "reactants.compoundId": 1 });
+ReactionSchema.index({ "products.compoundId": 1 });
+
+const ReactionModel: Model<IReaction> =
+  mongoose.models.Reaction ||
+  mongoose.model<IReaction>("Reaction", ReactionSchema);
+
+export default ReactionModel;
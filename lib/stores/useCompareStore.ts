@@ -0,0 +1,39 @@
+import { create } from "zustand";
+import { MAX_COMPARE } from "@/lib/utils/element-comparison";
+
+interface CompareState {
+  // Element symbols picked for /compare, in the order they were added
+  symbols: string[];
+
+  // Actions
+  toggle: (symbol: string) => void;
+  remove: (symbol: string) => void;
+  setSymbols: (symbols: string[]) => void;
+  clear: () => void;
+}
+
+export const useCompareStore = create<CompareState>((set) => ({
+  symbols: [],
+
+  // Adding past MAX_COMPARE is ignored
+  toggle: (symbol) => {
+    set((state) => {
+      if (state.symbols.includes(symbol)) {
+        return { symbols: state.symbols.filter((s) => s !== symbol) };
+      }
+      return state.symbols.length < MAX_COMPARE ? { symbols: [...state.symbols, symbol] } : state;
+    });
+  },
+
+  remove: (symbol) => {
+    set((state) => ({ symbols: state.symbols.filter((s) => s !== symbol) }));
+  },
+
+  setSymbols: (symbols) => {
+    set({ symbols: symbols.slice(0, MAX_COMPARE) });
+  },
+
+  clear: () => {
+    set({ symbols: [] });
+  },
+}));
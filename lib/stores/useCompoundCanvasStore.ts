@@ -5,21 +5,35 @@ import {
   Bond,
   BondType,
   ExternalFactors,
+  PhysicalProperties,
 } from "@/lib/types/compound";
 import {
-  determineBondType,
+  resolveBondType,
   canFormBond,
   shouldAutoGroup,
   getAvailableValence,
 } from "@/lib/utils/chemistry-helpers";
 import { modalService } from "@/lib/utils/modal-service";
 
-interface CanvasElement extends CompoundElement {
+export interface CanvasElement extends CompoundElement {
   id: string; // Unique instance ID
   element: Element; // Full element data
   groupId?: string; // Group ID for bonded elements
 }
 
+// Everything undo/redo restores; selection, zoom and offset are view state
+interface HistorySnapshot {
+  canvasElements: CanvasElement[];
+  bonds: Bond[];
+  externalFactors: ExternalFactors;
+  physicalProperties: PhysicalProperties;
+  charge: number;
+  compoundName: string;
+  compoundDescription: string;
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
 interface CompoundCanvasState {
   // Canvas elements
   canvasElements: CanvasElement[];
@@ -32,6 +46,12 @@ interface CompoundCanvasState {
   // External factors
   externalFactors: ExternalFactors;
 
+  // Melting/boiling points
+  physicalProperties: PhysicalProperties;
+
+  // Overall ionic charge, e.g. +2 for [Cu(NH3)4]2+
+  charge: number;
+
   // Compound details
   compoundName: string;
   compoundDescription: string;
@@ -40,6 +60,13 @@ interface CompoundCanvasState {
   zoom: number;
   offset: { x: number; y: number };
 
+  // History (undo/redo)
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+  historyLimit: number;
+  pendingTransaction: HistorySnapshot | null; // state before the open transaction
+  lastCoalesceKey: string | null; // key of the entry that further edits merge into
+
   // Actions
   addElement: (element: Element, position: { x: number; y: number }) => void;
   removeElement: (id: string) => void;
@@ -53,12 +80,24 @@ interface CompoundCanvasState {
   selectBond: (bondId: string | null) => void;
 
   setExternalFactors: (factors: Partial<ExternalFactors>) => void;
+  setPhysicalProperties: (properties: Partial<PhysicalProperties>) => void;
+  setCharge: (charge: number) => void;
   setCompoundName: (name: string) => void;
   setCompoundDescription: (description: string) => void;
 
   setZoom: (zoom: number) => void;
   setOffset: (offset: { x: number; y: number }) => void;
 
+  // Undo/redo
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  beginTransaction: () => void;
+  commitTransaction: () => void;
+  setHistoryLimit: (limit: number) => void;
+  clearHistory: () => void;
+
   // Formula and molar mass calculation
   getFormula: () => string;
   getMolarMass: () => number;
@@ -68,9 +107,87 @@ interface CompoundCanvasState {
 
   // Load compound for editing
   loadCompound: (compound: any) => void;
-  loadElementsDirectly: (elements: CanvasElement[], bonds: Bond[]) => void;
+  loadElementsDirectly: (elements: CanvasElement[], bonds: Bond[], charge?: number) => void;
+}
+
+function takeSnapshot(state: HistorySnapshot): HistorySnapshot {
+  return {
+    canvasElements: state.canvasElements,
+    bonds: state.bonds,
+    externalFactors: state.externalFactors,
+    physicalProperties: state.physicalProperties,
+    charge: state.charge,
+    compoundName: state.compoundName,
+    compoundDescription: state.compoundDescription,
+  };
+}
+
+// Actions never mutate in place, so reference equality is enough
+function snapshotChanged(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return (
+    a.canvasElements !== b.canvasElements ||
+    a.bonds !== b.bonds ||
+    a.externalFactors !== b.externalFactors ||
+    a.physicalProperties !== b.physicalProperties ||
+    a.charge !== b.charge ||
+    a.compoundName !== b.compoundName ||
+    a.compoundDescription !== b.compoundDescription
+  );
+}
+
+function pushLimited(past: HistorySnapshot[], snapshot: HistorySnapshot, limit: number): HistorySnapshot[] {
+  return [...past, snapshot].slice(-limit);
+}
+
+/**
+ * Add an undo entry for a change and return the update to apply
+ * Inside a transaction nothing is recorded until commitTransaction.
+ * Consecutive changes with the same coalesce key (typing in the name field,
+ * dragging a slider) share one entry.
+ */
+function recordHistory(
+  state: CompoundCanvasState,
+  changes: Partial<CompoundCanvasState>,
+  coalesceKey: string | null = null
+): Partial<CompoundCanvasState> {
+  const before = takeSnapshot(state);
+  if (!snapshotChanged(before, takeSnapshot({ ...state, ...changes }))) {
+    return changes;
+  }
+
+  if (state.pendingTransaction) {
+    return changes;
+  }
+
+  if (coalesceKey && coalesceKey === state.lastCoalesceKey) {
+    return changes;
+  }
+
+  return {
+    ...changes,
+    past: pushLimited(state.past, before, state.historyLimit),
+    future: [],
+    lastCoalesceKey: coalesceKey,
+  };
+}
+
+// Drop selections that point at elements or bonds missing from the snapshot
+function restoreSelection(state: CompoundCanvasState, snapshot: HistorySnapshot) {
+  return {
+    selectedElementId: snapshot.canvasElements.some((el) => el.id === state.selectedElementId)
+      ? state.selectedElementId
+      : null,
+    selectedBondId: snapshot.bonds.some((b) => b.id === state.selectedBondId) ? state.selectedBondId : null,
+  };
 }
 
+const EMPTY_HISTORY = {
+  past: [],
+  future: [],
+  pendingTransaction: null,
+  lastCoalesceKey: null,
+};
+
 export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) => ({
   // Initial state
   canvasElements: [],
@@ -78,10 +195,14 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
   selectedBondId: null,
   bonds: [],
   externalFactors: {},
+  physicalProperties: {},
+  charge: 0,
   compoundName: "",
   compoundDescription: "",
   zoom: 1,
   offset: { x: 0, y: 0 },
+  ...EMPTY_HISTORY,
+  historyLimit: DEFAULT_HISTORY_LIMIT,
 
   // Actions
   addElement: (element, position) => {
@@ -130,7 +251,10 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
             [...state.bonds, ...newBonds] // Include bonds created in this operation
           )
         ) {
-          const bondType = determineBondType(element, nearbyElement.element);
+          const bondType = resolveBondType(element, nearbyElement.element, id, nearbyId, [
+            ...state.bonds,
+            ...newBonds,
+          ]);
           const bondId = `bond-${Date.now()}-${Math.random()}`;
 
           console.log(
@@ -174,42 +298,54 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
         groupId,
       };
 
-      return {
+      return recordHistory(state, {
         canvasElements: [...updatedElements, newElement],
         bonds: [...state.bonds, ...newBonds],
-      };
+      });
     });
   },
 
   removeElement: (id) => {
-    set((state) => ({
-      canvasElements: state.canvasElements.filter((el) => el.id !== id),
-      bonds: state.bonds.filter(
-        (bond) => bond.fromElementId !== id && bond.toElementId !== id
-      ),
-      selectedElementId: state.selectedElementId === id ? null : state.selectedElementId,
-    }));
+    set((state) =>
+      recordHistory(state, {
+        canvasElements: state.canvasElements.filter((el) => el.id !== id),
+        bonds: state.bonds.filter(
+          (bond) => bond.fromElementId !== id && bond.toElementId !== id
+        ),
+        selectedElementId: state.selectedElementId === id ? null : state.selectedElementId,
+      })
+    );
   },
 
   updateElementPosition: (id, position) => {
-    set((state) => ({
-      canvasElements: state.canvasElements.map((el) =>
-        el.id === id ? { ...el, position } : el
-      ),
-    }));
+    set((state) =>
+      recordHistory(
+        state,
+        {
+          canvasElements: state.canvasElements.map((el) =>
+            el.id === id ? { ...el, position } : el
+          ),
+        },
+        `move:${id}`
+      )
+    );
   },
 
   updateGroupPosition: (elementId, delta) => {
     set((state) => {
       // Always update just the single element, not the entire group
       // This allows elements to be freely repositioned with bonds updating dynamically
-      return {
-        canvasElements: state.canvasElements.map((el) =>
-          el.id === elementId && el.position
-            ? { ...el, position: { x: el.position.x + delta.x, y: el.position.y + delta.y } }
-            : el
-        ),
-      };
+      return recordHistory(
+        state,
+        {
+          canvasElements: state.canvasElements.map((el) =>
+            el.id === elementId && el.position
+              ? { ...el, position: { x: el.position.x + delta.x, y: el.position.y + delta.y } }
+              : el
+          ),
+        },
+        `move:${elementId}`
+      );
     });
   },
 
@@ -302,7 +438,13 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
       }
 
       // Automatically determine bond type based on chemistry rules
-      const autoBondType = determineBondType(fromElement.element, toElement.element);
+      const autoBondType = resolveBondType(
+        fromElement.element,
+        toElement.element,
+        fromElementId,
+        toElementId,
+        state.bonds
+      );
 
       const bondId = `bond-${Date.now()}-${Math.random()}`;
       const newBond: Bond = {
@@ -352,12 +494,12 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
         `${fromElement.element.symbol} has ${availableValence} available valence after bonding`
       );
 
-      return {
+      return recordHistory(state, {
         bonds: newBonds,
         canvasElements: updatedElements,
         // Keep first element selected if it can form more bonds, otherwise deselect
         selectedElementId: availableValence > 0 ? fromElementId : null,
-      };
+      });
     });
   },
 
@@ -373,10 +515,10 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
       const el2 = state.canvasElements.find((el) => el.id === bondToRemove.toElementId);
 
       if (!el1 || !el2) {
-        return {
+        return recordHistory(state, {
           bonds: remainingBonds,
           selectedBondId: state.selectedBondId === bondId ? null : state.selectedBondId,
-        };
+        });
       }
 
       // Check if either element still has other bonds
@@ -400,20 +542,22 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
 
       console.log(`Removed bond ${bondId}, elements ungrouped if no other bonds`);
 
-      return {
+      return recordHistory(state, {
         bonds: remainingBonds,
         canvasElements: updatedElements,
         selectedBondId: state.selectedBondId === bondId ? null : state.selectedBondId,
-      };
+      });
     });
   },
 
   updateBondType: (bondId, bondType) => {
-    set((state) => ({
-      bonds: state.bonds.map((bond) =>
-        bond.id === bondId ? { ...bond, bondType } : bond
-      ),
-    }));
+    set((state) =>
+      recordHistory(state, {
+        bonds: state.bonds.map((bond) =>
+          bond.id === bondId ? { ...bond, bondType } : bond
+        ),
+      })
+    );
   },
 
   selectBond: (bondId) => {
@@ -421,17 +565,35 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
   },
 
   setExternalFactors: (factors) => {
-    set((state) => ({
-      externalFactors: { ...state.externalFactors, ...factors },
-    }));
+    set((state) =>
+      recordHistory(
+        state,
+        { externalFactors: { ...state.externalFactors, ...factors } },
+        `factors:${Object.keys(factors).sort().join(",")}`
+      )
+    );
+  },
+
+  setPhysicalProperties: (properties) => {
+    set((state) =>
+      recordHistory(
+        state,
+        { physicalProperties: { ...state.physicalProperties, ...properties } },
+        `properties:${Object.keys(properties).sort().join(",")}`
+      )
+    );
+  },
+
+  setCharge: (charge) => {
+    set((state) => recordHistory(state, { charge }, "charge"));
   },
 
   setCompoundName: (name) => {
-    set({ compoundName: name });
+    set((state) => recordHistory(state, { compoundName: name }, "name"));
   },
 
   setCompoundDescription: (description) => {
-    set({ compoundDescription: description });
+    set((state) => recordHistory(state, { compoundDescription: description }, "description"));
   },
 
   setZoom: (zoom) => {
@@ -442,6 +604,74 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
     set({ offset });
   },
 
+  undo: () => {
+    set((state) => {
+      if (state.past.length === 0) return state;
+      const previous = state.past[state.past.length - 1];
+      return {
+        ...previous,
+        ...restoreSelection(state, previous),
+        past: state.past.slice(0, -1),
+        future: [takeSnapshot(state), ...state.future],
+        pendingTransaction: null,
+        lastCoalesceKey: null,
+      };
+    });
+  },
+
+  redo: () => {
+    set((state) => {
+      if (state.future.length === 0) return state;
+      const [next, ...rest] = state.future;
+      return {
+        ...next,
+        ...restoreSelection(state, next),
+        past: pushLimited(state.past, takeSnapshot(state), state.historyLimit),
+        future: rest,
+        pendingTransaction: null,
+        lastCoalesceKey: null,
+      };
+    });
+  },
+
+  canUndo: () => get().past.length > 0,
+
+  canRedo: () => get().future.length > 0,
+
+  // Group several actions (e.g. a drag and the bonds it creates) into one entry
+  beginTransaction: () => {
+    set((state) => (state.pendingTransaction ? state : { pendingTransaction: takeSnapshot(state) }));
+  },
+
+  commitTransaction: () => {
+    set((state) => {
+      const before = state.pendingTransaction;
+      if (!before) return state;
+      if (!snapshotChanged(before, takeSnapshot(state))) {
+        return { pendingTransaction: null, lastCoalesceKey: null };
+      }
+      return {
+        past: pushLimited(state.past, before, state.historyLimit),
+        future: [],
+        pendingTransaction: null,
+        lastCoalesceKey: null,
+      };
+    });
+  },
+
+  setHistoryLimit: (limit) => {
+    const historyLimit = Math.max(1, Math.floor(limit));
+    set((state) => ({
+      historyLimit,
+      past: state.past.slice(-historyLimit),
+      future: state.future.slice(0, historyLimit),
+    }));
+  },
+
+  clearHistory: () => {
+    set(EMPTY_HISTORY);
+  },
+
   getFormula: () => {
     const { canvasElements, bonds } = get();
 
@@ -585,10 +815,13 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
       selectedBondId: null,
       bonds: [],
       externalFactors: {},
+      physicalProperties: {},
+      charge: 0,
       compoundName: "",
       compoundDescription: "",
       zoom: 1,
       offset: { x: 0, y: 0 },
+      ...EMPTY_HISTORY,
     });
   },
 
@@ -602,6 +835,8 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
       selectedBondId: null,
       bonds: [],
       externalFactors: {},
+      physicalProperties: {},
+      charge: 0,
       compoundName: "",
       compoundDescription: "",
       zoom: 1,
@@ -613,17 +848,26 @@ export const useCompoundCanvasStore = create<CompoundCanvasState>((set, get) =>
       compoundName: compound.name || "",
       compoundDescription: compound.description || "",
       externalFactors: compound.externalFactors || {},
+      physicalProperties: compound.physicalProperties || {},
+      charge: compound.charge || 0,
       zoom: compound.canvasData?.zoom || 1,
       offset: compound.canvasData?.offset || { x: 0, y: 0 },
+      ...EMPTY_HISTORY,
     });
   },
 
   // New method to load elements directly without auto-bonding
-  loadElementsDirectly: (elements: CanvasElement[], bonds: Bond[]) => {
+  // Loading over existing work is one undo entry; filling an empty canvas
+  // (opening a compound to edit) is not undoable
+  loadElementsDirectly: (elements: CanvasElement[], bonds: Bond[], charge?: number) => {
     console.log("Loading elements and bonds directly:", elements.length, "elements,", bonds.length, "bonds");
-    set({
-      canvasElements: elements,
-      bonds: bonds,
+    set((state) => {
+      const changes = {
+        canvasElements: elements,
+        bonds: bonds,
+        ...(charge !== undefined && { charge }),
+      };
+      return state.canvasElements.length > 0 ? recordHistory(state, changes) : changes;
     });
   },
 }));
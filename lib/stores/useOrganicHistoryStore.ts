@@ -0,0 +1,104 @@
+import { create } from "zustand";
+import { MoleculeGraph } from "@/lib/utils/organic-graph";
+import { MutationResult } from "@/lib/utils/organic-mutations";
+
+export interface HistoryEntry {
+  id: number;
+  label: string; // e.g. "Attach hydroxyl to C3"
+  graph: MoleculeGraph; // state after the command
+  timestamp: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+
+let nextEntryId = 1;
+
+function createEntry(graph: MoleculeGraph, label: string): HistoryEntry {
+  return { id: nextEntryId++, label, graph, timestamp: Date.now() };
+}
+
+interface OrganicHistoryState {
+  // Graph shown on the canvas; runs ahead of the current entry while a drag is in progress
+  graph: MoleculeGraph | null;
+
+  // Command history; entries after currentIndex are the redo stack
+  entries: HistoryEntry[];
+  currentIndex: number;
+
+  // Actions
+  start: (graph: MoleculeGraph, label: string) => void;
+  record: (graph: MoleculeGraph, label: string) => void;
+  recordMutation: (result: MutationResult, label: string) => boolean;
+  preview: (graph: MoleculeGraph) => void;
+  commitPreview: (label: string) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clear: () => void;
+}
+
+export const useOrganicHistoryStore = create<OrganicHistoryState>((set, get) => ({
+  graph: null,
+  entries: [],
+  currentIndex: -1,
+
+  // Begin a fresh history (page load, structure fetched for editing)
+  start: (graph, label) => {
+    set({ graph, entries: [createEntry(graph, label)], currentIndex: 0 });
+  },
+
+  record: (graph, label) => {
+    set((state) => {
+      const kept = state.entries.slice(0, state.currentIndex + 1);
+      const entries = [...kept, createEntry(graph, label)].slice(-MAX_HISTORY_ENTRIES);
+      return { graph, entries, currentIndex: entries.length - 1 };
+    });
+  },
+
+  // Record a successful mutation; returns false (and records nothing) on failure
+  recordMutation: (result, label) => {
+    if (!result.success || !result.graph) return false;
+    get().record(result.graph, label);
+    return true;
+  },
+
+  // Show an intermediate graph (e.g. mid-drag) without adding an entry
+  preview: (graph) => {
+    set({ graph });
+  },
+
+  // Turn the previewed graph into one entry, if it differs from the current one
+  commitPreview: (label) => {
+    const { graph, entries, currentIndex, record } = get();
+    if (graph && graph !== entries[currentIndex]?.graph) {
+      record(graph, label);
+    }
+  },
+
+  undo: () => {
+    const { currentIndex, jumpTo } = get();
+    jumpTo(currentIndex - 1);
+  },
+
+  redo: () => {
+    const { currentIndex, jumpTo } = get();
+    jumpTo(currentIndex + 1);
+  },
+
+  jumpTo: (index) => {
+    set((state) => {
+      if (index < 0 || index >= state.entries.length) return state;
+      return { graph: state.entries[index].graph, currentIndex: index };
+    });
+  },
+
+  canUndo: () => get().currentIndex > 0,
+
+  canRedo: () => get().currentIndex < get().entries.length - 1,
+
+  clear: () => {
+    set({ graph: null, entries: [], currentIndex: -1 });
+  },
+}));
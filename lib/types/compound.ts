@@ -11,11 +11,11 @@ export interface Bond {
   id: string; // Bond UUID
   fromElementId: string; // Element UUID
   toElementId: string; // Element UUID
-  bondType: BondType; // Single, double, triple, ionic
+  bondType: BondType; // Single, double, triple, ionic, dative (ligand → metal)
   strength?: number; // Bond strength (optional)
 }
 
-export type BondType = "single" | "double" | "triple" | "ionic" | "covalent" | "metallic";
+export type BondType = "single" | "double" | "triple" | "ionic" | "covalent" | "metallic" | "dative";
 
 // VSEPR Geometry Types (for 3D visualization)
 export type VSEPRGeometry =
@@ -25,19 +25,24 @@ export type VSEPRGeometry =
   | "tetrahedral"         // 4 atoms, 109.5°
   | "trigonal-pyramidal"  // 4 atoms, ~107° (ammonia)
   | "trigonal-bipyramidal" // 5 atoms, 90°/120°
+  | "seesaw"              // AX4E1, e.g. SF4
+  | "t-shaped"            // AX3E2, e.g. ClF3
   | "octahedral"          // 6 atoms, 90°
+  | "square-pyramidal"    // AX5E1, e.g. BrF5
+  | "square-planar"       // AX4E2, e.g. XeF4
+  | "pentagonal-bipyramidal" // AX7, e.g. IF7
   | "custom";             // Fallback for complex molecules
 
 // Phase 3: External Factors
 export interface ExternalFactors {
   temperature?: {
     enabled: boolean;
-    value?: number; // Temperature in Kelvin or Celsius
+    value?: number | null; // Temperature in Kelvin or Celsius; null once the input is cleared
     unit?: "K" | "C";
   };
   pressure?: {
     enabled: boolean;
-    value?: number; // Pressure in atm or Pa
+    value?: number | null; // Pressure in atm or Pa; null once the input is cleared
     unit?: "atm" | "Pa";
   };
   catalyst?: {
@@ -56,6 +61,12 @@ export interface ExternalFactors {
   };
 }
 
+// Phase transition temperatures at 1 atm (user-entered or from reference data)
+export interface PhysicalProperties {
+  meltingPoint?: number | null; // Kelvin
+  boilingPoint?: number | null; // Kelvin (sublimation point for compounds that sublime)
+}
+
 // Phase 3: Canvas Data
 export interface CanvasData {
   width: number;
@@ -69,6 +80,7 @@ export interface MolecularGeometry {
   type: VSEPRGeometry;
   centralAtomId?: string;      // ID of central atom (if applicable)
   bondAngles?: number[];        // Bond angles in degrees
+  lonePairPositions?: Array<{ x: number; y: number; z: number }>; // Lone pairs on the central atom, relative to it
   generatedAt?: Date;           // When 3D coords were generated
 }
 
@@ -83,6 +95,8 @@ export interface Compound {
   // Properties
   molarMass: number; // g/mol
   description: string | null; // Brief description (optional)
+  physicalProperties?: PhysicalProperties; // Melting/boiling points for phase prediction
+  charge?: number; // Overall ionic charge; 0 or unset for neutral compounds
 
   // Phase 3: Interactive Creation Data
   bonds?: Bond[]; // Chemical bonds between elements
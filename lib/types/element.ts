@@ -83,6 +83,14 @@ export interface ElementCard {
   color: string;
   gridRow: number;
   gridColumn: number;
+  meltingPoint?: number | null; // Kelvin, for the phase-by-temperature view
+  boilingPoint?: number | null; // Kelvin
+  // Property heatmap values
+  electronegativity?: number | null;
+  atomicRadius?: number | null; // pm
+  ionizationEnergy?: number | null; // kJ/mol
+  density?: number | null; // g/cm³
+  yearDiscovered?: number | null;
 }
 
 // Category colors mapping
@@ -99,3 +107,11 @@ export const CATEGORY_COLORS: Record<ElementCategory, string> = {
   "actinide": "#DFE6E9", // Gray
   "unknown": "#B2BEC3", // Light Gray
 };
+
+// Phase colors for the periodic table temperature view
+export const PHASE_COLORS: Record<"solid" | "liquid" | "gas" | "unknown", string> = {
+  solid: "#74B9FF", // Blue
+  liquid: "#00CEC9", // Cyan
+  gas: "#FDCB6E", // Yellow
+  unknown: "#636E72", // Dark Gray
+};
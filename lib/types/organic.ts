@@ -76,6 +76,8 @@ export interface OrganicStructure {
   smiles: string;
   molFile?: string;
   inchi?: string;
+  inchiKey?: string;
+  fingerprint?: number[];
 
   // Atoms and bonds
   atoms: Atom[];
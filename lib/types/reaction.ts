@@ -0,0 +1,34 @@
+import { ExternalFactors } from "./compound";
+
+export type PhysicalState = "s" | "l" | "g" | "aq";
+
+// One reactant or product; references a saved Compound or is a plain formula
+export interface ReactionSpecies {
+  compoundId?: string; // Compound ID (when picked from saved compounds)
+  formula: string; // "H2O", "Ca(OH)₂"
+  name?: string; // Display name (compound name when referenced)
+  state?: PhysicalState; // (s), (l), (g), (aq)
+  coefficient: number; // Balanced stoichiometric coefficient
+}
+
+export interface Reaction {
+  _id?: string;
+  name: string; // "Combustion of propane"
+  description: string | null;
+
+  // Equation
+  reactants: ReactionSpecies[];
+  products: ReactionSpecies[];
+  equation: string; // Balanced equation text, e.g. "C₃H₈ + 5O₂ → 3CO₂ + 4H₂O"
+
+  // Conditions
+  externalFactors?: ExternalFactors;
+
+  // User info
+  createdBy: string; // User ID
+  createdByName: string; // User display name
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
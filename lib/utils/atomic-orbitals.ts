@@ -0,0 +1,218 @@
+/**
+ * Atomic Orbitals Utility
+ *
+ * Hydrogen-like wavefunctions ψ = R(r)·Y(θ, φ) for the s, p, d and f
+ * orbitals, with real spherical harmonics so each orbital has a fixed
+ * orientation (2pₓ, 3d_z², ...). Distances are in Bohr radii and Z = 1, so
+ * the shapes and node counts are exact while sizes are only relative.
+ *
+ * @module atomic-orbitals
+ */
+
+import { getOrbitalOccupancy, Subshell } from "./electron-configuration";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface AtomicOrbital {
+  id: string; // "3dz²", unique within an atom
+  n: number;
+  l: number;
+  shape: string; // Real harmonic: "s", "px", "dz²", "fxyz"
+  electrons: number; // 0, 1 or 2
+}
+
+export interface OrbitalGrid {
+  values: Float32Array; // ψ at each grid point, x fastest, then y, then z
+  resolution: number; // Points per axis
+  extent: number; // Half-width of the cube in Bohr radii
+  isovalue: number; // |ψ| of the surface enclosing PROBABILITY_CONTAINED of the density
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Share of the electron density inside the drawn isosurface
+export const PROBABILITY_CONTAINED = 0.9;
+
+// ============================================================================
+// REAL SPHERICAL HARMONICS
+// ============================================================================
+
+// Each takes a unit vector; the constants normalise ∫|Y|² dΩ to 1
+const ANGULAR_FUNCTIONS: Record<string, (x: number, y: number, z: number) => number> = {
+  s: () => 0.5 * Math.sqrt(1 / Math.PI),
+
+  px: x => Math.sqrt(3 / (4 * Math.PI)) * x,
+  py: (_x, y) => Math.sqrt(3 / (4 * Math.PI)) * y,
+  pz: (_x, _y, z) => Math.sqrt(3 / (4 * Math.PI)) * z,
+
+  dxy: (x, y) => 0.5 * Math.sqrt(15 / Math.PI) * x * y,
+  dxz: (x, _y, z) => 0.5 * Math.sqrt(15 / Math.PI) * x * z,
+  dyz: (_x, y, z) => 0.5 * Math.sqrt(15 / Math.PI) * y * z,
+  "dx²-y²": (x, y) => 0.25 * Math.sqrt(15 / Math.PI) * (x * x - y * y),
+  "dz²": (_x, _y, z) => 0.25 * Math.sqrt(5 / Math.PI) * (3 * z * z - 1),
+
+  "fz³": (_x, _y, z) => 0.25 * Math.sqrt(7 / Math.PI) * z * (5 * z * z - 3),
+  "fxz²": (x, _y, z) => 0.125 * Math.sqrt(42 / Math.PI) * x * (5 * z * z - 1),
+  "fyz²": (_x, y, z) => 0.125 * Math.sqrt(42 / Math.PI) * y * (5 * z * z - 1),
+  fxyz: (x, y, z) => 0.5 * Math.sqrt(105 / Math.PI) * x * y * z,
+  "fz(x²-y²)": (x, y, z) => 0.25 * Math.sqrt(105 / Math.PI) * z * (x * x - y * y),
+  "fx(x²-3y²)": (x, y) => 0.125 * Math.sqrt(70 / Math.PI) * x * (x * x - 3 * y * y),
+  "fy(3x²-y²)": (x, y) => 0.125 * Math.sqrt(70 / Math.PI) * y * (3 * x * x - y * y),
+};
+
+// Orbitals of each subshell, in the order Hund's rule fills them
+const ORBITAL_SHAPES: string[][] = [
+  ["s"],
+  ["px", "py", "pz"],
+  ["dxy", "dxz", "dyz", "dx²-y²", "dz²"],
+  ["fz³", "fxz²", "fyz²", "fxyz", "fz(x²-y²)", "fx(x²-3y²)", "fy(3x²-y²)"],
+];
+
+// ============================================================================
+// ORBITALS
+// ============================================================================
+
+/**
+ * Splits each subshell into its real orbitals and places the electrons by
+ * Hund's rule: one in every orbital before any pairs up
+ */
+export function getOccupiedOrbitals(subshells: Subshell[]): AtomicOrbital[] {
+  return subshells.flatMap(subshell => {
+    const occupancy = getOrbitalOccupancy(subshell);
+    return ORBITAL_SHAPES[subshell.l].map((shape, i) => ({
+      id: `${subshell.n}${shape}`,
+      n: subshell.n,
+      l: subshell.l,
+      shape,
+      electrons: occupancy[i],
+    }));
+  });
+}
+
+/**
+ * The subshell the last electron went into under the Madelung (n + l) rule
+ */
+export function getOutermostSubshell(subshells: Subshell[]): Subshell | undefined {
+  return subshells.reduce<Subshell | undefined>((last, subshell) => {
+    if (!last) return subshell;
+    const energy = subshell.n + subshell.l;
+    const lastEnergy = last.n + last.l;
+    return energy > lastEnergy || (energy === lastEnergy && subshell.n > last.n) ? subshell : last;
+  }, undefined);
+}
+
+// ============================================================================
+// WAVEFUNCTIONS
+// ============================================================================
+
+function factorial(k: number): number {
+  let result = 1;
+  for (let i = 2; i <= k; i++) result *= i;
+  return result;
+}
+
+// Generalised Laguerre polynomial L_k^α(x) by its three-term recurrence
+function laguerre(k: number, alpha: number, x: number): number {
+  if (k === 0) return 1;
+  let previous = 1;
+  let current = 1 + alpha - x;
+  for (let i = 1; i < k; i++) {
+    const next = ((2 * i + 1 + alpha - x) * current - (i + alpha) * previous) / (i + 1);
+    previous = current;
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Hydrogen radial wavefunction R_nl(r), normalised so ∫R²r² dr = 1
+ *
+ * @param r Distance from the nucleus in Bohr radii
+ */
+export function radialWavefunction(n: number, l: number, r: number): number {
+  const rho = (2 * r) / n;
+  const norm = Math.sqrt(Math.pow(2 / n, 3) * (factorial(n - l - 1) / (2 * n * factorial(n + l))));
+  return norm * Math.exp(-rho / 2) * Math.pow(rho, l) * laguerre(n - l - 1, 2 * l + 1, rho);
+}
+
+/**
+ * ψ of an orbital at a point, in Bohr radii from the nucleus
+ */
+export function orbitalWavefunction(orbital: Pick<AtomicOrbital, "n" | "l" | "shape">, x: number, y: number, z: number): number {
+  const r = Math.sqrt(x * x + y * y + z * z);
+  const angular = ANGULAR_FUNCTIONS[orbital.shape];
+  if (r === 0) return orbital.l === 0 ? radialWavefunction(orbital.n, 0, 0) * angular(0, 0, 0) : 0;
+  return radialWavefunction(orbital.n, orbital.l, r) * angular(x / r, y / r, z / r);
+}
+
+/**
+ * Radius enclosing the given share of an orbital's radial probability
+ */
+export function enclosingRadius(n: number, l: number, probability: number): number {
+  const step = 0.05;
+  let total = 0;
+  let r = 0;
+  while (total < probability) {
+    r += step;
+    const R = radialWavefunction(n, l, r - step / 2);
+    total += R * R * (r - step / 2) ** 2 * step;
+  }
+  return r;
+}
+
+// ============================================================================
+// ISOSURFACE SAMPLING
+// ============================================================================
+
+/**
+ * Half-width of the cube an orbital is sampled in, in Bohr radii: a little
+ * past the 99% radius so the surface is never clipped
+ */
+export function orbitalExtent(n: number, l: number): number {
+  return enclosingRadius(n, l, 0.99) * 1.1;
+}
+
+/**
+ * Samples ψ on a cube around the nucleus and finds the isovalue whose
+ * surface encloses PROBABILITY_CONTAINED of the density
+ *
+ * Grid point i on an axis sits at (i - resolution/2) / (resolution/2) of
+ * the half-width, the layout marching-cubes meshes in three.js expect.
+ */
+export function sampleOrbital(orbital: Pick<AtomicOrbital, "n" | "l" | "shape">, resolution: number): OrbitalGrid {
+  const extent = orbitalExtent(orbital.n, orbital.l);
+  const half = resolution / 2;
+  const values = new Float32Array(resolution ** 3);
+
+  for (let k = 0; k < resolution; k++) {
+    const z = ((k - half) / half) * extent;
+    for (let j = 0; j < resolution; j++) {
+      const y = ((j - half) / half) * extent;
+      for (let i = 0; i < resolution; i++) {
+        const x = ((i - half) / half) * extent;
+        values[i + resolution * (j + resolution * k)] = orbitalWavefunction(orbital, x, y, z);
+      }
+    }
+  }
+
+  return { values, resolution, extent, isovalue: probabilityIsovalue(values, PROBABILITY_CONTAINED) };
+}
+
+/**
+ * |ψ| above which the grid holds the given share of Σψ²
+ */
+export function probabilityIsovalue(values: Float32Array, probability: number): number {
+  const densities = Float32Array.from(values, v => v * v).sort().reverse();
+  const total = densities.reduce((sum, d) => sum + d, 0);
+
+  let enclosed = 0;
+  for (const density of densities) {
+    enclosed += density;
+    if (enclosed >= probability * total) return Math.sqrt(density);
+  }
+  return 0;
+}
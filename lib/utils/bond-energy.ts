@@ -0,0 +1,242 @@
+/**
+ * Bond Energy Utility
+ *
+ * Average bond dissociation energies keyed by element pair and bond order,
+ * used to fill Bond.strength and to estimate reaction enthalpies as
+ * ΔH ≈ Σ(bonds broken) − Σ(bonds formed).
+ *
+ * @module bond-energy
+ */
+
+import { Element } from "@/lib/types/element";
+import { Bond, BondType, CompoundElement } from "@/lib/types/compound";
+import { buildStructureFromFormula } from "./formula-builder";
+import { generateLewisStructure } from "./lewis-structure";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BondTally {
+  counts: Record<string, number>; // Bond label ("C=O") → number of bonds
+  ionicBonds: number; // Ionic and metallic bonds, which have no entry in the table
+}
+
+export interface BondEnergyTerm {
+  label: string; // "C=O"
+  energy: number | null; // kJ/mol, null when not tabulated
+  broken: number; // Bonds broken per reaction as written
+  formed: number; // Bonds formed per reaction as written
+}
+
+export interface EnthalpyResult {
+  success: boolean;
+  deltaH?: number; // kJ per reaction as written
+  classification?: "exothermic" | "endothermic" | "thermoneutral";
+  breakdown?: BondEnergyTerm[];
+  ionicBondsIgnored?: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BOND_SYMBOLS = ["", "-", "=", "≡"];
+
+/**
+ * Average bond dissociation energies in kJ/mol (general chemistry textbook values)
+ */
+const BOND_ENERGY_TABLE: Record<string, number> = {
+  "H-H": 436, "H-F": 567, "H-Cl": 431, "H-Br": 366, "H-I": 299,
+  "C-H": 413, "N-H": 391, "O-H": 463, "S-H": 339, "P-H": 322, "Si-H": 323, "B-H": 389,
+  "C-C": 348, "C-N": 293, "C-O": 358, "C-F": 485, "C-Cl": 328, "C-Br": 276, "C-I": 240, "C-S": 259,
+  "N-N": 163, "N-O": 201, "N-F": 272, "N-Cl": 200,
+  "O-O": 146, "O-F": 190, "O-Cl": 203, "S-O": 265, "P-O": 335, "Si-O": 452,
+  "F-F": 155, "Cl-Cl": 242, "Br-Br": 193, "I-I": 151, "Cl-F": 253, "Br-Cl": 218,
+  "S-S": 266, "S-F": 327, "S-Cl": 253, "P-Cl": 326, "P-F": 490, "B-F": 613, "B-Cl": 456,
+  "Si-Si": 226, "Si-C": 301, "Si-F": 565, "Si-Cl": 381,
+  "C=C": 614, "C=N": 615, "C=O": 745, "C=S": 573, "N=N": 418, "N=O": 607, "O=O": 498, "S=O": 523, "P=O": 544,
+  "C≡C": 839, "C≡N": 891, "C≡O": 1072, "N≡N": 945,
+};
+
+// Lookup keys ignore which atom is written first
+const BOND_ENERGIES = new Map(
+  Object.entries(BOND_ENERGY_TABLE).map(([label, energy]) => {
+    const [a, b] = label.split(/[-=≡]/);
+    const order = BOND_SYMBOLS.findIndex(symbol => symbol && label.includes(symbol));
+    return [bondLabel(a, b, order), energy];
+  })
+);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Writes a bond as "C=O": carbon first, then hydrogen, then alphabetical
+ */
+export function bondLabel(symbolA: string, symbolB: string, order: number): string {
+  const rank = (s: string) => (s === "C" ? 0 : s === "H" ? 1 : 2);
+  const [first, second] = [symbolA, symbolB].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  return `${first}${BOND_SYMBOLS[order]}${second}`;
+}
+
+export function getBondEnergy(symbolA: string, symbolB: string, order: number): number | null {
+  return BOND_ENERGIES.get(bondLabel(symbolA, symbolB, order)) ?? null;
+}
+
+const EXPLICIT_ORDERS: Partial<Record<BondType, number>> = { single: 1, double: 2, triple: 3, dative: 1 };
+
+/**
+ * Bond orders for each bond id; generic "covalent" bonds take their order
+ * from the Lewis structure, ionic and metallic bonds get null
+ */
+export function resolveBondOrders(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>
+): Map<string, number | null> {
+  const orders = new Map<string, number | null>();
+  const needsLewis = bonds.some(bond => bond.bondType === "covalent");
+  const lewis = needsLewis ? generateLewisStructure(elements, bonds, elementLookup) : null;
+
+  bonds.forEach(bond => {
+    if (bond.bondType === "ionic" || bond.bondType === "metallic") {
+      orders.set(bond.id, null);
+    } else if (bond.bondType === "covalent") {
+      const match = lewis?.structure?.bonds.find(
+        b =>
+          (b.fromElementId === bond.fromElementId && b.toElementId === bond.toElementId) ||
+          (b.fromElementId === bond.toElementId && b.toElementId === bond.fromElementId)
+      );
+      orders.set(bond.id, match && match.order > 0 ? match.order : 1);
+    } else {
+      orders.set(bond.id, EXPLICIT_ORDERS[bond.bondType]!);
+    }
+  });
+  return orders;
+}
+
+// ============================================================================
+// BOND STRENGTHS
+// ============================================================================
+
+/**
+ * Returns the bonds with strength (kJ/mol) filled in wherever the table has an entry
+ */
+export function assignBondStrengths(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>
+): Bond[] {
+  const symbols = new Map(elements.map(el => [el.elementId, el.symbol]));
+  const orders = resolveBondOrders(elements, bonds, elementLookup);
+
+  return bonds.map(bond => {
+    const order = orders.get(bond.id);
+    const a = symbols.get(bond.fromElementId);
+    const b = symbols.get(bond.toElementId);
+    const energy = order && a && b ? getBondEnergy(a, b, order) : null;
+    return energy !== null ? { ...bond, strength: energy } : bond;
+  });
+}
+
+/**
+ * Counts the bonds of one molecule by label
+ */
+export function tallyBonds(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>
+): BondTally {
+  const symbols = new Map(elements.map(el => [el.elementId, el.symbol]));
+  const orders = resolveBondOrders(elements, bonds, elementLookup);
+  const tally: BondTally = { counts: {}, ionicBonds: 0 };
+
+  bonds.forEach(bond => {
+    const order = orders.get(bond.id);
+    const a = symbols.get(bond.fromElementId);
+    const b = symbols.get(bond.toElementId);
+    if (!a || !b) return;
+    if (!order) {
+      tally.ionicBonds++;
+      return;
+    }
+    const label = bondLabel(a, b, order);
+    tally.counts[label] = (tally.counts[label] || 0) + 1;
+  });
+  return tally;
+}
+
+/**
+ * Counts bonds in the structure proposed for a formula
+ *
+ * The proposal is only a skeleton, so its shared bonds go in as covalent and
+ * take their orders from the Lewis structure (SO₃ has three S=O).
+ */
+export function tallyFormulaBonds(formula: string, elementLookup: Map<string, Element>): BondTally | null {
+  const result = buildStructureFromFormula(formula, elementLookup);
+  if (!result.success || !result.structure) return null;
+
+  const { atoms, bonds } = result.structure;
+  const skeletonTypes: BondType[] = ["single", "double", "triple"];
+  return tallyBonds(
+    atoms.map((atom, i) => ({ elementId: `a${i}`, symbol: atom.symbol, count: 1 })),
+    bonds.map((bond, i) => ({
+      id: `b${i}`,
+      fromElementId: `a${bond.from}`,
+      toElementId: `a${bond.to}`,
+      bondType: skeletonTypes.includes(bond.bondType) ? "covalent" : bond.bondType,
+    })),
+    elementLookup
+  );
+}
+
+// ============================================================================
+// REACTION ENTHALPY
+// ============================================================================
+
+/**
+ * Estimates ΔH from average bond energies: bonds broken minus bonds formed
+ *
+ * Bonds that appear on both sides cancel in the sum but stay in the breakdown.
+ * Ionic and metallic bonds are not counted, so ΔH for salts is incomplete.
+ */
+export function estimateReactionEnthalpy(
+  reactants: Array<{ coefficient: number; bonds: BondTally }>,
+  products: Array<{ coefficient: number; bonds: BondTally }>
+): EnthalpyResult {
+  const terms = new Map<string, BondEnergyTerm>();
+  const add = (species: Array<{ coefficient: number; bonds: BondTally }>, side: "broken" | "formed") => {
+    species.forEach(({ coefficient, bonds }) => {
+      Object.entries(bonds.counts).forEach(([label, count]) => {
+        if (!terms.has(label)) {
+          terms.set(label, { label, energy: BOND_ENERGIES.get(label) ?? null, broken: 0, formed: 0 });
+        }
+        terms.get(label)![side] += coefficient * count;
+      });
+    });
+  };
+  add(reactants, "broken");
+  add(products, "formed");
+
+  const breakdown = Array.from(terms.values());
+  const missing = breakdown.filter(term => term.energy === null && term.broken !== term.formed);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      breakdown,
+      error: `No average bond energy for ${missing.map(term => term.label).join(", ")}`,
+    };
+  }
+
+  const deltaH = breakdown.reduce((sum, term) => sum + (term.energy ?? 0) * (term.broken - term.formed), 0);
+  return {
+    success: true,
+    deltaH,
+    classification: deltaH < 0 ? "exothermic" : deltaH > 0 ? "endothermic" : "thermoneutral",
+    breakdown,
+    ionicBondsIgnored: [...reactants, ...products].some(s => s.bonds.ionicBonds > 0),
+  };
+}
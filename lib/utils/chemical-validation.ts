@@ -1,6 +1,8 @@
 import { Element } from "@/lib/types/element";
-import { Bond, BondType } from "@/lib/types/compound";
+import { Bond, BondType, VSEPRGeometry } from "@/lib/types/compound";
 import { isMetal, isNonmetal } from "./chemistry-helpers";
+import { determineCoordinationGeometry, isTransitionMetal, Ligand, matchLigand } from "./coordination-complex";
+import { generateLewisStructure } from "./lewis-structure";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -10,7 +12,7 @@ export interface ValidationResult {
   isValid: boolean;
   compoundName: string;
   formula: string;
-  bondType: "ionic" | "covalent" | "metallic" | "mixed";
+  bondType: "ionic" | "covalent" | "metallic" | "coordination" | "mixed";
   status: "valid" | "warning" | "invalid";
   explanation: string;
   suggestions?: string[];
@@ -19,10 +21,24 @@ export interface ValidationResult {
     chargeBalance?: string;
     oxidationStates?: Record<string, number>;
     bondingPattern?: string;
+    complexIon?: ComplexIon;
   };
 }
 
-interface PolyatomicIon {
+export interface ComplexIon {
+  metalId: string;
+  metal: string; // Symbol of the metal centre
+  oxidationState: number;
+  ligands: Array<{ ligand: Ligand; count: number }>;
+  coordinationNumber: number; // Donor atoms bonded to the metal, so a chelate counts more than once
+  geometry: VSEPRGeometry;
+  charge: number; // Metal oxidation state plus the ligand charges
+  formula: string; // "[Cu(NH₃)₄]²⁺"
+  name: string; // "tetraamminecopper(II)"
+  atomIds: string[]; // Metal and ligand atoms
+}
+
+export interface PolyatomicIon {
   formula: string;
   name: string;
   charge: number;
@@ -33,7 +49,7 @@ interface PolyatomicIon {
 // POLYATOMIC ION DATABASE
 // ============================================================================
 
-const POLYATOMIC_IONS: PolyatomicIon[] = [
+export const POLYATOMIC_IONS: PolyatomicIon[] = [
   { formula: "NH4", name: "ammonium", charge: 1, atoms: { N: 1, H: 4 } },
   { formula: "OH", name: "hydroxide", charge: -1, atoms: { O: 1, H: 1 } },
   { formula: "CN", name: "cyanide", charge: -1, atoms: { C: 1, N: 1 } },
@@ -55,29 +71,6 @@ const POLYATOMIC_IONS: PolyatomicIon[] = [
   { formula: "SCN", name: "thiocyanate", charge: -1, atoms: { S: 1, C: 1, N: 1 } },
 ];
 
-// ============================================================================
-// OXIDATION STATES
-// ============================================================================
-
-const OXIDATION_STATES: Record<string, number> = {
-  // Group 1: +1
-  H: 1, Li: 1, Na: 1, K: 1, Rb: 1, Cs: 1,
-  // Group 2: +2
-  Be: 2, Mg: 2, Ca: 2, Sr: 2, Ba: 2,
-  // Group 13: +3
-  B: 3, Al: 3,
-  // Group 14: +2/+4
-  Sn: 2, Pb: 2,
-  // Group 15: -3
-  N: -3, P: -3,
-  // Group 16: -2
-  O: -2, S: -2,
-  // Group 17: -1
-  F: -1, Cl: -1, Br: -1, I: -1,
-  // Transition metals
-  Fe: 3, Cu: 2, Zn: 2, Ag: 1,
-};
-
 // ============================================================================
 // DIATOMIC MOLECULES
 // ============================================================================
@@ -112,6 +105,20 @@ function isNobleGas(element: Element): boolean {
   return element.category === "noble-gas";
 }
 
+function superscriptCharge(charge: number): string {
+  if (charge === 0) return "";
+  const digits = Math.abs(charge) === 1 ? "" : String(Math.abs(charge)).split("").map(d => "⁰¹²³⁴⁵⁶⁷⁸⁹"[parseInt(d)]).join("");
+  return digits + (charge > 0 ? "⁺" : "⁻");
+}
+
+// Dative bonds to a transition metal hold ligands; others are ordinary covalent bonds (H₃N→BF₃)
+function isCoordinateBond(bond: Bond, byId: Map<string, Element>): boolean {
+  if (bond.bondType !== "dative") return false;
+  const from = byId.get(bond.fromElementId);
+  const to = byId.get(bond.toElementId);
+  return (!!from && isTransitionMetal(from)) || (!!to && isTransitionMetal(to));
+}
+
 // ============================================================================
 // POLYATOMIC ION DETECTION
 // ============================================================================
@@ -128,9 +135,10 @@ function detectPolyatomicIons(
   const detected: DetectedIon[] = [];
   const used = new Set<string>();
 
-  // Build adjacency graph
+  // Build adjacency graph; ionic bonds join an ion to its counter-ions, not its own atoms
   const graph = new Map<string, Set<string>>();
   bonds.forEach(bond => {
+    if (bond.bondType === "ionic") return;
     if (!graph.has(bond.fromElementId)) graph.set(bond.fromElementId, new Set());
     if (!graph.has(bond.toElementId)) graph.set(bond.toElementId, new Set());
     graph.get(bond.fromElementId)!.add(bond.toElementId);
@@ -201,7 +209,8 @@ function detectPolyatomicIons(
 
 function generateIonicFormula(
   bondedElements: Array<{ id: string; element: Element; symbol: string }>,
-  detectedIons: DetectedIon[]
+  detectedIons: DetectedIon[],
+  oxidation: OxidationStateResult
 ): { formula: string; isBalanced: boolean; explanation: string } {
   const usedIds = new Set(detectedIons.flatMap(d => d.elementIds));
 
@@ -216,7 +225,7 @@ function generateIonicFormula(
   bondedElements.forEach(el => {
     if (usedIds.has(el.id)) return;
 
-    const charge = OXIDATION_STATES[el.symbol] || 0;
+    const charge = oxidation.states[el.id] || 0;
     if (charge > 0) {
       const existing = simpleCations.find(c => c.symbol === el.symbol);
       if (existing) {
@@ -274,11 +283,19 @@ function generateIonicFormula(
 
   // Calculate correct ratio using LCM
   const commonMultiple = lcm(cationCharge, anionCharge);
-  const correctCationCount = commonMultiple / cationCharge;
-  const correctAnionCount = commonMultiple / anionCharge;
+  let correctCationCount = commonMultiple / cationCharge;
+  let correctAnionCount = commonMultiple / anionCharge;
 
   // Check if current counts match correct ratio
-  const isBalanced = cationCount === correctCationCount && anionCount === correctAnionCount;
+  let isBalanced = cationCount === correctCationCount && anionCount === correctAnionCount;
+
+  // Mixed valence (Fe₃O₄) balances without a single charge ratio: keep the drawn counts
+  if (!isBalanced && oxidation.balanced && cationIons.length === 0 && anionIons.length === 0) {
+    const divisor = gcd(cationCount, anionCount);
+    correctCationCount = cationCount / divisor;
+    correctAnionCount = anionCount / divisor;
+    isBalanced = true;
+  }
 
   // Build formula: cation first, then anion
   let formula = "";
@@ -399,10 +416,22 @@ function toRomanNumeral(num: number): string {
   return result;
 }
 
+// Element name with the -ide ending of its anion: chlorine → chloride
+function toAnionName(element: Element): string {
+  const name = element.name.toLowerCase();
+  if (name.endsWith("ine")) return name.slice(0, -3) + "ide";
+  if (name.endsWith("gen")) return name.slice(0, -3) + "ide";
+  if (name.endsWith("ur")) return name.slice(0, -2) + "ide";
+  if (name.endsWith("on")) return name.slice(0, -2) + "ide";
+  if (name.endsWith("orus")) return name.slice(0, -4) + "ide";
+  return name + "ide";
+}
+
 function generateIonicName(
   cationElement: Element | null,
   anionElement: Element | null,
-  detectedIons: DetectedIon[]
+  detectedIons: DetectedIon[],
+  cationStates: number[]
 ): string {
   const cationIon = detectedIons.find(d => d.ion.charge > 0);
   const anionIon = detectedIons.find(d => d.ion.charge < 0);
@@ -415,9 +444,11 @@ function generateIonicName(
     cationName = cationIon.ion.name.charAt(0).toUpperCase() + cationIon.ion.name.slice(1);
   } else if (cationElement) {
     cationName = cationElement.name;
-    const charge = OXIDATION_STATES[cationElement.symbol];
-    if (isMetal(cationElement) && charge > 1) {
-      cationName += ` (${toRomanNumeral(charge)})`;
+
+    // Roman numerals only for metals that form more than one cation
+    const states = Array.from(new Set(cationStates.filter(state => state > 0))).sort((a, b) => a - b);
+    if (isMetal(cationElement) && states.length > 0 && candidateStates(cationElement, 1).length > 1) {
+      cationName += ` (${states.map(toRomanNumeral).join(",")})`;
     }
   }
 
@@ -425,23 +456,7 @@ function generateIonicName(
   if (anionIon) {
     anionName = anionIon.ion.name;
   } else if (anionElement) {
-    let name = anionElement.name.toLowerCase();
-    if (name.endsWith("ine")) {
-      name = name.slice(0, -3) + "ide";
-    } else if (name.endsWith("gen")) {
-      name = name.slice(0, -3) + "ide";
-    } else if (name.endsWith("ygen")) {
-      name = name.slice(0, -4) + "ide";
-    } else if (name.endsWith("ur")) {
-      name = name.slice(0, -2) + "ide";
-    } else if (name.endsWith("on")) {
-      name = name.slice(0, -2) + "ide";
-    } else if (name.endsWith("orus")) {
-      name = name.slice(0, -4) + "ide";
-    } else {
-      name += "ide";
-    }
-    anionName = name;
+    anionName = toAnionName(anionElement);
   }
 
   return `${cationName} ${anionName}`;
@@ -477,26 +492,637 @@ function generateCovalentName(elementCounts: Record<string, number>, elementMap:
   // Second element
   name += ELEMENT_PREFIXES[secondCount] || "";
 
-  let secondName = second.name.toLowerCase();
-  if (secondName.endsWith("ine")) {
-    secondName = secondName.slice(0, -3) + "ide";
-  } else if (secondName.endsWith("gen")) {
-    secondName = secondName.slice(0, -3) + "ide";
-  } else if (secondName.endsWith("ygen")) {
-    secondName = secondName.slice(0, -4) + "ide";
-  } else if (secondName.endsWith("ur")) {
-    secondName = secondName.slice(0, -2) + "ide";
-  } else if (secondName.endsWith("on")) {
-    secondName = secondName.slice(0, -2) + "ide";
-  } else if (secondName.endsWith("orus")) {
-    secondName = secondName.slice(0, -4) + "ide";
-  } else {
-    secondName += "ide";
+  name += toAnionName(second);
+
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// ============================================================================
+// ELEMENT COUNTS
+// ============================================================================
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+/**
+ * Counts atoms per element symbol (canvas elements count 1 each)
+ */
+export function countElements(elements: Array<{ symbol: string; count?: number }>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  elements.forEach(el => {
+    counts[el.symbol] = (counts[el.symbol] || 0) + (el.count ?? 1);
+  });
+  return counts;
+}
+
+/**
+ * Parses a formula string into element counts
+ * Accepts ASCII or subscript digits, nested groups and hydrates:
+ * "H2O", "H₂O", "Ca(OH)2", "K4[Fe(CN)6]", "CuSO4·5H2O"
+ * Returns null when the formula cannot be read.
+ */
+export function parseFormula(formula: string): Record<string, number> | null {
+  const text = formula
+    .replace(/\s+/g, "")
+    .replace(/[₀-₉]/g, d => String(SUBSCRIPT_DIGITS.indexOf(d)));
+  if (!text) return null;
+
+  const counts: Record<string, number> = {};
+  for (const part of text.split(/[·•*.]/)) {
+    const hydrate = part.match(/^(\d+)(.*)$/);
+    const multiplier = hydrate ? parseInt(hydrate[1]) : 1;
+    const partCounts = parseFormulaGroup(hydrate ? hydrate[2] : part);
+    if (!partCounts) return null;
+
+    Object.entries(partCounts).forEach(([symbol, count]) => {
+      counts[symbol] = (counts[symbol] || 0) + count * multiplier;
+    });
+  }
+  return counts;
+}
+
+/**
+ * Order-independent key for a formula's composition, so "OH2" and "H2O"
+ * match; null when the formula cannot be read
+ */
+export function compositionKey(formula: string): string | null {
+  const counts = parseFormula(formula);
+  if (!counts) return null;
+  return Object.keys(counts)
+    .sort()
+    .map(symbol => `${symbol}${counts[symbol]}`)
+    .join("");
+}
+
+function parseFormulaGroup(text: string): Record<string, number> | null {
+  if (!text) return null;
+
+  const stack: Record<string, number>[] = [{}];
+  const closers: string[] = [];
+  const tokens = text.match(/[A-Z][a-z]?|\d+|[()[\]]|./g) || [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const hasCount = i + 1 < tokens.length && /^\d+$/.test(tokens[i + 1]);
+    const count = hasCount ? parseInt(tokens[i + 1]) : 1;
+
+    if (/^[A-Z][a-z]?$/.test(token)) {
+      const top = stack[stack.length - 1];
+      top[token] = (top[token] || 0) + count;
+      if (hasCount) i++;
+    } else if (token === "(" || token === "[") {
+      stack.push({});
+      closers.push(token === "(" ? ")" : "]");
+    } else if (token === ")" || token === "]") {
+      if (closers.pop() !== token) return null;
+      const group = stack.pop()!;
+      const top = stack[stack.length - 1];
+      Object.entries(group).forEach(([symbol, n]) => {
+        top[symbol] = (top[symbol] || 0) + n * count;
+      });
+      if (hasCount) i++;
+    } else {
+      return null;
+    }
   }
 
-  name += secondName;
+  if (closers.length > 0) return null;
+  const counts = stack[0];
+  return Object.keys(counts).length > 0 ? counts : null;
+}
 
-  return name.charAt(0).toUpperCase() + name.slice(1);
+// ============================================================================
+// OXIDATION STATES
+// ============================================================================
+
+/**
+ * Common oxidation states, most common first
+ * Ranks the candidates for single-atom ions and fills in where
+ * Element.oxidationStates has no state of the needed sign.
+ */
+const COMMON_OXIDATION_STATES: Record<string, number[]> = {
+  // Group 1
+  H: [1, -1], Li: [1], Na: [1], K: [1], Rb: [1], Cs: [1],
+  // Group 2
+  Be: [2], Mg: [2], Ca: [2], Sr: [2], Ba: [2],
+  // Group 13
+  B: [3], Al: [3], Ga: [3],
+  // Group 14
+  C: [4, -4], Si: [4, -4], Sn: [2, 4], Pb: [2, 4],
+  // Group 15
+  N: [-3, 3, 5], P: [-3, 3, 5], As: [-3, 3, 5],
+  // Group 16
+  O: [-2], S: [-2, 4, 6], Se: [-2, 4, 6],
+  // Group 17
+  F: [-1], Cl: [-1, 1, 3, 5, 7], Br: [-1, 1, 5], I: [-1, 1, 5, 7],
+  // Transition metals
+  Sc: [3], Ti: [4, 3], V: [5, 4, 3], Cr: [3, 6, 2], Mn: [2, 4, 7], Fe: [3, 2], Co: [2, 3], Ni: [2],
+  Cu: [2, 1], Zn: [2], Ag: [1], Cd: [2], Au: [3, 1], Hg: [2, 1], Pd: [2], Pt: [2, 4],
+};
+
+export interface OxidationStateResult {
+  states: Record<string, number>; // Oxidation number per atom id
+  balanced: boolean; // True when the states add up to the overall charge
+}
+
+function candidateStates(element: Element, sign: number): number[] {
+  const ranked = [...(COMMON_OXIDATION_STATES[element.symbol] || []), ...element.oxidationStates];
+  return Array.from(new Set(ranked.filter(state => Math.sign(state) === sign)));
+}
+
+function matchPolyatomicIon(counts: Record<string, number>): PolyatomicIon | undefined {
+  const symbols = Object.keys(counts);
+  return POLYATOMIC_IONS.find(
+    ion =>
+      Object.keys(ion.atoms).length === symbols.length &&
+      symbols.every(symbol => ion.atoms[symbol] === counts[symbol])
+  );
+}
+
+/**
+ * Assigns an oxidation number to every atom from the bond graph
+ *
+ * Covalent fragments use the ionic approximation on their Lewis structure:
+ * each bond's electrons go to the more electronegative atom; around a
+ * transition metal the partners fall back to their common negative states if
+ * that leaves one of them positive (never Cl⁺ in FeCl₃). Single-atom ions
+ * held by ionic bonds take states from Element.oxidationStates, chosen so the
+ * compound is neutral and as close as possible to the number of ionic bonds
+ * each atom makes (FeCl₂ gives iron +2, FeCl₃ gives +3). Ligands bound by
+ * dative bonds keep their own charge and the metal centre takes the state
+ * that balances them ([Fe(CN)₆]⁴⁻ with K⁺ counter-ions gives iron +2).
+ *
+ * @param charge Overall charge the states must add up to; 0 for a neutral compound
+ */
+export function assignOxidationStates(
+  atoms: Array<{ id: string; element: Element }>,
+  bonds: Bond[],
+  charge = 0
+): OxidationStateResult {
+  const byId = new Map(atoms.map(atom => [atom.id, atom.element]));
+  const covalent = new Map<string, string[]>(atoms.map(atom => [atom.id, []]));
+  const ionic = new Map<string, string[]>(atoms.map(atom => [atom.id, []]));
+  const dative = new Map<string, string[]>(atoms.map(atom => [atom.id, []]));
+
+  bonds.forEach(bond => {
+    if (!byId.has(bond.fromElementId) || !byId.has(bond.toElementId)) return;
+    if (bond.bondType === "metallic") return;
+    const links = isCoordinateBond(bond, byId) ? dative : bond.bondType === "ionic" ? ionic : covalent;
+    links.get(bond.fromElementId)!.push(bond.toElementId);
+    links.get(bond.toElementId)!.push(bond.fromElementId);
+  });
+
+  const electronegativity = (id: string) => byId.get(id)!.electronegativity ?? 0;
+
+  // One electron per ionic bond moves to the more electronegative partner
+  const ionicCharge = (id: string) =>
+    ionic.get(id)!.reduce((sum, partner) => sum + (electronegativity(id) <= electronegativity(partner) ? 1 : -1), 0);
+
+  // Covalently bonded fragments
+  const fragments: string[][] = [];
+  const seen = new Set<string>();
+  atoms.forEach(atom => {
+    if (seen.has(atom.id)) return;
+    const fragment: string[] = [];
+    const stack = [atom.id];
+    seen.add(atom.id);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      fragment.push(id);
+      covalent.get(id)!.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    fragments.push(fragment);
+  });
+
+  const states: Record<string, number> = {};
+  const ions: Array<{ id: string; options: Array<{ state: number; cost: number }> }> = [];
+  let fixedCharge = 0;
+
+  fragments.forEach(fragment => {
+    const hasIonicBonds = fragment.some(id => ionic.get(id)!.length > 0);
+    const hasDativeBonds = fragment.some(id => dative.get(id)!.length > 0);
+    const guess = fragment.reduce((sum, id) => sum + ionicCharge(id), 0);
+    const ligand = hasDativeBonds ? matchLigand(countElements(fragment.map(id => byId.get(id)!))) : undefined;
+
+    if (fragment.length === 1) {
+      const [id] = fragment;
+      const element = byId.get(id)!;
+
+      // A complex's metal centre takes whichever common state balances the charge, or 0 as in Ni(CO)₄
+      if (hasDativeBonds && isTransitionMetal(element)) {
+        ions.push({
+          id,
+          options: [...candidateStates(element, 1), 0].map((state, rank) => ({ state, cost: rank * 0.01 })),
+        });
+        return;
+      }
+
+      // Halide ligands carry their ligand charge
+      if (ligand) {
+        states[id] = ligand.charge;
+        fixedCharge += ligand.charge;
+        return;
+      }
+
+      if (!hasIonicBonds) {
+        states[id] = 0;
+        return;
+      }
+
+      const sign = Math.sign(guess) || (isMetal(element) ? 1 : -1);
+      const candidates = candidateStates(element, sign);
+      ions.push({
+        id,
+        options: (candidates.length > 0 ? candidates : [guess]).map((state, rank) => ({
+          state,
+          cost: Math.abs(state - guess) + rank * 0.01,
+        })),
+      });
+      return;
+    }
+
+    // Polyatomic ions and ligands carry their known charge; a structure drawn as
+    // one molecule carries the whole charge (NO₃⁻), other molecules are neutral
+    const fragmentCharge = ligand
+      ? ligand.charge
+      : hasIonicBonds
+        ? (matchPolyatomicIon(countElements(fragment.map(id => byId.get(id)!)))?.charge ?? guess)
+        : fragments.length === 1
+          ? charge
+          : 0;
+    fixedCharge += fragmentCharge;
+
+    const lookup = new Map(fragment.map(id => [byId.get(id)!.symbol, byId.get(id)!]));
+    const fragmentSet = new Set(fragment);
+    const lewis = generateLewisStructure(
+      fragment.map(id => ({ elementId: id, symbol: byId.get(id)!.symbol, count: 1 })),
+      bonds.filter(
+        bond =>
+          fragmentSet.has(bond.fromElementId) &&
+          fragmentSet.has(bond.toElementId) &&
+          bond.bondType !== "ionic" &&
+          bond.bondType !== "metallic"
+      ),
+      lookup,
+      fragmentCharge
+    );
+
+    fragment.forEach(id => {
+      states[id] = 0;
+    });
+    if (!lewis.structure) return;
+
+    // Oxidation state = formal charge, shifted by one per bond order toward the more electronegative end
+    lewis.structure.atoms.forEach(atom => {
+      states[atom.elementId] += atom.formalCharge;
+    });
+    lewis.structure.bonds.forEach(bond => {
+      const difference = electronegativity(bond.fromElementId) - electronegativity(bond.toElementId);
+      if (bond.order === 0 || difference === 0) return;
+      const shift = Math.sign(difference) * bond.order;
+      states[bond.fromElementId] -= shift;
+      states[bond.toElementId] += shift;
+    });
+
+    // A d-block atom never leaves its more electronegative partners positive.
+    // If the Lewis structure does, the partners take their common negative
+    // state and the metals share the rest of the fragment's charge.
+    const metals = fragment.filter(id => byId.get(id)!.block === "d");
+    const partners = fragment.filter(
+      id => !metals.includes(id) && covalent.get(id)!.some(n => metals.includes(n) && electronegativity(id) > electronegativity(n))
+    );
+    if (partners.some(id => states[id] > 0)) {
+      partners.forEach(id => {
+        states[id] = candidateStates(byId.get(id)!, -1)[0] ?? states[id];
+      });
+      const share = fragment.reduce((rest, id) => (metals.includes(id) ? rest : rest - states[id]), fragmentCharge) / metals.length;
+      metals.forEach(id => {
+        const candidates = candidateStates(byId.get(id)!, Math.sign(share) || 1);
+        states[id] = candidates.length > 0
+          ? candidates.reduce((best, state) => (Math.abs(state - share) < Math.abs(best - share) ? state : best))
+          : Math.round(share);
+      });
+    }
+  });
+
+  // Cheapest combination of ion states for every reachable total charge
+  let reachable = new Map<number, { cost: number; choices: number[] }>([[0, { cost: 0, choices: [] }]]);
+  ions.forEach(ion => {
+    const next = new Map<number, { cost: number; choices: number[] }>();
+    reachable.forEach((entry, total) => {
+      ion.options.forEach((option, k) => {
+        const sum = total + option.state;
+        const cost = entry.cost + option.cost;
+        const existing = next.get(sum);
+        if (!existing || cost < existing.cost) {
+          next.set(sum, { cost, choices: [...entry.choices, k] });
+        }
+      });
+    });
+    reachable = next;
+  });
+
+  // Without a balancing combination each ion keeps its most common state
+  const solution = reachable.get(charge - fixedCharge);
+  ions.forEach((ion, i) => {
+    states[ion.id] = ion.options[solution ? solution.choices[i] : 0].state;
+  });
+
+  return { states, balanced: solution !== undefined };
+}
+
+// One entry per element; an element in several states gets primed keys (Fe, Fe′, Fe″)
+function summarizeOxidationStates(
+  atoms: Array<{ id: string; symbol: string }>,
+  states: Record<string, number>
+): Record<string, number> {
+  const summary: Record<string, number> = {};
+  const symbols = Array.from(new Set(atoms.map(atom => atom.symbol)));
+
+  symbols.forEach(symbol => {
+    const symbolStates = new Set(atoms.filter(atom => atom.symbol === symbol).map(atom => states[atom.id]));
+    Array.from(symbolStates)
+      .sort((x, y) => x - y)
+      .forEach((state, i) => {
+        summary[symbol + "′".repeat(i)] = state;
+      });
+  });
+
+  return summary;
+}
+
+// ============================================================================
+// COORDINATION COMPLEXES
+// ============================================================================
+
+// Multiplying prefixes for ligand names that already contain one: bis(ethylenediamine)
+const COMPLEX_PREFIXES: Record<number, string> = {
+  2: "bis", 3: "tris", 4: "tetrakis", 5: "pentakis", 6: "hexakis",
+};
+
+// Latin stems for the -ate names of anionic complexes: [Fe(CN)₆]³⁻ is a ferrate
+const LATIN_METAL_STEMS: Record<string, string> = {
+  Fe: "ferr", Cu: "cupr", Ag: "argent", Au: "aur", Sn: "stann", Pb: "plumb", Hg: "mercur", W: "tungst",
+};
+
+/**
+ * Names a complex ion: ligands alphabetically with multiplying prefixes,
+ * then the metal with its oxidation state, ending in -ate when the complex
+ * is an anion
+ *
+ * [Cu(NH₃)₄]²⁺ → tetraamminecopper(II), [Fe(CN)₆]³⁻ → hexacyanidoferrate(III)
+ */
+export function nameComplexIon(
+  metal: Element,
+  oxidationState: number,
+  ligands: Array<{ ligand: Ligand; count: number }>,
+  charge: number
+): string {
+  const ligandNames = [...ligands]
+    .sort((a, b) => a.ligand.name.localeCompare(b.ligand.name))
+    .map(({ ligand, count }) => {
+      if (count === 1) return ligand.name;
+      return ligand.abbreviation
+        ? `${COMPLEX_PREFIXES[count]}(${ligand.name})`
+        : `${ELEMENT_PREFIXES[count]}${ligand.name}`;
+    })
+    .join("");
+
+  let metalName = metal.name.toLowerCase();
+  if (charge < 0) {
+    metalName = (LATIN_METAL_STEMS[metal.symbol] ?? metalName.replace(/(enum|ium|um|ese)$/, "")) + "ate";
+  }
+
+  const state =
+    oxidationState === 0 ? "0" : `${oxidationState < 0 ? "-" : ""}${toRomanNumeral(Math.abs(oxidationState))}`;
+  return `${ligandNames}${metalName}(${state})`;
+}
+
+/**
+ * Writes a complex ion's formula: metal, then ligands in alphabetical order
+ * of their formulas or abbreviations, in brackets with the charge
+ */
+export function formatComplexFormula(
+  metal: string,
+  ligands: Array<{ ligand: Ligand; count: number }>,
+  charge: number
+): string {
+  const written = (ligand: Ligand) => ligand.abbreviation ?? ligand.formula;
+  const ligandPart = [...ligands]
+    .sort((a, b) => written(a.ligand).localeCompare(written(b.ligand)))
+    .map(({ ligand, count }) => {
+      const text = written(ligand).replace(/\d+/g, digits => subscript(parseInt(digits)));
+      const multiplier = count > 1 ? subscript(count) : "";
+      return Object.keys(ligand.atoms).length === 1 ? `${text}${multiplier}` : `(${text})${multiplier}`;
+    })
+    .join("");
+
+  return `[${metal}${ligandPart}]${superscriptCharge(charge)}`;
+}
+
+/**
+ * Finds transition metals holding ligands through dative bonds
+ *
+ * Each ligand is the covalently bonded piece behind a donor atom; a chelate
+ * reaches the metal through several donors but is counted once.
+ *
+ * @returns The complexes found, or the first unrecognised ligand
+ */
+export function findComplexIons(
+  atoms: Array<{ id: string; element: Element; symbol: string }>,
+  bonds: Bond[],
+  oxidation: OxidationStateResult
+): { complexes: ComplexIon[]; unknownLigand?: string } {
+  const byId = new Map(atoms.map(atom => [atom.id, atom.element]));
+  const coordinate = bonds.filter(bond => isCoordinateBond(bond, byId));
+  const covalent = bonds.filter(
+    bond => bond.bondType !== "ionic" && bond.bondType !== "metallic" && !isCoordinateBond(bond, byId)
+  );
+
+  const ligandAtoms = (donorId: string): string[] => {
+    const seen = new Set([donorId]);
+    const stack = [donorId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      covalent.forEach(bond => {
+        const next = bond.fromElementId === id ? bond.toElementId : bond.toElementId === id ? bond.fromElementId : null;
+        if (next && byId.has(next) && !seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    return Array.from(seen).sort();
+  };
+
+  const metalIds = Array.from(
+    new Set(coordinate.flatMap(bond => [bond.fromElementId, bond.toElementId]))
+  ).filter(id => byId.has(id) && isTransitionMetal(byId.get(id)!));
+
+  const complexes: ComplexIon[] = [];
+  for (const metalId of metalIds) {
+    const metal = byId.get(metalId)!;
+    const donors = coordinate
+      .filter(bond => bond.fromElementId === metalId || bond.toElementId === metalId)
+      .map(bond => (bond.fromElementId === metalId ? bond.toElementId : bond.fromElementId));
+
+    const pieces = new Map<string, string[]>();
+    donors.forEach(donorId => {
+      const piece = ligandAtoms(donorId);
+      pieces.set(piece.join(","), piece);
+    });
+
+    const ligands: Array<{ ligand: Ligand; count: number }> = [];
+    for (const piece of Array.from(pieces.values())) {
+      const counts = countElements(piece.map(id => ({ symbol: byId.get(id)!.symbol })));
+      const ligand = matchLigand(counts);
+      if (!ligand) {
+        const lookup = new Map(piece.map(id => [byId.get(id)!.symbol, byId.get(id)!]));
+        return { complexes, unknownLigand: generateCovalentFormula(counts, lookup) };
+      }
+      const existing = ligands.find(entry => entry.ligand === ligand);
+      if (existing) {
+        existing.count++;
+      } else {
+        ligands.push({ ligand, count: 1 });
+      }
+    }
+
+    const oxidationState = oxidation.states[metalId] ?? 0;
+    const charge = oxidationState + ligands.reduce((sum, { ligand, count }) => sum + ligand.charge * count, 0);
+    const strongField = ligands.some(({ ligand }) => ligand.strongField);
+
+    complexes.push({
+      metalId,
+      metal: metal.symbol,
+      oxidationState,
+      ligands,
+      coordinationNumber: donors.length,
+      geometry: determineCoordinationGeometry(donors.length, metal, oxidationState, strongField),
+      charge,
+      formula: formatComplexFormula(metal.symbol, ligands, charge),
+      name: nameComplexIon(metal, oxidationState, ligands, charge),
+      atomIds: [metalId, ...Array.from(pieces.values()).flat()],
+    });
+  }
+
+  return { complexes };
+}
+
+/**
+ * Validates a complex ion, or a salt of one with simple or polyatomic counter-ions
+ */
+function validateComplex(
+  bondedElements: Array<{ id: string; element: Element; symbol: string }>,
+  bonds: Bond[],
+  complex: ComplexIon,
+  oxidation: OxidationStateResult,
+  charge: number
+): ValidationResult {
+  const inComplex = new Set(complex.atomIds);
+  const outside = bondedElements.filter(el => !inComplex.has(el.id));
+  const outsideIds = new Set(outside.map(el => el.id));
+  const ions = detectPolyatomicIons(
+    outside,
+    bonds.filter(bond => outsideIds.has(bond.fromElementId) && outsideIds.has(bond.toElementId))
+  );
+  const ionIds = new Set(ions.flatMap(d => d.elementIds));
+
+  // Counter-ions grouped by formula, with their charges
+  const counterIons: Array<{ formula: string; name: string; charge: number; count: number; polyatomic: boolean }> = [];
+  const addCounterIon = (entry: { formula: string; name: string; charge: number; polyatomic: boolean }) => {
+    const existing = counterIons.find(c => c.formula === entry.formula && c.charge === entry.charge);
+    if (existing) {
+      existing.count++;
+    } else {
+      counterIons.push({ ...entry, count: 1 });
+    }
+  };
+  ions.forEach(({ ion }) => addCounterIon({ formula: ion.formula, name: ion.name, charge: ion.charge, polyatomic: true }));
+  outside
+    .filter(el => !ionIds.has(el.id))
+    .forEach(el => {
+      const charge = oxidation.states[el.id] ?? 0;
+      const name = charge > 0 ? el.element.name.toLowerCase() : toAnionName(el.element);
+      addCounterIon({ formula: el.symbol, name, charge, polyatomic: false });
+    });
+
+  const details = {
+    oxidationStates: summarizeOxidationStates(bondedElements, oxidation.states),
+    bondingPattern: `${complex.coordinationNumber}-coordinate ${complex.metal}, ${complex.geometry.replace("-", " ")}`,
+    complexIon: complex,
+  };
+
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+  const signed = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+  // A complex on its own is an ion
+  if (counterIons.length === 0) {
+    if (!oxidation.balanced) {
+      return {
+        isValid: false,
+        compoundName: "",
+        formula: complex.formula,
+        bondType: "coordination",
+        status: "invalid",
+        explanation: `No common oxidation state of ${complex.metal} gives the complex a ${signed(charge)} charge.`,
+        suggestions: ["Check the overall charge", "Add or remove ligands"],
+        details,
+      };
+    }
+    const chargeText = complex.charge === 0 ? "neutral" : signed(complex.charge);
+    return {
+      isValid: true,
+      compoundName: capitalize(complex.charge === 0 ? complex.name : `${complex.name} ion`),
+      formula: complex.formula,
+      bondType: "coordination",
+      status: "valid",
+      explanation: `Coordination complex of ${complex.metal} in the ${signed(complex.oxidationState)} state with ${complex.coordinationNumber} donor atoms (${chargeText} overall).`,
+      details: { ...details, chargeBalance: `Complex charge ${chargeText}` },
+    };
+  }
+
+  const counterCharge = counterIons.reduce((sum, c) => sum + c.charge * c.count, 0);
+  const bracket = complex.formula.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]*[⁺⁻]$/, "");
+  const counterFormula = counterIons
+    .map(c => {
+      if (c.count === 1) return c.formula;
+      return c.polyatomic ? `(${c.formula})${subscript(c.count)}` : `${c.formula}${subscript(c.count)}`;
+    })
+    .join("");
+  const counterName = counterIons.map(c => c.name).join(" ");
+
+  // Counter-cations are written and named first
+  const cationic = complex.charge > 0 || counterCharge < 0;
+  const formula = cationic ? bracket + counterFormula : counterFormula + bracket;
+  const compoundName = capitalize(cationic ? `${complex.name} ${counterName}` : `${counterName} ${complex.name}`);
+
+  if (complex.charge + counterCharge !== charge) {
+    return {
+      isValid: false,
+      compoundName: "",
+      formula,
+      bondType: "coordination",
+      status: "invalid",
+      explanation: `Charge not balanced. The complex ${complex.formula} carries ${signed(complex.charge)}, the counter-ions ${signed(counterCharge)}.`,
+      suggestions: ["Add or remove counter-ions until the charges cancel"],
+      details,
+    };
+  }
+
+  return {
+    isValid: true,
+    compoundName,
+    formula,
+    bondType: "coordination",
+    status: "valid",
+    explanation: `Coordination compound: the ${complex.formula} complex with ${counterIons.map(c => c.formula).join(", ")} counter-ions.`,
+    details: { ...details, chargeBalance: "Charges balanced ✓" },
+  };
 }
 
 // ============================================================================
@@ -505,7 +1131,8 @@ function generateCovalentName(elementCounts: Record<string, number>, elementMap:
 
 export function validateCompound(
   canvasElements: Array<{ id: string; element: Element; symbol: string }>,
-  bonds: Bond[]
+  bonds: Bond[],
+  charge = 0
 ): ValidationResult {
   // Get bonded elements
   const bondedElementIds = new Set<string>();
@@ -529,11 +1156,10 @@ export function validateCompound(
   }
 
   // Count elements
-  const elementCounts: Record<string, number> = {};
+  const elementCounts = countElements(bondedElements);
   const elementMap = new Map<string, Element>();
 
   bondedElements.forEach(el => {
-    elementCounts[el.symbol] = (elementCounts[el.symbol] || 0) + 1;
     elementMap.set(el.symbol, el.element);
   });
 
@@ -554,6 +1180,37 @@ export function validateCompound(
     };
   }
 
+  // Coordination complexes: ligands held on a transition metal by dative bonds
+  if (bonds.some(bond => bond.bondType === "dative")) {
+    const oxidation = assignOxidationStates(bondedElements, bonds, charge);
+    const { complexes, unknownLigand } = findComplexIons(bondedElements, bonds, oxidation);
+
+    if (unknownLigand) {
+      return {
+        isValid: false,
+        compoundName: "",
+        formula: "",
+        bondType: "coordination",
+        status: "invalid",
+        explanation: `${unknownLigand} is not a recognised ligand.`,
+        suggestions: ["Common ligands: NH₃, H₂O, CO, CN⁻, Cl⁻, OH⁻, ethylenediamine, oxalate"],
+      };
+    }
+    if (complexes.length > 1) {
+      return {
+        isValid: false,
+        compoundName: "",
+        formula: "",
+        bondType: "coordination",
+        status: "invalid",
+        explanation: "Complexes with more than one metal centre are not supported.",
+      };
+    }
+    if (complexes.length === 1) {
+      return validateComplex(bondedElements, bonds, complexes[0], oxidation, charge);
+    }
+  }
+
   // Check for diatomic molecules
   if (symbols.length === 1) {
     const symbol = symbols[0];
@@ -604,6 +1261,7 @@ export function validateCompound(
 
   // Detect polyatomic ions
   const detectedIons = detectPolyatomicIons(bondedElements, bonds);
+  const oxidation = assignOxidationStates(bondedElements, bonds, charge);
 
   // Generate formula
   let formula: string;
@@ -611,7 +1269,7 @@ export function validateCompound(
   let explanation = "";
 
   if (isIonic) {
-    const result = generateIonicFormula(bondedElements, detectedIons);
+    const result = generateIonicFormula(bondedElements, detectedIons, oxidation);
     formula = result.formula;
     isBalanced = result.isBalanced;
     explanation = result.explanation;
@@ -638,7 +1296,10 @@ export function validateCompound(
     const usedIds = new Set(detectedIons.flatMap(d => d.elementIds));
     const cationEl = bondedElements.find(el => !usedIds.has(el.id) && isMetal(el.element))?.element || null;
     const anionEl = bondedElements.find(el => !usedIds.has(el.id) && isNonmetal(el.element))?.element || null;
-    compoundName = generateIonicName(cationEl, anionEl, detectedIons);
+    const cationStates = cationEl
+      ? bondedElements.filter(el => el.symbol === cationEl.symbol).map(el => oxidation.states[el.id])
+      : [];
+    compoundName = generateIonicName(cationEl, anionEl, detectedIons, cationStates);
   } else {
     compoundName = generateCovalentName(elementCounts, elementMap);
   }
@@ -674,6 +1335,7 @@ export function validateCompound(
     warnings: warnings.length > 0 ? warnings : undefined,
     details: {
       chargeBalance: isIonic ? "Charges balanced ✓" : undefined,
+      oxidationStates: summarizeOxidationStates(bondedElements, oxidation.states),
       bondingPattern: `${bonds.length} bond(s) between ${bondedElements.length} atom(s)`,
     },
   };
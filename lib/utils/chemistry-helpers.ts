@@ -1,5 +1,7 @@
 import { Element } from "@/lib/types/element";
 import { BondType } from "@/lib/types/compound";
+import { getMaxCoordinationNumber, isTransitionMetal } from "./coordination-complex";
+import { getValenceElectrons } from "./lewis-structure";
 
 /**
  * Determines the bond type between two elements based on chemistry laws
@@ -128,6 +130,7 @@ function getBondValue(bondType: BondType): number {
     case "single": return 1;
     case "double": return 2;
     case "triple": return 3;
+    case "dative": return 0; // Uses a lone pair, not valence
     case "ionic":
     case "covalent":
     case "metallic":
@@ -200,7 +203,71 @@ export function canFormBond(
   const available1 = getAvailableValence(element1, elementId1, bonds);
   const available2 = getAvailableValence(element2, elementId2, bonds);
 
-  return available1 > 0 && available2 > 0;
+  return (available1 > 0 && available2 > 0) || canFormDativeBond(element1, element2, elementId1, elementId2, bonds);
+}
+
+/**
+ * Counts dative bonds an element takes part in
+ */
+export function countDativeBonds(
+  elementId: string,
+  bonds: Array<{ fromElementId: string; toElementId: string; bondType?: BondType }>
+): number {
+  return bonds.filter(
+    (bond) => bond.bondType === "dative" && (bond.fromElementId === elementId || bond.toElementId === elementId)
+  ).length;
+}
+
+/**
+ * Validates if one element can donate a lone pair to the other, a transition metal
+ * Dative bonds do not use valence, so a metal keeps taking ligands after its
+ * own valence is spent, up to its coordination number.
+ */
+export function canFormDativeBond(
+  element1: Element,
+  element2: Element,
+  elementId1: string,
+  elementId2: string,
+  bonds: Array<{ fromElementId: string; toElementId: string; bondType?: BondType }>
+): boolean {
+  const [metal, metalId, donor, donorId] = isTransitionMetal(element1)
+    ? [element1, elementId1, element2, elementId2]
+    : [element2, elementId2, element1, elementId1];
+
+  if (!isTransitionMetal(metal) || isMetal(donor) || donor.symbol === "H") {
+    return false;
+  }
+  if (countDativeBonds(metalId, bonds) >= getMaxCoordinationNumber(metal)) {
+    return false;
+  }
+  // One lone pair per donor atom; bridging ligands are not supported
+  if (countDativeBonds(donorId, bonds) > 0) {
+    return false;
+  }
+
+  // Unused valence means the donor carries a negative charge (C in CN⁻, Cl⁻)
+  const charge = getAvailableValence(donor, donorId, bonds) > 0 ? 1 : 0;
+  return getValenceElectrons(donor) - countElementBonds(donorId, bonds) + charge >= 2;
+}
+
+/**
+ * Picks the type of a new bond given the bonds already made
+ * Falls back to a dative bond once either atom's valence is used up.
+ */
+export function resolveBondType(
+  element1: Element,
+  element2: Element,
+  elementId1: string,
+  elementId2: string,
+  bonds: Array<{ fromElementId: string; toElementId: string; bondType?: BondType }>
+): BondType {
+  const available1 = getAvailableValence(element1, elementId1, bonds);
+  const available2 = getAvailableValence(element2, elementId2, bonds);
+
+  if ((available1 === 0 || available2 === 0) && canFormDativeBond(element1, element2, elementId1, elementId2, bonds)) {
+    return "dative";
+  }
+  return determineBondType(element1, element2);
 }
 
 /**
@@ -237,6 +304,7 @@ export function getBondDisplayName(bondType: BondType): string {
     ionic: "Ionic Bond",
     covalent: "Covalent Bond",
     metallic: "Metallic Bond",
+    dative: "Dative Bond",
   };
   return names[bondType] || bondType;
 }
@@ -0,0 +1,162 @@
+/**
+ * Coordination Complex Utility
+ *
+ * Ligand data and coordination geometry for transition-metal complexes such
+ * as [Cu(NH₃)₄]²⁺ and [Fe(CN)₆]³⁻. Ligands bind the metal through dative
+ * bonds from their donor atoms; chelating ligands make more than one.
+ *
+ * @module coordination-complex
+ */
+
+import { Element } from "@/lib/types/element";
+import { VSEPRGeometry } from "@/lib/types/compound";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface Ligand {
+  formula: string; // Hill-ordered composition: "NH3", "C2H8N2"
+  abbreviation?: string; // Written in complex formulas instead of the formula: "en", "ox"
+  name: string; // Name used in complex nomenclature: "ammine", "cyanido"
+  charge: number;
+  denticity: number; // Donor atoms that bind the metal
+  donors: string[]; // Donor element symbols
+  strongField?: boolean; // High in the spectrochemical series
+  atoms: Record<string, number>;
+}
+
+// ============================================================================
+// LIGAND DATABASE
+// ============================================================================
+
+export const LIGANDS: Ligand[] = [
+  // Neutral
+  { formula: "H2O", name: "aqua", charge: 0, denticity: 1, donors: ["O"], atoms: { H: 2, O: 1 } },
+  { formula: "NH3", name: "ammine", charge: 0, denticity: 1, donors: ["N"], atoms: { N: 1, H: 3 } },
+  { formula: "CO", name: "carbonyl", charge: 0, denticity: 1, donors: ["C"], strongField: true, atoms: { C: 1, O: 1 } },
+  { formula: "NO", name: "nitrosyl", charge: 0, denticity: 1, donors: ["N"], atoms: { N: 1, O: 1 } },
+  {
+    formula: "C2H8N2",
+    abbreviation: "en",
+    name: "ethylenediamine",
+    charge: 0,
+    denticity: 2,
+    donors: ["N"],
+    atoms: { C: 2, H: 8, N: 2 },
+  },
+  // Anionic
+  { formula: "F", name: "fluorido", charge: -1, denticity: 1, donors: ["F"], atoms: { F: 1 } },
+  { formula: "Cl", name: "chlorido", charge: -1, denticity: 1, donors: ["Cl"], atoms: { Cl: 1 } },
+  { formula: "Br", name: "bromido", charge: -1, denticity: 1, donors: ["Br"], atoms: { Br: 1 } },
+  { formula: "I", name: "iodido", charge: -1, denticity: 1, donors: ["I"], atoms: { I: 1 } },
+  { formula: "OH", name: "hydroxido", charge: -1, denticity: 1, donors: ["O"], atoms: { O: 1, H: 1 } },
+  { formula: "CN", name: "cyanido", charge: -1, denticity: 1, donors: ["C"], strongField: true, atoms: { C: 1, N: 1 } },
+  { formula: "SCN", name: "thiocyanato", charge: -1, denticity: 1, donors: ["S"], atoms: { S: 1, C: 1, N: 1 } },
+  { formula: "NO2", name: "nitrito", charge: -1, denticity: 1, donors: ["N"], strongField: true, atoms: { N: 1, O: 2 } },
+  {
+    formula: "C2O4",
+    abbreviation: "ox",
+    name: "oxalato",
+    charge: -2,
+    denticity: 2,
+    donors: ["O"],
+    atoms: { C: 2, O: 4 },
+  },
+];
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Coordination numbers above six are rare for the metals on the canvas
+const DEFAULT_MAX_COORDINATION = 6;
+
+// Metals whose complexes stop short of six ligands
+const MAX_COORDINATION_NUMBERS: Record<string, number> = {
+  Ag: 2, Au: 4, Hg: 4, Pd: 4,
+};
+
+// ============================================================================
+// LIGANDS
+// ============================================================================
+
+/**
+ * Finds the ligand with exactly these element counts
+ */
+export function matchLigand(counts: Record<string, number>): Ligand | undefined {
+  const symbols = Object.keys(counts);
+  return LIGANDS.find(
+    ligand =>
+      Object.keys(ligand.atoms).length === symbols.length &&
+      symbols.every(symbol => ligand.atoms[symbol] === counts[symbol])
+  );
+}
+
+/**
+ * Finds a ligand as written in a complex formula: "NH3", "CN" or "en"
+ */
+export function findLigand(text: string): Ligand | undefined {
+  return LIGANDS.find(ligand => ligand.abbreviation === text || ligand.formula === text);
+}
+
+// ============================================================================
+// COORDINATION GEOMETRY
+// ============================================================================
+
+export function isTransitionMetal(element: Element): boolean {
+  return element.category === "transition-metal";
+}
+
+/**
+ * Most ligands a metal centre accepts; 0 for anything but a transition metal
+ */
+export function getMaxCoordinationNumber(element: Element): number {
+  if (!isTransitionMetal(element)) return 0;
+  return MAX_COORDINATION_NUMBERS[element.symbol] ?? DEFAULT_MAX_COORDINATION;
+}
+
+/**
+ * d-electron count of a transition-metal ion (Cu²⁺ → 9, Ni²⁺ → 8)
+ */
+export function getDElectronCount(element: Element, oxidationState: number): number | null {
+  if (!isTransitionMetal(element) || element.group === null) return null;
+  return Math.max(0, element.group - oxidationState);
+}
+
+/**
+ * Geometry around a metal centre from its coordination number
+ *
+ * Four-coordinate complexes are tetrahedral unless the metal is d⁸ and
+ * either in the 4d/5d rows or held by strong-field ligands ([PtCl₄]²⁻,
+ * [Ni(CN)₄]²⁻), or d⁹ Cu²⁺, which Jahn–Teller distortion flattens.
+ *
+ * @param coordinationNumber Donor atoms bonded to the metal
+ * @param metal Metal centre
+ * @param oxidationState Oxidation state of the metal
+ * @param strongField True when any ligand is strong-field
+ */
+export function determineCoordinationGeometry(
+  coordinationNumber: number,
+  metal: Element,
+  oxidationState: number,
+  strongField = false
+): VSEPRGeometry {
+  switch (coordinationNumber) {
+    case 2:
+      return "linear";
+    case 3:
+      return "trigonal-planar";
+    case 4: {
+      const d = getDElectronCount(metal, oxidationState);
+      const squarePlanar = (d === 8 && (metal.period >= 5 || strongField)) || d === 9;
+      return squarePlanar ? "square-planar" : "tetrahedral";
+    }
+    case 5:
+      return "trigonal-bipyramidal";
+    case 6:
+      return "octahedral";
+    default:
+      return "custom";
+  }
+}
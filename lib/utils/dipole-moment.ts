@@ -0,0 +1,118 @@
+/**
+ * Dipole Moment Utility
+ *
+ * Estimates bond dipoles from electronegativity differences and sums them
+ * over the 3D coordinates from generate3DCoordinates to judge polarity.
+ *
+ * @module dipole-moment
+ */
+
+import { Element } from "@/lib/types/element";
+import { Bond, CompoundElement } from "@/lib/types/compound";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+type Vector3D = { x: number; y: number; z: number };
+
+export interface BondDipole {
+  bondId: string;
+  positiveElementId: string; // δ+ end (less electronegative)
+  negativeElementId: string; // δ− end (more electronegative)
+  electronegativityDifference: number;
+  moment: number; // Debye
+  vector: Vector3D; // Debye, pointing from δ+ to δ−
+}
+
+export interface DipoleAnalysis {
+  bondDipoles: BondDipole[];
+  netDipole: Vector3D; // Debye
+  magnitude: number; // Debye
+  polarity: "polar" | "nonpolar";
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Rough conversion from electronegativity difference to bond dipole
+ * H–Cl (ΔEN 0.96, 1.08 D) and H–F (ΔEN 1.78, 1.82 D) both land near 1 D per unit.
+ */
+const DEBYE_PER_ELECTRONEGATIVITY = 1.0;
+
+// Net dipoles below this are rounding noise from the idealized geometry
+const POLAR_THRESHOLD = 0.1;
+
+// ============================================================================
+// DIPOLE CALCULATION
+// ============================================================================
+
+/**
+ * Calculates bond dipoles and the net molecular dipole
+ *
+ * @param elements Compound elements with position3D populated
+ * @param bonds Bonds between the elements (metallic bonds are skipped)
+ * @param elementLookup Element data keyed by symbol
+ * @returns Bond dipoles, net dipole vector, its magnitude and the polarity
+ */
+export function calculateDipoleMoment(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>
+): DipoleAnalysis {
+  const byId = new Map(elements.map(el => [el.elementId, el]));
+  const bondDipoles: BondDipole[] = [];
+
+  bonds.forEach(bond => {
+    if (bond.bondType === "metallic") return;
+
+    const from = byId.get(bond.fromElementId);
+    const to = byId.get(bond.toElementId);
+    const fromEN = from && elementLookup.get(from.symbol)?.electronegativity;
+    const toEN = to && elementLookup.get(to.symbol)?.electronegativity;
+    if (!from?.position3D || !to?.position3D || fromEN == null || toEN == null) return;
+
+    const difference = Math.abs(fromEN - toEN);
+    if (difference === 0) return;
+
+    const [positive, negative] = fromEN < toEN ? [from, to] : [to, from];
+    const dx = negative.position3D!.x - positive.position3D!.x;
+    const dy = negative.position3D!.y - positive.position3D!.y;
+    const dz = negative.position3D!.z - positive.position3D!.z;
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (length === 0) return;
+
+    const moment = difference * DEBYE_PER_ELECTRONEGATIVITY;
+    bondDipoles.push({
+      bondId: bond.id,
+      positiveElementId: positive.elementId,
+      negativeElementId: negative.elementId,
+      electronegativityDifference: difference,
+      moment,
+      vector: {
+        x: (dx / length) * moment,
+        y: (dy / length) * moment,
+        z: (dz / length) * moment,
+      },
+    });
+  });
+
+  const netDipole = bondDipoles.reduce(
+    (sum, dipole) => ({
+      x: sum.x + dipole.vector.x,
+      y: sum.y + dipole.vector.y,
+      z: sum.z + dipole.vector.z,
+    }),
+    { x: 0, y: 0, z: 0 }
+  );
+  const magnitude = Math.sqrt(netDipole.x ** 2 + netDipole.y ** 2 + netDipole.z ** 2);
+
+  return {
+    bondDipoles,
+    netDipole,
+    magnitude,
+    polarity: magnitude > POLAR_THRESHOLD ? "polar" : "nonpolar",
+  };
+}
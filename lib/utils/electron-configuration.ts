@@ -0,0 +1,249 @@
+/**
+ * Electron Configuration Utility
+ *
+ * Builds ground-state configurations from the Madelung (n + l) rule, with a
+ * table of the known exceptions, and ion configurations by adding or
+ * removing electrons. Also reads the hand-typed strings in
+ * Element.electronConfiguration so they can be checked against the rule.
+ *
+ * @module electron-configuration
+ */
+
+import { Element } from "@/lib/types/element";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type SubshellLetter = "s" | "p" | "d" | "f";
+
+export interface Subshell {
+  n: number; // Principal quantum number
+  l: number; // 0 = s, 1 = p, 2 = d, 3 = f
+  electrons: number;
+  label: string; // "3d"
+}
+
+export interface ConfigurationCheck {
+  matches: boolean;
+  generated: string; // Noble-gas shorthand from the Madelung rule and exceptions
+  stored: string; // Element.electronConfiguration as typed
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBSHELL_LETTERS: SubshellLetter[] = ["s", "p", "d", "f"];
+
+// Atomic numbers of the noble gases used as shorthand cores
+const NOBLE_GAS_CORES: Record<string, number> = {
+  He: 2, Ne: 10, Ar: 18, Kr: 36, Xe: 54, Rn: 86,
+};
+
+// Every subshell up to 7p, in the order the Madelung rule fills them:
+// lowest n + l first, then lowest n
+const MADELUNG_ORDER: Array<{ n: number; l: number }> = Array.from({ length: 7 }, (_, i) => i + 1)
+  .flatMap(n => Array.from({ length: Math.min(n, 4) }, (_, l) => ({ n, l })))
+  .filter(({ n, l }) => n + l <= 8)
+  .sort((a, b) => a.n + a.l - (b.n + b.l) || a.n - b.n);
+
+/**
+ * Measured ground states that break the Madelung rule: half-filled and
+ * filled d shells (Cr, Cu), the 4d row, and lanthanides and actinides that
+ * put an electron in d instead of f
+ */
+const AUFBAU_EXCEPTIONS: Record<number, string> = {
+  24: "[Ar] 3d5 4s1", // Cr
+  29: "[Ar] 3d10 4s1", // Cu
+  41: "[Kr] 4d4 5s1", // Nb
+  42: "[Kr] 4d5 5s1", // Mo
+  44: "[Kr] 4d7 5s1", // Ru
+  45: "[Kr] 4d8 5s1", // Rh
+  46: "[Kr] 4d10", // Pd
+  47: "[Kr] 4d10 5s1", // Ag
+  57: "[Xe] 5d1 6s2", // La
+  58: "[Xe] 4f1 5d1 6s2", // Ce
+  64: "[Xe] 4f7 5d1 6s2", // Gd
+  78: "[Xe] 4f14 5d9 6s1", // Pt
+  79: "[Xe] 4f14 5d10 6s1", // Au
+  89: "[Rn] 6d1 7s2", // Ac
+  90: "[Rn] 6d2 7s2", // Th
+  91: "[Rn] 5f2 6d1 7s2", // Pa
+  92: "[Rn] 5f3 6d1 7s2", // U
+  93: "[Rn] 5f4 6d1 7s2", // Np
+  96: "[Rn] 5f7 6d1 7s2", // Cm
+  103: "[Rn] 5f14 7s2 7p1", // Lr
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function subshellCapacity(l: number): number {
+  return 2 * (2 * l + 1);
+}
+
+function toSubshell(n: number, l: number, electrons: number): Subshell {
+  return { n, l, electrons, label: `${n}${SUBSHELL_LETTERS[l]}` };
+}
+
+// Written order: by n, then l ("[Ar] 3d6 4s2")
+function sortSubshells(subshells: Subshell[]): Subshell[] {
+  return subshells.filter(s => s.electrons > 0).sort((a, b) => a.n - b.n || a.l - b.l);
+}
+
+function countElectrons(subshells: Subshell[]): number {
+  return subshells.reduce((sum, s) => sum + s.electrons, 0);
+}
+
+// Adds electrons to the first subshells in Madelung order that have room
+function fillMadelung(subshells: Subshell[], electrons: number): Subshell[] {
+  const counts = new Map(subshells.map(s => [s.label, s.electrons]));
+  let remaining = electrons;
+
+  for (const { n, l } of MADELUNG_ORDER) {
+    if (remaining <= 0) break;
+    const label = `${n}${SUBSHELL_LETTERS[l]}`;
+    const added = Math.min(subshellCapacity(l) - (counts.get(label) || 0), remaining);
+    counts.set(label, (counts.get(label) || 0) + added);
+    remaining -= added;
+  }
+
+  return sortSubshells(
+    Array.from(counts.entries()).map(([label, count]) =>
+      toSubshell(parseInt(label[0]), SUBSHELL_LETTERS.indexOf(label[1] as SubshellLetter), count)
+    )
+  );
+}
+
+// ============================================================================
+// PARSING & FORMATTING
+// ============================================================================
+
+/**
+ * Reads the occupied subshells from an electron configuration
+ *
+ * Accepts the notation in Element.electronConfiguration: noble-gas cores
+ * ("[Ar] 3d6 4s2"), missing spaces ("[Xe] 5d16s2") and a leading "*" on
+ * predicted configurations. Subshells are returned by n, then l.
+ */
+export function parseElectronConfiguration(configuration: string): Subshell[] {
+  const text = configuration.replace(/^\*/, "").trim();
+  const counts = new Map<string, number>();
+
+  const core = text.match(/\[([A-Z][a-z]?)\]/);
+  if (core && NOBLE_GAS_CORES[core[1]]) {
+    buildElectronConfiguration(NOBLE_GAS_CORES[core[1]]).forEach(s => counts.set(s.label, s.electrons));
+  }
+
+  // The electron count runs until the next "<digit><letter>" or the end
+  const pattern = /(\d)([spdf])(\d+?)(?=\s|$|\d[spdf])/g;
+  const subshells = text.replace(/\[[^\]]*\]/, "");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(subshells)) !== null) {
+    const label = match[1] + match[2];
+    counts.set(label, (counts.get(label) || 0) + parseInt(match[3]));
+  }
+
+  return sortSubshells(
+    Array.from(counts.entries()).map(([label, electrons]) =>
+      toSubshell(parseInt(label[0]), SUBSHELL_LETTERS.indexOf(label[1] as SubshellLetter), electrons)
+    )
+  );
+}
+
+/**
+ * The noble-gas core a configuration can be shortened to, if any
+ *
+ * Picks the largest core the configuration contains with electrons to
+ * spare, so argon itself is written [Ne] 3s2 3p6 rather than [Ar].
+ */
+export function findNobleGasCore(subshells: Subshell[]): { symbol: string; subshells: Subshell[] } | null {
+  const total = countElectrons(subshells);
+  const counts = new Map(subshells.map(s => [s.label, s.electrons]));
+
+  const cores = Object.entries(NOBLE_GAS_CORES)
+    .filter(([, atomicNumber]) => atomicNumber < total)
+    .sort((a, b) => b[1] - a[1]);
+
+  for (const [symbol, atomicNumber] of cores) {
+    const core = buildElectronConfiguration(atomicNumber);
+    if (core.every(s => counts.get(s.label) === s.electrons)) {
+      return { symbol, subshells: core };
+    }
+  }
+  return null;
+}
+
+/**
+ * Writes a configuration in the plain notation Element.electronConfiguration
+ * uses ("[Ar] 3d6 4s2"); superscripts come from formatElectronConfiguration
+ *
+ * @param shorthand Replace the largest contained noble-gas core with [X]
+ */
+export function formatConfiguration(subshells: Subshell[], shorthand = true): string {
+  const core = shorthand ? findNobleGasCore(subshells) : null;
+  const coreLabels = new Set(core?.subshells.map(s => s.label));
+  const rest = subshells.filter(s => !coreLabels.has(s.label)).map(s => `${s.label}${s.electrons}`);
+  return [core ? `[${core.symbol}]` : null, ...rest].filter(Boolean).join(" ");
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Ground-state configuration of an atom or monatomic ion
+ *
+ * Neutral atoms fill by the Madelung rule unless they are a known exception.
+ * Cations lose electrons from the highest n first, then the highest l, so
+ * Fe²⁺ is [Ar] 3d6 and not [Ar] 3d4 4s2; anions gain them by the Madelung
+ * rule.
+ *
+ * @param atomicNumber Protons in the nucleus
+ * @param charge Ion charge; 2 for Fe²⁺, -1 for Cl⁻
+ */
+export function buildElectronConfiguration(atomicNumber: number, charge = 0): Subshell[] {
+  const neutral = AUFBAU_EXCEPTIONS[atomicNumber]
+    ? parseElectronConfiguration(AUFBAU_EXCEPTIONS[atomicNumber])
+    : fillMadelung([], atomicNumber);
+
+  if (charge < 0) return fillMadelung(neutral, -charge);
+
+  let toRemove = Math.min(charge, atomicNumber);
+  const removalOrder = [...neutral].sort((a, b) => b.n - a.n || b.l - a.l);
+  const remaining = removalOrder.map(subshell => {
+    const removed = Math.min(subshell.electrons, toRemove);
+    toRemove -= removed;
+    return { ...subshell, electrons: subshell.electrons - removed };
+  });
+  return sortSubshells(remaining);
+}
+
+/**
+ * Electrons per orbital of a subshell by Hund's rule: one in every orbital
+ * before any pairs up
+ */
+export function getOrbitalOccupancy(subshell: Pick<Subshell, "l" | "electrons">): number[] {
+  const orbitals = 2 * subshell.l + 1;
+  return Array.from(
+    { length: orbitals },
+    (_, i) => (i < subshell.electrons ? 1 : 0) + (i + orbitals < subshell.electrons ? 1 : 0)
+  );
+}
+
+/**
+ * Compares the stored configuration with the generated one, ignoring how
+ * the stored string is written (spacing, shorthand, "*" markers)
+ */
+export function checkStoredConfiguration(element: Pick<Element, "atomicNumber" | "electronConfiguration">): ConfigurationCheck {
+  const generated = buildElectronConfiguration(element.atomicNumber);
+  const stored = parseElectronConfiguration(element.electronConfiguration);
+
+  return {
+    matches: formatConfiguration(generated, false) === formatConfiguration(stored, false),
+    generated: formatConfiguration(generated),
+    stored: element.electronConfiguration,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Element Comparison Utility
+ *
+ * Property rows shared by the element page's PropertyGrid and the /compare
+ * view, and helpers to find where the compared elements differ.
+ *
+ * @module element-comparison
+ */
+
+import { Element } from "@/lib/types/element";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ElementProperty {
+  key: string;
+  label: string;
+  unit: string;
+  value: (element: Element) => string | number | null;
+}
+
+export interface RowComparison {
+  differs: boolean; // False when every element with a value has the same one
+  highest: number[]; // Indexes of the largest numeric value
+  lowest: number[]; // Indexes of the smallest numeric value
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 6;
+
+export const ELEMENT_PROPERTIES: ElementProperty[] = [
+  { key: "phase", label: "Phase", unit: "", value: e => e.phase },
+  { key: "group", label: "Group", unit: "", value: e => e.group },
+  { key: "period", label: "Period", unit: "", value: e => e.period },
+  { key: "block", label: "Block", unit: "", value: e => e.block },
+  { key: "meltingPoint", label: "Melting Point", unit: "K", value: e => e.meltingPoint },
+  { key: "boilingPoint", label: "Boiling Point", unit: "K", value: e => e.boilingPoint },
+  { key: "density", label: "Density", unit: "g/cm³", value: e => e.density },
+  { key: "electronegativity", label: "Electronegativity", unit: "", value: e => e.electronegativity },
+  { key: "atomicRadius", label: "Atomic Radius", unit: "pm", value: e => e.atomicRadius },
+  { key: "ionizationEnergy", label: "Ionization Energy", unit: "kJ/mol", value: e => e.ionizationEnergy },
+  { key: "oxidationStates", label: "Oxidation States", unit: "", value: e => e.oxidationStates.join(", ") },
+  { key: "isRadioactive", label: "Radioactive", unit: "", value: e => (e.isRadioactive ? "Yes" : "No") },
+];
+
+// One color per compared element, so elements of the same category stay apart
+export const COMPARE_COLORS = ["#6C5CE7", "#00CEC9", "#FDCB6E", "#FF7675", "#74B9FF", "#55EFC4"];
+
+// Properties worth a bar chart on the compare page
+export const CHART_PROPERTIES = ["ionizationEnergy", "atomicRadius", "electronegativity", "density", "meltingPoint"];
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Reads the ?symbols= list: "fe, CU,Zn,fe" → ["Fe", "Cu", "Zn"]
+ */
+export function parseCompareSymbols(param: string | null): string[] {
+  if (!param) return [];
+  const symbols = param
+    .split(",")
+    .map(symbol => symbol.trim())
+    .filter(symbol => /^[a-z]{1,3}$/i.test(symbol))
+    .map(symbol => symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase());
+  return Array.from(new Set(symbols)).slice(0, MAX_COMPARE);
+}
+
+/**
+ * Marks whether a row's values differ and, for numbers, which are extremes.
+ * Missing values are ignored rather than counted as a difference.
+ */
+export function compareRow(values: Array<string | number | null | undefined>): RowComparison {
+  const present = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: string | number; index: number } => entry.value !== null && entry.value !== undefined);
+
+  const differs = new Set(present.map(entry => entry.value)).size > 1;
+  const numeric = present.filter((entry): entry is { value: number; index: number } => typeof entry.value === "number");
+  if (!differs || numeric.length < 2) return { differs, highest: [], lowest: [] };
+
+  const max = Math.max(...numeric.map(entry => entry.value));
+  const min = Math.min(...numeric.map(entry => entry.value));
+  return {
+    differs,
+    highest: numeric.filter(entry => entry.value === max).map(entry => entry.index),
+    lowest: numeric.filter(entry => entry.value === min).map(entry => entry.index),
+  };
+}
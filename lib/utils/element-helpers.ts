@@ -29,11 +29,12 @@ export function getPreviousElement(atomicNumber: number): number | null {
   return atomicNumber > 1 ? atomicNumber - 1 : null;
 }
 
-// Format electron configuration with superscripts
+// Format electron configuration with superscripts on the electron counts ("3d6" → "3d⁶")
 export function formatElectronConfiguration(config: string): string {
   return config
-    .replace(/(\d+)/g, (match) =>
-      match
+    .replace(/([spdf])(\d+?)(?=\s|$|\d[spdf])/g, (_match, letter: string, count: string) =>
+      letter +
+      count
         .split("")
         .map((d) => "⁰¹²³⁴⁵⁶⁷⁸⁹"[parseInt(d)])
         .join("")
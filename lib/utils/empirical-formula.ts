@@ -0,0 +1,203 @@
+/**
+ * Empirical Formula Utility
+ *
+ * Turns mass percentages or combustion-analysis masses into an empirical
+ * formula, and scales it to the molecular formula when the molar mass is known.
+ *
+ * @module empirical-formula
+ */
+
+import { Element } from "@/lib/types/element";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface CombustionAnalysis {
+  sampleMass: number; // g of compound burned
+  co2Mass: number; // g of CO₂ collected
+  h2oMass: number; // g of H₂O collected
+}
+
+export interface PercentageResult {
+  success: boolean;
+  percentages?: Record<string, number>;
+  error?: string;
+}
+
+export interface FormulaResult {
+  success: boolean;
+  counts?: Record<string, number>;
+  formula?: string;
+  mass?: number; // g/mol
+  multiplier?: number; // Molecular formula only: units of the empirical formula
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Mole ratios within this of a whole number are rounded to it
+const RATIO_TOLERANCE = 0.1;
+
+// Largest factor tried when clearing fractional ratios like 1.5 or 1.33
+const MAX_RATIO_MULTIPLIER = 10;
+
+// Allowed relative error between the molar mass and a whole number of empirical units
+const MOLAR_MASS_TOLERANCE = 0.05;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Writes counts in Hill order: C, then H, then the rest alphabetically
+ * (all alphabetical when there is no carbon)
+ */
+export function formatHillFormula(counts: Record<string, number>): string {
+  const symbols = Object.keys(counts).filter(symbol => counts[symbol] > 0);
+  const hasCarbon = symbols.includes("C");
+  const ordered = symbols.sort((a, b) => {
+    if (hasCarbon) {
+      const rank = (s: string) => (s === "C" ? 0 : s === "H" ? 1 : 2);
+      if (rank(a) !== rank(b)) return rank(a) - rank(b);
+    }
+    return a.localeCompare(b);
+  });
+  return ordered.map(symbol => (counts[symbol] === 1 ? symbol : `${symbol}${counts[symbol]}`)).join("");
+}
+
+function formulaMass(counts: Record<string, number>, elementLookup: Map<string, Element>): number {
+  return Object.entries(counts).reduce(
+    (sum, [symbol, count]) => sum + elementLookup.get(symbol)!.atomicMass * count,
+    0
+  );
+}
+
+// ============================================================================
+// SOLVERS
+// ============================================================================
+
+/**
+ * Converts combustion masses to C/H/O mass percentages
+ *
+ * All carbon ends up in CO₂ and all hydrogen in H₂O; whatever sample mass is
+ * left over is assumed to be oxygen.
+ */
+export function combustionToPercentages(
+  analysis: CombustionAnalysis,
+  elementLookup: Map<string, Element>
+): PercentageResult {
+  const { sampleMass, co2Mass, h2oMass } = analysis;
+  if (!(sampleMass > 0) || !(co2Mass >= 0) || !(h2oMass >= 0)) {
+    return { success: false, error: "Enter positive masses for the sample, CO₂ and H₂O" };
+  }
+
+  const C = elementLookup.get("C")?.atomicMass;
+  const H = elementLookup.get("H")?.atomicMass;
+  const O = elementLookup.get("O")?.atomicMass;
+  if (!C || !H || !O) {
+    return { success: false, error: "Element data for C, H and O is required" };
+  }
+
+  const carbonMass = co2Mass * (C / (C + 2 * O));
+  const hydrogenMass = h2oMass * ((2 * H) / (2 * H + O));
+  const oxygenMass = sampleMass - carbonMass - hydrogenMass;
+
+  // Allow a little rounding in the measured masses
+  if (oxygenMass < -0.005 * sampleMass) {
+    return { success: false, error: "CO₂ and H₂O contain more C and H than the sample mass allows" };
+  }
+
+  const percentages: Record<string, number> = {
+    C: (carbonMass / sampleMass) * 100,
+    H: (hydrogenMass / sampleMass) * 100,
+  };
+  if (oxygenMass > 0.005 * sampleMass) {
+    percentages.O = (oxygenMass / sampleMass) * 100;
+  }
+  return { success: true, percentages };
+}
+
+/**
+ * Finds the smallest whole-number mole ratio for the given mass percentages
+ *
+ * Percentages are treated as grams in a 100 g sample, so they need not add
+ * up to exactly 100.
+ */
+export function solveEmpiricalFormula(
+  percentages: Record<string, number>,
+  elementLookup: Map<string, Element>
+): FormulaResult {
+  const entries = Object.entries(percentages).filter(([, percent]) => percent > 0);
+  if (entries.length === 0) {
+    return { success: false, error: "Enter at least one element percentage" };
+  }
+
+  const unknown = entries.filter(([symbol]) => !elementLookup.has(symbol)).map(([symbol]) => symbol);
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown element: ${unknown.join(", ")}` };
+  }
+
+  const total = entries.reduce((sum, [, percent]) => sum + percent, 0);
+  if (total > 101) {
+    return { success: false, error: `Percentages add up to ${total.toFixed(1)}%, more than 100%` };
+  }
+
+  const moles = entries.map(([symbol, percent]) => percent / elementLookup.get(symbol)!.atomicMass);
+  const smallest = Math.min(...moles);
+  const ratios = moles.map(n => n / smallest);
+
+  for (let multiplier = 1; multiplier <= MAX_RATIO_MULTIPLIER; multiplier++) {
+    const scaled = ratios.map(r => r * multiplier);
+    if (scaled.every(r => Math.abs(r - Math.round(r)) <= RATIO_TOLERANCE)) {
+      const counts: Record<string, number> = {};
+      entries.forEach(([symbol], i) => {
+        counts[symbol] = Math.round(scaled[i]);
+      });
+      return {
+        success: true,
+        counts,
+        formula: formatHillFormula(counts),
+        mass: formulaMass(counts, elementLookup),
+      };
+    }
+  }
+
+  return { success: false, error: "No whole-number ratio fits these percentages" };
+}
+
+/**
+ * Scales an empirical formula up to the given molar mass
+ */
+export function solveMolecularFormula(
+  empiricalCounts: Record<string, number>,
+  molarMass: number,
+  elementLookup: Map<string, Element>
+): FormulaResult {
+  const empiricalMass = formulaMass(empiricalCounts, elementLookup);
+  if (!(molarMass > 0) || empiricalMass === 0) {
+    return { success: false, error: "Enter a positive molar mass" };
+  }
+
+  const multiplier = Math.round(molarMass / empiricalMass);
+  if (multiplier < 1 || Math.abs(molarMass - multiplier * empiricalMass) > MOLAR_MASS_TOLERANCE * molarMass) {
+    return {
+      success: false,
+      error: `${molarMass} g/mol is not a whole multiple of the empirical mass (${empiricalMass.toFixed(2)} g/mol)`,
+    };
+  }
+
+  const counts: Record<string, number> = {};
+  Object.entries(empiricalCounts).forEach(([symbol, count]) => {
+    counts[symbol] = count * multiplier;
+  });
+  return {
+    success: true,
+    counts,
+    formula: formatHillFormula(counts),
+    mass: empiricalMass * multiplier,
+    multiplier,
+  };
+}
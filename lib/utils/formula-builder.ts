@@ -0,0 +1,825 @@
+import { Element } from "@/lib/types/element";
+import { BondType } from "@/lib/types/compound";
+import { POLYATOMIC_IONS, PolyatomicIon, parseFormula } from "./chemical-validation";
+import { getValence, isMetal } from "./chemistry-helpers";
+import { findLigand, isTransitionMetal } from "./coordination-complex";
+import { generateLewisStructure } from "./lewis-structure";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface FormulaAtom {
+  symbol: string;
+  position: { x: number; y: number };
+  fragment: number; // Index of the connected piece (hydrate waters are separate pieces)
+}
+
+export interface FormulaBond {
+  from: number; // Index into atoms
+  to: number;
+  bondType: BondType;
+}
+
+export interface FormulaStructure {
+  atoms: FormulaAtom[];
+  bonds: FormulaBond[];
+  charge: number; // Overall charge written on the formula ("SO4^2-" → -2)
+}
+
+export interface FormulaStructureResult {
+  success: boolean;
+  structure?: FormulaStructure;
+  error?: string;
+}
+
+export interface ParsedFormulaParts {
+  parts: Array<{ text: string; multiplier: number }>; // "CuSO4·5H2O" → CuSO4 ×1, H2O ×5
+  charge: number;
+}
+
+interface BuildAtom {
+  symbol: string;
+  free: number; // Valence not yet used by bonds
+}
+
+interface BuildBond {
+  a: number;
+  b: number;
+  order: number;
+  ionic: boolean;
+  dative?: boolean; // Ligand → metal; uses no valence
+}
+
+// Where a condensed organic formula ("CH3COOH") puts each atom, in written order
+interface CondensedLayout {
+  // Carbon index the atom joins (its own index for carbons); a carbon with
+  // "via" hangs off that heteroatom instead of the previous carbon (CH3OCH3)
+  heavy: Array<{ symbol: string; carbon: number; via?: number }>;
+  hydrogens: number[]; // Hydrogens on each heavy atom
+}
+
+// Atoms and bonds of one ion or molecule, plus the sites its charge leaves open
+interface BuiltFragment {
+  atoms: number[];
+  openSites: number[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+const SUPERSCRIPT_CHARS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+// Valence of an atom on the outside of a molecule (no expanded octet)
+const TERMINAL_VALENCE: Record<string, number> = {
+  H: 1, F: 1, Cl: 1, Br: 1, I: 1,
+  O: 2, S: 2, Se: 2,
+  N: 3, P: 3,
+  C: 4, Si: 4,
+};
+
+// Elements that bond to themselves; others are bridged by oxygen (Cl–O–Cl)
+const CATENATING = new Set(["C", "Si", "N", "S"]);
+
+// Centres that hold hydrogen themselves; their oxygens take one only when left without a double bond
+const HYDRIDE_CENTERS = new Set(["C", "Si", "B"]);
+
+const HALOGENS = new Set(["F", "Cl", "Br", "I"]);
+
+const BOND_LENGTH = 100;
+const FRAGMENT_GAP = 140;
+const MAX_ROW_WIDTH = 600;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Splits a formula into hydrate parts and an overall charge
+ * Charges may be written "NH4+", "SO4^2-", "SO4 2-" or "SO₄²⁻"; after a
+ * complex's brackets the digits are always the charge: "[Cu(NH3)4]2+".
+ */
+export function parseFormulaParts(formula: string): ParsedFormulaParts | null {
+  let text = formula
+    .trim()
+    .replace(/[−–]/g, "-")
+    .replace(/[₀-₉]/g, (d) => String(SUBSCRIPT_DIGITS.indexOf(d)));
+
+  // Superscripts are always a charge
+  const superscript = text.match(/([⁰¹²³⁴⁵⁶⁷⁸⁹]*)([⁺⁻])$/);
+  if (superscript) {
+    const digits = superscript[1].replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, (d) => String(SUPERSCRIPT_CHARS.indexOf(d)));
+    text = `${text.slice(0, superscript.index).trim()}^${digits}${superscript[2] === "⁺" ? "+" : "-"}`;
+  }
+
+  let charge = 0;
+  const explicit = text.match(/(?:\^|\s|(?<=\]))\s*(\d*)([+-])$/);
+  const signs = text.match(/([+-]+)$/);
+  if (explicit) {
+    charge = (explicit[1] ? parseInt(explicit[1]) : 1) * (explicit[2] === "+" ? 1 : -1);
+    text = text.slice(0, explicit.index).replace(/\^$/, "").trim();
+  } else if (signs) {
+    charge = signs[1].length * (signs[1][0] === "+" ? 1 : -1);
+    text = text.slice(0, signs.index).trim();
+  }
+
+  // Ligand abbreviations inside complexes: [Co(en)3]3+
+  text = text.replace(/\(([a-z]+)\)/g, (match, abbreviation: string) => {
+    const ligand = findLigand(abbreviation);
+    return ligand ? `(${ligand.formula})` : match;
+  });
+
+  if (!text || !parseFormula(text)) return null;
+
+  const parts = text.split(/[·•*.]/).map((part) => {
+    const hydrate = part.match(/^(\d+)(.*)$/);
+    return hydrate ? { text: hydrate[2], multiplier: parseInt(hydrate[1]) } : { text: part, multiplier: 1 };
+  });
+
+  return { parts, charge };
+}
+
+// Top-level pieces of a formula: "Ca(OH)2" → Ca ×1, (OH) ×2
+function splitUnits(text: string): Array<{ text: string; count: number; group: boolean }> {
+  const units: Array<{ text: string; count: number; group: boolean }> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    let unitText: string;
+    let group = false;
+
+    if (text[i] === "(" || text[i] === "[") {
+      let depth = 0;
+      let j = i;
+      do {
+        if (text[j] === "(" || text[j] === "[") depth++;
+        if (text[j] === ")" || text[j] === "]") depth--;
+        j++;
+      } while (depth > 0 && j < text.length);
+      unitText = text.slice(i + 1, j - 1);
+      group = true;
+      i = j;
+    } else {
+      const symbol = text.slice(i).match(/^[A-Z][a-z]?/);
+      unitText = symbol ? symbol[0] : text[i];
+      i += unitText.length;
+    }
+
+    const digits = text.slice(i).match(/^\d+/);
+    i += digits ? digits[0].length : 0;
+    units.push({ text: unitText, count: digits ? parseInt(digits[0]) : 1, group });
+  }
+
+  return units;
+}
+
+function findIon(text: string): PolyatomicIon | undefined {
+  return POLYATOMIC_IONS.find((ion) => ion.formula === text);
+}
+
+/**
+ * Reads a condensed organic formula one carbon at a time: each heteroatom
+ * joins the latest carbon and each hydrogen the latest heavy atom (the next
+ * one when none came yet), so "CH3COOH" puts both oxygens on the second
+ * carbon and the last hydrogen on an oxygen. A carbon after an O, N or S that
+ * isn't a carbonyl ("CO") is bonded through it: CH3OCH3, CH3COOCH3. Null for
+ * formulas that don't spell out their carbons singly, such as "C2H5OH" or
+ * "(CH3)3COH".
+ */
+function readCondensedLayout(text: string): CondensedLayout | null {
+  const layout: CondensedLayout = { heavy: [], hydrogens: [] };
+  let carbons = 0;
+  let pendingHydrogens = 0;
+  const pendingHeteroatoms: number[] = [];
+  let previous: "carbon" | "hydrogen" | "heteroatom" | "group" | null = null;
+  let bridge: number | null = null;
+
+  const expand = (unitText: string, count: number, nested: boolean): boolean => {
+    for (let n = 0; n < count; n++) {
+      for (const unit of splitUnits(unitText)) {
+        if (unit.group) {
+          if (!expand(unit.text, unit.count, true)) return false;
+          previous = "group";
+          continue;
+        }
+        if (unit.text === "H") {
+          if (layout.heavy.length === 0) pendingHydrogens += unit.count;
+          else layout.hydrogens[layout.heavy.length - 1] += unit.count;
+          if (!nested) previous = "hydrogen";
+          continue;
+        }
+        if (unit.text === "C" && (unit.count > 1 || count > 1)) return false;
+        for (let i = 0; i < unit.count; i++) {
+          if (unit.text === "C") {
+            pendingHeteroatoms.forEach((atom) => (layout.heavy[atom].carbon = carbons));
+            pendingHeteroatoms.length = 0;
+            const via = !nested && previous === "heteroatom" && bridge !== null ? bridge : undefined;
+            layout.heavy.push({ symbol: "C", carbon: carbons++, ...(via !== undefined && { via }) });
+            if (!nested) previous = "carbon";
+          } else {
+            if (carbons === 0) pendingHeteroatoms.push(layout.heavy.length);
+            const carbonyl = previous === "carbon";
+            bridge = !nested && !carbonyl && carbons > 0 && (TERMINAL_VALENCE[unit.text] ?? 1) >= 2 ? layout.heavy.length : null;
+            layout.heavy.push({ symbol: unit.text, carbon: carbons - 1 });
+            if (!nested) previous = "heteroatom";
+          }
+          layout.hydrogens.push(pendingHydrogens);
+          pendingHydrogens = 0;
+        }
+      }
+    }
+    return true;
+  };
+
+  if (!expand(text, 1, false) || carbons === 0 || pendingHeteroatoms.length > 0 || pendingHydrogens > 0) return null;
+  return layout;
+}
+
+// ============================================================================
+// STRUCTURE BUILDER
+// ============================================================================
+
+class StructureBuilder {
+  atoms: BuildAtom[] = [];
+  bonds: BuildBond[] = [];
+
+  constructor(private elements: Map<string, Element>) {}
+
+  isMetalAtom(index: number): boolean {
+    const element = this.elements.get(this.atoms[index].symbol);
+    return !!element && isMetal(element);
+  }
+
+  addAtom(symbol: string, valence: number): number {
+    this.atoms.push({ symbol, free: valence });
+    return this.atoms.length - 1;
+  }
+
+  // Metal–nonmetal bonds are ionic unless both atoms belong to one polyatomic ion
+  bond(a: number, b: number, ionic: boolean = this.isMetalAtom(a) !== this.isMetalAtom(b)) {
+    this.bonds.push({ a, b, order: 1, ionic });
+    this.atoms[a].free--;
+    this.atoms[b].free--;
+  }
+
+  valence(symbol: string): number {
+    const element = this.elements.get(symbol);
+    return element ? getValence(element) : 1;
+  }
+
+  /**
+   * Builds one neutral molecule or ion from element counts
+   *
+   * The least electronegative heavy element is the centre; other heavy atoms
+   * are spread over the centres, hydrogens go to oxygen in oxyacids and to
+   * the centre otherwise, and remaining valence becomes double or triple
+   * bonds. An ion keeps one open site per unit of negative charge. A
+   * condensed layout, when given for a carbon-centred molecule, says which
+   * carbon each heteroatom and hydrogen goes to.
+   */
+  buildMolecule(
+    counts: Record<string, number>,
+    charge: number,
+    polyatomicIon = false,
+    layout: CondensedLayout | null = null
+  ): BuiltFragment {
+    const symbols = Object.entries(counts).flatMap(([symbol, n]) => Array<string>(n).fill(symbol));
+    const heavySymbols = symbols.filter((s) => s !== "H");
+
+    // Homonuclear molecules (H2, O2, N2, O3) are chains
+    if (new Set(symbols).size === 1) {
+      const atoms = symbols.map((s) => this.addAtom(s, TERMINAL_VALENCE[s] ?? this.valence(s)));
+      for (let i = 1; i < atoms.length; i++) this.bond(atoms[i - 1], atoms[i]);
+      const openSites = this.reserveSites(atoms.slice(-1), atoms, -charge);
+      this.raiseBondOrders(atoms);
+      return { atoms, openSites };
+    }
+
+    const centerSymbol = heavySymbols.reduce((best, s) =>
+      (this.elements.get(s)?.electronegativity ?? 4) < (this.elements.get(best)?.electronegativity ?? 4) ? s : best
+    );
+
+    // The centre may need more than its usual valence: its oxidation state
+    // (from O = -2, halogens = -1, H = +1) covers MnO4⁻, XeF4 and friends
+    const centerCount = counts[centerSymbol];
+    const oxidation =
+      (charge +
+        2 * (counts.O || 0) * (centerSymbol === "O" ? 0 : 1) +
+        Object.entries(counts)
+          .filter(([s]) => HALOGENS.has(s) && s !== centerSymbol)
+          .reduce((sum, [, n]) => sum + n, 0) -
+        (counts.H || 0)) /
+      centerCount;
+    const centerElement = this.elements.get(centerSymbol);
+    const centerValence = Math.min(
+      Math.max(this.valence(centerSymbol) + Math.max(charge, 0), Math.round(oxidation)),
+      centerElement && centerElement.period <= 2 ? 4 : 8
+    );
+
+    const centers = heavySymbols
+      .filter((s) => s === centerSymbol)
+      .map(() => this.addAtom(centerSymbol, centerValence));
+    const covalent = polyatomicIon ? false : undefined;
+    const terminalSymbols = [...heavySymbols];
+    centers.forEach(() => terminalSymbols.splice(terminalSymbols.indexOf(centerSymbol), 1));
+
+    const written = centerSymbol === "C" && layout?.heavy.filter((a) => a.symbol === "C").length === centers.length ? layout : null;
+    const writtenCarbons = written?.heavy.filter((a) => a.symbol === "C") ?? [];
+
+    // Link the centres directly or through bridging oxygens
+    for (let i = 1; i < centers.length; i++) {
+      if (writtenCarbons[i]?.via !== undefined) continue;
+      const oxygen = terminalSymbols.indexOf("O");
+      if (!CATENATING.has(centerSymbol) && oxygen !== -1) {
+        terminalSymbols.splice(oxygen, 1);
+        const bridge = this.addAtom("O", 2);
+        this.bond(centers[i - 1], bridge, covalent);
+        this.bond(bridge, centers[i], covalent);
+      } else {
+        this.bond(centers[i - 1], centers[i], covalent);
+      }
+    }
+
+    const writtenTerminals = written?.heavy.filter((a) => a.symbol !== "C") ?? [];
+    const terminals = (written ? writtenTerminals.map((a) => a.symbol) : terminalSymbols).map((s, i) => {
+      const atom = this.addAtom(s, TERMINAL_VALENCE[s] ?? this.valence(s));
+      const writtenCenter = written ? centers[writtenTerminals[i].carbon] : undefined;
+      this.bond(writtenCenter !== undefined && this.atoms[writtenCenter].free > 0 ? writtenCenter : this.mostFree(centers), atom, covalent);
+      return atom;
+    });
+
+    // Carbons written after an ether or ester oxygen hang off it
+    writtenCarbons.forEach((carbon, i) => {
+      if (carbon.via === undefined) return;
+      const bridge = terminals[writtenTerminals.indexOf(written!.heavy[carbon.via])];
+      this.bond(this.atoms[bridge].free > 0 ? bridge : this.mostFree(centers.slice(0, i)), centers[i], covalent);
+    });
+
+    const heavy = [...centers, ...terminals];
+    const allAtoms = [...heavy];
+
+    // Anions keep open sites on terminal oxygens (or the centre) for counter-ions
+    const oxygens = terminals.filter((t) => this.atoms[t].symbol === "O");
+    const openSites = this.reserveSites(oxygens.length > 0 ? oxygens : centers, heavy, -charge);
+
+    // Hydrogens written next to an atom go there first
+    const hydrogenCount = symbols.length - heavySymbols.length;
+    const writtenTargets: number[] = [];
+    if (written) {
+      let centerIndex = 0;
+      let terminalIndex = 0;
+      written.heavy.forEach((a, i) => {
+        const atom = a.symbol === "C" ? centers[centerIndex++] : terminals[terminalIndex++];
+        for (let n = 0; n < written.hydrogens[i]; n++) writtenTargets.push(atom);
+      });
+    } else if (HYDRIDE_CENTERS.has(centerSymbol) && oxygens.length > 0) {
+      // Valence the hydrogens can't fill becomes multiple bonds. Spend it on
+      // C=O first, so an oxygen never ends up with a free valence after the
+      // carbons have taken every hydrogen (CH3CHO, HCOOH)
+      let spare = heavy.reduce((sum, a) => sum + this.atoms[a].free, 0) - hydrogenCount;
+      for (const oxygen of oxygens) {
+        const bond = this.bonds.find((b) => !b.ionic && (b.a === oxygen || b.b === oxygen));
+        const carbon = bond && (bond.a === oxygen ? bond.b : bond.a);
+        if (spare < 2 || !bond || carbon === undefined || this.atoms[oxygen].free === 0 || this.atoms[carbon].free === 0) continue;
+        bond.order++;
+        this.atoms[oxygen].free--;
+        this.atoms[carbon].free--;
+        spare -= 2;
+      }
+    }
+
+    // Oxygens that got no double bond take a hydrogen before the centres fill up
+    const hydroxylFirst = oxygens.length > 0 && (!HYDRIDE_CENTERS.has(centerSymbol) || !written);
+    for (let i = 0; i < hydrogenCount; i++) {
+      const oxygenSite = oxygens.find((o) => this.atoms[o].free > 0 && !this.hasHydrogen(o));
+      const openCenters = centers.filter((c) => this.atoms[c].free > 0);
+      const writtenTarget = writtenTargets[i] !== undefined && this.atoms[writtenTargets[i]].free > 0 ? writtenTargets[i] : undefined;
+      const target =
+        writtenTarget ??
+        (hydroxylFirst && oxygenSite !== undefined ? oxygenSite : undefined) ??
+        (openCenters.length > 0 && !this.isMetalAtom(centers[0]) ? this.mostFree(openCenters) : undefined) ??
+        terminals.find((a) => this.atoms[a].free > 0 && !this.isMetalAtom(a)) ??
+        this.mostFree(centers);
+      const hydrogen = this.addAtom("H", 1);
+      this.bond(target, hydrogen);
+      allAtoms.push(hydrogen);
+    }
+
+    this.raiseBondOrders(heavy);
+    return { atoms: allAtoms, openSites };
+  }
+
+  hasHydrogen(index: number): boolean {
+    return this.bonds.some(
+      (b) => (b.a === index && this.atoms[b.b].symbol === "H") || (b.b === index && this.atoms[b.a].symbol === "H")
+    );
+  }
+
+  mostFree(candidates: number[]): number {
+    return candidates.reduce((best, c) => (this.atoms[c].free > this.atoms[best].free ? c : best));
+  }
+
+  // Take one valence per site from the candidates, most electronegative first
+  reserveSites(candidates: number[], fallback: number[], count: number): number[] {
+    const sites: number[] = [];
+    const ordered = [...candidates, ...fallback].filter((a, i, list) => list.indexOf(a) === i);
+    for (let n = 0; n < count; n++) {
+      const site = ordered.find((a) => this.atoms[a].free > 0 && !sites.includes(a)) ?? ordered.find((a) => this.atoms[a].free > 0);
+      if (site === undefined) break;
+      this.atoms[site].free--;
+      sites.push(site);
+    }
+    return sites;
+  }
+
+  // Spend leftover valence on multiple bonds between heavy atoms
+  raiseBondOrders(heavy: number[]) {
+    const members = new Set(heavy);
+    let raised = true;
+    while (raised) {
+      raised = false;
+      for (const bond of this.bonds) {
+        if (bond.ionic || bond.dative || bond.order >= 3 || !members.has(bond.a) || !members.has(bond.b)) continue;
+        if (this.atoms[bond.a].free > 0 && this.atoms[bond.b].free > 0) {
+          bond.order++;
+          this.atoms[bond.a].free--;
+          this.atoms[bond.b].free--;
+          raised = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds one hydrate part: salts and acids are split into a cation part and
+   * polyatomic ions from POLYATOMIC_IONS, anything else is one molecule.
+   */
+  buildPart(text: string, charge: number): number[] {
+    const whole = findIon(text);
+    if (whole) {
+      return this.buildMolecule(whole.atoms, charge || whole.charge, true).atoms;
+    }
+
+    const complex = text.match(/^([^[]*)\[([^\]]+)\](.*)$/);
+    if (complex) {
+      const built = this.buildComplexSalt(complex[1], complex[2], complex[3]);
+      if (built) return built;
+    }
+
+    const units = splitUnits(text);
+    const first = units[0];
+    const firstElement = !first.group ? this.elements.get(first.text) : undefined;
+    // NH4⁺ written bare ("NH4Cl") or grouped ("(NH4)2SO4")
+    const ammoniumGroup = first.group && first.text === "NH4";
+    const ammonium = ammoniumGroup || (text.startsWith("NH4") && !/^\d/.test(text.slice(3)));
+    const leadingCation = ammonium || first.text === "H" || (!!firstElement && isMetal(firstElement));
+
+    if (leadingCation && units.length > 1) {
+      const cationLength = ammonium && !ammoniumGroup ? 2 : 1;
+      const rest = units.slice(cationLength);
+      const restText = text.slice(
+        ammoniumGroup
+          ? `(NH4)${first.count > 1 ? first.count : ""}`.length
+          : ammonium
+            ? 3
+            : `${first.text}${first.count > 1 ? first.count : ""}`.length
+      );
+
+      let anions: Array<{ ion?: PolyatomicIon; symbol?: string }> = [];
+      if (rest.length === 1 && rest[0].group && findIon(rest[0].text)) {
+        anions = Array(rest[0].count).fill({ ion: findIon(rest[0].text) });
+      } else if (findIon(restText)) {
+        anions = [{ ion: findIon(restText) }];
+      } else if (ammonium && rest.every((u) => !u.group)) {
+        anions = rest.flatMap((u) => Array(u.count).fill({ symbol: u.text }));
+      }
+
+      if (anions.length > 0) {
+        return this.buildSalt(ammonium ? null : first.text, ammoniumGroup || !ammonium ? first.count : 1, anions);
+      }
+    }
+
+    const counts = parseFormula(text);
+    return counts ? this.buildMolecule(counts, charge, false, readCondensedLayout(text)).atoms : [];
+  }
+
+  // Connect cations (metal atoms, H or NH4⁺) to the open sites of the anions
+  buildSalt(
+    cationSymbol: string | null,
+    cationCount: number,
+    anions: Array<{ ion?: PolyatomicIon; symbol?: string }>
+  ): number[] {
+    const atoms: number[] = [];
+    const siteLists: number[][] = [];
+
+    for (const anion of anions) {
+      if (anion.ion) {
+        const fragment = this.buildMolecule(anion.ion.atoms, anion.ion.charge, true);
+        atoms.push(...fragment.atoms);
+        siteLists.push(fragment.openSites);
+      } else if (anion.symbol) {
+        const atom = this.addAtom(anion.symbol, TERMINAL_VALENCE[anion.symbol] ?? this.valence(anion.symbol));
+        atoms.push(atom);
+        siteLists.push([atom]);
+      }
+    }
+
+    // Interleave so each cation reaches different anions: Fe2(SO4)3 gives each Fe three sulfates
+    const sites: number[] = [];
+    const longest = Math.max(...siteLists.map((list) => list.length));
+    for (let i = 0; i < longest; i++) {
+      siteLists.forEach((list) => {
+        if (i < list.length) sites.push(list[i]);
+      });
+    }
+
+    const cations: Array<{ atom: number; needs: number; ionic: boolean }> = [];
+    if (cationSymbol === null) {
+      // Each NH4⁺ takes one site; a lone one takes them all (NH4 before a bare anion)
+      for (let i = 0; i < cationCount; i++) {
+        const ammonium = this.buildMolecule({ N: 1, H: 4 }, 1, true);
+        atoms.push(...ammonium.atoms);
+        cations.push({ atom: ammonium.atoms[0], needs: cationCount === 1 ? sites.length : 1, ionic: true });
+      }
+    } else {
+      for (let i = 0; i < cationCount; i++) {
+        const valence = cationSymbol === "H" ? 1 : this.valence(cationSymbol);
+        const atom = this.addAtom(cationSymbol, valence);
+        atoms.push(atom);
+        cations.push({ atom, needs: valence, ionic: cationSymbol !== "H" });
+      }
+    }
+
+    for (const cation of cations) {
+      for (let n = 0; n < cation.needs && sites.length > 0; n++) {
+        const site = sites.shift()!;
+        this.bond(cation.atom, site, cation.ionic);
+        // The site's valence was already reserved
+        this.atoms[site].free++;
+      }
+    }
+
+    return atoms;
+  }
+
+  /**
+   * Builds a coordination complex such as "Cu(NH3)4" (the text inside the
+   * brackets): each ligand from LIGANDS is built on its own and joined to
+   * the metal by dative bonds from its donor atoms. Null when the metal or a
+   * ligand is not recognised.
+   */
+  buildComplex(text: string): { metal: number; atoms: number[] } | null {
+    const units = splitUnits(text);
+    const metalElement = units[0] && !units[0].group ? this.elements.get(units[0].text) : undefined;
+    if (!metalElement || !isTransitionMetal(metalElement) || units[0].count !== 1) return null;
+
+    const ligands = units.slice(1).map((unit) => ({ ligand: findLigand(unit.text), count: unit.count }));
+    if (ligands.length === 0 || ligands.some(({ ligand }) => !ligand)) return null;
+
+    const metal = this.addAtom(metalElement.symbol, 0);
+    const atoms = [metal];
+    for (const { ligand, count } of ligands) {
+      for (let n = 0; n < count; n++) {
+        const fragment = this.buildMolecule(ligand!.atoms, ligand!.charge, true);
+        atoms.push(...fragment.atoms);
+
+        // Anionic ligands donate from the site their charge left open (C in CN⁻)
+        const donors = [...fragment.openSites, ...fragment.atoms]
+          .filter((a, i, list) => list.indexOf(a) === i && ligand!.donors.includes(this.atoms[a].symbol))
+          .slice(0, ligand!.denticity);
+        donors.forEach((donor) => this.bonds.push({ a: donor, b: metal, order: 1, ionic: false, dative: true }));
+      }
+    }
+
+    return { metal, atoms };
+  }
+
+  // A complex with its counter-ions: "K3" before the brackets, "SO4" or "Cl2" after
+  buildComplexSalt(before: string, inside: string, after: string): number[] | null {
+    const complex = this.buildComplex(inside);
+    if (!complex) return null;
+    const atoms = [...complex.atoms];
+
+    const cations = before ? splitUnits(before) : [];
+    for (const unit of cations) {
+      for (let n = 0; n < unit.count; n++) {
+        const cation = this.addAtom(unit.text, this.valence(unit.text));
+        this.bond(cation, complex.metal, true);
+        atoms.push(cation);
+      }
+    }
+
+    const anionUnits = after ? splitUnits(after) : [];
+    const anions: Array<{ ion?: PolyatomicIon; symbol?: string }> = findIon(after)
+      ? [{ ion: findIon(after) }]
+      : anionUnits.flatMap((unit) =>
+          Array(unit.count).fill(unit.group || findIon(unit.text) ? { ion: findIon(unit.text) } : { symbol: unit.text })
+        );
+    for (const anion of anions) {
+      if (anion.ion) {
+        const fragment = this.buildMolecule(anion.ion.atoms, anion.ion.charge, true);
+        atoms.push(...fragment.atoms);
+        fragment.openSites.forEach((site) => {
+          this.bond(complex.metal, site, true);
+          this.atoms[site].free++;
+        });
+      } else if (anion.symbol) {
+        const atom = this.addAtom(anion.symbol, TERMINAL_VALENCE[anion.symbol] ?? this.valence(anion.symbol));
+        this.bond(complex.metal, atom, true);
+        atoms.push(atom);
+      }
+    }
+
+    return atoms;
+  }
+}
+
+// ============================================================================
+// BOND ORDERS
+// ============================================================================
+
+/**
+ * Covalent bond orders from the Lewis structure of the built skeleton, by
+ * bond index (SO₃ gets three S=O, CO a C≡O); null for ionic and dative bonds
+ * or when the skeleton has no Lewis structure
+ */
+function lewisBondOrders(
+  atoms: BuildAtom[],
+  bonds: BuildBond[],
+  charge: number,
+  elements: Map<string, Element>
+): Array<number | null> {
+  const lewis = generateLewisStructure(
+    atoms.map((atom, i) => ({ elementId: `${i}`, symbol: atom.symbol, count: 1 })),
+    bonds.map((bond, i) => ({
+      id: `${i}`,
+      fromElementId: `${bond.a}`,
+      toElementId: `${bond.b}`,
+      bondType: bond.dative ? "dative" : bond.ionic ? "ionic" : "single",
+    })),
+    elements,
+    charge
+  );
+  return bonds.map((bond, i) => {
+    const order = lewis.structure?.bonds[i]?.order ?? 0;
+    return bond.ionic || bond.dative || order < 1 || order > 3 ? null : order;
+  });
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Radial tree layout around the best-connected atom of each fragment;
+ * fragments are placed side by side and the whole drawing is centred
+ */
+function layoutStructure(
+  atomCount: number,
+  bonds: BuildBond[],
+  center: { x: number; y: number }
+): Array<{ position: { x: number; y: number }; fragment: number }> {
+  const neighbors: number[][] = Array.from({ length: atomCount }, () => []);
+  bonds.forEach(({ a, b }) => {
+    neighbors[a].push(b);
+    neighbors[b].push(a);
+  });
+
+  const placed: Array<{ position: { x: number; y: number }; fragment: number } | null> = Array(atomCount).fill(null);
+  let offsetX = 0;
+  let offsetY = 0;
+  let rowHeight = 0;
+  let fragment = 0;
+
+  for (let start = 0; start < atomCount; start++) {
+    if (placed[start]) continue;
+
+    // Collect the fragment and root it at its best-connected atom
+    const members: number[] = [];
+    const stack = [start];
+    const seen = new Set([start]);
+    while (stack.length > 0) {
+      const atom = stack.pop()!;
+      members.push(atom);
+      neighbors[atom].forEach((n) => {
+        if (!seen.has(n)) {
+          seen.add(n);
+          stack.push(n);
+        }
+      });
+    }
+    const root = members.reduce((best, m) => (neighbors[m].length > neighbors[best].length ? m : best));
+
+    const positions = new Map<number, { x: number; y: number }>([[root, { x: 0, y: 0 }]]);
+    const queue: Array<{ atom: number; angle: number | null }> = [{ atom: root, angle: null }];
+    while (queue.length > 0) {
+      const { atom, angle } = queue.shift()!;
+      const children = neighbors[atom].filter((n) => !positions.has(n));
+      const origin = positions.get(atom)!;
+
+      children.forEach((child, i) => {
+        const childAngle =
+          angle === null
+            ? Math.PI + (i * 2 * Math.PI) / children.length
+            : angle + (i - (children.length - 1) / 2) * (children.length > 1 ? Math.min(Math.PI / 3, Math.PI / (children.length - 1)) : 0);
+        positions.set(child, {
+          x: origin.x + BOND_LENGTH * Math.cos(childAngle),
+          y: origin.y + BOND_LENGTH * Math.sin(childAngle),
+        });
+        queue.push({ atom: child, angle: childAngle });
+      });
+    }
+
+    // Fragments fill rows left to right (a hydrate's waters wrap below the salt)
+    const xs = Array.from(positions.values()).map((p) => p.x);
+    const ys = Array.from(positions.values()).map((p) => p.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (offsetX > 0 && offsetX + width > MAX_ROW_WIDTH) {
+      offsetX = 0;
+      offsetY += rowHeight + FRAGMENT_GAP;
+      rowHeight = 0;
+    }
+
+    const shiftX = offsetX - Math.min(...xs);
+    const shiftY = offsetY - Math.min(...ys);
+    positions.forEach((p, atom) => {
+      placed[atom] = { position: { x: p.x + shiftX, y: p.y + shiftY }, fragment };
+    });
+    offsetX += width + FRAGMENT_GAP;
+    rowHeight = Math.max(rowHeight, height);
+    fragment++;
+  }
+
+  // Centre the drawing on the requested point
+  const all = placed.map((p) => p!.position);
+  const midX = (Math.min(...all.map((p) => p.x)) + Math.max(...all.map((p) => p.x))) / 2;
+  const midY = (Math.min(...all.map((p) => p.y)) + Math.max(...all.map((p) => p.y))) / 2;
+  return placed.map((p) => ({
+    fragment: p!.fragment,
+    position: {
+      x: Math.round(p!.position.x - midX + center.x),
+      y: Math.round(p!.position.y - midY + center.y),
+    },
+  }));
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Proposes a bonded structure for a formula such as "H2SO4", "Ca(OH)2",
+ * "CuSO4·5H2O" or "NH4+"
+ *
+ * `elements` must contain every element in the formula. The builder only
+ * places atoms; bond orders come from the skeleton's Lewis structure, and the
+ * builder's own double and triple bonds stand in when there is none.
+ */
+export function buildStructureFromFormula(
+  formula: string,
+  elements: Map<string, Element>,
+  center: { x: number; y: number } = { x: 400, y: 300 }
+): FormulaStructureResult {
+  const parsed = parseFormulaParts(formula);
+  if (!parsed) {
+    return { success: false, error: `Could not read formula "${formula}"` };
+  }
+
+  for (const part of parsed.parts) {
+    const missing = Object.keys(parseFormula(part.text) || {}).find((symbol) => !elements.has(symbol));
+    if (missing) {
+      return { success: false, error: `Unknown element "${missing}"` };
+    }
+  }
+
+  const builder = new StructureBuilder(elements);
+  parsed.parts.forEach((part, i) => {
+    for (let n = 0; n < part.multiplier; n++) {
+      builder.buildPart(part.text, i === 0 ? parsed.charge : 0);
+    }
+  });
+
+  if (builder.atoms.length === 0) {
+    return { success: false, error: `Could not read formula "${formula}"` };
+  }
+
+  const layout = layoutStructure(builder.atoms.length, builder.bonds, center);
+  const orders = lewisBondOrders(builder.atoms, builder.bonds, parsed.charge, elements);
+  const bondTypes: BondType[] = ["single", "single", "double", "triple"];
+
+  return {
+    success: true,
+    structure: {
+      atoms: builder.atoms.map((atom, i) => ({ symbol: atom.symbol, ...layout[i] })),
+      bonds: builder.bonds.map((bond, i) => ({
+        from: bond.a,
+        to: bond.b,
+        bondType: bond.dative ? "dative" : bond.ionic ? "ionic" : bondTypes[orders[i] ?? bond.order],
+      })),
+      charge: parsed.charge,
+    },
+  };
+}
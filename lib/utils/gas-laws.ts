@@ -0,0 +1,225 @@
+/**
+ * Gas Law Utility
+ *
+ * Computes volume, density and molar volume of a gas from the temperature and
+ * pressure saved in a compound's ExternalFactors, both with the ideal gas law
+ * and with van der Waals corrections when constants are known.
+ *
+ * @module gas-laws
+ */
+
+import { ExternalFactors } from "@/lib/types/compound";
+import { compositionKey } from "./chemical-validation";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type TemperatureUnit = NonNullable<NonNullable<ExternalFactors["temperature"]>["unit"]>;
+export type PressureUnit = NonNullable<NonNullable<ExternalFactors["pressure"]>["unit"]>;
+
+export interface GasConditions {
+  temperature: number; // K
+  pressure: number; // atm
+  fromExternalFactors: { temperature: boolean; pressure: boolean };
+}
+
+export interface VanDerWaalsConstants {
+  a: number; // L²·atm/mol²
+  b: number; // L/mol
+}
+
+export interface GasState {
+  volume: number; // L
+  density: number; // g/L
+  molarVolume: number; // L/mol
+  compressibility: number; // Z = PV/nRT, 1 for an ideal gas
+}
+
+export interface GasBehaviorResult {
+  success: boolean;
+  ideal?: GasState;
+  real?: GasState; // Missing when no van der Waals constants are known
+  constants?: VanDerWaalsConstants;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const GAS_CONSTANT = 0.082057366; // L·atm/(mol·K)
+export const PA_PER_ATM = 101325;
+const ZERO_CELSIUS = 273.15;
+const BAR_PER_ATM = 1.01325;
+
+// Used for whichever of temperature and pressure is not saved on the compound
+export const STANDARD_CONDITIONS = { temperature: ZERO_CELSIUS, pressure: 1 };
+
+/**
+ * van der Waals constants as tabulated in the CRC Handbook
+ * (a in L²·bar/mol², b in L/mol); a is converted to atm on lookup.
+ */
+const VAN_DER_WAALS_TABLE: Record<string, { a: number; b: number }> = {
+  He: { a: 0.0346, b: 0.0238 },
+  Ne: { a: 0.208, b: 0.01672 },
+  Ar: { a: 1.355, b: 0.03201 },
+  Kr: { a: 2.325, b: 0.0396 },
+  Xe: { a: 4.192, b: 0.05156 },
+  H2: { a: 0.2476, b: 0.02661 },
+  N2: { a: 1.37, b: 0.0387 },
+  O2: { a: 1.382, b: 0.03186 },
+  F2: { a: 1.171, b: 0.029 },
+  Cl2: { a: 6.343, b: 0.05422 },
+  CO: { a: 1.472, b: 0.03948 },
+  CO2: { a: 3.64, b: 0.04267 },
+  H2O: { a: 5.537, b: 0.03049 },
+  NH3: { a: 4.225, b: 0.03707 },
+  HCl: { a: 3.716, b: 0.04081 },
+  H2S: { a: 4.49, b: 0.04287 },
+  SO2: { a: 6.865, b: 0.05679 },
+  NO: { a: 1.358, b: 0.02789 },
+  NO2: { a: 5.354, b: 0.04424 },
+  N2O: { a: 3.832, b: 0.04415 },
+  CH4: { a: 2.303, b: 0.04301 },
+  C2H2: { a: 4.516, b: 0.0522 },
+  C2H4: { a: 4.612, b: 0.05821 },
+  C2H6: { a: 5.562, b: 0.0638 },
+  C3H8: { a: 8.779, b: 0.08445 },
+  C6H6: { a: 18.24, b: 0.1154 },
+  CH3OH: { a: 9.649, b: 0.06702 },
+  CCl4: { a: 20.01, b: 0.1281 },
+};
+
+// ============================================================================
+// UNIT CONVERSION
+// ============================================================================
+
+export function toKelvin(value: number, unit: TemperatureUnit = "K"): number {
+  return unit === "C" ? value + ZERO_CELSIUS : value;
+}
+
+export function fromKelvin(kelvin: number, unit: TemperatureUnit): number {
+  return unit === "C" ? kelvin - ZERO_CELSIUS : kelvin;
+}
+
+export function toAtm(value: number, unit: PressureUnit = "atm"): number {
+  return unit === "Pa" ? value / PA_PER_ATM : value;
+}
+
+export function fromAtm(atm: number, unit: PressureUnit): number {
+  return unit === "Pa" ? atm * PA_PER_ATM : atm;
+}
+
+/**
+ * Reads temperature and pressure from ExternalFactors, falling back to
+ * 0 °C and 1 atm for anything not enabled or left blank (saved as null)
+ */
+export function resolveGasConditions(factors?: ExternalFactors): GasConditions {
+  const temperature = factors?.temperature;
+  const pressure = factors?.pressure;
+  const hasTemperature = !!temperature?.enabled && typeof temperature.value === "number" && Number.isFinite(temperature.value);
+  const hasPressure = !!pressure?.enabled && typeof pressure.value === "number" && Number.isFinite(pressure.value);
+
+  return {
+    temperature: hasTemperature ? toKelvin(temperature!.value!, temperature!.unit) : STANDARD_CONDITIONS.temperature,
+    pressure: hasPressure ? toAtm(pressure!.value!, pressure!.unit) : STANDARD_CONDITIONS.pressure,
+    fromExternalFactors: { temperature: hasTemperature, pressure: hasPressure },
+  };
+}
+
+// ============================================================================
+// GAS CALCULATIONS
+// ============================================================================
+
+/**
+ * Looks up van der Waals constants for a formula, in atm units
+ */
+export function getVanDerWaalsConstants(formula: string): VanDerWaalsConstants | null {
+  const key = compositionKey(formula);
+  if (!key) return null;
+
+  const match = Object.entries(VAN_DER_WAALS_TABLE).find(([tableFormula]) => compositionKey(tableFormula) === key);
+  if (!match) return null;
+  return { a: match[1].a / BAR_PER_ATM, b: match[1].b };
+}
+
+/**
+ * Solves (P + an²/V²)(V − nb) = nRT for the gas-phase volume
+ *
+ * Newton's method started from the ideal volume converges to the largest
+ * root of the cubic, which is the vapour branch.
+ */
+function solveVanDerWaalsVolume(
+  moles: number,
+  temperature: number,
+  pressure: number,
+  { a, b }: VanDerWaalsConstants
+): number | null {
+  const nRT = moles * GAS_CONSTANT * temperature;
+  const f = (V: number) => (pressure + (a * moles * moles) / (V * V)) * (V - moles * b) - nRT;
+  const df = (V: number) =>
+    pressure + (a * moles * moles) / (V * V) - (2 * a * moles * moles * (V - moles * b)) / (V * V * V);
+
+  let volume = nRT / pressure;
+  for (let i = 0; i < 100; i++) {
+    const slope = df(volume);
+    if (slope === 0) return null;
+    const next = volume - f(volume) / slope;
+    if (!(next > moles * b)) return null;
+    if (Math.abs(next - volume) < 1e-12 * next) return next;
+    volume = next;
+  }
+  return null;
+}
+
+function gasState(volume: number, moles: number, molarMass: number, temperature: number, pressure: number): GasState {
+  return {
+    volume,
+    density: (moles * molarMass) / volume,
+    molarVolume: volume / moles,
+    compressibility: (pressure * volume) / (moles * GAS_CONSTANT * temperature),
+  };
+}
+
+/**
+ * Calculates ideal and van der Waals gas behavior for an amount of a compound
+ *
+ * @param formula Compound formula, used to look up van der Waals constants
+ * @param molarMass g/mol
+ * @param moles Amount of gas
+ * @param conditions Temperature (K) and pressure (atm)
+ */
+export function calculateGasBehavior(
+  formula: string,
+  molarMass: number,
+  moles: number,
+  conditions: Pick<GasConditions, "temperature" | "pressure">
+): GasBehaviorResult {
+  const { temperature, pressure } = conditions;
+  if (!(moles > 0)) {
+    return { success: false, error: "Enter a positive amount of gas" };
+  }
+  if (!(temperature > 0)) {
+    return { success: false, error: "Temperature must be above absolute zero" };
+  }
+  if (!(pressure > 0)) {
+    return { success: false, error: "Pressure must be positive" };
+  }
+
+  const idealVolume = (moles * GAS_CONSTANT * temperature) / pressure;
+  const ideal = gasState(idealVolume, moles, molarMass, temperature, pressure);
+
+  const constants = getVanDerWaalsConstants(formula);
+  if (!constants) {
+    return { success: true, ideal };
+  }
+
+  const realVolume = solveVanDerWaalsVolume(moles, temperature, pressure, constants);
+  return {
+    success: true,
+    ideal,
+    real: realVolume !== null ? gasState(realVolume, moles, molarMass, temperature, pressure) : undefined,
+    constants,
+  };
+}
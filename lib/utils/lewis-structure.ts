@@ -0,0 +1,465 @@
+/**
+ * Lewis Structure Utility
+ *
+ * Distributes the valence electrons of a compound over its bond skeleton:
+ * bond orders, lone pairs and formal charges. Every bond order arrangement is
+ * scored and the one with the least formal charge wins.
+ *
+ * @module lewis-structure
+ */
+
+import { Element } from "@/lib/types/element";
+import { Bond, CompoundElement } from "@/lib/types/compound";
+import { isTransitionMetal, matchLigand } from "./coordination-complex";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface LewisAtom {
+  elementId: string;
+  symbol: string;
+  valenceElectrons: number;
+  lonePairs: number;
+  unpairedElectrons: number; // 1 on radicals, otherwise 0
+  formalCharge: number;
+  electronCount: number; // Shared + unshared electrons around the atom
+}
+
+export interface LewisBond {
+  fromElementId: string;
+  toElementId: string;
+  order: number; // 0 for ionic, metallic and dative bonds
+  ionic: boolean;
+}
+
+export interface LewisStructure {
+  atoms: LewisAtom[];
+  bonds: LewisBond[];
+  totalValenceElectrons: number;
+  resonanceCount: number; // Equally good arrangements found
+}
+
+export interface LewisResult {
+  success: boolean;
+  structure?: LewisStructure;
+  error?: string;
+}
+
+interface SkeletonAtom {
+  element: Element;
+  valence: number;
+  target: number; // 2 for H and He, 8 otherwise
+  octetSeeking: boolean; // False for Be/B/Al and d/f-block atoms
+  canExpand: boolean; // Period 3+ atoms may hold more than an octet
+  electronegativity: number;
+  neighbours: number[];
+}
+
+interface SkeletonBond {
+  from: number;
+  to: number;
+  variable: boolean; // Can take a double or triple order
+}
+
+interface Arrangement {
+  orders: number[];
+  lonePairs: number[];
+  unpaired: number[];
+  score: number[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Beyond this many variable bonds the search switches to hill climbing
+const MAX_ENUMERATED_BONDS = 10;
+
+const MAX_BOND_ORDER = 3;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Valence electrons from the element's group: ns + (n−1)d for the d-block,
+ * three for the lanthanides and actinides (listed under group 3)
+ */
+export function getValenceElectrons(element: Element): number {
+  const { group } = element;
+  if (group === 18) return element.symbol === "He" ? 2 : 8;
+  if (group !== null && group <= 12) return group;
+  if (group !== null && group >= 13) return group - 10;
+
+  const shells = element.electronsPerShell;
+  return shells[shells.length - 1] ?? 0;
+}
+
+function toSkeletonAtom(element: Element): SkeletonAtom {
+  const mainGroup = element.block === "s" || element.block === "p";
+  return {
+    element,
+    valence: getValenceElectrons(element),
+    target: element.period === 1 ? 2 : 8,
+    octetSeeking: mainGroup && element.group !== 2 && element.group !== 13,
+    canExpand: element.period >= 3,
+    electronegativity: element.electronegativity ?? 0,
+    neighbours: [],
+  };
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    if (Math.abs(diff) > 1e-9) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Places the electrons left after bonding
+ *
+ * Terminal atoms are filled first (most electronegative first), then the
+ * inner atoms. Leftover pairs go to the central atom, and an odd electron to
+ * whichever atom is furthest from its octet.
+ */
+function distributeElectrons(
+  atoms: SkeletonAtom[],
+  members: number[],
+  orderSums: number[],
+  electrons: number
+): { lonePairs: number[]; unpaired: number[] } {
+  const lonePairs = atoms.map(() => 0);
+  const unpaired = atoms.map(() => 0);
+  let remaining = electrons - members.reduce((sum, i) => sum + orderSums[i], 0);
+
+  const byElectronegativity = [...members].sort(
+    (a, b) => atoms[b].electronegativity - atoms[a].electronegativity
+  );
+  const fillOrder = [
+    ...byElectronegativity.filter(i => atoms[i].neighbours.length <= 1),
+    ...byElectronegativity.filter(i => atoms[i].neighbours.length > 1),
+  ];
+
+  for (const i of fillOrder) {
+    const need = Math.max(0, atoms[i].target - 2 * orderSums[i]);
+    const pairs = Math.min(need / 2, Math.floor(remaining / 2));
+    lonePairs[i] += pairs;
+    remaining -= 2 * pairs;
+  }
+
+  const central = [...members].sort(
+    (a, b) =>
+      Number(atoms[b].canExpand) - Number(atoms[a].canExpand) ||
+      atoms[b].neighbours.length - atoms[a].neighbours.length ||
+      atoms[a].electronegativity - atoms[b].electronegativity
+  )[0];
+
+  lonePairs[central] += Math.floor(remaining / 2);
+
+  if (remaining % 2 === 1) {
+    const deficit = (i: number) => atoms[i].target - 2 * orderSums[i] - 2 * lonePairs[i];
+    const lacking = members
+      .filter(i => deficit(i) > 0)
+      .sort(
+        (a, b) => deficit(b) - deficit(a) || atoms[a].electronegativity - atoms[b].electronegativity
+      );
+    unpaired[lacking.length > 0 ? lacking[0] : central] = 1;
+  }
+
+  return { lonePairs, unpaired };
+}
+
+/**
+ * Scores an arrangement, lower is better:
+ * 1. electrons beyond the octet on period 1-2 atoms (not allowed)
+ * 2. electrons missing from octets
+ * 3. total |formal charge|
+ * 4. negative formal charge on the more electronegative atoms
+ * 5. electrons beyond the octet on period 3+ atoms
+ */
+function evaluate(
+  atoms: SkeletonAtom[],
+  members: number[],
+  bonds: SkeletonBond[],
+  orders: number[],
+  electrons: number
+): Arrangement {
+  const orderSums = atoms.map(() => 0);
+  bonds.forEach((bond, b) => {
+    orderSums[bond.from] += orders[b];
+    orderSums[bond.to] += orders[b];
+  });
+
+  const { lonePairs, unpaired } = distributeElectrons(atoms, members, orderSums, electrons);
+  const score = [0, 0, 0, 0, 0];
+
+  for (const i of members) {
+    const atom = atoms[i];
+    const count = 2 * orderSums[i] + 2 * lonePairs[i] + unpaired[i];
+    const formalCharge = atom.valence - 2 * lonePairs[i] - unpaired[i] - orderSums[i];
+    const excess = Math.max(0, count - atom.target);
+
+    if (atom.canExpand) {
+      score[4] += excess;
+    } else {
+      score[0] += excess;
+    }
+    if (atom.octetSeeking) score[1] += Math.max(0, atom.target - count);
+    score[2] += Math.abs(formalCharge);
+    score[3] += formalCharge * atom.electronegativity;
+  }
+
+  return { orders, lonePairs, unpaired, score };
+}
+
+/**
+ * Finds the best bond orders for one covalently bonded fragment
+ */
+function solveFragment(
+  atoms: SkeletonAtom[],
+  members: number[],
+  bonds: SkeletonBond[],
+  electrons: number
+): { best: Arrangement; resonanceCount: number } {
+  const variable = bonds.map((bond, b) => (bond.variable ? b : -1)).filter(b => b !== -1);
+  const orders = bonds.map(() => 1);
+  let best = evaluate(atoms, members, bonds, [...orders], electrons);
+
+  if (variable.length <= MAX_ENUMERATED_BONDS) {
+    let resonanceCount = 1;
+
+    // Count through every combination of orders on the variable bonds
+    const total = Math.pow(MAX_BOND_ORDER, variable.length);
+    for (let n = 1; n < total; n++) {
+      let rest = n;
+      for (const b of variable) {
+        orders[b] = (rest % MAX_BOND_ORDER) + 1;
+        rest = Math.floor(rest / MAX_BOND_ORDER);
+      }
+
+      const candidate = evaluate(atoms, members, bonds, [...orders], electrons);
+      const comparison = compareScores(candidate.score, best.score);
+      if (comparison < 0) {
+        best = candidate;
+        resonanceCount = 1;
+      } else if (comparison === 0) {
+        resonanceCount++;
+      }
+    }
+
+    return { best, resonanceCount };
+  }
+
+  // Too many bonds to enumerate: raise whichever bond order helps most
+  for (;;) {
+    let improved: Arrangement | null = null;
+    for (const b of variable) {
+      if (best.orders[b] >= MAX_BOND_ORDER) continue;
+      const next = [...best.orders];
+      next[b]++;
+      const candidate = evaluate(atoms, members, bonds, next, electrons);
+      if (compareScores(candidate.score, (improved ?? best).score) < 0) {
+        improved = candidate;
+      }
+    }
+    if (!improved) break;
+    best = improved;
+  }
+
+  return { best, resonanceCount: 1 };
+}
+
+// ============================================================================
+// LEWIS STRUCTURE GENERATION
+// ============================================================================
+
+/**
+ * Generates the Lewis structure of a compound drawn on the canvas
+ *
+ * Covalent bonds form the skeleton; the drawn bond orders are ignored and
+ * re-derived. Ionic bonds move one electron to the more electronegative atom,
+ * so each covalent fragment is solved as an ion. Dative bonds to a
+ * transition metal leave each ligand as its own fragment carrying the
+ * ligand's charge; other dative bonds are solved like covalent ones. An overall charge,
+ * if given, is applied to the largest fragment.
+ *
+ * @param elements - Compound elements, one entry per atom
+ * @param bonds - Bonds between the elements
+ * @param elementLookup - Element data keyed by symbol
+ * @param charge - Overall charge of the species
+ */
+export function generateLewisStructure(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>,
+  charge = 0
+): LewisResult {
+  if (elements.length === 0) {
+    return { success: false, error: "Add some elements to see a Lewis structure" };
+  }
+  if (elements.some(el => el.count > 1)) {
+    return { success: false, error: "Lewis structures need every atom placed individually" };
+  }
+
+  const atoms: SkeletonAtom[] = [];
+  for (const el of elements) {
+    const element = elementLookup.get(el.symbol);
+    if (!element) {
+      return { success: false, error: `Unknown element: ${el.symbol}` };
+    }
+    atoms.push(toSkeletonAtom(element));
+  }
+
+  const indexById = new Map(elements.map((el, i) => [el.elementId, i]));
+  const ionCharges = atoms.map(() => 0);
+  const skeleton: SkeletonBond[] = [];
+  const lewisBonds: Array<LewisBond & { skeletonIndex: number }> = [];
+
+  for (const bond of bonds) {
+    const from = indexById.get(bond.fromElementId);
+    const to = indexById.get(bond.toElementId);
+    if (from === undefined || to === undefined || from === to) continue;
+
+    const ionic = bond.bondType === "ionic";
+    const coordinate =
+      bond.bondType === "dative" && (isTransitionMetal(atoms[from].element) || isTransitionMetal(atoms[to].element));
+    let skeletonIndex = -1;
+
+    if (ionic) {
+      // The electron goes to the more electronegative partner
+      const [cation, anion] =
+        atoms[from].electronegativity <= atoms[to].electronegativity ? [from, to] : [to, from];
+      ionCharges[cation]++;
+      ionCharges[anion]--;
+    } else if (bond.bondType !== "metallic" && !coordinate) {
+      // p-block atoms form π bonds with each other and with d-block metals (Mn=O)
+      const blocks = [atoms[from].element.block, atoms[to].element.block];
+      skeletonIndex = skeleton.length;
+      skeleton.push({ from, to, variable: blocks.includes("p") && blocks.every(b => b === "p" || b === "d") });
+      atoms[from].neighbours.push(to);
+      atoms[to].neighbours.push(from);
+    }
+
+    lewisBonds.push({
+      fromElementId: bond.fromElementId,
+      toElementId: bond.toElementId,
+      order: 0,
+      ionic,
+      skeletonIndex,
+    });
+  }
+
+  // Split the skeleton into covalently bonded fragments
+  const fragmentOf = atoms.map(() => -1);
+  const fragments: number[][] = [];
+  atoms.forEach((_, start) => {
+    if (fragmentOf[start] !== -1) return;
+    const members: number[] = [];
+    const stack = [start];
+    fragmentOf[start] = fragments.length;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      members.push(i);
+      for (const n of atoms[i].neighbours) {
+        if (fragmentOf[n] === -1) {
+          fragmentOf[n] = fragments.length;
+          stack.push(n);
+        }
+      }
+    }
+    fragments.push(members);
+  });
+
+  // Anionic ligands (CN⁻, Cl⁻) take their charge from the metal they coordinate
+  const chargedLigands = new Set<number>();
+  for (const bond of bonds) {
+    if (bond.bondType !== "dative") continue;
+    const from = indexById.get(bond.fromElementId);
+    const to = indexById.get(bond.toElementId);
+    if (from === undefined || to === undefined) continue;
+
+    const [metal, donor] = isTransitionMetal(atoms[from].element) ? [from, to] : [to, from];
+    if (!isTransitionMetal(atoms[metal].element)) continue;
+
+    const fragment = fragmentOf[donor];
+    if (chargedLigands.has(fragment)) continue;
+    chargedLigands.add(fragment);
+
+    const counts: Record<string, number> = {};
+    fragments[fragment].forEach(i => {
+      const symbol = atoms[i].element.symbol;
+      counts[symbol] = (counts[symbol] || 0) + 1;
+    });
+    const ligandCharge = matchLigand(counts)?.charge ?? 0;
+    ionCharges[donor] += ligandCharge;
+    ionCharges[metal] -= ligandCharge;
+  }
+
+  const largest = fragments.reduce((a, b) => (b.length > a.length ? b : a));
+  const orders = skeleton.map(() => 1);
+  const lonePairs = atoms.map(() => 0);
+  const unpaired = atoms.map(() => 0);
+  let totalValenceElectrons = 0;
+  let resonanceCount = 1;
+
+  for (const members of fragments) {
+    const fragmentCharge =
+      members.reduce((sum, i) => sum + ionCharges[i], 0) + (members === largest ? charge : 0);
+    const electrons = members.reduce((sum, i) => sum + atoms[i].valence, 0) - fragmentCharge;
+
+    if (electrons < 0) {
+      const symbols = members.map(i => atoms[i].element.symbol).join("");
+      return { success: false, error: `${symbols} does not have enough electrons for its ionic bonds` };
+    }
+    totalValenceElectrons += electrons;
+
+    const fragmentBonds = skeleton
+      .map((bond, b) => ({ bond, b }))
+      .filter(({ bond }) => fragmentOf[bond.from] === fragmentOf[members[0]]);
+
+    const { best, resonanceCount: count } = solveFragment(
+      atoms,
+      members,
+      fragmentBonds.map(({ bond }) => bond),
+      electrons
+    );
+
+    fragmentBonds.forEach(({ b }, k) => {
+      orders[b] = best.orders[k];
+    });
+    for (const i of members) {
+      lonePairs[i] = best.lonePairs[i];
+      unpaired[i] = best.unpaired[i];
+    }
+    resonanceCount *= count;
+  }
+
+  const orderSums = atoms.map(() => 0);
+  skeleton.forEach((bond, b) => {
+    orderSums[bond.from] += orders[b];
+    orderSums[bond.to] += orders[b];
+  });
+
+  return {
+    success: true,
+    structure: {
+      atoms: elements.map((el, i) => ({
+        elementId: el.elementId,
+        symbol: el.symbol,
+        valenceElectrons: atoms[i].valence,
+        lonePairs: lonePairs[i],
+        unpairedElectrons: unpaired[i],
+        formalCharge: atoms[i].valence - 2 * lonePairs[i] - unpaired[i] - orderSums[i],
+        electronCount: 2 * orderSums[i] + 2 * lonePairs[i] + unpaired[i],
+      })),
+      bonds: lewisBonds.map(({ skeletonIndex, ...bond }) => ({
+        ...bond,
+        order: skeletonIndex === -1 ? 0 : orders[skeletonIndex],
+      })),
+      totalValenceElectrons,
+      resonanceCount,
+    },
+  };
+}
@@ -9,6 +9,8 @@
 
 import { Element } from "@/lib/types/element";
 import { CompoundElement, Bond, VSEPRGeometry, MolecularGeometry } from "@/lib/types/compound";
+import { generateLewisStructure, getValenceElectrons } from "./lewis-structure";
+import { assignOxidationStates, ComplexIon, findComplexIons } from "./chemical-validation";
 
 // ============================================================================
 // CONSTANTS
@@ -162,160 +164,155 @@ function getBondLength(fromElement: Element, toElement: Element, bondType: strin
 // VSEPR GEOMETRY TEMPLATES
 // ============================================================================
 
+type Vector3D = { x: number; y: number; z: number };
+
+function normalize(v: Vector3D): Vector3D {
+  const length = Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
+function ringVectors(count: number): Vector3D[] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (i * 2 * Math.PI) / count;
+    return { x: Math.cos(angle), y: Math.sin(angle), z: 0 };
+  });
+}
+
 /**
- * VSEPR geometry coordinate generators
- * Returns normalized unit vectors that will be scaled by bond length
+ * Electron domain arrangements keyed by steric number (bonded atoms + lone pairs)
+ * Unit vectors that will be scaled by bond length; atoms and lone pairs
+ * are both assigned to these slots.
  */
-const GEOMETRY_TEMPLATES = {
-  /**
-   * Linear geometry (2 atoms)
-   * Example: CO2, HCN
-   * Bond angle: 180°
-   */
-  linear: (index: number): { x: number; y: number; z: number } => {
-    return index === 0
-      ? { x: -1, y: 0, z: 0 }
-      : { x: 1, y: 0, z: 0 };
-  },
-
-  /**
-   * Bent geometry (2-3 atoms)
-   * Example: H2O (104.5°), SO2 (119°)
-   * Bond angle: ~104.5° for water
-   */
-  bent: (index: number, angle: number = 104.5): { x: number; y: number; z: number } => {
-    const halfAngle = (angle / 2) * (Math.PI / 180);
-    return index === 0
-      ? { x: -Math.sin(halfAngle), y: Math.cos(halfAngle), z: 0 }
-      : { x: Math.sin(halfAngle), y: Math.cos(halfAngle), z: 0 };
-  },
-
-  /**
-   * Trigonal planar geometry (3 atoms)
-   * Example: BF3, CO3²⁻
-   * Bond angle: 120°
-   */
-  trigonalPlanar: (index: number): { x: number; y: number; z: number } => {
-    const angle = index * (120 * Math.PI / 180);
-    return {
-      x: Math.cos(angle),
-      y: Math.sin(angle),
-      z: 0,
-    };
-  },
-
-  /**
-   * Tetrahedral geometry (4 atoms)
-   * Example: CH4, NH4+
-   * Bond angle: 109.5°
-   */
-  tetrahedral: (index: number): { x: number; y: number; z: number } => {
-    const coords = [
-      { x: 1, y: 1, z: 1 },
-      { x: -1, y: -1, z: 1 },
-      { x: -1, y: 1, z: -1 },
-      { x: 1, y: -1, z: -1 },
-    ];
-    const coord = coords[index];
-    const length = Math.sqrt(coord.x ** 2 + coord.y ** 2 + coord.z ** 2);
-    return {
-      x: coord.x / length,
-      y: coord.y / length,
-      z: coord.z / length,
-    };
-  },
-
-  /**
-   * Trigonal pyramidal geometry (3 atoms around 1 central)
-   * Example: NH3
-   * Bond angle: ~107°
-   */
-  trigonalPyramidal: (index: number): { x: number; y: number; z: number } => {
-    const angle = index * (120 * Math.PI / 180);
-    const elevation = -0.3; // Pyramidal elevation
-    return {
-      x: Math.cos(angle) * 0.95,
-      y: Math.sin(angle) * 0.95,
-      z: elevation,
-    };
-  },
-
-  /**
-   * Trigonal bipyramidal geometry (5 atoms)
-   * Example: PCl5
-   * Bond angles: 90°, 120°
-   */
-  trigonalBipyramidal: (index: number): { x: number; y: number; z: number } => {
-    if (index < 3) {
-      // Equatorial positions (120° apart)
-      const angle = index * (120 * Math.PI / 180);
-      return { x: Math.cos(angle), y: Math.sin(angle), z: 0 };
-    } else {
-      // Axial positions
-      return index === 3
-        ? { x: 0, y: 0, z: 1 }
-        : { x: 0, y: 0, z: -1 };
-    }
-  },
-
-  /**
-   * Octahedral geometry (6 atoms)
-   * Example: SF6
-   * Bond angle: 90°
-   */
-  octahedral: (index: number): { x: number; y: number; z: number } => {
-    const coords = [
-      { x: 1, y: 0, z: 0 },
-      { x: -1, y: 0, z: 0 },
-      { x: 0, y: 1, z: 0 },
-      { x: 0, y: -1, z: 0 },
-      { x: 0, y: 0, z: 1 },
-      { x: 0, y: 0, z: -1 },
-    ];
-    return coords[index];
-  },
+const ELECTRON_DOMAIN_TEMPLATES: Record<number, Vector3D[]> = {
+  // Linear: 180°
+  2: [
+    { x: -1, y: 0, z: 0 },
+    { x: 1, y: 0, z: 0 },
+  ],
+
+  // Trigonal planar: 120°
+  3: ringVectors(3),
+
+  // Tetrahedral: 109.5°
+  4: [
+    { x: 1, y: 1, z: 1 },
+    { x: -1, y: -1, z: 1 },
+    { x: -1, y: 1, z: -1 },
+    { x: 1, y: -1, z: -1 },
+  ].map(normalize),
+
+  // Trigonal bipyramidal: three equatorial at 120°, two axial at 90°
+  5: [...ringVectors(3), { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }],
+
+  // Octahedral: 90°
+  6: [
+    { x: 1, y: 0, z: 0 },
+    { x: -1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 },
+    { x: 0, y: -1, z: 0 },
+    { x: 0, y: 0, z: 1 },
+    { x: 0, y: 0, z: -1 },
+  ],
+
+  // Pentagonal bipyramidal: five equatorial at 72°, two axial
+  7: [...ringVectors(5), { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }],
+};
+
+/**
+ * Order in which lone pairs take the slots of each domain arrangement
+ * Equatorial first in a trigonal bipyramid (fewest 90° neighbours), and
+ * trans to each other in an octahedron.
+ */
+const LONE_PAIR_SLOTS: Record<number, number[]> = {
+  2: [0, 1],
+  3: [0, 1, 2],
+  4: [0, 1, 2, 3],
+  5: [0, 1, 2, 3, 4],
+  6: [4, 5, 0, 1, 2, 3],
+  7: [5, 6, 0, 1, 2, 3, 4],
+};
+
+/**
+ * Molecular shape for each AXnEm class, keyed "n,m"
+ */
+const AXE_GEOMETRIES: Record<string, VSEPRGeometry> = {
+  "2,0": "linear",
+  "3,0": "trigonal-planar",
+  "2,1": "bent",
+  "4,0": "tetrahedral",
+  "3,1": "trigonal-pyramidal",
+  "2,2": "bent",
+  "5,0": "trigonal-bipyramidal",
+  "4,1": "seesaw",
+  "3,2": "t-shaped",
+  "2,3": "linear",
+  "6,0": "octahedral",
+  "5,1": "square-pyramidal",
+  "4,2": "square-planar",
+  "7,0": "pentagonal-bipyramidal",
 };
 
+// Distance of a lone-pair lobe from its atom, in Ångströms
+const LONE_PAIR_DISTANCE = 0.9;
+
+// Angle between a ligand's donor bond and the bonds behind it
+const LIGAND_BRANCH_ANGLE = (70 * Math.PI) / 180;
+
+// Distance of counter-ions from a complex's metal centre, in Ångströms
+const COUNTER_ION_DISTANCE = 5;
+
 // ============================================================================
 // GEOMETRY DETECTION
 // ============================================================================
 
 /**
- * Determines VSEPR geometry based on bond count and central atom
+ * Determines the VSEPR geometry from the AXnEm class of the central atom
  *
- * @param bondCount Number of bonds from central atom
- * @param centralElement Element at center (for special cases)
+ * @param bondCount Number of atoms bonded to the central atom (n)
+ * @param lonePairs Lone pairs on the central atom (m)
  * @returns VSEPR geometry type
  */
-export function determineVSEPRGeometry(
+export function determineVSEPRGeometry(bondCount: number, lonePairs: number = 0): VSEPRGeometry {
+  if (bondCount === 1) return "linear";
+  return AXE_GEOMETRIES[`${bondCount},${lonePairs}`] ?? "custom";
+}
+
+/**
+ * Places bonded atoms and lone pairs around a central atom
+ *
+ * @param bondCount Number of bonded atoms
+ * @param lonePairs Lone pairs on the central atom
+ * @returns Unit vectors for the bonds and for the lone pairs
+ */
+export function getElectronDomainLayout(
   bondCount: number,
-  centralElement?: Element
-): VSEPRGeometry {
-  // Special case: Water (O with 2 bonds)
-  if (bondCount === 2 && centralElement?.symbol === "O") {
-    return "bent";
-  }
+  lonePairs: number = 0
+): { bondDirections: Vector3D[]; lonePairDirections: Vector3D[] } {
+  const stericNumber = bondCount + lonePairs;
+  const template = ELECTRON_DOMAIN_TEMPLATES[stericNumber];
 
-  // Special case: Ammonia (N with 3 bonds)
-  if (bondCount === 3 && centralElement?.symbol === "N") {
-    return "trigonal-pyramidal";
+  if (!template) {
+    // No known arrangement: ignore the lone pairs, or spread the atoms on a ring
+    return {
+      bondDirections: ELECTRON_DOMAIN_TEMPLATES[bondCount] ?? ringVectors(bondCount),
+      lonePairDirections: [],
+    };
   }
 
-  // General VSEPR rules
-  switch (bondCount) {
-    case 2:
-      return "linear";
-    case 3:
-      return "trigonal-planar";
-    case 4:
-      return "tetrahedral";
-    case 5:
-      return "trigonal-bipyramidal";
-    case 6:
-      return "octahedral";
-    default:
-      return "custom";
-  }
+  const lonePairSlots = LONE_PAIR_SLOTS[stericNumber].slice(0, lonePairs);
+  return {
+    bondDirections: template.filter((_, slot) => !lonePairSlots.includes(slot)),
+    lonePairDirections: lonePairSlots.map(slot => template[slot]),
+  };
+}
+
+/**
+ * Estimates the lone pairs on an atom when no Lewis structure is available
+ * Assumes one electron per bond, so only main-group nonmetals get lone pairs.
+ */
+function estimateLonePairs(element: Element, bondCount: number): number {
+  if (element.block !== "p" || element.category === "post-transition-metal") return 0;
+  return Math.floor(Math.max(0, getValenceElectrons(element) - bondCount) / 2);
 }
 
 /**
@@ -535,11 +532,21 @@ function generateChainCoordinates(
     const nonCarbonNeighbors = atomsBondedToCarbon.filter(el => el?.symbol !== "C");
     const nonCarbonIndex = nonCarbonNeighbors.findIndex(el => el?.elementId === atom.elementId);
 
+    // A triple bond or two double bonds make the carbon sp, so its substituent
+    // on a chain end continues along the chain axis (H–C≡C–H is linear)
+    const carbonBonds = bonds.filter(b => b.fromElementId === carbonId || b.toElementId === carbonId);
+    const isSp =
+      carbonBonds.some(b => b.bondType === "triple") || carbonBonds.filter(b => b.bondType === "double").length >= 2;
+    const chainIndex = chainOrder.findIndex(c => c.elementId === carbonId);
+    const outward = chainIndex === 0 ? -1 : chainIndex === chainOrder.length - 1 ? 1 : 0;
+
     // Determine position based on carbon's neighbors
     // For chain carbons: use tetrahedral geometry perpendicular to chain axis
     let offset: { x: number; y: number; z: number };
 
-    if (nonCarbonNeighbors.length === 1) {
+    if (isSp && outward !== 0 && nonCarbonNeighbors.length === 1) {
+      offset = { x: outward, y: 0, z: 0 };
+    } else if (nonCarbonNeighbors.length === 1) {
       // Terminal carbon with 3 H - use tetrahedral
       const positions = [
         { x: 0, y: 1, z: 0 },      // Up
@@ -592,6 +599,124 @@ function generateChainCoordinates(
   };
 }
 
+// ============================================================================
+// COORDINATION COMPLEXES
+// ============================================================================
+
+/**
+ * Finds the complex around a transition metal held by dative bonds, if any
+ */
+function findComplex(elements: CompoundElement[], bonds: Bond[], elementLookup: Map<string, Element>): ComplexIon | null {
+  if (!bonds.some(bond => bond.bondType === "dative")) return null;
+
+  const atoms = elements
+    .filter(el => elementLookup.has(el.symbol))
+    .map(el => ({ id: el.elementId, element: elementLookup.get(el.symbol)!, symbol: el.symbol }));
+  const { complexes } = findComplexIons(atoms, bonds, assignOxidationStates(atoms, bonds));
+  return complexes.length === 1 ? complexes[0] : null;
+}
+
+/**
+ * Places a coordination complex: donor atoms around the metal in the
+ * coordination geometry, the rest of each ligand branching outward from its
+ * donor, and counter-ions on a ring around the complex
+ */
+function generateComplexCoordinates(
+  elements: CompoundElement[],
+  bonds: Bond[],
+  elementLookup: Map<string, Element>,
+  complex: ComplexIon
+): { elements: CompoundElement[]; geometry: MolecularGeometry } {
+  const positions = new Map<string, Vector3D>([[complex.metalId, { x: 0, y: 0, z: 0 }]]);
+  const symbols = new Map(elements.map(el => [el.elementId, el.symbol]));
+  const inComplex = new Set(complex.atomIds);
+
+  const donors = bonds
+    .filter(
+      bond =>
+        bond.bondType === "dative" && (bond.fromElementId === complex.metalId || bond.toElementId === complex.metalId)
+    )
+    .map(bond => (bond.fromElementId === complex.metalId ? bond.toElementId : bond.fromElementId));
+
+  // Square planar uses the octahedral slots left after two trans positions
+  const { bondDirections } = getElectronDomainLayout(
+    donors.length,
+    complex.geometry === "square-planar" ? 2 : 0
+  );
+
+  const length = (a: string, b: string) => {
+    const from = elementLookup.get(symbols.get(a)!);
+    const to = elementLookup.get(symbols.get(b)!);
+    return from && to ? getBondLength(from, to) : 2 * ANGSTROM_TO_UNITS;
+  };
+  const place = (id: string, origin: Vector3D, direction: Vector3D, distance: number) => {
+    positions.set(id, {
+      x: origin.x + direction.x * distance,
+      y: origin.y + direction.y * distance,
+      z: origin.z + direction.z * distance,
+    });
+  };
+
+  // Grow each ligand breadth-first, every atom's bonds fanning out on a cone around its own direction
+  const queue: Array<{ id: string; direction: Vector3D }> = [];
+  donors.forEach((id, i) => {
+    if (positions.has(id)) return;
+    const direction = bondDirections[i] ?? { x: 1, y: 0, z: 0 };
+    place(id, positions.get(complex.metalId)!, direction, length(complex.metalId, id));
+    queue.push({ id, direction });
+  });
+
+  while (queue.length > 0) {
+    const { id, direction } = queue.shift()!;
+    const children = bonds
+      .filter(bond => bond.bondType !== "ionic" && (bond.fromElementId === id || bond.toElementId === id))
+      .map(bond => (bond.fromElementId === id ? bond.toElementId : bond.fromElementId))
+      .filter(child => inComplex.has(child) && !positions.has(child));
+
+    const reference = Math.abs(direction.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+    const v1 = normalize({
+      x: reference.y * direction.z - reference.z * direction.y,
+      y: reference.z * direction.x - reference.x * direction.z,
+      z: reference.x * direction.y - reference.y * direction.x,
+    });
+    const v2 = {
+      x: direction.y * v1.z - direction.z * v1.y,
+      y: direction.z * v1.x - direction.x * v1.z,
+      z: direction.x * v1.y - direction.y * v1.x,
+    };
+
+    children.forEach((child, k) => {
+      const phi = (2 * Math.PI * k) / children.length;
+      const cone = children.length === 1 ? 0 : LIGAND_BRANCH_ANGLE;
+      const childDirection = normalize({
+        x: direction.x * Math.cos(cone) + (v1.x * Math.cos(phi) + v2.x * Math.sin(phi)) * Math.sin(cone),
+        y: direction.y * Math.cos(cone) + (v1.y * Math.cos(phi) + v2.y * Math.sin(phi)) * Math.sin(cone),
+        z: direction.z * Math.cos(cone) + (v1.z * Math.cos(phi) + v2.z * Math.sin(phi)) * Math.sin(cone),
+      });
+      place(child, positions.get(id)!, childDirection, length(id, child));
+      queue.push({ id: child, direction: childDirection });
+    });
+  }
+
+  // Counter-ions sit around the complex, clear of the ligands
+  const counterIons = elements.filter(el => !positions.has(el.elementId));
+  const ring = ringVectors(counterIons.length);
+  counterIons.forEach((el, i) => {
+    const direction = normalize({ x: ring[i].x, y: ring[i].y, z: 1 });
+    place(el.elementId, { x: 0, y: 0, z: 0 }, direction, COUNTER_ION_DISTANCE * ANGSTROM_TO_UNITS);
+  });
+
+  return {
+    elements: elements.map(el => ({ ...el, position3D: positions.get(el.elementId)! })),
+    geometry: {
+      type: complex.geometry,
+      centralAtomId: complex.metalId,
+      lonePairPositions: [],
+      generatedAt: new Date(),
+    },
+  };
+}
+
 // ============================================================================
 // 3D COORDINATE GENERATION
 // ============================================================================
@@ -602,12 +727,14 @@ function generateChainCoordinates(
  * @param elements Array of compound elements
  * @param bonds Array of bonds
  * @param allElements Full element data for lookups
+ * @param charge Overall ionic charge of the structure (NH₄⁺ is +1)
  * @returns Array of elements with position3D populated
  */
 export function generate3DCoordinates(
   elements: CompoundElement[],
   bonds: Bond[],
-  allElements: Element[]
+  allElements: Element[],
+  charge = 0
 ): { elements: CompoundElement[]; geometry: MolecularGeometry } {
   // Handle edge cases
   if (elements.length === 0) {
@@ -628,6 +755,13 @@ export function generate3DCoordinates(
     };
   }
 
+  // Coordination complexes take their shape from the coordination number, not VSEPR
+  const elementLookup = new Map(allElements.map(el => [el.symbol, el]));
+  const complex = findComplex(elements, bonds, elementLookup);
+  if (complex) {
+    return generateComplexCoordinates(elements, bonds, elementLookup, complex);
+  }
+
   // Check if it's a carbon chain (organic molecule)
   if (isChainStructure(elements, bonds)) {
     return generateChainCoordinates(elements, bonds, allElements);
@@ -641,7 +775,6 @@ export function generate3DCoordinates(
   }
 
   const centralElement = elements.find(el => el.elementId === centralAtomId)!;
-  const elementLookup = new Map(allElements.map(el => [el.symbol, el]));
   const centralElementData = elementLookup.get(centralElement.symbol);
 
   // Find atoms bonded to central atom
@@ -654,12 +787,27 @@ export function generate3DCoordinates(
 
   const bondCount = bondedAtoms.length;
 
+  // Lone pairs on the central atom come from its Lewis structure; an unpaired
+  // electron counts as half a domain, so only a pair of them adds one. A
+  // transition metal's d electrons don't (FeCl3 stays trigonal planar).
+  const lewis = generateLewisStructure(elements, bonds, elementLookup, charge);
+  const centralLewis = lewis.structure?.atoms.find(atom => atom.elementId === centralAtomId);
+  const lonePairs = centralElementData?.block === "d"
+    ? 0
+    : centralLewis
+      ? centralLewis.lonePairs + Math.floor(centralLewis.unpairedElectrons / 2)
+      : centralElementData
+        ? estimateLonePairs(centralElementData, bondCount)
+        : 0;
+
   // Determine geometry
-  const geometryType = determineVSEPRGeometry(bondCount, centralElementData);
+  const geometryType = determineVSEPRGeometry(bondCount, lonePairs);
+  const { bondDirections, lonePairDirections } = getElectronDomainLayout(bondCount, lonePairs);
 
   console.log('[molecular-geometry] Generated structure:', {
     centralAtom: centralElement.symbol,
     bondCount,
+    lonePairs,
     geometryType,
     bondedAtoms: bondedAtoms.map(a => a.symbol),
     totalElements: elements.length
@@ -687,33 +835,8 @@ export function generate3DCoordinates(
     // Calculate bond length based on sum of atomic radii (atoms will touch)
     const bondLength = getBondLength(centralElementData, currentElementData);
 
-    // Get unit vector from geometry template
-    let unitVector: { x: number; y: number; z: number };
-    switch (geometryType) {
-      case "linear":
-        unitVector = GEOMETRY_TEMPLATES.linear(bondedIndex);
-        break;
-      case "bent":
-        unitVector = GEOMETRY_TEMPLATES.bent(bondedIndex);
-        break;
-      case "trigonal-planar":
-        unitVector = GEOMETRY_TEMPLATES.trigonalPlanar(bondedIndex);
-        break;
-      case "tetrahedral":
-        unitVector = GEOMETRY_TEMPLATES.tetrahedral(bondedIndex);
-        break;
-      case "trigonal-pyramidal":
-        unitVector = GEOMETRY_TEMPLATES.trigonalPyramidal(bondedIndex);
-        break;
-      case "trigonal-bipyramidal":
-        unitVector = GEOMETRY_TEMPLATES.trigonalBipyramidal(bondedIndex);
-        break;
-      case "octahedral":
-        unitVector = GEOMETRY_TEMPLATES.octahedral(bondedIndex);
-        break;
-      default:
-        unitVector = { x: 1, y: 0, z: 0 };
-    }
+    // Unit vector from the electron domain layout
+    const unitVector = bondDirections[bondedIndex];
 
     // Scale by actual bond length (sum of radii - atoms touch)
     return {
@@ -726,11 +849,19 @@ export function generate3DCoordinates(
     };
   });
 
+  // Lone pairs are reserved as positions so they can be drawn as lobes
+  const lonePairPositions = lonePairDirections.map(direction => ({
+    x: direction.x * LONE_PAIR_DISTANCE * ANGSTROM_TO_UNITS,
+    y: direction.y * LONE_PAIR_DISTANCE * ANGSTROM_TO_UNITS,
+    z: direction.z * LONE_PAIR_DISTANCE * ANGSTROM_TO_UNITS,
+  }));
+
   return {
     elements: updatedElements,
     geometry: {
       type: geometryType,
       centralAtomId,
+      lonePairPositions,
       generatedAt: new Date(),
     },
   };
@@ -25,6 +25,8 @@ import {
   DetectedFunctionalGroup,
 } from './organic-validation';
 
+import { computeFingerprint, tanimotoSimilarity } from './organic-fingerprint';
+
 // Re-export validation functions
 export {
   computeFormula,
@@ -343,6 +345,15 @@ export function areGraphsEqual(graphA: MoleculeGraph, graphB: MoleculeGraph): bo
   return true;
 }
 
+/**
+ * Structural similarity of two molecular graphs (0-1)
+ * Tanimoto coefficient of their path fingerprints; unlike areGraphsEqual this
+ * grades how close two different molecules are
+ */
+export function calculateSimilarity(graphA: MoleculeGraph, graphB: MoleculeGraph): number {
+  return tanimotoSimilarity(computeFingerprint(graphA), computeFingerprint(graphB));
+}
+
 /**
  * Calculate structural complexity score
  * Higher score = more complex molecule
@@ -0,0 +1,110 @@
+/**
+ * Path fingerprints for organic structures
+ *
+ * Every linear path of up to MAX_PATH_BONDS bonds is written as a label
+ * (elements and bond codes, e.g. "C2C1O") and hashed into one of
+ * FINGERPRINT_BITS bits. A fingerprint is stored as the sorted list of set
+ * bit indices so MongoDB can prefilter with { fingerprint: { $all: bits } }.
+ *
+ * Hydrogens and charges are left out: a substructure query matches atoms
+ * with any hydrogen count, so every query bit is guaranteed to be set in
+ * the fingerprint of a structure that contains it. The same fingerprints
+ * give a graded similarity through the Tanimoto coefficient.
+ */
+
+import { Atom, Bond } from '@/lib/types/organic';
+import { MoleculeGraph, Bond as GraphBond } from './organic-graph';
+import { molfileRecordToGraph } from './organic-molfile';
+
+export const FINGERPRINT_BITS = 1024;
+const MAX_PATH_BONDS = 5;
+
+/**
+ * Compute the fingerprint of a molecule graph as sorted set-bit indices
+ */
+export function computeFingerprint(graph: MoleculeGraph): number[] {
+  const elements = new Map(graph.nodes.map((n) => [n.id, n.element as string]));
+  const neighbors = new Map<string, { id: string; code: number }[]>();
+  for (const node of graph.nodes) neighbors.set(node.id, []);
+  for (const edge of graph.edges) {
+    neighbors.get(edge.from)?.push({ id: edge.to, code: bondCode(edge) });
+    neighbors.get(edge.to)?.push({ id: edge.from, code: bondCode(edge) });
+  }
+
+  const bits = new Set<number>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+
+  const extend = (atomId: string, depth: number) => {
+    onPath.add(atomId);
+    path.push(elements.get(atomId)!);
+
+    // Paths are found from both ends; hashing the smaller spelling makes
+    // both directions set the same bit
+    const forward = path.join('');
+    const backward = [...path].reverse().join('');
+    bits.add(hashLabel(forward < backward ? forward : backward));
+
+    if (depth < MAX_PATH_BONDS) {
+      for (const next of neighbors.get(atomId)!) {
+        if (onPath.has(next.id)) continue;
+        path.push(String(next.code));
+        extend(next.id, depth + 1);
+        path.pop();
+      }
+    }
+
+    path.pop();
+    onPath.delete(atomId);
+  };
+
+  for (const node of graph.nodes) {
+    extend(node.id, 0);
+  }
+
+  return Array.from(bits).sort((a, b) => a - b);
+}
+
+/**
+ * Compute the fingerprint for stored OrganicStructure atoms and bonds
+ * Returns null when the structure cannot be converted to a graph.
+ */
+export function computeStructureFingerprint(atoms: Atom[], bonds: Bond[]): number[] | null {
+  const result = molfileRecordToGraph({ name: '', atoms, bonds, properties: {} });
+  return result.success && result.graph ? computeFingerprint(result.graph) : null;
+}
+
+/**
+ * True when every bit of the query is set in the target
+ * (a necessary condition for the query being a substructure of the target)
+ */
+export function isFingerprintSubset(query: number[], target: number[]): boolean {
+  const targetBits = new Set(target);
+  return query.every((bit) => targetBits.has(bit));
+}
+
+/**
+ * Tanimoto coefficient of two fingerprints: shared bits / bits set in either
+ * 1 for identical fingerprints, 0 when no bit is shared
+ */
+export function tanimotoSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+
+  const bitsA = new Set(a);
+  const shared = b.filter((bit) => bitsA.has(bit)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+function bondCode(bond: GraphBond): number {
+  return bond.bondType === 'aromatic' ? 4 : bond.bondOrder;
+}
+
+// FNV-1a, folded onto the fingerprint size
+function hashLabel(label: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % FINGERPRINT_BITS;
+}
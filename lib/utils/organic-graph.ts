@@ -11,6 +11,7 @@ export interface AtomNode {
   position: { x: number; y: number };
   implicitHydrogens: number;
   hybridization: Hybridization;
+  charge?: number;
 }
 
 export interface Bond {
@@ -39,8 +40,33 @@ export function getTotalBonds(nodeId: string, edges: Bond[]): number {
   return edges.filter(e => e.from === nodeId || e.to === nodeId).reduce((sum, e) => sum + e.bondOrder, 0);
 }
 
+// Normal valences used for implicit hydrogens of unbracketed atoms
+const SMILES_VALENCES: Record<string, number[]> = {
+  B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], Cl: [1], Br: [1], I: [1],
+};
+
+/**
+ * Implicit hydrogen count SMILES assumes for an unbracketed atom:
+ * fill up to the lowest normal valence that accommodates the bonds
+ * (aromatic atoms contribute one extra bond to the π system).
+ * A charge shifts the valences the way it does for isoelectronic atoms
+ * (N⁺ behaves like C, O⁻ like F); carbon loses one valence either way.
+ */
+export function defaultImplicitHydrogens(element: string, bondSum: number, aromatic: boolean, charge: number = 0): number {
+  const valences = SMILES_VALENCES[element];
+  if (!valences) return 0;
+  const shift = element === 'C' ? -Math.abs(charge) : charge;
+  const used = bondSum + (aromatic ? 1 : 0);
+  const target = valences.map((v) => v + shift).find((v) => v >= used);
+  return target === undefined ? 0 : target - used;
+}
+
+export function isAromaticAtom(nodeId: string, edges: Bond[]): boolean {
+  return edges.some((e) => (e.from === nodeId || e.to === nodeId) && e.bondType === 'aromatic');
+}
+
 export function calculateImplicitHydrogens(node: AtomNode, edges: Bond[]): number {
-  return Math.max(0, getMaxValency(node.element) - getTotalBonds(node.id, edges));
+  return defaultImplicitHydrogens(node.element, getTotalBonds(node.id, edges), isAromaticAtom(node.id, edges), node.charge ?? 0);
 }
 
 export function updateImplicitHydrogens(graph: MoleculeGraph): MoleculeGraph {
@@ -149,6 +175,13 @@ export function getCarbonNodes(graph: MoleculeGraph): AtomNode[] {
   return graph.nodes.filter(n => n.element === 'C');
 }
 
+// Human-readable atom name such as "C3": element plus its index among atoms of that element
+export function getAtomLabel(graph: MoleculeGraph, nodeId: string): string {
+  const node = graph.nodes.find(n => n.id === nodeId);
+  if (!node) return 'atom';
+  return `${node.element}${graph.nodes.filter(n => n.element === node.element).indexOf(node) + 1}`;
+}
+
 export function getTerminalCarbons(graph: MoleculeGraph): AtomNode[] {
   return graph.nodes.filter(n => n.element === 'C' && isTerminalNode(n.id, graph.edges));
 }
@@ -0,0 +1,275 @@
+/**
+ * InChI-style layered identifiers for organic structures
+ *
+ * Builds a standard-InChI-like string from the editor graph:
+ *   InChI=1S/<formula>/c<connectivity>/h<hydrogens>/q<charge>
+ * and a fixed-length hashed key in the InChIKey layout
+ * (XXXXXXXXXXXXXX-YYYYYYYYSA-N).
+ *
+ * Like real InChI, bond orders are not part of the identifier: Kekulé and
+ * aromatic drawings of the same molecule share one string. The numbering and
+ * layer syntax follow InChI, but the canonical numbering comes from
+ * computeCanonicalRanks, so the strings are not interchangeable with
+ * identifiers produced by the IUPAC InChI software.
+ *
+ * Limitations:
+ * - No stereo, isotope or mobile-hydrogen layers
+ * - Repeated components are listed individually (no "2CH4" multipliers)
+ *
+ * The key is hashed with Node's crypto module, so this file is server-only.
+ */
+
+import { createHash } from 'crypto';
+import { Atom, Bond } from '@/lib/types/organic';
+import { MoleculeGraph, AtomNode, OrganicElement } from './organic-graph';
+import { computeCanonicalRanks } from './organic-smiles';
+import { molfileRecordToGraph } from './organic-molfile';
+
+export interface StructureIdentifiers {
+  inchi: string;
+  inchiKey: string;
+}
+
+const INCHI_PREFIX = 'InChI=1S/';
+
+// Hill order: carbon first, then the other elements alphabetically
+const HILL_ORDER: OrganicElement[] = ['C', 'Br', 'Cl', 'F', 'I', 'N', 'O', 'P', 'S'];
+
+interface ComponentLayers {
+  formula: string;
+  connectivity: string;
+  hydrogens: string;
+  charge: number;
+}
+
+/**
+ * Generate the layered identifier for a molecule graph
+ */
+export function generateInChI(graph: MoleculeGraph): string {
+  if (!graph.nodes || graph.nodes.length === 0) {
+    return '';
+  }
+
+  // Larger components first, ties broken by their layer text
+  const components = splitComponents(graph)
+    .map((component) => ({ size: component.nodes.length, ...componentLayers(component) }))
+    .sort((a, b) => {
+      if (a.size !== b.size) return b.size - a.size;
+      const textA = a.formula + a.connectivity + a.hydrogens;
+      const textB = b.formula + b.connectivity + b.hydrogens;
+      return textA < textB ? -1 : textA > textB ? 1 : 0;
+    });
+
+  let inchi = INCHI_PREFIX + components.map((c) => c.formula).join('.');
+
+  if (components.some((c) => c.connectivity)) {
+    inchi += '/c' + components.map((c) => c.connectivity).join(';');
+  }
+  if (components.some((c) => c.hydrogens)) {
+    inchi += '/h' + components.map((c) => c.hydrogens).join(';');
+  }
+  if (components.some((c) => c.charge !== 0)) {
+    inchi += '/q' + components.map((c) => (c.charge === 0 ? '' : formatCharge(c.charge))).join(';');
+  }
+
+  return inchi;
+}
+
+/**
+ * Hash an identifier into a fixed-length key
+ * The first block covers the formula, connectivity and hydrogen layers (the
+ * molecular skeleton); the second block covers the remaining layers, so
+ * charge variants of one skeleton share the first 14 characters.
+ */
+export function generateInChIKey(inchi: string): string {
+  const body = inchi.startsWith(INCHI_PREFIX) ? inchi.slice(INCHI_PREFIX.length) : inchi;
+  const layers = body.split('/');
+  const skeleton = layers.filter((layer, i) => i === 0 || layer.startsWith('c') || layer.startsWith('h'));
+  const rest = layers.filter((layer) => !skeleton.includes(layer));
+
+  // SA = standard identifier, version A; N = no protonation adjustment
+  return `${hashToLetters(skeleton.join('/'), 14)}-${hashToLetters(rest.join('/'), 8)}SA-N`;
+}
+
+/**
+ * Compute identifier and key for stored OrganicStructure atoms and bonds
+ * Returns null when the structure cannot be converted to a graph.
+ */
+export function generateStructureIdentifiers(atoms: Atom[], bonds: Bond[]): StructureIdentifiers | null {
+  const result = molfileRecordToGraph({ name: '', atoms, bonds, properties: {} });
+  if (!result.success || !result.graph) {
+    return null;
+  }
+
+  const inchi = generateInChI(result.graph);
+  return { inchi, inchiKey: generateInChIKey(inchi) };
+}
+
+function splitComponents(graph: MoleculeGraph): MoleculeGraph[] {
+  const seen = new Set<string>();
+  const components: MoleculeGraph[] = [];
+
+  for (const start of graph.nodes) {
+    if (seen.has(start.id)) continue;
+
+    const ids = new Set<string>([start.id]);
+    const queue = [start.id];
+    seen.add(start.id);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of graph.edges) {
+        const next = edge.from === current ? edge.to : edge.to === current ? edge.from : null;
+        if (next && !seen.has(next)) {
+          seen.add(next);
+          ids.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    components.push({
+      nodes: graph.nodes.filter((n) => ids.has(n.id)),
+      edges: graph.edges.filter((e) => ids.has(e.from)),
+    });
+  }
+
+  return components;
+}
+
+function componentLayers(component: MoleculeGraph): ComponentLayers {
+  // Rank on the bare skeleton so bond orders do not affect the numbering
+  const skeleton: MoleculeGraph = {
+    nodes: component.nodes,
+    edges: component.edges.map((e) => ({ ...e, bondOrder: 1, bondType: 'sigma' })),
+  };
+  const ranks = computeCanonicalRanks(skeleton);
+
+  // InChI numbers atoms in Hill order, canonical rank within each element
+  const ordered = [...component.nodes].sort((a, b) => {
+    const element = HILL_ORDER.indexOf(a.element) - HILL_ORDER.indexOf(b.element);
+    return element !== 0 ? element : ranks.get(a.id)! - ranks.get(b.id)!;
+  });
+  const numbers = new Map<string, number>();
+  ordered.forEach((node, i) => numbers.set(node.id, i + 1));
+
+  return {
+    formula: formatFormula(component.nodes),
+    connectivity: component.edges.length > 0 ? writeConnectivity(component, numbers) : '',
+    hydrogens: writeHydrogenLayer(ordered),
+    charge: component.nodes.reduce((sum, n) => sum + (n.charge || 0), 0),
+  };
+}
+
+function formatFormula(nodes: AtomNode[]): string {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    counts.set(node.element, (counts.get(node.element) || 0) + 1);
+  }
+  const hydrogens = nodes.reduce((sum, n) => sum + n.implicitHydrogens, 0);
+
+  const symbols: string[] = [];
+  const push = (symbol: string, count: number) => {
+    if (count > 0) symbols.push(count > 1 ? `${symbol}${count}` : symbol);
+  };
+
+  if (counts.has('C')) {
+    push('C', counts.get('C')!);
+    push('H', hydrogens);
+    for (const element of HILL_ORDER.slice(1)) push(element, counts.get(element) || 0);
+  } else {
+    // Without carbon, hydrogen is sorted alphabetically with the rest
+    const all = [...HILL_ORDER.slice(1), 'H'].sort();
+    for (const element of all) push(element, element === 'H' ? hydrogens : counts.get(element) || 0);
+  }
+
+  return symbols.join('');
+}
+
+/**
+ * Connectivity layer: a depth-first walk from atom 1, neighbours in number
+ * order. Every branch but the last goes in parentheses (comma separated),
+ * and ring closures repeat the number of the atom they close onto.
+ */
+function writeConnectivity(component: MoleculeGraph, numbers: Map<string, number>): string {
+  const neighbors = new Map<number, number[]>();
+  for (const n of numbers.values()) neighbors.set(n, []);
+  for (const edge of component.edges) {
+    const a = numbers.get(edge.from)!;
+    const b = numbers.get(edge.to)!;
+    neighbors.get(a)!.push(b);
+    neighbors.get(b)!.push(a);
+  }
+  neighbors.forEach((list) => list.sort((x, y) => x - y));
+
+  const visited = new Set<number>();
+  const written = new Set<string>();
+  const bondKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+  const walk = (atom: number): string => {
+    visited.add(atom);
+    const pieces: string[] = [];
+
+    for (const next of neighbors.get(atom)!) {
+      const key = bondKey(atom, next);
+      if (written.has(key)) continue;
+      written.add(key);
+      pieces.push(visited.has(next) ? String(next) : walk(next));
+    }
+
+    if (pieces.length === 0) return String(atom);
+    const last = pieces.pop()!;
+    // "1-4(2)3": the dash is dropped after a branch group
+    return pieces.length > 0 ? `${atom}(${pieces.join(',')})${last}` : `${atom}-${last}`;
+  };
+
+  return walk(1);
+}
+
+// Hydrogen layer: atoms grouped by hydrogen count, fewest hydrogens first
+function writeHydrogenLayer(ordered: AtomNode[]): string {
+  const groups = new Map<number, number[]>();
+  ordered.forEach((node, i) => {
+    if (node.implicitHydrogens === 0) return;
+    if (!groups.has(node.implicitHydrogens)) groups.set(node.implicitHydrogens, []);
+    groups.get(node.implicitHydrogens)!.push(i + 1);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([count, atoms]) => `${formatRanges(atoms)}H${count > 1 ? count : ''}`)
+    .join(',');
+}
+
+// [1, 2, 3, 5] → "1-3,5"
+function formatRanges(values: number[]): string {
+  const parts: string[] = [];
+  let start = values[0];
+  let end = values[0];
+
+  for (const value of [...values.slice(1), NaN]) {
+    if (value === end + 1) {
+      end = value;
+      continue;
+    }
+    parts.push(start === end ? String(start) : `${start}-${end}`);
+    start = value;
+    end = value;
+  }
+
+  return parts.join(',');
+}
+
+function formatCharge(charge: number): string {
+  return charge > 0 ? `+${charge}` : String(charge);
+}
+
+// Uppercase letters from a SHA-256 digest, two bytes per letter
+function hashToLetters(text: string, length: number): string {
+  const digest = createHash('sha256').update(text).digest();
+  let letters = '';
+  for (let i = 0; i < length; i++) {
+    const value = (digest[2 * i] << 8) | digest[2 * i + 1];
+    letters += String.fromCharCode(65 + (value % 26));
+  }
+  return letters;
+}
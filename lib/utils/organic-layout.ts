@@ -0,0 +1,341 @@
+// 2D Layout for Imported Structures
+// Graphs built from SMILES (or other text formats without coordinates) have
+// no positions, so atoms are placed here before they reach the canvas:
+// rings become regular polygons, chains zig-zag, branches fan out
+
+import { MoleculeGraph, AtomNode, getNeighbors } from './organic-graph';
+
+export interface LayoutOptions {
+  bondLength?: number;
+  origin?: { x: number; y: number }; // top-left corner of the laid-out structure
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * Assign 2D positions to every node of the graph
+ * Existing positions are ignored; topology is preserved
+ */
+export function layoutMoleculeGraph(graph: MoleculeGraph, options: LayoutOptions = {}): MoleculeGraph {
+  const bondLength = options.bondLength ?? 50;
+  const origin = options.origin ?? { x: 150, y: 150 };
+
+  if (graph.nodes.length === 0) return graph;
+
+  const adjacency = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    adjacency.set(node.id, getNeighbors(node.id, graph.edges));
+  }
+
+  const rings = findSmallRings(graph, adjacency);
+  const positions = new Map<string, Point>();
+  const zigzag = new Map<string, number>();
+  let offsetX = 0;
+
+  for (const startNode of graph.nodes) {
+    if (positions.has(startNode.id)) continue;
+
+    // Lay out one connected component at a time
+    positions.set(startNode.id, { x: 0, y: 0 });
+    zigzag.set(startNode.id, 1);
+    const placedInComponent: string[] = [startNode.id];
+    const laidOutRings = new Set<number>();
+    const queue = [startNode.id];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      // Rings through this atom are placed as a whole before its substituents
+      rings.forEach((ring, ringIndex) => {
+        if (laidOutRings.has(ringIndex) || !ring.includes(current)) return;
+        laidOutRings.add(ringIndex);
+        for (const id of placeRing(ring, positions, adjacency, bondLength)) {
+          zigzag.set(id, 1);
+          placedInComponent.push(id);
+          queue.push(id);
+        }
+      });
+
+      const unplaced = (adjacency.get(current) || []).filter((id) => !positions.has(id));
+      if (unplaced.length === 0) continue;
+
+      const angles = chooseSubstituentAngles(current, unplaced.length, positions, adjacency, zigzag.get(current) || 1);
+      const base = positions.get(current)!;
+      unplaced.forEach((id, i) => {
+        positions.set(id, {
+          x: base.x + bondLength * Math.cos(angles[i]),
+          y: base.y + bondLength * Math.sin(angles[i]),
+        });
+        zigzag.set(id, -(zigzag.get(current) || 1));
+        placedInComponent.push(id);
+        queue.push(id);
+      });
+    }
+
+    // Shift the component so it sits to the right of the previous one
+    const xs = placedInComponent.map((id) => positions.get(id)!.x);
+    const componentMinX = Math.min(...xs);
+    const componentMaxX = Math.max(...xs);
+    for (const id of placedInComponent) {
+      const p = positions.get(id)!;
+      positions.set(id, { x: p.x - componentMinX + offsetX, y: p.y });
+    }
+    offsetX += componentMaxX - componentMinX + bondLength * 2;
+  }
+
+  // Translate everything so the top-left corner sits at the origin
+  const all = Array.from(positions.values());
+  const minX = Math.min(...all.map((p) => p.x));
+  const minY = Math.min(...all.map((p) => p.y));
+
+  const nodes: AtomNode[] = graph.nodes.map((node) => {
+    const p = positions.get(node.id)!;
+    return {
+      ...node,
+      position: {
+        x: Math.round((p.x - minX + origin.x) * 100) / 100,
+        y: Math.round((p.y - minY + origin.y) * 100) / 100,
+      },
+    };
+  });
+
+  return { nodes, edges: graph.edges };
+}
+
+/**
+ * Find one small ring per ring-closing edge
+ * A DFS spanning tree yields the ring-closing (back) edges; for each, the
+ * shortest alternative path between its ends gives the smallest ring through it
+ */
+function findSmallRings(graph: MoleculeGraph, adjacency: Map<string, string[]>): string[][] {
+  const visited = new Set<string>();
+  const backEdges: [string, string][] = [];
+  const seenEdges = new Set<string>();
+
+  for (const node of graph.nodes) {
+    if (visited.has(node.id)) continue;
+    const stack: [string, string | null][] = [[node.id, null]];
+    while (stack.length > 0) {
+      const [current, parent] = stack.pop()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      if (parent) seenEdges.add(edgeKey(current, parent));
+      for (const neighbor of adjacency.get(current) || []) {
+        if (neighbor === parent) continue;
+        if (visited.has(neighbor)) {
+          const key = edgeKey(current, neighbor);
+          if (!seenEdges.has(key)) {
+            seenEdges.add(key);
+            backEdges.push([current, neighbor]);
+          }
+        } else {
+          stack.push([neighbor, current]);
+        }
+      }
+    }
+  }
+
+  const rings: string[][] = [];
+  const ringKeys = new Set<string>();
+
+  for (const [a, b] of backEdges) {
+    const path = shortestPathAvoidingEdge(a, b, adjacency);
+    if (!path) continue;
+    const key = [...path].sort().join('|');
+    if (ringKeys.has(key)) continue;
+    ringKeys.add(key);
+    rings.push(path);
+  }
+
+  // Smaller rings first so fused systems grow from their smallest members
+  return rings.sort((r1, r2) => r1.length - r2.length);
+}
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// BFS from a to b that ignores the direct a-b bond; returns the ring in path order
+function shortestPathAvoidingEdge(a: string, b: string, adjacency: Map<string, string[]>): string[] | null {
+  const previous = new Map<string, string | null>([[a, null]]);
+  const queue = [a];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === b) break;
+    for (const neighbor of adjacency.get(current) || []) {
+      if (current === a && neighbor === b) continue;
+      if (previous.has(neighbor)) continue;
+      previous.set(neighbor, current);
+      queue.push(neighbor);
+    }
+  }
+
+  if (!previous.has(b)) return null;
+
+  const path: string[] = [];
+  let step: string | null = b;
+  while (step !== null) {
+    path.unshift(step);
+    step = previous.get(step) ?? null;
+  }
+  return path;
+}
+
+/**
+ * Place a ring as a regular polygon
+ * Handles a ring anchored on one placed atom (spiro / substituent entry) or on
+ * one placed bond (fused ring); anything more constrained is left to the
+ * substituent placement. Returns the ids that were newly placed.
+ */
+function placeRing(
+  ring: string[],
+  positions: Map<string, Point>,
+  adjacency: Map<string, string[]>,
+  bondLength: number
+): string[] {
+  const n = ring.length;
+  const placedIdx = ring.map((id, i) => (positions.has(id) ? i : -1)).filter((i) => i >= 0);
+  const radius = bondLength / (2 * Math.sin(Math.PI / n));
+  const step = (2 * Math.PI) / n;
+
+  let center: Point;
+  let startIndex: number;
+  let startAngle: number;
+  let direction: number;
+
+  if (placedIdx.length === 1) {
+    startIndex = placedIdx[0];
+    const anchor = positions.get(ring[startIndex])!;
+    const outward = largestGapBisector(ring[startIndex], positions, adjacency, new Set(ring));
+    center = { x: anchor.x + radius * Math.cos(outward), y: anchor.y + radius * Math.sin(outward) };
+    startAngle = Math.atan2(anchor.y - center.y, anchor.x - center.x);
+    direction = 1;
+  } else if (placedIdx.length === 2 && areRingNeighbors(placedIdx[0], placedIdx[1], n)) {
+    // Orient so that ring[i] -> ring[i + 1] is the shared bond
+    const [i0, i1] = placedIdx;
+    const i = (i0 + 1) % n === i1 ? i0 : i1;
+    const j = (i + 1) % n;
+    const a = positions.get(ring[i])!;
+    const b = positions.get(ring[j])!;
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const half = Math.hypot(b.x - a.x, b.y - a.y) / 2;
+    const apothem = Math.sqrt(Math.max(radius * radius - half * half, 0));
+    const normal = { x: -(b.y - a.y) / (2 * half || 1), y: (b.x - a.x) / (2 * half || 1) };
+
+    // Put the new ring on the side away from the atoms already around the bond
+    const others = [...(adjacency.get(ring[i]) || []), ...(adjacency.get(ring[j]) || [])].filter(
+      (id) => id !== ring[i] && id !== ring[j] && positions.has(id)
+    );
+    let side = 1;
+    if (others.length > 0) {
+      const cx = others.reduce((s, id) => s + positions.get(id)!.x, 0) / others.length;
+      const cy = others.reduce((s, id) => s + positions.get(id)!.y, 0) / others.length;
+      if ((cx - mid.x) * normal.x + (cy - mid.y) * normal.y > 0) side = -1;
+    }
+
+    center = { x: mid.x + side * apothem * normal.x, y: mid.y + side * apothem * normal.y };
+    startIndex = i;
+    startAngle = Math.atan2(a.y - center.y, a.x - center.x);
+    const nextAngle = Math.atan2(b.y - center.y, b.x - center.x);
+    direction = Math.sin(nextAngle - startAngle) >= 0 ? 1 : -1;
+  } else {
+    return [];
+  }
+
+  const placed: string[] = [];
+  for (let k = 1; k < n; k++) {
+    const id = ring[(startIndex + k) % n];
+    if (positions.has(id)) continue;
+    const angle = startAngle + direction * k * step;
+    positions.set(id, { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+    placed.push(id);
+  }
+  return placed;
+}
+
+function areRingNeighbors(i: number, j: number, n: number): boolean {
+  return (i + 1) % n === j || (j + 1) % n === i;
+}
+
+// Angle (radians) pointing into the widest empty sector around an atom
+function largestGapBisector(
+  nodeId: string,
+  positions: Map<string, Point>,
+  adjacency: Map<string, string[]>,
+  exclude: Set<string> = new Set()
+): number {
+  const base = positions.get(nodeId)!;
+  const angles = (adjacency.get(nodeId) || [])
+    .filter((id) => positions.has(id) && !exclude.has(id))
+    .map((id) => {
+      const p = positions.get(id)!;
+      return Math.atan2(p.y - base.y, p.x - base.x);
+    })
+    .sort((a, b) => a - b);
+
+  if (angles.length === 0) return 0;
+  if (angles.length === 1) return angles[0] + Math.PI;
+
+  let bestGap = -1;
+  let bestAngle = 0;
+  for (let i = 0; i < angles.length; i++) {
+    const from = angles[i];
+    const to = i === angles.length - 1 ? angles[0] + 2 * Math.PI : angles[i + 1];
+    if (to - from > bestGap) {
+      bestGap = to - from;
+      bestAngle = from + (to - from) / 2;
+    }
+  }
+  return bestAngle;
+}
+
+/**
+ * Directions for the unplaced neighbours of an atom
+ * A single continuation of a chain turns ±60° (alternating) for a zig-zag;
+ * otherwise the widest free sector is split evenly
+ */
+function chooseSubstituentAngles(
+  nodeId: string,
+  count: number,
+  positions: Map<string, Point>,
+  adjacency: Map<string, string[]>,
+  zigzag: number
+): number[] {
+  const base = positions.get(nodeId)!;
+  const placedNeighbors = (adjacency.get(nodeId) || []).filter((id) => positions.has(id));
+
+  if (placedNeighbors.length === 0) {
+    if (count === 1) return [-Math.PI / 6];
+    return Array.from({ length: count }, (_, i) => -Math.PI / 6 + (i * 2 * Math.PI) / count);
+  }
+
+  if (placedNeighbors.length === 1 && count === 1) {
+    const p = positions.get(placedNeighbors[0])!;
+    const incoming = Math.atan2(base.y - p.y, base.x - p.x);
+    return [incoming + (zigzag * Math.PI) / 3];
+  }
+
+  const angles = placedNeighbors
+    .map((id) => {
+      const p = positions.get(id)!;
+      return Math.atan2(p.y - base.y, p.x - base.x);
+    })
+    .sort((a, b) => a - b);
+
+  let gapStart = angles[0];
+  let gapSize = 2 * Math.PI;
+  if (angles.length > 1) {
+    gapSize = -1;
+    for (let i = 0; i < angles.length; i++) {
+      const from = angles[i];
+      const to = i === angles.length - 1 ? angles[0] + 2 * Math.PI : angles[i + 1];
+      if (to - from > gapSize) {
+        gapSize = to - from;
+        gapStart = from;
+      }
+    }
+  }
+
+  return Array.from({ length: count }, (_, i) => gapStart + (gapSize * (i + 1)) / (count + 1));
+}
@@ -0,0 +1,464 @@
+/**
+ * MDL Molfile (V2000) and SDF support for organic structures
+ *
+ * Writes and reads the atoms/bonds arrays stored on OrganicStructure, and
+ * converts records to and from the MoleculeGraph used by the editor.
+ *
+ * Coordinates: the canvas works in pixels with y pointing down and 50 px
+ * bonds; Molfiles use Ångström with y pointing up and ~1.5 Å bonds.
+ *
+ * Limitations:
+ * - V3000 files are rejected
+ * - Dative bonds have no V2000 code and are written as single bonds
+ * - Query bond types (5-8) and atom lists are not supported
+ */
+
+import { Atom, Bond, BondType, StereoType } from "@/lib/types/organic";
+import {
+  MoleculeGraph,
+  AtomNode,
+  Bond as GraphBond,
+  OrganicElement,
+  calculateHybridization,
+  defaultImplicitHydrogens,
+  getTotalBonds,
+} from "./organic-graph";
+import { layoutMoleculeGraph } from "./organic-layout";
+import { generateNodeId, generateBondId } from "./organic-mutations";
+
+export interface MolfileRecord {
+  name: string;
+  atoms: Atom[];
+  bonds: Bond[];
+  properties: Record<string, string>; // SDF data items (empty for a bare Molfile)
+}
+
+export interface MolfileReadResult {
+  success: boolean;
+  record?: MolfileRecord;
+  error?: string;
+}
+
+export interface SDFReadResult {
+  success: boolean;
+  records: MolfileRecord[];
+  errors: string[]; // one entry per record that failed to parse
+}
+
+export interface MolfileGraphResult {
+  success: boolean;
+  graph?: MoleculeGraph;
+  error?: string;
+}
+
+const PIXELS_PER_ANGSTROM = 50 / 1.5;
+const IMPORT_ORIGIN = { x: 150, y: 150 };
+
+const SUPPORTED_ELEMENTS: OrganicElement[] = ["C", "O", "N", "S", "P", "F", "Cl", "Br", "I"];
+
+const BOND_TYPE_CODES: Record<BondType, number> = {
+  single: 1,
+  double: 2,
+  triple: 3,
+  aromatic: 4,
+  dative: 1,
+};
+
+const STEREO_CODES: Record<StereoType, number> = {
+  wedge: 1,
+  wavy: 4,
+  dash: 6,
+};
+
+// Atom-block charge field: 1 = +3, 2 = +2, 3 = +1, 4 = doublet radical, 5 = -1, 6 = -2, 7 = -3
+const ATOM_BLOCK_CHARGES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+function pad(value: string | number, width: number): string {
+  return String(value).padStart(width, " ");
+}
+
+function formatCoordinate(value: number): string {
+  return pad(value.toFixed(4), 10);
+}
+
+function chargeToAtomBlock(charge: number): number {
+  const entry = Object.entries(ATOM_BLOCK_CHARGES).find(([, c]) => c === charge);
+  return entry ? parseInt(entry[0], 10) : 0;
+}
+
+// Program/timestamp line: 2 chars initials, 8 chars program, MMDDYYHHmm, dimension code
+function headerLine(): string {
+  const now = new Date();
+  const two = (n: number) => String(n).padStart(2, "0");
+  const stamp = `${two(now.getMonth() + 1)}${two(now.getDate())}${two(now.getFullYear() % 100)}${two(now.getHours())}${two(now.getMinutes())}`;
+  return `  ReactHub${stamp}2D`;
+}
+
+/**
+ * Write a V2000 Molfile from OrganicStructure atoms and bonds
+ * Charges and radicals go both in the atom block and in M  CHG / M  RAD lines
+ */
+export function writeMolfile(
+  atoms: Atom[],
+  bonds: Bond[],
+  options: { name?: string; comment?: string } = {}
+): string {
+  const index = new Map(atoms.map((atom, i) => [atom.id, i + 1]));
+  const validBonds = bonds.filter((b) => index.has(b.from) && index.has(b.to));
+
+  if (atoms.length > 999 || validBonds.length > 999) {
+    throw new Error("V2000 Molfiles are limited to 999 atoms and 999 bonds");
+  }
+
+  const lines: string[] = [
+    (options.name || "").replace(/[\r\n]+/g, " ").slice(0, 80),
+    headerLine(),
+    (options.comment || "").replace(/[\r\n]+/g, " ").slice(0, 80),
+    `${pad(atoms.length, 3)}${pad(validBonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`,
+  ];
+
+  for (const atom of atoms) {
+    const x = atom.position.x / PIXELS_PER_ANGSTROM;
+    const y = -atom.position.y / PIXELS_PER_ANGSTROM;
+    const z = (atom.position.z || 0) / PIXELS_PER_ANGSTROM;
+    const symbol = atom.element.padEnd(3, " ");
+    const chargeCode = chargeToAtomBlock(atom.charge || 0) || (atom.radical ? 4 : 0);
+    lines.push(
+      `${formatCoordinate(x)}${formatCoordinate(y)}${formatCoordinate(z)} ${symbol} 0${pad(chargeCode, 3)}  0  0  0  0  0  0  0  0  0  0`
+    );
+  }
+
+  for (const bond of validBonds) {
+    const stereo = bond.stereo ? STEREO_CODES[bond.stereo] : 0;
+    lines.push(
+      `${pad(index.get(bond.from)!, 3)}${pad(index.get(bond.to)!, 3)}${pad(BOND_TYPE_CODES[bond.type] || 1, 3)}${pad(stereo, 3)}  0  0  0`
+    );
+  }
+
+  // Property lines hold at most 8 entries each
+  const propertyLines = (tag: string, entries: [number, number][]) => {
+    for (let i = 0; i < entries.length; i += 8) {
+      const chunk = entries.slice(i, i + 8);
+      lines.push(`M  ${tag}${pad(chunk.length, 3)}${chunk.map(([a, v]) => `${pad(a, 4)}${pad(v, 4)}`).join("")}`);
+    }
+  };
+
+  propertyLines(
+    "CHG",
+    atoms.filter((a) => a.charge).map((a) => [index.get(a.id)!, a.charge!] as [number, number])
+  );
+  propertyLines(
+    "RAD",
+    atoms.filter((a) => a.radical).map((a) => [index.get(a.id)!, 2] as [number, number])
+  );
+
+  lines.push("M  END");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * writeMolfile for callers that can store a structure without one
+ * @returns null when the structure exceeds the V2000 limits
+ */
+export function tryWriteMolfile(
+  atoms: Atom[],
+  bonds: Bond[],
+  options: { name?: string; comment?: string } = {}
+): string | null {
+  try {
+    return writeMolfile(atoms, bonds, options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a V2000 Molfile into OrganicStructure atoms and bonds
+ * Coordinates are converted to canvas pixels and shifted to a fixed origin
+ */
+export function readMolfile(text: string): MolfileReadResult {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+  // Tolerate leading blank lines left over from SDF splitting
+  while (lines.length > 0 && lines[0].trim() === "" && lines[3] !== undefined && !/V2000|V3000/.test(lines[3])) {
+    lines.shift();
+  }
+
+  if (lines.length < 4) {
+    return { success: false, error: "Molfile is too short: missing header or counts line" };
+  }
+
+  const counts = lines[3];
+  if (/V3000/.test(counts)) {
+    return { success: false, error: "V3000 Molfiles are not supported" };
+  }
+
+  const atomCount = parseInt(counts.slice(0, 3), 10);
+  const bondCount = parseInt(counts.slice(3, 6), 10);
+  if (isNaN(atomCount) || isNaN(bondCount)) {
+    return { success: false, error: `Invalid counts line: "${counts.trim()}"` };
+  }
+  if (lines.length < 4 + atomCount + bondCount) {
+    return { success: false, error: "Molfile ends before the atom and bond blocks are complete" };
+  }
+
+  const atoms: Atom[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i];
+    const x = parseFloat(line.slice(0, 10));
+    const y = parseFloat(line.slice(10, 20));
+    const z = parseFloat(line.slice(20, 30));
+    const element = line.slice(31, 34).trim();
+    if (isNaN(x) || isNaN(y) || !element) {
+      return { success: false, error: `Invalid atom line ${i + 1}: "${line.trim()}"` };
+    }
+
+    const chargeCode = parseInt(line.slice(36, 39), 10) || 0;
+    atoms.push({
+      id: generateNodeId(element as OrganicElement),
+      element,
+      charge: ATOM_BLOCK_CHARGES[chargeCode] || 0,
+      radical: chargeCode === 4,
+      position: {
+        x: x * PIXELS_PER_ANGSTROM,
+        y: -y * PIXELS_PER_ANGSTROM,
+        z: isNaN(z) ? 0 : z * PIXELS_PER_ANGSTROM,
+      },
+    });
+  }
+
+  const bonds: Bond[] = [];
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[4 + atomCount + i];
+    const from = parseInt(line.slice(0, 3), 10);
+    const to = parseInt(line.slice(3, 6), 10);
+    const typeCode = parseInt(line.slice(6, 9), 10);
+    const stereoCode = parseInt(line.slice(9, 12), 10) || 0;
+
+    if (!atoms[from - 1] || !atoms[to - 1]) {
+      return { success: false, error: `Bond line ${i + 1} refers to a missing atom` };
+    }
+
+    const type: BondType | undefined =
+      typeCode === 1 ? "single"
+      : typeCode === 2 ? "double"
+      : typeCode === 3 ? "triple"
+      : typeCode === 4 ? "aromatic"
+      : typeCode === 9 ? "dative"
+      : undefined;
+    if (!type) {
+      return { success: false, error: `Unsupported bond type ${typeCode} on bond line ${i + 1}` };
+    }
+
+    const bond: Bond = { id: generateBondId(), from: atoms[from - 1].id, to: atoms[to - 1].id, type };
+    if (type === "single") {
+      if (stereoCode === 1) bond.stereo = "wedge";
+      else if (stereoCode === 6) bond.stereo = "dash";
+      else if (stereoCode === 4) bond.stereo = "wavy";
+    }
+    bonds.push(bond);
+  }
+
+  // Properties block; M  CHG / M  RAD supersede the atom-block values
+  let chargesReset = false;
+  let radicalsReset = false;
+  for (let i = 4 + atomCount + bondCount; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("M  END")) break;
+
+    const tag = line.slice(3, 6);
+    if (!line.startsWith("M  ") || (tag !== "CHG" && tag !== "RAD")) continue;
+
+    const values = line.slice(6).trim().split(/\s+/).map((v) => parseInt(v, 10));
+    const entries = values.slice(1);
+
+    if (tag === "CHG" && !chargesReset) {
+      atoms.forEach((a) => (a.charge = 0));
+      chargesReset = true;
+    }
+    if (tag === "RAD" && !radicalsReset) {
+      atoms.forEach((a) => (a.radical = false));
+      radicalsReset = true;
+    }
+
+    for (let k = 0; k + 1 < entries.length; k += 2) {
+      const atom = atoms[entries[k] - 1];
+      if (!atom) continue;
+      if (tag === "CHG") atom.charge = entries[k + 1];
+      else atom.radical = entries[k + 1] > 0;
+    }
+  }
+
+  // Shift onto the canvas
+  if (atoms.length > 0) {
+    const minX = Math.min(...atoms.map((a) => a.position.x));
+    const minY = Math.min(...atoms.map((a) => a.position.y));
+    for (const atom of atoms) {
+      atom.position.x = Math.round((atom.position.x - minX + IMPORT_ORIGIN.x) * 100) / 100;
+      atom.position.y = Math.round((atom.position.y - minY + IMPORT_ORIGIN.y) * 100) / 100;
+    }
+  }
+
+  return {
+    success: true,
+    record: { name: lines[0].trim(), atoms, bonds, properties: {} },
+  };
+}
+
+/**
+ * Write a multi-record SDF
+ * Each record is a Molfile followed by its data items and a $$$$ delimiter
+ */
+export function writeSDF(records: (Omit<MolfileRecord, "properties"> & { properties?: Record<string, string> })[]): string {
+  return records
+    .map((record) => {
+      let block = writeMolfile(record.atoms, record.bonds, { name: record.name });
+      for (const [key, value] of Object.entries(record.properties || {})) {
+        if (value === undefined || value === null || value === "") continue;
+        block += `> <${key}>\n${String(value).replace(/\r?\n\s*\r?\n/g, "\n")}\n\n`;
+      }
+      return block + "$$$$\n";
+    })
+    .join("");
+}
+
+/**
+ * Read a (possibly multi-record) SDF
+ * Records that fail to parse are reported in errors; the rest are returned
+ */
+export function readSDF(text: string): SDFReadResult {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const blocks = normalized.split(/^\$\$\$\$[^\n]*$/m).filter((block) => block.trim().length > 0);
+
+  const records: MolfileRecord[] = [];
+  const errors: string[] = [];
+
+  blocks.forEach((block, i) => {
+    const body = block.replace(/^\n/, "");
+    const endIndex = body.search(/^M {2}END/m);
+    const molPart = endIndex === -1 ? body : body.slice(0, endIndex + 6);
+    const dataPart = endIndex === -1 ? "" : body.slice(endIndex + 6);
+
+    const result = readMolfile(molPart);
+    if (!result.success || !result.record) {
+      errors.push(`Record ${i + 1}: ${result.error}`);
+      return;
+    }
+
+    // Data items: "> <NAME>" header, value lines, blank line
+    const properties: Record<string, string> = {};
+    const dataLines = dataPart.split("\n");
+    for (let k = 0; k < dataLines.length; k++) {
+      const header = dataLines[k].match(/^>.*<([^>]+)>/);
+      if (!header) continue;
+      const valueLines: string[] = [];
+      while (k + 1 < dataLines.length && dataLines[k + 1].trim() !== "") {
+        valueLines.push(dataLines[++k]);
+      }
+      properties[header[1]] = valueLines.join("\n");
+    }
+
+    records.push({ ...result.record, properties });
+  });
+
+  if (records.length === 0 && errors.length === 0) {
+    errors.push("File contains no records");
+  }
+
+  return { success: records.length > 0, records, errors };
+}
+
+/**
+ * Convert an editor graph to OrganicStructure atoms and bonds
+ */
+export function graphToMolfileRecord(graph: MoleculeGraph, name: string = ""): MolfileRecord {
+  const atoms: Atom[] = graph.nodes.map((node) => ({
+    id: node.id,
+    element: node.element,
+    charge: node.charge || 0,
+    position: { x: node.position.x, y: node.position.y, z: 0 },
+    hybridization: node.hybridization,
+  }));
+
+  const bonds: Bond[] = graph.edges.map((edge) => ({
+    id: edge.id,
+    from: edge.from,
+    to: edge.to,
+    type:
+      edge.bondType === "aromatic" ? "aromatic"
+      : edge.bondOrder === 3 ? "triple"
+      : edge.bondOrder === 2 ? "double"
+      : "single",
+    ...(edge.stereo ? { stereo: edge.stereo } : {}),
+  }));
+
+  return { name, atoms, bonds, properties: {} };
+}
+
+/**
+ * Convert a Molfile record to an editor graph
+ * Explicit hydrogens are folded into their neighbour's implicit count;
+ * remaining hydrogens follow the default valences. Records without 2D
+ * coordinates (all atoms stacked) are laid out automatically.
+ */
+export function molfileRecordToGraph(record: MolfileRecord): MolfileGraphResult {
+  const hydrogenIds = new Set(record.atoms.filter((a) => a.element === "H").map((a) => a.id));
+  const explicitH = new Map<string, number>();
+
+  for (const atom of record.atoms) {
+    if (atom.element === "H") continue;
+    if (!SUPPORTED_ELEMENTS.includes(atom.element as OrganicElement)) {
+      return { success: false, error: `Unsupported element "${atom.element}"` };
+    }
+  }
+
+  const edges: GraphBond[] = [];
+  for (const bond of record.bonds) {
+    const fromH = hydrogenIds.has(bond.from);
+    const toH = hydrogenIds.has(bond.to);
+    if (fromH && toH) {
+      return { success: false, error: "Hydrogen-hydrogen bonds are not supported" };
+    }
+    if (fromH || toH) {
+      const heavy = fromH ? bond.to : bond.from;
+      explicitH.set(heavy, (explicitH.get(heavy) || 0) + 1);
+      continue;
+    }
+    edges.push({
+      id: bond.id,
+      from: bond.from,
+      to: bond.to,
+      bondOrder: bond.type === "triple" ? 3 : bond.type === "double" ? 2 : 1,
+      bondType: bond.type === "aromatic" ? "aromatic" : bond.type === "double" || bond.type === "triple" ? "pi-system" : "sigma",
+      ...(bond.stereo ? { stereo: bond.stereo } : {}),
+    });
+  }
+
+  const heavyAtoms = record.atoms.filter((a) => !hydrogenIds.has(a.id));
+  if (heavyAtoms.length === 0) {
+    return { success: false, error: "Structure contains no heavy atoms" };
+  }
+
+  const nodes: AtomNode[] = heavyAtoms.map((atom) => {
+    const aromatic = edges.some((e) => (e.from === atom.id || e.to === atom.id) && e.bondType === "aromatic");
+    const hydrogens = explicitH.get(atom.id) || 0;
+    const charge = atom.charge || 0;
+    const inferred = defaultImplicitHydrogens(atom.element, getTotalBonds(atom.id, edges) + hydrogens, aromatic, charge);
+    return {
+      id: atom.id,
+      element: atom.element as OrganicElement,
+      position: { x: atom.position.x, y: atom.position.y },
+      implicitHydrogens: Math.max(0, hydrogens + inferred - (atom.radical ? 1 : 0)),
+      hybridization: calculateHybridization(atom.id, edges),
+      ...(charge !== 0 ? { charge } : {}),
+    };
+  });
+
+  const graph: MoleculeGraph = { nodes, edges };
+  const distinctPositions = new Set(nodes.map((n) => `${n.position.x},${n.position.y}`));
+  if (nodes.length > 1 && distinctPositions.size === 1) {
+    return { success: true, graph: layoutMoleculeGraph(graph) };
+  }
+
+  return { success: true, graph };
+}
@@ -27,12 +27,12 @@ export interface MutationResult {
 }
 
 // Helper: Generate unique node ID
-function generateNodeId(element: OrganicElement): string {
+export function generateNodeId(element: OrganicElement): string {
   return `${element}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 // Helper: Generate unique bond ID
-function generateBondId(): string {
+export function generateBondId(): string {
   return `B_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
@@ -3,8 +3,18 @@
  * Run these examples to verify SMILES generation works correctly
  */
 
-import { generateSMILES, isValidSMILES, getSMILESByFormula } from './organic-smiles';
-import { MoleculeGraph } from './organic-graph';
+import {
+  generateSMILES,
+  generateCanonicalSMILES,
+  computeCanonicalRanks,
+  isValidSMILES,
+  getSMILESByFormula,
+  parseSMILES,
+} from './organic-smiles';
+import { MoleculeGraph, updateImplicitHydrogens } from './organic-graph';
+import { computeFormula } from './organic-validation';
+import { createAlkaneChain, createAromaticRing } from './organic-templates';
+import { attachSubstituent } from './organic-mutations';
 
 // Example 1: Methane (CH4)
 export const methaneGraph: MoleculeGraph = {
@@ -132,24 +142,24 @@ export const aceticAcidGraph: MoleculeGraph = {
 };
 // Expected SMILES: "CC(=O)O"
 
+const examples = [
+  { name: 'Methane', graph: methaneGraph, expected: 'C' },
+  { name: 'Ethane', graph: ethaneGraph, expected: 'CC' },
+  { name: 'Propane', graph: propaneGraph, expected: 'CCC' },
+  { name: 'Ethanol', graph: ethanolGraph, expected: 'CCO' },
+  { name: 'Ethene', graph: etheneGraph, expected: 'C=C' },
+  { name: 'Acetylene', graph: acetylenGraph, expected: 'C#C' },
+  { name: 'Isobutane', graph: isobutaneGraph, expected: 'CC(C)C' },
+  { name: 'Benzene', graph: benzeneGraph, expected: 'c1ccccc1' },
+  { name: 'Acetic Acid', graph: aceticAcidGraph, expected: 'CC(=O)O' }
+];
+
 /**
  * Run all example tests
  */
 export function runSMILESTests() {
   console.log('=== SMILES Generation Tests ===\n');
 
-  const examples = [
-    { name: 'Methane', graph: methaneGraph, expected: 'C' },
-    { name: 'Ethane', graph: ethaneGraph, expected: 'CC' },
-    { name: 'Propane', graph: propaneGraph, expected: 'CCC' },
-    { name: 'Ethanol', graph: ethanolGraph, expected: 'CCO' },
-    { name: 'Ethene', graph: etheneGraph, expected: 'C=C' },
-    { name: 'Acetylene', graph: acetylenGraph, expected: 'C#C' },
-    { name: 'Isobutane', graph: isobutaneGraph, expected: 'CC(C)C' },
-    { name: 'Benzene', graph: benzeneGraph, expected: 'c1ccccc1' },
-    { name: 'Acetic Acid', graph: aceticAcidGraph, expected: 'CC(=O)O' }
-  ];
-
   for (const example of examples) {
     const generated = generateSMILES(example.graph);
     const valid = isValidSMILES(generated);
@@ -172,3 +182,134 @@ export function runSMILESTests() {
 
 // Uncomment to run tests:
 // runSMILESTests();
+
+describe('generateSMILES', () => {
+  it.each(examples)('writes $expected for $name', ({ graph, expected }) => {
+    expect(generateSMILES(graph)).toBe(expected);
+  });
+
+  it('returns an empty string for an empty graph', () => {
+    expect(generateSMILES({ nodes: [], edges: [] })).toBe('');
+  });
+});
+
+describe('parseSMILES', () => {
+  it.each(examples)('round-trips $name', ({ graph }) => {
+    const smiles = generateSMILES(graph);
+    const result = parseSMILES(smiles);
+
+    expect(result.success).toBe(true);
+    expect(result.graph!.nodes).toHaveLength(graph.nodes.length);
+    expect(result.graph!.edges).toHaveLength(graph.edges.length);
+    expect(computeFormula(result.graph!)).toBe(computeFormula(graph));
+    expect(generateSMILES(result.graph!)).toBe(smiles);
+  });
+
+  it('parses branches and ring closures', () => {
+    const result = parseSMILES('CC1CCC(C(=O)O)CC1');
+    expect(result.success).toBe(true);
+    expect(computeFormula(result.graph!)).toBe('C₈H₁₄O₂');
+  });
+
+  it('parses aromatic atoms and bracket hydrogens', () => {
+    const pyrrole = parseSMILES('c1cc[nH]c1');
+    expect(pyrrole.success).toBe(true);
+    expect(pyrrole.graph!.edges.every((e) => e.bondType === 'aromatic')).toBe(true);
+    expect(computeFormula(pyrrole.graph!)).toBe('C₄H₅N');
+    expect(generateSMILES(pyrrole.graph!)).toBe('c1cc[nH]c1');
+  });
+
+  it('parses charges on bracket atoms', () => {
+    const result = parseSMILES('C[N+](=O)[O-]');
+    expect(result.success).toBe(true);
+    const charges = result.graph!.nodes.map((n) => n.charge || 0);
+    expect(charges).toEqual([0, 1, 0, -1]);
+    expect(generateSMILES(result.graph!)).toBe('C[N+](=O)[O-]');
+  });
+
+  it('honours bond symbols on ring closures', () => {
+    const result = parseSMILES('C=1CCCCC1');
+    expect(result.success).toBe(true);
+    expect(result.graph!.edges.filter((e) => e.bondOrder === 2)).toHaveLength(1);
+  });
+
+  it('lays out atoms with distinct positions', () => {
+    const result = parseSMILES('c1ccc2ccccc2c1');
+    const keys = new Set(result.graph!.nodes.map((n) => `${Math.round(n.position.x)},${Math.round(n.position.y)}`));
+    expect(keys.size).toBe(10);
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['CC(', 'Unclosed branch'],
+    ['C1CC', 'never closed'],
+    ['C)', 'Unmatched'],
+    ['C[Xe]', 'Unsupported element'],
+    ['C=', 'ends with a bond'],
+  ])('rejects %p', (smiles, message) => {
+    const result = parseSMILES(smiles);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(message);
+  });
+
+  it('is used by isValidSMILES', () => {
+    expect(isValidSMILES('CC(=O)O')).toBe(true);
+    expect(isValidSMILES('CC(=O')).toBe(false);
+  });
+});
+
+describe('generateCanonicalSMILES', () => {
+  // Same molecule with atoms and bonds listed in reverse, bond directions flipped
+  const reorder = (graph: MoleculeGraph): MoleculeGraph => ({
+    nodes: [...graph.nodes].reverse(),
+    edges: [...graph.edges].reverse().map((e) => ({ ...e, from: e.to, to: e.from })),
+  });
+
+  it.each(examples)('is independent of atom order for $name', ({ graph }) => {
+    expect(generateCanonicalSMILES(reorder(graph))).toBe(generateCanonicalSMILES(graph));
+  });
+
+  it.each([
+    ['OCC', 'CCO'],
+    ['C(C)(C)C', 'CC(C)C'],
+    ['c1ccccc1C', 'Cc1ccccc1'],
+    ['OC(=O)C', 'CC(=O)O'],
+    ['C1CC(C(=O)O)CCC1C', 'CC1CCC(C(=O)O)CC1'],
+    ['O.CC', 'CC.O'],
+  ])('gives %s and %s the same string', (a, b) => {
+    const first = generateCanonicalSMILES(parseSMILES(a).graph!);
+    expect(first).toBe(generateCanonicalSMILES(parseSMILES(b).graph!));
+    expect(parseSMILES(first).success).toBe(true);
+  });
+
+  it('matches for structures built in a different order through mutations', () => {
+    const chain = createAlkaneChain({ chainLength: 3 });
+    const first = attachSubstituent(chain, chain.nodes[0].id, { type: 'hydroxyl' }).graph!;
+    const last = attachSubstituent(chain, chain.nodes[2].id, { type: 'hydroxyl' }).graph!;
+
+    expect(generateCanonicalSMILES(first)).toBe(generateCanonicalSMILES(last));
+  });
+
+  it.each(['Oc1ccccc1', 'c1ccncc1', 'CC(=O)O', 'CCN'])('keeps %s when hydrogens are recomputed from the bonds', (smiles) => {
+    // A structure reloaded from its atoms and bonds starts without hydrogens
+    const graph = parseSMILES(smiles).graph!;
+    const reloaded = updateImplicitHydrogens({ ...graph, nodes: graph.nodes.map((n) => ({ ...n, implicitHydrogens: 0 })) });
+    expect(generateCanonicalSMILES(reloaded)).toBe(generateCanonicalSMILES(graph));
+  });
+
+  it('writes the benzene template as an aromatic ring', () => {
+    expect(generateCanonicalSMILES(createAromaticRing())).toBe('c1ccccc1');
+  });
+
+  it('distinguishes constitutional isomers', () => {
+    const propan1ol = generateCanonicalSMILES(parseSMILES('CCCO').graph!);
+    const propan2ol = generateCanonicalSMILES(parseSMILES('CC(C)O').graph!);
+    expect(propan1ol).not.toBe(propan2ol);
+  });
+
+  it('assigns a unique rank to every atom', () => {
+    const graph = parseSMILES('c1ccccc1').graph!;
+    const ranks = computeCanonicalRanks(graph);
+    expect(new Set(ranks.values()).size).toBe(6);
+  });
+});
@@ -2,12 +2,26 @@
  * SMILES Generation for Organic Molecules
  * SMILES = Simplified Molecular Input Line Entry System
  *
- * This is a basic implementation that handles common organic structures.
+ * Handles both directions: graph → SMILES (generateSMILES) and
+ * SMILES → graph (parseSMILES) for common organic structures.
  * For production use with complex molecules, consider using RDKit.js:
  * https://github.com/rdkit/rdkit-js
  */
 
-import { MoleculeGraph, AtomNode, Bond } from './organic-graph';
+import {
+  MoleculeGraph,
+  AtomNode,
+  Bond,
+  BondOrder,
+  BondType,
+  OrganicElement,
+  getTotalBonds,
+  calculateHybridization,
+  defaultImplicitHydrogens,
+  isAromaticAtom,
+} from './organic-graph';
+import { layoutMoleculeGraph } from './organic-layout';
+import { generateNodeId, generateBondId } from './organic-mutations';
 
 /**
  * Generate SMILES notation from molecular graph
@@ -17,12 +31,13 @@ import { MoleculeGraph, AtomNode, Bond } from './organic-graph';
  * - Single, double, triple bonds
  * - Aromatic rings (benzene)
  * - Common heteroatoms (O, N, S, P, halogens)
+ * - Charged atoms (bracket notation)
  * - Ring closures
+ * - Disconnected fragments (dot-separated)
  *
  * Limitations:
  * - Stereochemistry not fully supported
- * - Complex ring systems may not be canonical
- * - For advanced features, use RDKit.js
+ * - Output depends on atom order (see generateCanonicalSMILES)
  */
 export function generateSMILES(graph: MoleculeGraph): string {
   if (!graph.nodes || graph.nodes.length === 0) {
@@ -36,96 +51,117 @@ export function generateSMILES(graph: MoleculeGraph): string {
 
   // Start from a good starting node (prefer carbon with single bond)
   const startNode = findStartingNode(graph);
+  const fragments: string[] = [];
+  const written = new Set<string>();
 
-  const visited = new Set<string>();
-  const ringClosures = new Map<string, number>();
-  let ringCounter = 1;
-
-  /**
-   * Depth-first traversal to build SMILES string
-   */
-  function traverse(nodeId: string, parentNodeId: string | null = null): string {
-    if (visited.has(nodeId)) {
-      // Ring closure - use number notation
-      const existingRing = ringClosures.get(nodeId);
-      if (existingRing !== undefined) {
-        return existingRing.toString();
-      }
+  for (const node of [startNode, ...graph.nodes]) {
+    if (written.has(node.id)) continue;
+    fragments.push(writeSMILES(graph, node.id, written));
+  }
 
-      // New ring closure
-      const ringNum = ringCounter++;
-      ringClosures.set(nodeId, ringNum);
-      return ringNum.toString();
-    }
+  return fragments.join('.');
+}
 
+interface TraversalStep {
+  nodeId: string;
+  bond: Bond | null; // bond from parent (null for the root)
+  children: TraversalStep[];
+  ringBonds: { bond: Bond; opens: boolean }[];
+}
+
+/**
+ * Write one connected fragment as SMILES
+ *
+ * Pass 1 walks the fragment depth-first to fix the spanning tree and find the
+ * ring-closure bonds; pass 2 emits atoms with their ring-closure digits,
+ * every child but the last as a parenthesised branch, and the last inline.
+ * Neighbours are visited in edge order unless a comparator is supplied.
+ */
+function writeSMILES(
+  graph: MoleculeGraph,
+  rootId: string,
+  visited: Set<string>,
+  compareNeighbors?: (a: string, b: string) => number
+): string {
+  const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const usedBonds = new Set<string>();
+  const steps = new Map<string, TraversalStep>();
+
+  function walk(nodeId: string, bond: Bond | null): TraversalStep {
     visited.add(nodeId);
+    const step: TraversalStep = { nodeId, bond, children: [], ringBonds: [] };
+    steps.set(nodeId, step);
 
-    const node = graph.nodes.find(n => n.id === nodeId);
-    if (!node) return '';
+    const bonds = graph.edges.filter((e) => e.from === nodeId || e.to === nodeId);
+    if (compareNeighbors) {
+      bonds.sort((a, b) => compareNeighbors(otherEnd(a, nodeId), otherEnd(b, nodeId)));
+    }
 
-    let smiles = '';
+    for (const next of bonds) {
+      if (usedBonds.has(next.id)) continue;
+      usedBonds.add(next.id);
+      const neighborId = otherEnd(next, nodeId);
+
+      if (visited.has(neighborId)) {
+        // Back edge: the neighbour was written earlier, so it opens the ring
+        steps.get(neighborId)?.ringBonds.push({ bond: next, opens: true });
+        step.ringBonds.push({ bond: next, opens: false });
+      } else {
+        step.children.push(walk(neighborId, next));
+      }
+    }
 
-    // Add atom symbol
-    const atomSymbol = formatAtomSymbol(node, graph.edges);
-    smiles += atomSymbol;
+    return step;
+  }
 
-    // Check if this node has a ring closure number already assigned
-    if (ringClosures.has(nodeId)) {
-      smiles += ringClosures.get(nodeId);
-    }
+  const root = walk(rootId, null);
 
-    // Get all bonds from this node
-    const bonds = graph.edges.filter(e =>
-      (e.from === nodeId || e.to === nodeId)
-    );
+  const ringDigits = new Map<string, number>();
+  const freeDigits = new Set<number>();
+  let nextDigit = 1;
 
-    // Separate bonds into: to parent, and to children
-    const childBonds = bonds.filter(bond => {
-      const neighborId = bond.from === nodeId ? bond.to : bond.from;
-      return neighborId !== parentNodeId;
-    });
+  function takeDigit(): number {
+    if (freeDigits.size > 0) {
+      const digit = Math.min(...freeDigits);
+      freeDigits.delete(digit);
+      return digit;
+    }
+    return nextDigit++;
+  }
 
-    // Process first child inline (no branch)
-    if (childBonds.length > 0) {
-      const firstBond = childBonds[0];
-      const firstNeighborId = firstBond.from === nodeId ? firstBond.to : firstBond.from;
-
-      // Add bond notation if needed
-      const bondNotation = getBondNotation(firstBond);
-      smiles += bondNotation;
-
-      // Traverse to first child
-      smiles += traverse(firstNeighborId, nodeId);
-
-      // Process remaining children as branches
-      for (let i = 1; i < childBonds.length; i++) {
-        const bond = childBonds[i];
-        const neighborId = bond.from === nodeId ? bond.to : bond.from;
-
-        // Check if it's a ring closure
-        if (visited.has(neighborId)) {
-          const bondNotation = getBondNotation(bond);
-          const existingRing = ringClosures.get(neighborId);
-
-          if (existingRing !== undefined) {
-            smiles += bondNotation + existingRing;
-          } else {
-            const ringNum = ringCounter++;
-            ringClosures.set(neighborId, ringNum);
-            smiles += bondNotation + ringNum;
-          }
-        } else {
-          // Branch notation
-          const bondNotation = getBondNotation(bond);
-          smiles += '(' + bondNotation + traverse(neighborId, nodeId) + ')';
-        }
+  function emit(step: TraversalStep): string {
+    const node = nodeById.get(step.nodeId)!;
+    let smiles = formatAtomSymbol(node, graph.edges);
+
+    for (const { bond, opens } of step.ringBonds) {
+      if (opens) {
+        const digit = takeDigit();
+        ringDigits.set(bond.id, digit);
+        smiles += getBondNotation(bond, graph) + formatRingDigit(digit);
+      } else {
+        const digit = ringDigits.get(bond.id)!;
+        freeDigits.add(digit);
+        smiles += formatRingDigit(digit);
       }
     }
 
+    step.children.forEach((child, i) => {
+      const branch = getBondNotation(child.bond!, graph) + emit(child);
+      smiles += i < step.children.length - 1 ? `(${branch})` : branch;
+    });
+
     return smiles;
   }
 
-  return traverse(startNode.id);
+  return emit(root);
+}
+
+function otherEnd(bond: Bond, nodeId: string): string {
+  return bond.from === nodeId ? bond.to : bond.from;
+}
+
+function formatRingDigit(digit: number): string {
+  return digit < 10 ? digit.toString() : `%${digit}`;
 }
 
 /**
@@ -133,42 +169,52 @@ export function generateSMILES(graph: MoleculeGraph): string {
  * Handles implicit hydrogens and brackets when needed
  */
 function formatAtomSymbol(node: AtomNode, edges: Bond[]): string {
-  const element = node.element;
+  const element: string = node.element;
 
   // Check if aromatic
-  const isAromatic = edges.some(e =>
-    (e.from === node.id || e.to === node.id) && e.bondType === 'aromatic'
-  );
+  const isAromatic = isAromaticAtom(node.id, edges);
 
   // Organic subset elements (B, C, N, O, P, S, F, Cl, Br, I) can be written without brackets
   const organicSubset = ['B', 'C', 'N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I'];
+  const charge = node.charge || 0;
+  const symbol = isAromatic ? element.toLowerCase() : element;
 
-  if (organicSubset.includes(element)) {
-    // Aromatic atoms use lowercase
-    if (isAromatic) {
-      return element.toLowerCase();
-    }
+  // Aromatic atoms whose hydrogens SMILES cannot infer (e.g. pyrrole [nH]) need brackets
+  const needsHydrogenCount =
+    isAromatic &&
+    node.implicitHydrogens !== defaultImplicitHydrogens(element, getTotalBonds(node.id, edges), true);
 
-    // Carbon can be implicit in many cases, but we'll be explicit
-    return element;
+  if (organicSubset.includes(element) && charge === 0 && !needsHydrogenCount) {
+    return symbol;
   }
 
-  // Non-organic subset requires brackets
-  return `[${element}]`;
+  // Non-organic subset, charged atoms and explicit H counts require brackets
+  let bracket = symbol;
+  if (node.implicitHydrogens > 0) {
+    bracket += node.implicitHydrogens > 1 ? `H${node.implicitHydrogens}` : 'H';
+  }
+  if (charge !== 0) {
+    const sign = charge > 0 ? '+' : '-';
+    bracket += Math.abs(charge) > 1 ? `${sign}${Math.abs(charge)}` : sign;
+  }
+  return `[${bracket}]`;
 }
 
 /**
  * Get bond notation for SMILES
  * Single bonds are implicit (empty string)
  */
-function getBondNotation(bond: Bond): string {
+function getBondNotation(bond: Bond, graph?: MoleculeGraph): string {
   // Aromatic bonds are implicit (lowercase atoms indicate aromaticity)
   if (bond.bondType === 'aromatic') {
     return '';
   }
 
-  // Single bonds are implicit
+  // Single bonds are implicit, except between two aromatic atoms (e.g. biphenyl)
   if (bond.bondOrder === 1) {
+    if (graph && isAromaticAtom(bond.from, graph.edges) && isAromaticAtom(bond.to, graph.edges)) {
+      return '-';
+    }
     return '';
   }
 
@@ -216,14 +262,260 @@ function findStartingNode(graph: MoleculeGraph): AtomNode {
 }
 
 /**
- * Validate SMILES string (basic check)
+ * Validate SMILES string
+ * Quick character check first, then a full parse
  */
 export function isValidSMILES(smiles: string): boolean {
   if (!smiles || smiles.trim().length === 0) return false;
 
   // Valid SMILES characters
-  const validPattern = /^[A-Za-z0-9()\[\]=#@+\-\\/%.]+$/;
-  return validPattern.test(smiles);
+  const validPattern = /^[A-Za-z0-9()\[\]=#@+\-\\/%.:*$]+$/;
+  if (!validPattern.test(smiles.trim())) return false;
+
+  return parseSMILES(smiles).success;
+}
+
+export interface SMILESParseResult {
+  success: boolean;
+  graph?: MoleculeGraph;
+  error?: string;
+}
+
+type BondSymbol = '-' | '=' | '#' | ':' | '/' | '\\';
+
+interface ParsedAtom {
+  id: string;
+  element: OrganicElement;
+  aromatic: boolean;
+  bracket: boolean;
+  hydrogens: number; // explicit H count (bracket atoms only)
+  charge: number;
+}
+
+const SUPPORTED_ELEMENTS: OrganicElement[] = ['C', 'O', 'N', 'S', 'P', 'F', 'Cl', 'Br', 'I'];
+const AROMATIC_SYMBOLS = ['c', 'n', 'o', 's', 'p'];
+
+/**
+ * Parse a SMILES string into a molecular graph
+ *
+ * Supports:
+ * - Organic subset atoms (C, N, O, P, S, F, Cl, Br, I) and aromatic c, n, o, p, s
+ * - Bracket atoms with hydrogen count and charge, e.g. [NH4+], [O-], [nH]
+ * - Branches, ring-closure digits (including %nn) and bond symbols - = # : / \\
+ * - Dot-separated fragments
+ *
+ * Isotopes, chirality and atom classes are accepted but not stored on the graph.
+ * Atoms are laid out in 2D so the result can go straight onto the canvas.
+ */
+export function parseSMILES(smiles: string): SMILESParseResult {
+  const input = (smiles || '').trim();
+  if (input.length === 0) {
+    return { success: false, error: 'SMILES string is empty' };
+  }
+
+  const atoms: ParsedAtom[] = [];
+  const edges: Bond[] = [];
+  const branchStack: (string | null)[] = [];
+  const openRings = new Map<number, { atomId: string; bond: BondSymbol | null; position: number }>();
+
+  let previousAtom: string | null = null;
+  let pendingBond: BondSymbol | null = null;
+  let i = 0;
+
+  const fail = (message: string): SMILESParseResult => ({ success: false, error: message });
+
+  const aromaticIds = new Set<string>();
+
+  function connect(fromId: string, toId: string, symbol: BondSymbol | null): string | null {
+    if (fromId === toId) return 'An atom cannot be bonded to itself';
+    if (edges.some((e) => (e.from === fromId && e.to === toId) || (e.from === toId && e.to === fromId))) {
+      return 'Duplicate bond between the same pair of atoms';
+    }
+
+    let bondOrder: BondOrder = 1;
+    let bondType: BondType = 'sigma';
+
+    if (symbol === '=') {
+      bondOrder = 2;
+      bondType = 'pi-system';
+    } else if (symbol === '#') {
+      bondOrder = 3;
+      bondType = 'pi-system';
+    } else if (symbol === ':' || (symbol === null && aromaticIds.has(fromId) && aromaticIds.has(toId))) {
+      bondType = 'aromatic';
+    }
+
+    edges.push({ id: generateBondId(), from: fromId, to: toId, bondOrder, bondType });
+    return null;
+  }
+
+  function addAtom(atom: Omit<ParsedAtom, 'id'>): string | null {
+    const id = generateNodeId(atom.element);
+    atoms.push({ ...atom, id });
+    if (atom.aromatic) aromaticIds.add(id);
+
+    if (previousAtom !== null) {
+      const error = connect(previousAtom, id, pendingBond);
+      if (error) return error;
+    } else if (pendingBond !== null) {
+      return `Bond "${pendingBond}" at position ${i} has no preceding atom`;
+    }
+
+    pendingBond = null;
+    previousAtom = id;
+    return null;
+  }
+
+  while (i < input.length) {
+    const char = input[i];
+
+    // Bond symbols
+    if ('-=#:/\\'.includes(char)) {
+      if (pendingBond !== null) return fail(`Two bond symbols in a row at position ${i}`);
+      pendingBond = char as BondSymbol;
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      return fail('Quadruple bonds ($) are not supported');
+    }
+
+    // Branches
+    if (char === '(') {
+      if (previousAtom === null) return fail(`Branch opened at position ${i} without a preceding atom`);
+      if (pendingBond !== null) return fail(`Bond symbol before "(" at position ${i}`);
+      branchStack.push(previousAtom);
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      if (branchStack.length === 0) return fail(`Unmatched ")" at position ${i}`);
+      if (pendingBond !== null) return fail(`Dangling bond symbol before ")" at position ${i}`);
+      previousAtom = branchStack.pop()!;
+      i++;
+      continue;
+    }
+
+    // Fragment separator
+    if (char === '.') {
+      if (pendingBond !== null) return fail(`Dangling bond symbol before "." at position ${i}`);
+      if (branchStack.length > 0) return fail(`Fragment separator inside a branch at position ${i}`);
+      previousAtom = null;
+      i++;
+      continue;
+    }
+
+    // Ring closures: single digit or %nn
+    if (/[0-9]/.test(char) || char === '%') {
+      if (previousAtom === null) return fail(`Ring-closure digit at position ${i} without a preceding atom`);
+      let ringNumber: number;
+      const ringPosition = i;
+      if (char === '%') {
+        const digits = input.slice(i + 1, i + 3);
+        if (!/^[0-9]{2}$/.test(digits)) return fail(`Expected two digits after "%" at position ${i}`);
+        ringNumber = parseInt(digits, 10);
+        i += 3;
+      } else {
+        ringNumber = parseInt(char, 10);
+        i++;
+      }
+
+      const open = openRings.get(ringNumber);
+      if (open) {
+        if (open.bond !== null && pendingBond !== null && open.bond !== pendingBond) {
+          return fail(`Conflicting bond symbols for ring closure ${ringNumber}`);
+        }
+        const error = connect(open.atomId, previousAtom, pendingBond ?? open.bond);
+        if (error) return fail(`${error} (ring closure ${ringNumber})`);
+        openRings.delete(ringNumber);
+      } else {
+        openRings.set(ringNumber, { atomId: previousAtom, bond: pendingBond, position: ringPosition });
+      }
+      pendingBond = null;
+      continue;
+    }
+
+    // Bracket atoms
+    if (char === '[') {
+      const close = input.indexOf(']', i);
+      if (close === -1) return fail(`Unclosed "[" at position ${i}`);
+      const content = input.slice(i + 1, close);
+      const match = content.match(
+        /^(\d+)?([A-Z][a-z]?|[a-z][a-z]?|\*)(@(?:@|TH[12]|AL[12]|SP[123]|TB\d{1,2}|OH\d{1,2})?)?(H\d*)?(\+\+?|--?|[+-]\d+)?(:\d+)?$/
+      );
+      if (!match) return fail(`Invalid bracket atom "[${content}]" at position ${i}`);
+
+      const [, , rawSymbol, , hydrogenPart, chargePart] = match;
+      const aromatic = rawSymbol !== '*' && rawSymbol[0] === rawSymbol[0].toLowerCase();
+      const symbol = aromatic ? rawSymbol[0].toUpperCase() + rawSymbol.slice(1) : rawSymbol;
+
+      if (!SUPPORTED_ELEMENTS.includes(symbol as OrganicElement) || (aromatic && !AROMATIC_SYMBOLS.includes(rawSymbol))) {
+        return fail(`Unsupported element "${rawSymbol}" at position ${i}`);
+      }
+
+      let hydrogens = 0;
+      if (hydrogenPart) hydrogens = hydrogenPart.length > 1 ? parseInt(hydrogenPart.slice(1), 10) : 1;
+
+      let charge = 0;
+      if (chargePart) {
+        const sign = chargePart[0] === '+' ? 1 : -1;
+        if (chargePart.length === 1) charge = sign;
+        else if (chargePart[1] === chargePart[0]) charge = 2 * sign;
+        else charge = sign * parseInt(chargePart.slice(1), 10);
+      }
+
+      const error = addAtom({ element: symbol as OrganicElement, aromatic, bracket: true, hydrogens, charge });
+      if (error) return fail(error);
+      i = close + 1;
+      continue;
+    }
+
+    // Organic subset atoms (two-letter halogens first)
+    const twoLetter = input.slice(i, i + 2);
+    let symbol: string | null = null;
+    let aromatic = false;
+    if (twoLetter === 'Cl' || twoLetter === 'Br') {
+      symbol = twoLetter;
+    } else if ('CNOSPFI'.includes(char)) {
+      symbol = char;
+    } else if (AROMATIC_SYMBOLS.includes(char)) {
+      symbol = char.toUpperCase();
+      aromatic = true;
+    } else if (char === 'B' || char === 'b' || char === '*') {
+      return fail(`Unsupported element "${char}" at position ${i}`);
+    }
+
+    if (symbol === null) {
+      return fail(`Unexpected character "${char}" at position ${i}`);
+    }
+
+    const error = addAtom({ element: symbol as OrganicElement, aromatic, bracket: false, hydrogens: 0, charge: 0 });
+    if (error) return fail(error);
+    i += symbol.length;
+  }
+
+  if (pendingBond !== null) return fail('SMILES ends with a bond symbol');
+  if (branchStack.length > 0) return fail('Unclosed branch "("');
+  if (openRings.size > 0) {
+    const [[ringNumber, ring]] = Array.from(openRings.entries());
+    return fail(`Ring closure ${ringNumber} opened at position ${ring.position} is never closed`);
+  }
+  if (atoms.length === 0) return fail('SMILES contains no atoms');
+
+  const nodes: AtomNode[] = atoms.map((atom) => ({
+    id: atom.id,
+    element: atom.element,
+    position: { x: 0, y: 0 },
+    implicitHydrogens: atom.bracket
+      ? atom.hydrogens
+      : defaultImplicitHydrogens(atom.element, getTotalBonds(atom.id, edges), atom.aromatic),
+    hybridization: calculateHybridization(atom.id, edges),
+    ...(atom.charge !== 0 ? { charge: atom.charge } : {}),
+  }));
+
+  return { success: true, graph: layoutMoleculeGraph({ nodes, edges }) };
 }
 
 /**
@@ -248,12 +540,141 @@ export function getSMILESByFormula(formula: string): string {
 }
 
 /**
- * Generate canonical SMILES (simplified version)
- * Note: True canonicalization requires complex graph algorithms
- * For production, use RDKit.js which provides canonical SMILES
+ * Generate canonical SMILES
+ * Atoms are ranked with computeCanonicalRanks, the traversal starts from the
+ * lowest-ranked atom and always visits neighbours in rank order, so the same
+ * molecule gives the same string however its graph was built
  */
 export function generateCanonicalSMILES(graph: MoleculeGraph): string {
-  // For now, just return regular SMILES
-  // TODO: Implement proper canonicalization algorithm or use RDKit.js
-  return generateSMILES(graph);
+  if (!graph.nodes || graph.nodes.length === 0) {
+    return '';
+  }
+
+  const ranks = computeCanonicalRanks(graph);
+  const byRank = (a: string, b: string) => ranks.get(a)! - ranks.get(b)!;
+  const ordered = [...graph.nodes].sort((a, b) => byRank(a.id, b.id));
+
+  const fragments: string[] = [];
+  const written = new Set<string>();
+
+  for (const node of ordered) {
+    if (written.has(node.id)) continue;
+    fragments.push(writeSMILES(graph, node.id, written, byRank));
+  }
+
+  return fragments.join('.');
+}
+
+// Atomic numbers used in the canonical invariants
+const ATOMIC_NUMBERS: Record<OrganicElement, number> = {
+  C: 6, N: 7, O: 8, F: 9, P: 15, S: 16, Cl: 17, Br: 35, I: 53,
+};
+
+function bondCode(bond: Bond): number {
+  return bond.bondType === 'aromatic' ? 4 : bond.bondOrder;
+}
+
+/**
+ * Canonical atom ranking (Morgan / CANON style)
+ *
+ * 1. Initial invariants: heavy-atom degree, atomic number, bond-order sum,
+ *    charge, implicit hydrogens, aromaticity
+ * 2. Refinement: each atom is re-ranked by its own rank plus the sorted ranks
+ *    (and bond types) of its neighbours until the partition stops growing
+ * 3. Tie-breaking: while atoms still share a rank, the first atom of the
+ *    lowest tied class is split off and refinement runs again
+ *
+ * Returns a map from node id to a unique rank 0..n-1. Atoms tied after
+ * refinement are treated as symmetry-equivalent (the usual CANON assumption).
+ */
+export function computeCanonicalRanks(graph: MoleculeGraph): Map<string, number> {
+  const ids = graph.nodes.map((n) => n.id);
+  const neighbors = new Map<string, { id: string; code: number }[]>();
+  for (const id of ids) neighbors.set(id, []);
+  for (const bond of graph.edges) {
+    neighbors.get(bond.from)?.push({ id: bond.to, code: bondCode(bond) });
+    neighbors.get(bond.to)?.push({ id: bond.from, code: bondCode(bond) });
+  }
+
+  const initial = new Map<string, number[]>();
+  for (const node of graph.nodes) {
+    const links = neighbors.get(node.id)!;
+    initial.set(node.id, [
+      links.length,
+      ATOMIC_NUMBERS[node.element] ?? 0,
+      getTotalBonds(node.id, graph.edges),
+      node.charge || 0,
+      node.implicitHydrogens,
+      links.some((l) => l.code === 4) ? 1 : 0,
+    ]);
+  }
+
+  let ranks = rankBySignature(ids, initial);
+  ranks = refineRanks(ids, ranks, neighbors);
+
+  while (countDistinct(ranks) < ids.length) {
+    // Split the lowest tied class: its first member goes ahead of the rest
+    const counts = new Map<number, number>();
+    ranks.forEach((r) => counts.set(r, (counts.get(r) || 0) + 1));
+    const tiedRank = Math.min(...Array.from(counts.entries()).filter(([, c]) => c > 1).map(([r]) => r));
+    const chosen = ids.find((id) => ranks.get(id) === tiedRank)!;
+
+    const split = new Map<string, number[]>();
+    for (const id of ids) {
+      split.set(id, [ranks.get(id)!, id === chosen || ranks.get(id) !== tiedRank ? 0 : 1]);
+    }
+    ranks = refineRanks(ids, rankBySignature(ids, split), neighbors);
+  }
+
+  return ranks;
+}
+
+function refineRanks(
+  ids: string[],
+  ranks: Map<string, number>,
+  neighbors: Map<string, { id: string; code: number }[]>
+): Map<string, number> {
+  let current = ranks;
+  let classes = countDistinct(current);
+
+  while (true) {
+    const signatures = new Map<string, number[]>();
+    for (const id of ids) {
+      const around = neighbors
+        .get(id)!
+        .map((n) => current.get(n.id)! * 8 + n.code)
+        .sort((a, b) => a - b);
+      signatures.set(id, [current.get(id)!, ...around]);
+    }
+
+    const next = rankBySignature(ids, signatures);
+    const nextClasses = countDistinct(next);
+    if (nextClasses === classes) return current;
+    current = next;
+    classes = nextClasses;
+  }
+}
+
+// Dense ranks (0, 1, 2, ...) from lexicographically compared signatures
+function rankBySignature(ids: string[], signatures: Map<string, number[]>): Map<string, number> {
+  const compare = (a: number[], b: number[]) => {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const diff = (a[i] ?? -1) - (b[i] ?? -1);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+
+  const sorted = [...ids].sort((a, b) => compare(signatures.get(a)!, signatures.get(b)!));
+  const ranks = new Map<string, number>();
+  let rank = 0;
+  sorted.forEach((id, i) => {
+    if (i > 0 && compare(signatures.get(sorted[i - 1])!, signatures.get(id)!) !== 0) rank++;
+    ranks.set(id, rank);
+  });
+  return ranks;
+}
+
+function countDistinct(ranks: Map<string, number>): number {
+  return new Set(ranks.values()).size;
 }
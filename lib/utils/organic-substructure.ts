@@ -0,0 +1,164 @@
+/**
+ * Substructure matching for organic structures
+ *
+ * VF2-style subgraph search: query atoms are matched one at a time in a
+ * connectivity-first order, so each new atom (except the first of every
+ * fragment) only has to be tried against the neighbours of an atom that is
+ * already mapped. A partial mapping is extended only while it stays
+ * consistent with every bond between mapped query atoms.
+ *
+ * Matching rules (SMARTS-like semantics for a SMILES query):
+ * - Elements must be equal
+ * - Bond orders must be equal; aromatic bonds only match aromatic bonds
+ * - Hydrogen counts are ignored, so "CCO" also matches diethyl ether
+ * - A charged query atom only matches an atom with the same charge
+ * - Extra target bonds between matched atoms are allowed (not induced)
+ */
+
+import { MoleculeGraph, AtomNode, Bond } from './organic-graph';
+
+export interface SubstructureOptions {
+  maxMatches?: number; // stop after this many mappings (default 1)
+}
+
+// Query atom id → target atom id
+export type SubstructureMapping = Map<string, string>;
+
+/**
+ * Find mappings of the query onto the target
+ */
+export function findSubstructureMatches(
+  query: MoleculeGraph,
+  target: MoleculeGraph,
+  options: SubstructureOptions = {}
+): SubstructureMapping[] {
+  const maxMatches = options.maxMatches ?? 1;
+  const matches: SubstructureMapping[] = [];
+
+  if (query.nodes.length === 0 || query.nodes.length > target.nodes.length) {
+    return matches;
+  }
+
+  const queryAdjacency = buildAdjacency(query);
+  const targetAdjacency = buildAdjacency(target);
+  const queryAtoms = new Map(query.nodes.map((n) => [n.id, n]));
+  const targetAtoms = new Map(target.nodes.map((n) => [n.id, n]));
+  const order = matchOrder(query, queryAdjacency);
+
+  const mapping: SubstructureMapping = new Map();
+  const used = new Set<string>();
+
+  const candidatesFor = (queryId: string): string[] => {
+    // Any mapped neighbour restricts candidates to its target neighbours
+    for (const { id } of queryAdjacency.get(queryId)!) {
+      const anchor = mapping.get(id);
+      if (anchor) return targetAdjacency.get(anchor)!.map((n) => n.id);
+    }
+    return target.nodes.map((n) => n.id);
+  };
+
+  const feasible = (queryId: string, targetId: string): boolean => {
+    if (used.has(targetId)) return false;
+    if (!atomsMatch(queryAtoms.get(queryId)!, targetAtoms.get(targetId)!)) return false;
+
+    const queryLinks = queryAdjacency.get(queryId)!;
+    const targetLinks = targetAdjacency.get(targetId)!;
+    if (queryLinks.length > targetLinks.length) return false;
+
+    for (const link of queryLinks) {
+      const mapped = mapping.get(link.id);
+      if (!mapped) continue;
+      const targetLink = targetLinks.find((t) => t.id === mapped);
+      if (!targetLink || !bondsMatch(link.bond, targetLink.bond)) return false;
+    }
+    return true;
+  };
+
+  const extend = (depth: number): boolean => {
+    if (depth === order.length) {
+      matches.push(new Map(mapping));
+      return matches.length >= maxMatches;
+    }
+
+    const queryId = order[depth];
+    for (const targetId of candidatesFor(queryId)) {
+      if (!feasible(queryId, targetId)) continue;
+
+      mapping.set(queryId, targetId);
+      used.add(targetId);
+      const done = extend(depth + 1);
+      mapping.delete(queryId);
+      used.delete(targetId);
+      if (done) return true;
+    }
+    return false;
+  };
+
+  extend(0);
+  return matches;
+}
+
+/**
+ * True when the target contains the query as a substructure
+ */
+export function hasSubstructure(query: MoleculeGraph, target: MoleculeGraph): boolean {
+  return findSubstructureMatches(query, target, { maxMatches: 1 }).length > 0;
+}
+
+function buildAdjacency(graph: MoleculeGraph): Map<string, { id: string; bond: Bond }[]> {
+  const adjacency = new Map<string, { id: string; bond: Bond }[]>();
+  for (const node of graph.nodes) adjacency.set(node.id, []);
+  for (const bond of graph.edges) {
+    adjacency.get(bond.from)?.push({ id: bond.to, bond });
+    adjacency.get(bond.to)?.push({ id: bond.from, bond });
+  }
+  return adjacency;
+}
+
+/**
+ * Breadth-first order over each query fragment, starting from its most
+ * selective atom (rarest element first, then highest degree)
+ */
+function matchOrder(query: MoleculeGraph, adjacency: Map<string, { id: string; bond: Bond }[]>): string[] {
+  const elementCounts = new Map<string, number>();
+  for (const node of query.nodes) {
+    elementCounts.set(node.element, (elementCounts.get(node.element) || 0) + 1);
+  }
+  const starts = [...query.nodes].sort(
+    (a, b) =>
+      elementCounts.get(a.element)! - elementCounts.get(b.element)! ||
+      adjacency.get(b.id)!.length - adjacency.get(a.id)!.length
+  );
+
+  const order: string[] = [];
+  const seen = new Set<string>();
+  for (const start of starts) {
+    if (seen.has(start.id)) continue;
+    seen.add(start.id);
+    const queue = [start.id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      order.push(current);
+      for (const { id } of adjacency.get(current)!) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          queue.push(id);
+        }
+      }
+    }
+  }
+  return order;
+}
+
+function atomsMatch(query: AtomNode, target: AtomNode): boolean {
+  if (query.element !== target.element) return false;
+  if (query.charge && query.charge !== (target.charge || 0)) return false;
+  return true;
+}
+
+function bondsMatch(query: Bond, target: Bond): boolean {
+  const queryAromatic = query.bondType === 'aromatic';
+  const targetAromatic = target.bondType === 'aromatic';
+  if (queryAromatic || targetAromatic) return queryAromatic && targetAromatic;
+  return query.bondOrder === target.bondOrder;
+}
@@ -0,0 +1,137 @@
+/**
+ * Periodic Heatmap Utility
+ *
+ * Continuous color scales for numeric element properties on the periodic
+ * table. Values map onto 0–1 by a linear or logarithmic scale; elements
+ * without a value (or with a non-positive value on a log scale) are kept
+ * apart so the legend can count them instead of painting them as a minimum.
+ *
+ * @module periodic-heatmap
+ */
+
+import { ElementCard } from "@/lib/types/element";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type HeatmapProperty =
+  | "electronegativity"
+  | "atomicRadius"
+  | "ionizationEnergy"
+  | "density"
+  | "meltingPoint"
+  | "boilingPoint"
+  | "yearDiscovered";
+
+export type HeatmapScaleType = "linear" | "log";
+
+export interface HeatmapScale {
+  property: HeatmapProperty;
+  type: HeatmapScaleType;
+  min: number;
+  max: number;
+  ticks: number[]; // Legend labels, evenly spaced on the scale
+  missing: number; // Elements with no value the scale can show
+  position: (value: number | null | undefined) => number | null; // 0–1, or null for missing
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const HEATMAP_PROPERTIES: Record<HeatmapProperty, { label: string; unit: string }> = {
+  electronegativity: { label: "Electronegativity", unit: "" },
+  atomicRadius: { label: "Atomic Radius", unit: "pm" },
+  ionizationEnergy: { label: "Ionization Energy", unit: "kJ/mol" },
+  density: { label: "Density", unit: "g/cm³" },
+  meltingPoint: { label: "Melting Point", unit: "K" },
+  boilingPoint: { label: "Boiling Point", unit: "K" },
+  yearDiscovered: { label: "Year Discovered", unit: "" },
+};
+
+// Light enough for the dark card text, low to high
+const HEATMAP_STOPS = ["#74B9FF", "#55EFC4", "#FFEAA7", "#FAB1A0", "#FF7675"];
+
+export const HEATMAP_MISSING_COLOR = "#636E72";
+
+const TICK_COUNT = 5;
+
+// ============================================================================
+// SCALES
+// ============================================================================
+
+/**
+ * Builds a scale over the elements' values of one property
+ *
+ * @returns null when fewer than two distinct values can be shown, since a
+ * scale needs a range
+ */
+export function buildHeatmapScale(
+  elements: ElementCard[],
+  property: HeatmapProperty,
+  type: HeatmapScaleType
+): HeatmapScale | null {
+  const usable = (value: number | null | undefined): value is number =>
+    typeof value === "number" && Number.isFinite(value) && (type === "linear" || value > 0);
+
+  const values = elements.map(element => element[property]).filter(usable);
+  if (values.length === 0) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return null;
+
+  // Both scales work on a transformed axis: the value itself, or its log
+  const transform = type === "log" ? Math.log10 : (value: number) => value;
+  const low = transform(min);
+  const high = transform(max);
+  const inverse = type === "log" ? (t: number) => Math.pow(10, t) : (t: number) => t;
+
+  return {
+    property,
+    type,
+    min,
+    max,
+    ticks: Array.from({ length: TICK_COUNT }, (_, i) => inverse(low + ((high - low) * i) / (TICK_COUNT - 1))),
+    missing: elements.length - values.length,
+    position: value => (usable(value) ? (transform(value) - low) / (high - low) : null),
+  };
+}
+
+function interpolateHex(from: string, to: string, t: number): string {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  return (
+    "#" +
+    [0, 1, 2]
+      .map(i => Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * t))
+      .map(value => value.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+/**
+ * Color at a position on the scale; null positions get the missing color
+ */
+export function heatmapColor(position: number | null): string {
+  if (position === null) return HEATMAP_MISSING_COLOR;
+  const t = Math.min(1, Math.max(0, position)) * (HEATMAP_STOPS.length - 1);
+  const i = Math.min(Math.floor(t), HEATMAP_STOPS.length - 2);
+  return interpolateHex(HEATMAP_STOPS[i], HEATMAP_STOPS[i + 1], t - i);
+}
+
+/**
+ * CSS gradient through the scale's colors, for the legend bar
+ */
+export function heatmapGradient(): string {
+  return `linear-gradient(to right, ${HEATMAP_STOPS.join(", ")})`;
+}
+
+/**
+ * Short label for a value on the legend or a card
+ */
+export function formatHeatmapValue(value: number, property: HeatmapProperty): string {
+  if (property === "yearDiscovered") return String(Math.round(value));
+  if (Math.abs(value) >= 1000) return String(Math.round(value));
+  return String(Number(value.toPrecision(3)));
+}
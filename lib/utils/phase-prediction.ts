@@ -0,0 +1,193 @@
+/**
+ * Phase Prediction Utility
+ *
+ * Predicts solid/liquid/gas from melting and boiling points at 1 atm. The
+ * pressure dependence comes from a sketch phase diagram: Clausius–Clapeyron
+ * curves with enthalpies estimated by Trouton's and Richards' rules, and a
+ * critical point from Guldberg's rule.
+ *
+ * @module phase-prediction
+ */
+
+import { PhysicalProperties } from "@/lib/types/compound";
+import { compositionKey } from "./chemical-validation";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type Phase = "solid" | "liquid" | "gas" | "supercritical";
+
+export interface PhasePoint {
+  temperature: number; // K
+  pressure: number; // atm
+}
+
+export interface PhaseModel {
+  meltingPoint: number; // K at 1 atm; the melting line is taken as vertical
+  boilingPoint: number; // K at 1 atm
+  triplePoint: PhasePoint;
+  criticalPoint: PhasePoint;
+  vaporPressure: (temperature: number) => number; // Liquid–gas boundary, atm
+  sublimationPressure: (temperature: number) => number; // Solid–gas boundary, atm
+}
+
+export interface PhasePrediction {
+  success: boolean;
+  phase?: Phase;
+  model?: PhaseModel;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const GAS_CONSTANT_J = 8.314; // J/(mol·K)
+
+// Trouton's rule: ΔS_vap ≈ 88 J/(mol·K) at the normal boiling point
+const TROUTON_ENTROPY = 88;
+
+// Richards' rule: ΔS_fus ≈ R at the melting point
+const RICHARDS_ENTROPY = GAS_CONSTANT_J;
+
+// Guldberg's rule: T_b ≈ 2/3 T_c
+const CRITICAL_TO_BOILING_RATIO = 1.5;
+
+/**
+ * Melting and boiling points (K at 1 atm) of common compounds.
+ * For compounds that sublime at 1 atm (CO₂) boilingPoint is the sublimation
+ * point and meltingPoint the triple-point temperature.
+ */
+const REFERENCE_PHASE_DATA: Record<string, { meltingPoint: number; boilingPoint: number }> = {
+  H2O: { meltingPoint: 273.15, boilingPoint: 373.15 },
+  H2O2: { meltingPoint: 272.7, boilingPoint: 423.4 },
+  CO2: { meltingPoint: 216.55, boilingPoint: 194.65 },
+  CO: { meltingPoint: 68.1, boilingPoint: 81.6 },
+  NH3: { meltingPoint: 195.4, boilingPoint: 239.8 },
+  CH4: { meltingPoint: 90.7, boilingPoint: 111.7 },
+  C2H6: { meltingPoint: 90.4, boilingPoint: 184.6 },
+  C3H8: { meltingPoint: 85.5, boilingPoint: 231.1 },
+  C4H10: { meltingPoint: 134.9, boilingPoint: 272.7 },
+  C6H6: { meltingPoint: 278.7, boilingPoint: 353.2 },
+  CH3OH: { meltingPoint: 175.6, boilingPoint: 337.8 },
+  C2H5OH: { meltingPoint: 159.0, boilingPoint: 351.4 },
+  CH3COOH: { meltingPoint: 289.8, boilingPoint: 391.1 },
+  CH3COCH3: { meltingPoint: 178.5, boilingPoint: 329.2 },
+  CCl4: { meltingPoint: 250.2, boilingPoint: 349.9 },
+  CHCl3: { meltingPoint: 209.6, boilingPoint: 334.3 },
+  HCl: { meltingPoint: 159.0, boilingPoint: 188.1 },
+  H2S: { meltingPoint: 191.2, boilingPoint: 213.6 },
+  SO2: { meltingPoint: 197.7, boilingPoint: 263.1 },
+  NO: { meltingPoint: 109.5, boilingPoint: 121.4 },
+  N2O: { meltingPoint: 182.3, boilingPoint: 184.7 },
+  HNO3: { meltingPoint: 231.0, boilingPoint: 356.0 },
+  H2SO4: { meltingPoint: 283.5, boilingPoint: 610.0 },
+  H2: { meltingPoint: 13.99, boilingPoint: 20.27 },
+  N2: { meltingPoint: 63.15, boilingPoint: 77.36 },
+  O2: { meltingPoint: 54.36, boilingPoint: 90.19 },
+  Cl2: { meltingPoint: 171.6, boilingPoint: 239.1 },
+  Br2: { meltingPoint: 265.8, boilingPoint: 332.0 },
+  I2: { meltingPoint: 386.9, boilingPoint: 457.4 },
+  NaCl: { meltingPoint: 1074, boilingPoint: 1686 },
+  KCl: { meltingPoint: 1044, boilingPoint: 1693 },
+  NaOH: { meltingPoint: 591, boilingPoint: 1661 },
+  KOH: { meltingPoint: 679, boilingPoint: 1600 },
+  MgO: { meltingPoint: 3125, boilingPoint: 3873 },
+  CaO: { meltingPoint: 2886, boilingPoint: 3123 },
+  Al2O3: { meltingPoint: 2345, boilingPoint: 3250 },
+  SiO2: { meltingPoint: 1986, boilingPoint: 2503 },
+};
+
+// ============================================================================
+// REFERENCE DATA
+// ============================================================================
+
+/**
+ * Reference melting/boiling points for a formula, matched by composition
+ */
+export function lookupPhaseData(formula: string): { meltingPoint: number; boilingPoint: number } | null {
+  const key = compositionKey(formula);
+  if (!key) return null;
+
+  const match = Object.entries(REFERENCE_PHASE_DATA).find(([tableFormula]) => compositionKey(tableFormula) === key);
+  return match ? match[1] : null;
+}
+
+// ============================================================================
+// PHASE MODEL
+// ============================================================================
+
+/**
+ * Builds the sketch phase diagram for the given melting and boiling points
+ */
+export function buildPhaseModel(meltingPoint: number, boilingPoint: number): PhaseModel {
+  const vaporization = TROUTON_ENTROPY * boilingPoint; // J/mol
+  const sublimation = vaporization + RICHARDS_ENTROPY * meltingPoint;
+
+  const vaporPressure = (temperature: number) =>
+    Math.exp(-(vaporization / GAS_CONSTANT_J) * (1 / temperature - 1 / boilingPoint));
+
+  const triplePressure = vaporPressure(meltingPoint);
+  const sublimationPressure = (temperature: number) =>
+    triplePressure * Math.exp(-(sublimation / GAS_CONSTANT_J) * (1 / temperature - 1 / meltingPoint));
+
+  // Keep the liquid region open even for unusual data where Guldberg's rule lands below the melting point
+  const criticalTemperature = Math.max(CRITICAL_TO_BOILING_RATIO * boilingPoint, 1.1 * meltingPoint);
+
+  return {
+    meltingPoint,
+    boilingPoint,
+    triplePoint: { temperature: meltingPoint, pressure: triplePressure },
+    criticalPoint: { temperature: criticalTemperature, pressure: vaporPressure(criticalTemperature) },
+    vaporPressure,
+    sublimationPressure,
+  };
+}
+
+/**
+ * Predicts the phase at a temperature (K) and pressure (atm)
+ */
+export function predictPhase(
+  temperature: number,
+  pressure: number,
+  properties: PhysicalProperties
+): PhasePrediction {
+  const { meltingPoint, boilingPoint } = properties;
+  if (meltingPoint == null || boilingPoint == null || !(meltingPoint > 0) || !(boilingPoint > 0)) {
+    return { success: false, error: "Melting and boiling points are both needed to predict the phase" };
+  }
+  if (!(temperature > 0) || !(pressure > 0)) {
+    return { success: false, error: "Temperature and pressure must be positive" };
+  }
+
+  const model = buildPhaseModel(meltingPoint, boilingPoint);
+  const { criticalPoint } = model;
+
+  let phase: Phase;
+  if (temperature >= criticalPoint.temperature) {
+    phase = pressure >= criticalPoint.pressure ? "supercritical" : "gas";
+  } else if (temperature < meltingPoint) {
+    phase = pressure >= model.sublimationPressure(temperature) ? "solid" : "gas";
+  } else {
+    phase = pressure >= model.vaporPressure(temperature) ? "liquid" : "gas";
+  }
+
+  return { success: true, phase, model };
+}
+
+/**
+ * Phase at 1 atm straight from the melting and boiling points, for the
+ * periodic table's temperature view; null when data is missing
+ */
+export function phaseAtStandardPressure(
+  temperature: number,
+  meltingPoint: number | null | undefined,
+  boilingPoint: number | null | undefined
+): Exclude<Phase, "supercritical"> | null {
+  if (meltingPoint == null && boilingPoint == null) return null;
+  if (boilingPoint != null && temperature >= boilingPoint) return "gas";
+  if (meltingPoint != null && temperature < meltingPoint) return "solid";
+  // Past the melting point with no boiling point recorded, or below the boiling point with no melting point
+  return meltingPoint != null ? "liquid" : null;
+}
@@ -0,0 +1,394 @@
+/**
+ * Radioactive Decay Utility
+ *
+ * Parses half-life strings, builds decay chains from a table of decay modes
+ * (α, β⁻, β⁺, EC) and solves the Bateman equations for the amount of every
+ * nuclide in a chain over time. Branched chains (Bi-212 → Po-212 or Tl-208)
+ * are handled by summing the contribution of each parent.
+ *
+ * @module radioactive-decay
+ */
+
+import { Isotope } from "@/lib/types/element";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type DecayMode = "alpha" | "beta-minus" | "beta-plus" | "electron-capture";
+
+export interface DecayBranch {
+  mode: DecayMode;
+  fraction: number; // Branching ratio, 0–1
+  daughter: string; // "Th-234"
+}
+
+export interface Nuclide {
+  id: string; // "U-238", "Pa-234m"
+  symbol: string;
+  massNumber: number;
+  halfLife: number; // Seconds; Infinity for stable nuclides
+  decayConstant: number; // ln 2 / halfLife, 1/s; 0 for stable nuclides
+  branches: DecayBranch[]; // Empty for stable nuclides
+}
+
+export interface DecayChain {
+  parent: string;
+  nuclides: Nuclide[]; // Parent first; every nuclide comes after all of its parents
+}
+
+export interface DecaySample {
+  time: number; // Seconds
+  amounts: Record<string, number>; // Share of the starting parent atoms
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DECAY_MODE_SYMBOLS: Record<DecayMode, string> = {
+  "alpha": "α",
+  "beta-minus": "β⁻",
+  "beta-plus": "β⁺",
+  "electron-capture": "EC",
+};
+
+const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
+
+const UNIT_SECONDS: Array<[RegExp, number]> = [
+  [/^(ns|nanoseconds?)$/, 1e-9],
+  [/^(µs|μs|us|microseconds?)$/, 1e-6],
+  [/^(ms|milliseconds?)$/, 1e-3],
+  [/^(s|sec|secs|seconds?)$/, 1],
+  [/^(m|min|mins|minutes?)$/, 60],
+  [/^(h|hr|hrs|hours?)$/, 3600],
+  [/^(d|days?)$/, 86400],
+  [/^(y|yr|yrs|years?|a)$/, SECONDS_PER_YEAR],
+  [/^(ky|kyr|ka)$/, 1e3 * SECONDS_PER_YEAR],
+  [/^(my|myr|ma)$/, 1e6 * SECONDS_PER_YEAR],
+  [/^(gy|gyr|ga)$/, 1e9 * SECONDS_PER_YEAR],
+];
+
+// Element symbols by atomic number, for naming daughters
+const SYMBOLS = (
+  "n H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr " +
+  "Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu " +
+  "Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu Am Cm Bk Cf Es Fm"
+).split(" ");
+
+/**
+ * Half-lives and decay modes of the radioactive nuclides in the natural
+ * uranium, thorium and actinium series, the neptunium series and common
+ * medical and fission-product isotopes. Branches under 0.01% and
+ * spontaneous fission are left out. A daughter missing from this table is
+ * stable.
+ */
+const DECAY_DATA: Record<string, { halfLife: string; modes: Array<[DecayMode, number, string?]> }> = {
+  // Uranium series (4n + 2)
+  "U-238": { halfLife: "4.468 × 10⁹ years", modes: [["alpha", 1]] },
+  "Th-234": { halfLife: "24.10 days", modes: [["beta-minus", 1, "Pa-234m"]] },
+  "Pa-234m": { halfLife: "1.159 minutes", modes: [["beta-minus", 1]] },
+  "U-234": { halfLife: "2.455 × 10⁵ years", modes: [["alpha", 1]] },
+  "Th-230": { halfLife: "7.538 × 10⁴ years", modes: [["alpha", 1]] },
+  "Ra-226": { halfLife: "1600 years", modes: [["alpha", 1]] },
+  "Rn-222": { halfLife: "3.8235 days", modes: [["alpha", 1]] },
+  "Po-218": { halfLife: "3.098 minutes", modes: [["alpha", 0.9998], ["beta-minus", 0.0002]] },
+  "At-218": { halfLife: "1.5 s", modes: [["alpha", 1]] },
+  "Pb-214": { halfLife: "26.8 minutes", modes: [["beta-minus", 1]] },
+  "Bi-214": { halfLife: "19.9 minutes", modes: [["beta-minus", 0.99979], ["alpha", 0.00021]] },
+  "Po-214": { halfLife: "164.3 µs", modes: [["alpha", 1]] },
+  "Tl-210": { halfLife: "1.30 minutes", modes: [["beta-minus", 1]] },
+  "Pb-210": { halfLife: "22.2 years", modes: [["beta-minus", 1]] },
+  "Bi-210": { halfLife: "5.012 days", modes: [["beta-minus", 1]] },
+  "Po-210": { halfLife: "138.376 days", modes: [["alpha", 1]] },
+
+  // Thorium series (4n)
+  "Th-232": { halfLife: "1.405 × 10¹⁰ years", modes: [["alpha", 1]] },
+  "Ra-228": { halfLife: "5.75 years", modes: [["beta-minus", 1]] },
+  "Ac-228": { halfLife: "6.15 hours", modes: [["beta-minus", 1]] },
+  "Th-228": { halfLife: "1.9116 years", modes: [["alpha", 1]] },
+  "Ra-224": { halfLife: "3.6319 days", modes: [["alpha", 1]] },
+  "Rn-220": { halfLife: "55.6 s", modes: [["alpha", 1]] },
+  "Po-216": { halfLife: "0.145 s", modes: [["alpha", 1]] },
+  "Pb-212": { halfLife: "10.64 hours", modes: [["beta-minus", 1]] },
+  "Bi-212": { halfLife: "60.55 minutes", modes: [["beta-minus", 0.6406], ["alpha", 0.3594]] },
+  "Po-212": { halfLife: "0.299 µs", modes: [["alpha", 1]] },
+  "Tl-208": { halfLife: "3.053 minutes", modes: [["beta-minus", 1]] },
+
+  // Actinium series (4n + 3)
+  "U-235": { halfLife: "7.04 × 10⁸ years", modes: [["alpha", 1]] },
+  "Th-231": { halfLife: "25.52 hours", modes: [["beta-minus", 1]] },
+  "Pa-231": { halfLife: "3.276 × 10⁴ years", modes: [["alpha", 1]] },
+  "Ac-227": { halfLife: "21.772 years", modes: [["beta-minus", 0.9862], ["alpha", 0.0138]] },
+  "Th-227": { halfLife: "18.68 days", modes: [["alpha", 1]] },
+  "Fr-223": { halfLife: "22.00 minutes", modes: [["beta-minus", 1]] },
+  "Ra-223": { halfLife: "11.43 days", modes: [["alpha", 1]] },
+  "Rn-219": { halfLife: "3.96 s", modes: [["alpha", 1]] },
+  "Po-215": { halfLife: "1.781 ms", modes: [["alpha", 1]] },
+  "Pb-211": { halfLife: "36.1 minutes", modes: [["beta-minus", 1]] },
+  "Bi-211": { halfLife: "2.14 minutes", modes: [["alpha", 0.99724], ["beta-minus", 0.00276]] },
+  "Po-211": { halfLife: "0.516 s", modes: [["alpha", 1]] },
+  "Tl-207": { halfLife: "4.77 minutes", modes: [["beta-minus", 1]] },
+
+  // Neptunium series (4n + 1)
+  "Am-241": { halfLife: "432.2 years", modes: [["alpha", 1]] },
+  "Np-237": { halfLife: "2.144 × 10⁶ years", modes: [["alpha", 1]] },
+  "Pa-233": { halfLife: "26.975 days", modes: [["beta-minus", 1]] },
+  "U-233": { halfLife: "1.592 × 10⁵ years", modes: [["alpha", 1]] },
+  "Th-229": { halfLife: "7932 years", modes: [["alpha", 1]] },
+  "Ra-225": { halfLife: "14.9 days", modes: [["beta-minus", 1]] },
+  "Ac-225": { halfLife: "9.92 days", modes: [["alpha", 1]] },
+  "Fr-221": { halfLife: "4.8 minutes", modes: [["alpha", 1]] },
+  "At-217": { halfLife: "32.3 ms", modes: [["alpha", 1]] },
+  "Bi-213": { halfLife: "45.59 minutes", modes: [["beta-minus", 0.978], ["alpha", 0.022]] },
+  "Po-213": { halfLife: "3.72 µs", modes: [["alpha", 1]] },
+  "Tl-209": { halfLife: "2.16 minutes", modes: [["beta-minus", 1]] },
+  "Pb-209": { halfLife: "3.253 hours", modes: [["beta-minus", 1]] },
+  "Bi-209": { halfLife: "2.01 × 10¹⁹ years", modes: [["alpha", 1]] },
+
+  // Transuranics feeding the series above
+  "Pu-238": { halfLife: "87.7 years", modes: [["alpha", 1]] },
+  "Pu-239": { halfLife: "2.411 × 10⁴ years", modes: [["alpha", 1]] },
+  "Pu-240": { halfLife: "6561 years", modes: [["alpha", 1]] },
+  "U-236": { halfLife: "2.342 × 10⁷ years", modes: [["alpha", 1]] },
+  "Cm-244": { halfLife: "18.1 years", modes: [["alpha", 1]] },
+
+  // Single-step decays
+  "H-3": { halfLife: "12.32 years", modes: [["beta-minus", 1]] },
+  "C-14": { halfLife: "5730 years", modes: [["beta-minus", 1]] },
+  "F-18": { halfLife: "109.77 minutes", modes: [["beta-plus", 0.9686], ["electron-capture", 0.0314]] },
+  "Na-22": { halfLife: "2.6018 years", modes: [["beta-plus", 0.9038], ["electron-capture", 0.0962]] },
+  "K-40": { halfLife: "1.248 × 10⁹ years", modes: [["beta-minus", 0.8928], ["electron-capture", 0.1072]] },
+  "Co-60": { halfLife: "5.2714 years", modes: [["beta-minus", 1]] },
+  "Sr-90": { halfLife: "28.79 years", modes: [["beta-minus", 1]] },
+  "Y-90": { halfLife: "64.0 hours", modes: [["beta-minus", 1]] },
+  "Tc-99": { halfLife: "2.111 × 10⁵ years", modes: [["beta-minus", 1]] },
+  "I-131": { halfLife: "8.0252 days", modes: [["beta-minus", 1]] },
+  "Cs-137": { halfLife: "30.08 years", modes: [["beta-minus", 1]] },
+  "Pm-147": { halfLife: "2.6234 years", modes: [["beta-minus", 1]] },
+  "Sm-147": { halfLife: "1.06 × 10¹¹ years", modes: [["alpha", 1]] },
+};
+
+// ============================================================================
+// HALF-LIVES
+// ============================================================================
+
+/**
+ * Converts a half-life string to seconds
+ *
+ * Reads the notations used for Isotope.halfLife: "5730 years",
+ * "4.468 × 10⁹ years", "4.468e9 y", "24,110 years", "164.3 µs". "Stable"
+ * gives Infinity.
+ *
+ * @returns null when the string can't be read
+ */
+export function parseHalfLife(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/,/g, "")
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, digits =>
+      "^" + digits.split("").map(d => (d === "⁻" ? "-" : String("⁰¹²³⁴⁵⁶⁷⁸⁹".indexOf(d)))).join("")
+    );
+
+  if (normalized === "stable") return Infinity;
+
+  const match = normalized.match(/^([\d.]+)\s*(?:(?:×|x|\*)\s*10\s*\^?\s*(-?\d+)|e(-?\d+))?\s*([a-zµμ]+)$/);
+  if (!match) return null;
+
+  const mantissa = parseFloat(match[1]);
+  const exponent = parseInt(match[2] ?? match[3] ?? "0");
+  const unit = UNIT_SECONDS.find(([pattern]) => pattern.test(match[4]));
+  if (isNaN(mantissa) || !unit) return null;
+
+  return mantissa * Math.pow(10, exponent) * unit[1];
+}
+
+/**
+ * Readable duration for a number of seconds: "4.47 × 10⁹ y", "3.82 d", "164 µs"
+ */
+export function formatDuration(seconds: number): string {
+  if (!isFinite(seconds)) return "stable";
+
+  const units: Array<[string, number]> = [
+    ["y", SECONDS_PER_YEAR],
+    ["d", 86400],
+    ["h", 3600],
+    ["min", 60],
+    ["s", 1],
+    ["ms", 1e-3],
+    ["µs", 1e-6],
+    ["ns", 1e-9],
+  ];
+  const [unit, size] = units.find(([, size]) => seconds >= size) ?? units[units.length - 1];
+  const value = seconds / size;
+
+  if (value >= 1e4) {
+    const exponent = Math.floor(Math.log10(value));
+    const superscript = String(exponent).split("").map(d => "⁰¹²³⁴⁵⁶⁷⁸⁹"[parseInt(d)]).join("");
+    return `${(value / Math.pow(10, exponent)).toFixed(2)} × 10${superscript} ${unit}`;
+  }
+  return `${Number(value.toPrecision(3))} ${unit}`;
+}
+
+// ============================================================================
+// NUCLIDES & CHAINS
+// ============================================================================
+
+function daughterOf(id: string, mode: DecayMode): string {
+  const [symbol, mass] = id.split("-");
+  const z = SYMBOLS.indexOf(symbol);
+  const a = parseInt(mass);
+  switch (mode) {
+    case "alpha":
+      return `${SYMBOLS[z - 2]}-${a - 4}`;
+    case "beta-minus":
+      return `${SYMBOLS[z + 1]}-${a}`;
+    case "beta-plus":
+    case "electron-capture":
+      return `${SYMBOLS[z - 1]}-${a}`;
+  }
+}
+
+/**
+ * Looks up a nuclide; anything without decay data is treated as stable
+ *
+ * @param halfLifeOverride Half-life string from Isotope.halfLife, preferred when readable
+ */
+export function getNuclide(id: string, halfLifeOverride?: string | null): Nuclide {
+  const [symbol, mass] = id.split("-");
+  const data = DECAY_DATA[id];
+  const halfLife = parseHalfLife(halfLifeOverride) ?? (data ? parseHalfLife(data.halfLife)! : Infinity);
+
+  return {
+    id,
+    symbol,
+    massNumber: parseInt(mass),
+    halfLife,
+    decayConstant: isFinite(halfLife) ? Math.LN2 / halfLife : 0,
+    branches: data && isFinite(halfLife)
+      ? data.modes.map(([mode, fraction, daughter]) => ({ mode, fraction, daughter: daughter ?? daughterOf(id, mode) }))
+      : [],
+  };
+}
+
+export function hasDecayData(id: string): boolean {
+  return id in DECAY_DATA;
+}
+
+/**
+ * Nuclides of an element that can start a chain: its unstable isotopes with
+ * decay data, or the table's nuclides of that element when isotope data is
+ * missing
+ */
+export function getDecayParents(symbol: string, isotopes: Isotope[] = []): string[] {
+  const fromIsotopes = isotopes.filter(isotope => !isotope.isStable && hasDecayData(isotope.symbol)).map(isotope => isotope.symbol);
+  if (fromIsotopes.length > 0) return fromIsotopes;
+  return Object.keys(DECAY_DATA).filter(id => id.split("-")[0] === symbol);
+}
+
+/**
+ * Every nuclide reachable from a parent, ordered so each comes after all
+ * of its parents (decay never returns to an earlier nuclide)
+ *
+ * @param halfLives Half-life strings that replace the table's values, by nuclide id
+ */
+export function buildDecayChain(parent: string, halfLives: Record<string, string | null> = {}): DecayChain {
+  const found = new Map<string, Nuclide>();
+  const visit = (id: string) => {
+    if (found.has(id)) return;
+    const nuclide = getNuclide(id, halfLives[id]);
+    found.set(id, nuclide);
+    nuclide.branches.forEach(branch => visit(branch.daughter));
+  };
+  visit(parent);
+
+  // Topological order: depth-first post-order, reversed
+  const ordered: Nuclide[] = [];
+  const done = new Set<string>();
+  const place = (id: string) => {
+    if (done.has(id)) return;
+    done.add(id);
+    found.get(id)!.branches.forEach(branch => place(branch.daughter));
+    ordered.unshift(found.get(id)!);
+  };
+  place(parent);
+
+  return { parent, nuclides: ordered };
+}
+
+/**
+ * The chain's stable end products
+ */
+export function getStableEnds(chain: DecayChain): Nuclide[] {
+  return chain.nuclides.filter(nuclide => nuclide.branches.length === 0);
+}
+
+// ============================================================================
+// BATEMAN EQUATIONS
+// ============================================================================
+
+/**
+ * Solves the Bateman equations for a chain that starts as pure parent
+ *
+ * Each amount is a sum of exponentials, N_i(t) = Σ_j a_ij·e^(−λ_j·t). A
+ * daughter inherits every parent's terms, scaled by λ_p·b / (λ_i − λ_j),
+ * and its own term a_ii makes N_i(0) = 0.
+ *
+ * @param times Seconds since the parent was pure
+ * @returns Amounts as shares of the starting parent atoms
+ */
+export function simulateDecay(chain: DecayChain, times: number[]): DecaySample[] {
+  const lambda = new Map(chain.nuclides.map(n => [n.id, n.decayConstant]));
+  const coefficients = new Map<string, Map<string, number>>();
+
+  // Equal decay constants would divide by zero; none occur in real chains,
+  // so nudging one apart only guards against odd custom half-lives
+  const gap = (a: number, b: number) => (Math.abs(a - b) > 1e-12 * Math.max(a, b) ? a - b : 1e-12 * Math.max(a, b, 1e-30));
+
+  chain.nuclides.forEach(nuclide => {
+    const own = new Map<string, number>();
+    const li = lambda.get(nuclide.id)!;
+
+    chain.nuclides.forEach(parent => {
+      parent.branches
+        .filter(branch => branch.daughter === nuclide.id)
+        .forEach(branch => {
+          coefficients.get(parent.id)!.forEach((a, j) => {
+            const term = (branch.fraction * parent.decayConstant * a) / gap(li, lambda.get(j)!);
+            own.set(j, (own.get(j) || 0) + term);
+          });
+        });
+    });
+
+    const initial = nuclide.id === chain.parent ? 1 : 0;
+    const inherited = Array.from(own.values()).reduce((sum, a) => sum + a, 0);
+    own.set(nuclide.id, initial - inherited);
+    coefficients.set(nuclide.id, own);
+  });
+
+  return times.map(time => ({
+    time,
+    amounts: Object.fromEntries(
+      chain.nuclides.map(nuclide => {
+        let amount = 0;
+        coefficients.get(nuclide.id)!.forEach((a, j) => {
+          amount += a * Math.exp(-lambda.get(j)! * time);
+        });
+        return [nuclide.id, Math.min(1, Math.max(0, amount))];
+      })
+    ),
+  }));
+}
+
+/**
+ * Log-spaced sample times from a tenth of the shortest half-life in the
+ * chain to ten times the longest
+ */
+export function decayTimeRange(chain: DecayChain, points = 200): number[] {
+  const halfLives = chain.nuclides.map(n => n.halfLife).filter(isFinite);
+  const start = Math.log10(Math.min(...halfLives) / 10);
+  const end = Math.log10(Math.max(...halfLives) * 10);
+  return Array.from({ length: points }, (_, i) => Math.pow(10, start + ((end - start) * i) / (points - 1)));
+}
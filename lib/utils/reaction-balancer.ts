@@ -0,0 +1,175 @@
+import { parseFormula } from "./chemical-validation";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BalanceResult {
+  success: boolean;
+  reactantCoefficients?: number[];
+  productCoefficients?: number[];
+  error?: string;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function lcm(a: number, b: number): number {
+  return Math.abs(a * b) / gcd(a, b);
+}
+
+// Divide a row by the gcd of its entries to keep the integers small
+function normalizeRow(row: number[]): number[] {
+  const divisor = row.reduce((acc, value) => gcd(acc, value), 0);
+  return divisor > 1 ? row.map(value => value / divisor) : row;
+}
+
+/**
+ * Formats a formula for display: "Ca(OH)2" → "Ca(OH)₂"
+ * Hydrate multipliers ("5H2O" in "CuSO4·5H2O") stay full size.
+ */
+export function formatFormula(formula: string): string {
+  return formula.replace(/([A-Za-z)\]])(\d+)/g, (_, before: string, digits: string) =>
+    before + digits.split("").map(d => SUBSCRIPT_DIGITS[parseInt(d)]).join("")
+  );
+}
+
+/**
+ * Writes a balanced equation: "2H₂ + O₂ → 2H₂O"
+ */
+export function formatEquation(
+  reactants: Array<{ formula: string; coefficient: number }>,
+  products: Array<{ formula: string; coefficient: number }>
+): string {
+  const side = (species: Array<{ formula: string; coefficient: number }>) =>
+    species
+      .map(s => `${s.coefficient === 1 ? "" : s.coefficient}${formatFormula(s.formula)}`)
+      .join(" + ");
+  return `${side(reactants)} → ${side(products)}`;
+}
+
+// ============================================================================
+// BALANCING
+// ============================================================================
+
+/**
+ * Balances a reaction from the formulas of its reactants and products
+ */
+export function balanceFormulas(reactants: string[], products: string[]): BalanceResult {
+  const counts: Record<string, number>[] = [];
+
+  for (const formula of [...reactants, ...products]) {
+    const parsed = parseFormula(formula);
+    if (!parsed) {
+      return { success: false, error: `Could not read formula "${formula}"` };
+    }
+    counts.push(parsed);
+  }
+
+  return balanceEquation(counts.slice(0, reactants.length), counts.slice(reactants.length));
+}
+
+/**
+ * Solves the smallest positive integer coefficients for a reaction
+ *
+ * Each element gives one conservation equation: atoms on the reactant side
+ * minus atoms on the product side must be zero. The coefficients are the
+ * null space of that element × species matrix, found with fraction-free
+ * integer row reduction so no rounding can creep in.
+ */
+export function balanceEquation(
+  reactants: Record<string, number>[],
+  products: Record<string, number>[]
+): BalanceResult {
+  if (reactants.length === 0 || products.length === 0) {
+    return { success: false, error: "A reaction needs at least one reactant and one product" };
+  }
+
+  const species = [...reactants, ...products];
+  const reactantElements = new Set(reactants.flatMap(counts => Object.keys(counts)));
+  const productElements = new Set(products.flatMap(counts => Object.keys(counts)));
+
+  for (const symbol of reactantElements) {
+    if (!productElements.has(symbol)) {
+      return { success: false, error: `${symbol} appears in the reactants but not in the products` };
+    }
+  }
+  for (const symbol of productElements) {
+    if (!reactantElements.has(symbol)) {
+      return { success: false, error: `${symbol} appears in the products but not in the reactants` };
+    }
+  }
+
+  // Products enter with a negative sign so a valid solution is all positive
+  const matrix = Array.from(reactantElements).map(symbol =>
+    species.map((counts, i) => (counts[symbol] || 0) * (i < reactants.length ? 1 : -1))
+  );
+
+  // Reduced row echelon form over the integers
+  const columns = species.length;
+  const pivotColumns: number[] = [];
+  let rank = 0;
+
+  for (let col = 0; col < columns && rank < matrix.length; col++) {
+    const pivotRow = matrix.findIndex((row, r) => r >= rank && row[col] !== 0);
+    if (pivotRow === -1) continue;
+
+    [matrix[rank], matrix[pivotRow]] = [matrix[pivotRow], matrix[rank]];
+    const pivot = matrix[rank];
+
+    for (let r = 0; r < matrix.length; r++) {
+      if (r === rank || matrix[r][col] === 0) continue;
+      const factor = matrix[r][col];
+      matrix[r] = normalizeRow(matrix[r].map((value, c) => value * pivot[col] - pivot[c] * factor));
+    }
+
+    pivotColumns.push(col);
+    rank++;
+  }
+
+  const freeColumns = Array.from({ length: columns }, (_, c) => c).filter(c => !pivotColumns.includes(c));
+
+  if (freeColumns.length === 0) {
+    return { success: false, error: "This reaction cannot be balanced" };
+  }
+  if (freeColumns.length > 1) {
+    return {
+      success: false,
+      error: "This equation combines independent reactions and has no unique balance",
+    };
+  }
+
+  // Fix the free species so every pivot equation solves to an integer
+  const free = freeColumns[0];
+  const scale = pivotColumns.reduce((acc, col, r) => lcm(acc, matrix[r][col]), 1);
+  const coefficients = new Array<number>(columns);
+  coefficients[free] = scale;
+  pivotColumns.forEach((col, r) => {
+    coefficients[col] = (-matrix[r][free] * scale) / matrix[r][col];
+  });
+
+  const divisor = coefficients.reduce((acc, value) => gcd(acc, value), 0);
+  const solution = coefficients.map(value => value / divisor);
+
+  if (solution.some(value => value <= 0)) {
+    return { success: false, error: "This reaction cannot be balanced with positive coefficients" };
+  }
+
+  return {
+    success: true,
+    reactantCoefficients: solution.slice(0, reactants.length),
+    productCoefficients: solution.slice(reactants.length),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Stoichiometry Utility
+ *
+ * Converts between grams, moles and particles using a compound's molar mass,
+ * and works out limiting reagents and theoretical yields for reactions
+ * between saved compounds.
+ *
+ * @module stoichiometry
+ */
+
+import { Element } from "@/lib/types/element";
+import { balanceFormulas } from "./reaction-balancer";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type AmountUnit = "g" | "mol" | "particles";
+
+export interface Amounts {
+  grams: number;
+  moles: number;
+  particles: number;
+}
+
+export interface ElementComposition {
+  symbol: string;
+  count: number;
+  mass: number; // g/mol contributed by this element
+  percent: number;
+}
+
+export interface ReagentAmount {
+  coefficient: number;
+  moles: number;
+  consumedGrams: number;
+  excessGrams: number;
+}
+
+export interface ProductYield {
+  coefficient: number;
+  moles: number;
+  grams: number; // Theoretical yield
+}
+
+export interface LimitingReagentResult {
+  success: boolean;
+  limitingIndex?: number;
+  reactants?: ReagentAmount[];
+  products?: ProductYield[];
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AVOGADRO_CONSTANT = 6.02214076e23;
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * Converts an amount given in grams, moles or particles into all three
+ */
+export function convertAmount(value: number, unit: AmountUnit, molarMass: number): Amounts {
+  const moles = unit === "g" ? value / molarMass : unit === "particles" ? value / AVOGADRO_CONSTANT : value;
+  return {
+    grams: moles * molarMass,
+    moles,
+    particles: moles * AVOGADRO_CONSTANT,
+  };
+}
+
+/**
+ * Mass percent of each element, largest share first
+ */
+export function calculatePercentComposition(
+  counts: Record<string, number>,
+  elementLookup: Map<string, Element>
+): ElementComposition[] {
+  const rows = Object.entries(counts)
+    .filter(([symbol]) => elementLookup.has(symbol))
+    .map(([symbol, count]) => ({
+      symbol,
+      count,
+      mass: elementLookup.get(symbol)!.atomicMass * count,
+    }));
+  const total = rows.reduce((sum, row) => sum + row.mass, 0);
+
+  return rows
+    .map(row => ({ ...row, percent: total > 0 ? (row.mass / total) * 100 : 0 }))
+    .sort((a, b) => b.percent - a.percent);
+}
+
+// ============================================================================
+// LIMITING REAGENT
+// ============================================================================
+
+/**
+ * Balances the reaction, finds the limiting reagent and the theoretical yields
+ *
+ * The reaction runs until the reactant with the fewest moles per coefficient
+ * is used up; every other amount follows from that extent.
+ */
+export function calculateLimitingReagent(
+  reactants: Array<{ formula: string; molarMass: number; grams: number }>,
+  products: Array<{ formula: string; molarMass: number }>
+): LimitingReagentResult {
+  if (reactants.some(r => !(r.grams > 0))) {
+    return { success: false, error: "Enter a positive mass for every reactant" };
+  }
+
+  const balance = balanceFormulas(
+    reactants.map(r => r.formula),
+    products.map(p => p.formula)
+  );
+  if (!balance.success || !balance.reactantCoefficients || !balance.productCoefficients) {
+    return { success: false, error: balance.error || "This reaction cannot be balanced" };
+  }
+
+  const reactantCoefficients = balance.reactantCoefficients;
+  const moles = reactants.map(r => r.grams / r.molarMass);
+  const extents = moles.map((n, i) => n / reactantCoefficients[i]);
+  const extent = Math.min(...extents);
+  const limitingIndex = extents.indexOf(extent);
+
+  return {
+    success: true,
+    limitingIndex,
+    reactants: reactants.map((r, i) => {
+      const consumedGrams = extent * reactantCoefficients[i] * r.molarMass;
+      return {
+        coefficient: reactantCoefficients[i],
+        moles: moles[i],
+        consumedGrams,
+        excessGrams: Math.max(0, r.grams - consumedGrams),
+      };
+    }),
+    products: products.map((p, i) => {
+      const productMoles = extent * balance.productCoefficients![i];
+      return {
+        coefficient: balance.productCoefficients![i],
+        moles: productMoles,
+        grams: productMoles * p.molarMass,
+      };
+    }),
+  };
+}